@@ -0,0 +1,218 @@
+import { INestApplication, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getMetadataArgsStorage } from 'typeorm';
+import axios, { AxiosInstance } from 'axios';
+import { MerchantController } from './merchant/merchant.controller';
+import { MerchantService } from './merchant/merchant.service';
+import { Merchant } from './merchant/entities/merchant.entity';
+import { PaymentController } from './payment/payment.controller';
+import { PaymentService } from './payment/payment.service';
+import { Payment } from './payment/entities/payment.entity';
+import { JupiterService } from './jupiter/jupiter.service';
+import { IdempotencyService } from './idempotency/idempotency.service';
+import { ApiKeyService } from './auth/api-key.service';
+import { AuthGuard } from './auth/auth.guard';
+import { SessionService } from './auth/session.service';
+import {
+  ApiKeyScope,
+  PUBLISHABLE_KEY_SCOPES,
+  SECRET_KEY_SCOPES,
+} from './auth/models/api-key.model';
+
+describe('Authentication and ownership (e2e)', () => {
+  let app: INestApplication;
+  let http: AxiosInstance;
+  let sessionService: SessionService;
+
+  const merchants: Record<string, Merchant> = {
+    'merchant-a': {
+      id: 'merchant-a',
+      name: 'Merchant A',
+      walletAddress: 'wallet-a',
+    } as Merchant,
+    'merchant-b': {
+      id: 'merchant-b',
+      name: 'Merchant B',
+      walletAddress: 'wallet-b',
+    } as Merchant,
+  };
+  const payments: Record<string, Payment> = {
+    'payment-a': { id: 'payment-a', merchantId: 'merchant-a' } as Payment,
+    'payment-b': { id: 'payment-b', merchantId: 'merchant-b' } as Payment,
+  };
+  const apiKeys: Record<string, { merchantId: string; scopes: ApiKeyScope[] }> =
+    {
+      'sk-a': { merchantId: 'merchant-a', scopes: SECRET_KEY_SCOPES },
+      'pk-a': { merchantId: 'merchant-a', scopes: PUBLISHABLE_KEY_SCOPES },
+    };
+
+  const apiKeyService = {
+    authenticate: jest.fn(async (key: string) => apiKeys[key] || null),
+  };
+  const merchantService = {
+    getMerchantById: jest.fn(async (id: string) => merchants[id]),
+    updateWebhook: jest.fn(async (id: string) => merchants[id]),
+  };
+  const paymentService = {
+    getPaymentById: jest.fn(async (id: string, merchantId?: string) => {
+      const payment = payments[id];
+      if (!payment || (merchantId && payment.merchantId !== merchantId)) {
+        throw new NotFoundException(`Payment with ID ${id} not found`);
+      }
+      return payment;
+    }),
+    listPayments: jest.fn(async (merchantId: string) => {
+      const data = Object.values(payments).filter(
+        (p) => p.merchantId === merchantId,
+      );
+      return { data, nextCursor: null, total: data.length };
+    }),
+    confirmPayment: jest.fn(async (id: string) => payments[id]),
+  };
+
+  const as = (key?: string) => ({
+    headers: key ? { 'x-api-key': key } : {},
+  });
+
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({
+      controllers: [MerchantController, PaymentController],
+      providers: [
+        AuthGuard,
+        SessionService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (_key: string, defaultValue?: string) => defaultValue,
+          },
+        },
+        { provide: ApiKeyService, useValue: apiKeyService },
+        { provide: MerchantService, useValue: merchantService },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: JupiterService, useValue: {} },
+        { provide: IdempotencyService, useValue: {} },
+      ],
+    }).compile();
+
+    sessionService = module.get(SessionService);
+    app = module.createNestApplication({ logger: false });
+    await app.listen(0);
+
+    http = axios.create({
+      baseURL: await app.getUrl(),
+      validateStatus: () => true,
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('rejects requests without an API key', async () => {
+    const responses = await Promise.all([
+      http.get('/merchants/merchant-a'),
+      http.get('/payments/payment-a'),
+      http.get('/payments/merchant/merchant-a'),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([
+      401, 401, 401,
+    ]);
+  });
+
+  it('rejects unknown API keys', async () => {
+    const response = await http.get('/merchants/merchant-a', as('sk-x'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('serves a merchant to its own secret key without the API key', async () => {
+    const response = await http.get('/merchants/merchant-a', as('sk-a'));
+
+    expect(response.status).toBe(200);
+    expect(response.data.id).toBe('merchant-a');
+    expect(response.data).not.toHaveProperty('apiKey');
+
+    const apiKeyColumn = getMetadataArgsStorage().columns.find(
+      (column) =>
+        column.target === Merchant && column.propertyName === 'apiKey',
+    );
+    expect(apiKeyColumn?.options.select).toBe(false);
+  });
+
+  it('denies access to another merchant', async () => {
+    const responses = await Promise.all([
+      http.get('/merchants/merchant-b', as('sk-a')),
+      http.put(
+        '/merchants/merchant-b/webhook',
+        { webhookUrl: 'https://attacker.example' },
+        as('sk-a'),
+      ),
+      http.get('/payments/merchant/merchant-b', as('sk-a')),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([
+      403, 403, 403,
+    ]);
+    expect(merchantService.getMerchantById).not.toHaveBeenCalled();
+    expect(merchantService.updateWebhook).not.toHaveBeenCalled();
+    expect(paymentService.listPayments).not.toHaveBeenCalled();
+  });
+
+  it('only lists the caller merchant', async () => {
+    const own = await http.get('/merchants', as('sk-a'));
+    const other = await http.get(
+      '/merchants?walletAddress=wallet-b',
+      as('sk-a'),
+    );
+
+    expect(own.data.map((merchant: Merchant) => merchant.id)).toEqual([
+      'merchant-a',
+    ]);
+    expect(other.data).toEqual([]);
+  });
+
+  it('hides payments of another merchant', async () => {
+    const read = await http.get('/payments/payment-b', as('pk-a'));
+    const confirm = await http.post(
+      '/payments/payment-b/confirm',
+      { transactionSignature: 'sig' },
+      as('pk-a'),
+    );
+
+    expect(read.status).toBe(404);
+    expect(confirm.status).toBe(404);
+    expect(paymentService.confirmPayment).not.toHaveBeenCalled();
+  });
+
+  it('lets publishable keys read their own payments only', async () => {
+    const read = await http.get('/payments/payment-a', as('pk-a'));
+    const list = await http.get('/payments/merchant/merchant-a', as('pk-a'));
+    const merchant = await http.get('/merchants/merchant-a', as('pk-a'));
+
+    expect(read.status).toBe(200);
+    expect(read.data.id).toBe('payment-a');
+    expect(list.status).toBe(403);
+    expect(merchant.status).toBe(403);
+  });
+
+  it('accepts wallet sign-in sessions for the signed in merchant only', async () => {
+    const { token } = sessionService.createSession('merchant-a', 'wallet-a');
+    const session = { headers: { authorization: `Bearer ${token}` } };
+
+    const own = await http.get('/merchants/merchant-a', session);
+    const other = await http.get('/payments/merchant/merchant-b', session);
+    const forged = await http.get('/merchants/merchant-a', {
+      headers: { authorization: `Bearer ${token}x` },
+    });
+
+    expect(own.status).toBe(200);
+    expect(other.status).toBe(403);
+    expect(forged.status).toBe(401);
+  });
+});
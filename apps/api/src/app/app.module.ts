@@ -8,8 +8,28 @@ import { MerchantModule } from './merchant/merchant.module';
 import { PaymentModule } from './payment/payment.module';
 import { WebsocketModule } from './websocket/websocket.module';
 import { JupiterModule } from './jupiter/jupiter.module';
+import { ConfirmationModule } from './confirmation/confirmation.module';
+import { ExpiryModule } from './expiry/expiry.module';
+import { WebhookModule } from './webhook/webhook.module';
+import { RefundModule } from './refund/refund.module';
+import { SolanaPayModule } from './solana-pay/solana-pay.module';
+import { InvoiceModule } from './invoice/invoice.module';
+import { PaymentLinkModule } from './payment-link/payment-link.module';
+import { SubscriptionModule } from './subscription/subscription.module';
 import { Merchant } from './merchant/entities/merchant.entity';
 import { Payment } from './payment/entities/payment.entity';
+import { PaymentLeg } from './payment/entities/payment-leg.entity';
+import { WebhookDelivery } from './webhook/entities/webhook-delivery.entity';
+import { Refund } from './refund/entities/refund.entity';
+import { IdempotencyKey } from './idempotency/entities/idempotency-key.entity';
+import { ApiKey } from './auth/entities/api-key.entity';
+import { AuthChallenge } from './auth/entities/auth-challenge.entity';
+import { Quote } from './quote/entities/quote.entity';
+import { Invoice } from './invoice/entities/invoice.entity';
+import { InvoiceLineItem } from './invoice/entities/invoice-line-item.entity';
+import { PaymentLink } from './payment-link/entities/payment-link.entity';
+import { SubscriptionPlan } from './subscription/entities/subscription-plan.entity';
+import { Subscription } from './subscription/entities/subscription.entity';
 
 @Module({
   imports: [
@@ -26,7 +46,22 @@ import { Payment } from './payment/entities/payment.entity';
         username: configService.get('DB_USERNAME', 'postgres'),
         password: configService.get('DB_PASSWORD', 'postgres'),
         database: configService.get('DB_DATABASE', 'cryptopayhub'),
-        entities: [Merchant, Payment],
+        entities: [
+          Merchant,
+          Payment,
+          PaymentLeg,
+          WebhookDelivery,
+          Refund,
+          IdempotencyKey,
+          ApiKey,
+          AuthChallenge,
+          Quote,
+          Invoice,
+          InvoiceLineItem,
+          PaymentLink,
+          SubscriptionPlan,
+          Subscription,
+        ],
         synchronize:
           configService.get('NODE_ENV', 'development') !== 'production',
         logging: configService.get('NODE_ENV', 'development') !== 'production',
@@ -38,6 +73,14 @@ import { Payment } from './payment/entities/payment.entity';
     PaymentModule,
     WebsocketModule,
     JupiterModule,
+    ConfirmationModule,
+    ExpiryModule,
+    WebhookModule,
+    RefundModule,
+    SolanaPayModule,
+    InvoiceModule,
+    PaymentLinkModule,
+    SubscriptionModule,
   ],
   controllers: [AppController],
   providers: [AppService],
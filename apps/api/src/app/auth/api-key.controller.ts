@@ -0,0 +1,64 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiKeyService } from './api-key.service';
+import { AuthGuard } from './auth.guard';
+import { OwnMerchant, Scopes } from './auth.decorators';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKey } from './entities/api-key.entity';
+import { ApiKeyScope, IssuedApiKey } from './models/api-key.model';
+
+@Controller('merchants/:merchantId/api-keys')
+@UseGuards(AuthGuard)
+@Scopes(ApiKeyScope.API_KEYS)
+@OwnMerchant()
+export class ApiKeyController {
+  private readonly logger = new Logger(ApiKeyController.name);
+
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Get()
+  async findAll(@Param('merchantId') merchantId: string): Promise<ApiKey[]> {
+    return this.apiKeyService.getApiKeys(merchantId);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @Param('merchantId') merchantId: string,
+    @Body() createApiKeyDto: CreateApiKeyDto,
+  ): Promise<IssuedApiKey> {
+    this.logger.log(
+      `Create ${createApiKeyDto.type} API key request for merchant ${merchantId}`,
+    );
+    return this.apiKeyService.createApiKey(merchantId, createApiKeyDto);
+  }
+
+  @Post(':id/rotate')
+  async rotate(
+    @Param('merchantId') merchantId: string,
+    @Param('id') id: string,
+    @Body('gracePeriodMinutes') gracePeriodMinutes: number | undefined,
+  ): Promise<IssuedApiKey> {
+    this.logger.log(`Rotate API key request: ${id}`);
+    return this.apiKeyService.rotateApiKey(merchantId, id, gracePeriodMinutes);
+  }
+
+  @Delete(':id')
+  async revoke(
+    @Param('merchantId') merchantId: string,
+    @Param('id') id: string,
+  ): Promise<ApiKey> {
+    this.logger.log(`Revoke API key request: ${id}`);
+    return this.apiKeyService.revokeApiKey(merchantId, id);
+  }
+}
@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { ApiKeyService } from './api-key.service';
+import { ApiKey } from './entities/api-key.entity';
+import { Merchant } from '../merchant/entities/merchant.entity';
+import {
+  ApiKeyScope,
+  ApiKeyType,
+  PUBLISHABLE_KEY_SCOPES,
+} from './models/api-key.model';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let keys: ApiKey[];
+
+  const matches = (key: ApiKey, where: Partial<ApiKey>) =>
+    Object.entries(where).every(
+      ([field, value]) => key[field as keyof ApiKey] === value,
+    );
+
+  const apiKeyRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+  const merchantRepository = { find: jest.fn(), update: jest.fn() };
+  const configService = {
+    get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    keys = [];
+    apiKeyRepository.create.mockImplementation((k) => ({ ...k }));
+    apiKeyRepository.save.mockImplementation(async (k) => {
+      if (!k.id) {
+        k.id = `key-${keys.length + 1}`;
+        keys.push(k);
+      }
+      return k;
+    });
+    apiKeyRepository.findOne.mockImplementation(async ({ where }) =>
+      keys.find((k) => matches(k, where)),
+    );
+    apiKeyRepository.update.mockImplementation(async (id, changes) =>
+      Object.assign(
+        keys.find((k) => k.id === id),
+        changes,
+      ),
+    );
+    merchantRepository.find.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        { provide: getRepositoryToken(ApiKey), useValue: apiKeyRepository },
+        { provide: getRepositoryToken(Merchant), useValue: merchantRepository },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeyService>(ApiKeyService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('stores only a hash of the key', async () => {
+    const { key } = await service.createApiKey('merchant-1', {
+      type: ApiKeyType.SECRET,
+    });
+
+    expect(key).toMatch(/^cpay_sk_/);
+    expect(keys[0].keyHash).toBe(
+      createHash('sha256').update(key).digest('hex'),
+    );
+    expect(JSON.stringify(keys[0])).not.toContain(key);
+  });
+
+  it('limits publishable keys to creating and reading payments', async () => {
+    const { apiKey } = await service.createApiKey('merchant-1', {
+      type: ApiKeyType.PUBLISHABLE,
+    });
+
+    expect(apiKey.scopes).toEqual(PUBLISHABLE_KEY_SCOPES);
+    await expect(
+      service.createApiKey('merchant-1', {
+        type: ApiKeyType.PUBLISHABLE,
+        scopes: [ApiKeyScope.PAYMENTS_LIST],
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('authenticates active keys and records when they were used', async () => {
+    const { key } = await service.createApiKey('merchant-1', {
+      type: ApiKeyType.SECRET,
+    });
+
+    const apiKey = await service.authenticate(key);
+
+    expect(apiKey?.merchantId).toBe('merchant-1');
+    expect(keys[0].lastUsedAt).toBeInstanceOf(Date);
+    expect(await service.authenticate('cpay_sk_unknown')).toBeNull();
+  });
+
+  it('rejects revoked keys', async () => {
+    const { key, apiKey } = await service.createApiKey('merchant-1', {
+      type: ApiKeyType.SECRET,
+    });
+
+    await service.revokeApiKey('merchant-1', apiKey.id);
+
+    expect(await service.authenticate(key)).toBeNull();
+  });
+
+  it('keeps a rotated key working until its grace period ends', async () => {
+    const { key: oldKey, apiKey } = await service.createApiKey('merchant-1', {
+      type: ApiKeyType.SECRET,
+      label: 'Backend',
+    });
+
+    const { key: newKey, apiKey: replacement } = await service.rotateApiKey(
+      'merchant-1',
+      apiKey.id,
+      60,
+    );
+
+    expect(replacement.label).toBe('Backend');
+    expect(await service.authenticate(newKey)).not.toBeNull();
+    expect(await service.authenticate(oldKey)).not.toBeNull();
+
+    keys[0].expiresAt = new Date(Date.now() - 1000);
+    expect(await service.authenticate(oldKey)).toBeNull();
+  });
+
+  it('imports legacy plaintext merchant keys as hashed secret keys', async () => {
+    merchantRepository.find.mockResolvedValue([
+      { id: 'merchant-1', apiKey: 'cpay_legacy' },
+    ]);
+
+    await service.onModuleInit();
+
+    expect(keys[0].type).toBe(ApiKeyType.SECRET);
+    expect(await service.authenticate('cpay_legacy')).not.toBeNull();
+    expect(merchantRepository.update).toHaveBeenCalledWith('merchant-1', {
+      apiKey: null,
+    });
+  });
+});
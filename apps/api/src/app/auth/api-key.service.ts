@@ -0,0 +1,307 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey } from './entities/api-key.entity';
+import { Merchant } from '../merchant/entities/merchant.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import {
+  ApiKeyScope,
+  ApiKeyType,
+  IssuedApiKey,
+  PUBLISHABLE_KEY_SCOPES,
+  SECRET_KEY_SCOPES,
+} from './models/api-key.model';
+
+// Avoid a database write on every request just to bump lastUsedAt
+const LAST_USED_RESOLUTION_MS = 60000;
+
+@Injectable()
+export class ApiKeyService implements OnModuleInit {
+  private readonly logger = new Logger(ApiKeyService.name);
+  private readonly rotationGraceMinutes: number;
+
+  constructor(
+    @InjectRepository(ApiKey)
+    private apiKeyRepository: Repository<ApiKey>,
+    @InjectRepository(Merchant)
+    private merchantRepository: Repository<Merchant>,
+    private readonly configService: ConfigService,
+  ) {
+    this.rotationGraceMinutes = parseInt(
+      this.configService.get('API_KEY_ROTATION_GRACE_MINUTES', '1440'),
+    );
+  }
+
+  async onModuleInit() {
+    try {
+      await this.importLegacyKeys();
+    } catch (error) {
+      this.logger.error(
+        `Failed to import legacy API keys: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Create a new API key for a merchant
+   */
+  async createApiKey(
+    merchantId: string,
+    createApiKeyDto: CreateApiKeyDto,
+  ): Promise<IssuedApiKey> {
+    const allowedScopes =
+      createApiKeyDto.type === ApiKeyType.PUBLISHABLE
+        ? PUBLISHABLE_KEY_SCOPES
+        : SECRET_KEY_SCOPES;
+    const scopes = createApiKeyDto.scopes || allowedScopes;
+
+    const disallowed = scopes.filter((scope) => !allowedScopes.includes(scope));
+    if (disallowed.length > 0) {
+      throw new BadRequestException(
+        `Scopes not allowed for ${createApiKeyDto.type} keys: ${disallowed.join(
+          ', ',
+        )}`,
+      );
+    }
+
+    const key = this.generateKey(createApiKeyDto.type);
+    const apiKey = await this.saveKey(
+      merchantId,
+      key,
+      createApiKeyDto.type,
+      [...new Set(scopes)],
+      createApiKeyDto.label || null,
+    );
+
+    this.logger.log(
+      `Created ${apiKey.type} API key ${apiKey.id} for merchant ${merchantId}`,
+    );
+    return { apiKey, key };
+  }
+
+  /**
+   * Issue the secret and publishable key every new merchant starts with
+   */
+  async issueDefaultKeys(
+    merchantId: string,
+  ): Promise<{ secret: IssuedApiKey; publishable: IssuedApiKey }> {
+    const secret = await this.createApiKey(merchantId, {
+      type: ApiKeyType.SECRET,
+      label: 'Default secret key',
+    });
+    const publishable = await this.createApiKey(merchantId, {
+      type: ApiKeyType.PUBLISHABLE,
+      label: 'Default publishable key',
+    });
+
+    return { secret, publishable };
+  }
+
+  /**
+   * Look up an active API key from its plaintext value
+   */
+  async authenticate(key: string): Promise<ApiKey | null> {
+    if (!key) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { keyHash: this.hash(key) },
+    });
+
+    if (!apiKey || !this.isActive(apiKey)) {
+      return null;
+    }
+
+    const now = new Date();
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+    ) {
+      apiKey.lastUsedAt = now;
+      await this.apiKeyRepository.update(apiKey.id, { lastUsedAt: now });
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * List a merchant's API keys, newest first
+   */
+  async getApiKeys(merchantId: string): Promise<ApiKey[]> {
+    return this.apiKeyRepository.find({
+      where: { merchantId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Revoke an API key immediately
+   */
+  async revokeApiKey(merchantId: string, id: string): Promise<ApiKey> {
+    const apiKey = await this.getApiKey(merchantId, id);
+
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await this.apiKeyRepository.save(apiKey);
+      this.logger.log(`Revoked API key ${id} for merchant ${merchantId}`);
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Replace an API key with a new one, the old key keeps working for the
+   * grace period so integrations can switch over without downtime
+   */
+  async rotateApiKey(
+    merchantId: string,
+    id: string,
+    gracePeriodMinutes: number = this.rotationGraceMinutes,
+  ): Promise<IssuedApiKey> {
+    if (!Number.isInteger(gracePeriodMinutes) || gracePeriodMinutes < 0) {
+      throw new BadRequestException(
+        'Grace period must be a non-negative number of minutes',
+      );
+    }
+
+    const apiKey = await this.getApiKey(merchantId, id);
+    if (!this.isActive(apiKey)) {
+      throw new BadRequestException('Only active API keys can be rotated');
+    }
+
+    const key = this.generateKey(apiKey.type);
+    const replacement = await this.saveKey(
+      merchantId,
+      key,
+      apiKey.type,
+      apiKey.scopes,
+      apiKey.label,
+    );
+
+    apiKey.expiresAt = new Date(Date.now() + gracePeriodMinutes * 60000);
+    await this.apiKeyRepository.save(apiKey);
+
+    this.logger.log(
+      `Rotated API key ${id} to ${replacement.id}, old key expires at ${apiKey.expiresAt.toISOString()}`,
+    );
+    return { apiKey: replacement, key };
+  }
+
+  /**
+   * Rotate the merchant's oldest secret key that isn't already being replaced
+   */
+  async rotateDefaultSecretKey(
+    merchantId: string,
+    gracePeriodMinutes?: number,
+  ): Promise<IssuedApiKey> {
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: {
+        merchantId,
+        type: ApiKeyType.SECRET,
+        expiresAt: IsNull(),
+        revokedAt: IsNull(),
+      },
+      order: { createdAt: 'ASC' },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException('Merchant has no active secret key');
+    }
+
+    return this.rotateApiKey(merchantId, apiKey.id, gracePeriodMinutes);
+  }
+
+  /**
+   * Get an API key belonging to a merchant
+   */
+  private async getApiKey(merchantId: string, id: string): Promise<ApiKey> {
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { id, merchantId },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException(`API key with ID ${id} not found`);
+    }
+
+    return apiKey;
+  }
+
+  private async saveKey(
+    merchantId: string,
+    key: string,
+    type: ApiKeyType,
+    scopes: ApiKeyScope[],
+    label: string | null,
+  ): Promise<ApiKey> {
+    const { id } = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        merchantId,
+        type,
+        label,
+        scopes,
+        keyHash: this.hash(key),
+        keyPrefix: key.slice(0, 12),
+        lastFour: key.slice(-4),
+        lastUsedAt: null,
+        expiresAt: null,
+        revokedAt: null,
+      }),
+    );
+
+    // Reload so the hash, which is never selected, isn't handed back
+    return this.getApiKey(merchantId, id);
+  }
+
+  /**
+   * Move keys from the old plaintext Merchant.apiKey column into hashed
+   * secret keys, so existing integrations keep working
+   */
+  private async importLegacyKeys(): Promise<void> {
+    const merchants = await this.merchantRepository.find({
+      select: { id: true, apiKey: true },
+      where: { apiKey: Not(IsNull()) },
+    });
+
+    for (const merchant of merchants) {
+      await this.saveKey(
+        merchant.id,
+        merchant.apiKey as string,
+        ApiKeyType.SECRET,
+        SECRET_KEY_SCOPES,
+        'Legacy key',
+      );
+      await this.merchantRepository.update(merchant.id, { apiKey: null });
+    }
+
+    if (merchants.length > 0) {
+      this.logger.log(`Imported ${merchants.length} legacy API keys`);
+    }
+  }
+
+  private isActive(apiKey: ApiKey): boolean {
+    if (apiKey.revokedAt) {
+      return false;
+    }
+
+    return !apiKey.expiresAt || apiKey.expiresAt.getTime() > Date.now();
+  }
+
+  private generateKey(type: ApiKeyType): string {
+    const prefix = type === ApiKeyType.PUBLISHABLE ? 'pk' : 'sk';
+    return `cpay_${prefix}_${randomBytes(24).toString('hex')}`;
+  }
+
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
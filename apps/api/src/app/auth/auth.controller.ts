@@ -1,19 +1,50 @@
 import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
 import { AuthService } from './auth.service';
+import { WalletAuthService } from './wallet-auth.service';
+import { CreateAuthChallengeDto } from './dto/create-auth-challenge.dto';
+import { VerifyAuthChallengeDto } from './dto/verify-auth-challenge.dto';
+import { ApiKeyScope, ApiKeyType } from './models/api-key.model';
+import { IssuedAuthChallenge, IssuedSession } from './models/session.model';
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly walletAuthService: WalletAuthService,
+  ) {}
+
+  @Post('challenge')
+  @HttpCode(HttpStatus.OK)
+  async createChallenge(
+    @Body() createAuthChallengeDto: CreateAuthChallengeDto,
+  ): Promise<IssuedAuthChallenge> {
+    return this.walletAuthService.createChallenge(createAuthChallengeDto);
+  }
+
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  async verifyChallenge(
+    @Body() verifyAuthChallengeDto: VerifyAuthChallengeDto,
+  ): Promise<IssuedSession> {
+    return this.walletAuthService.verifyChallenge(verifyAuthChallengeDto);
+  }
 
   @Post('validate-key')
   @HttpCode(HttpStatus.OK)
-  async validateKey(
-    @Body('apiKey') apiKey: string,
-  ): Promise<{ valid: boolean; merchantId?: string | null }> {
-    const isValid = await this.authService.validateApiKey(apiKey);
-    if (isValid) {
-      const merchantId = await this.authService.getMerchantIdFromApiKey(apiKey);
-      return { valid: true, merchantId };
+  async validateKey(@Body('apiKey') apiKey: string): Promise<{
+    valid: boolean;
+    merchantId?: string | null;
+    type?: ApiKeyType;
+    scopes?: ApiKeyScope[];
+  }> {
+    const key = await this.authService.validateApiKey(apiKey);
+    if (key) {
+      return {
+        valid: true,
+        merchantId: key.merchantId,
+        type: key.type,
+        scopes: key.scopes,
+      };
     }
     return { valid: false };
   }
@@ -0,0 +1,37 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+import { ApiKeyScope } from './models/api-key.model';
+
+export const SCOPES_KEY = 'scopes';
+export const OWN_MERCHANT_KEY = 'ownMerchant';
+
+/**
+ * Require the calling API key to hold every listed scope
+ */
+export const Scopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(SCOPES_KEY, scopes);
+
+/**
+ * Only allow API keys of the merchant whose ID is in the given route param
+ */
+export const OwnMerchant = (param = 'merchantId') =>
+  SetMetadata(OWN_MERCHANT_KEY, param);
+
+/**
+ * The ID of the merchant the authenticated API key belongs to
+ */
+export const AuthMerchantId = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): string =>
+    context.switchToHttp().getRequest().merchantId,
+);
+
+/**
+ * Every scope the authenticated API key or session holds
+ */
+export const AuthScopes = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): ApiKeyScope[] =>
+    context.switchToHttp().getRequest().scopes,
+);
@@ -1,30 +1,85 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common';
-import { AuthService } from './auth.service';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyService } from './api-key.service';
+import { SessionService } from './session.service';
+import { OWN_MERCHANT_KEY, SCOPES_KEY } from './auth.decorators';
+import { ApiKeyScope, SECRET_KEY_SCOPES } from './models/api-key.model';
 
+/**
+ * Authenticates requests with an x-api-key header or a wallet sign-in
+ * session token sent as "Authorization: Bearer <token>"
+ */
 @Injectable()
 export class AuthGuard implements CanActivate {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly apiKeyService: ApiKeyService,
+    private readonly sessionService: SessionService,
+    private readonly reflector: Reflector,
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
-    const apiKey = request.headers['x-api-key'];
+    const key = request.headers['x-api-key'];
+    const bearer = /^Bearer (.+)$/i.exec(request.headers.authorization || '');
 
-    if (!apiKey) {
+    let merchantId: string;
+    let scopes: ApiKeyScope[];
+
+    if (key) {
+      const apiKey = await this.apiKeyService.authenticate(key);
+      if (!apiKey) {
+        throw new UnauthorizedException('Invalid API key');
+      }
+
+      merchantId = apiKey.merchantId;
+      scopes = apiKey.scopes;
+      request.apiKey = apiKey;
+    } else if (bearer) {
+      const session = this.sessionService.verifySession(bearer[1]);
+      if (!session) {
+        throw new UnauthorizedException('Invalid or expired session');
+      }
+
+      // The wallet owner gets the same access as a secret key
+      merchantId = session.sub;
+      scopes = SECRET_KEY_SCOPES;
+      request.session = session;
+    } else {
       throw new UnauthorizedException('API key is missing');
     }
 
-    const isValid = await this.authService.validateApiKey(apiKey);
-    if (!isValid) {
-      throw new UnauthorizedException('Invalid API key');
+    const requiredScopes =
+      this.reflector.getAllAndOverride<ApiKeyScope[]>(SCOPES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) || [];
+    const missingScopes = requiredScopes.filter(
+      (scope) => !scopes.includes(scope),
+    );
+    if (missingScopes.length > 0) {
+      throw new ForbiddenException(
+        `API key is missing required scopes: ${missingScopes.join(', ')}`,
+      );
+    }
+
+    // Keys can only touch resources of their own merchant
+    const merchantParam = this.reflector.getAllAndOverride<string>(
+      OWN_MERCHANT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (merchantParam && request.params[merchantParam] !== merchantId) {
+      throw new ForbiddenException('API key does not belong to this merchant');
     }
 
-    // Add merchantId to request
-    request.merchantId = await this.authService.getMerchantIdFromApiKey(apiKey);
+    // Add merchantId and the granted scopes to request
+    request.merchantId = merchantId;
+    request.scopes = scopes;
     return true;
   }
 }
@@ -1,12 +1,26 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
-import { MerchantModule } from '../merchant/merchant.module';
+import { ApiKeyController } from './api-key.controller';
+import { AuthGuard } from './auth.guard';
+import { ApiKeyService } from './api-key.service';
+import { SessionService } from './session.service';
+import { WalletAuthService } from './wallet-auth.service';
+import { ApiKey } from './entities/api-key.entity';
+import { AuthChallenge } from './entities/auth-challenge.entity';
+import { Merchant } from '../merchant/entities/merchant.entity';
 
 @Module({
-  imports: [MerchantModule],
-  providers: [AuthService],
-  controllers: [AuthController],
-  exports: [AuthService],
+  imports: [TypeOrmModule.forFeature([ApiKey, AuthChallenge, Merchant])],
+  providers: [
+    AuthService,
+    ApiKeyService,
+    SessionService,
+    WalletAuthService,
+    AuthGuard,
+  ],
+  controllers: [AuthController, ApiKeyController],
+  exports: [AuthService, ApiKeyService, SessionService, AuthGuard],
 })
 export class AuthModule {}
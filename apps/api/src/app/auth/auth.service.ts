@@ -1,23 +1,23 @@
 import { Injectable } from '@nestjs/common';
-import { MerchantService } from '../merchant/merchant.service';
+import { ApiKeyService } from './api-key.service';
+import { ApiKey } from './entities/api-key.entity';
 
 @Injectable()
 export class AuthService {
-  constructor(private readonly merchantService: MerchantService) {}
+  constructor(private readonly apiKeyService: ApiKeyService) {}
 
   /**
    * Validate API key
    */
-  async validateApiKey(apiKey: string): Promise<boolean> {
-    const merchant = await this.merchantService.getMerchantByApiKey(apiKey);
-    return !!merchant;
+  async validateApiKey(apiKey: string): Promise<ApiKey | null> {
+    return this.apiKeyService.authenticate(apiKey);
   }
 
   /**
    * Get merchant ID from API key
    */
   async getMerchantIdFromApiKey(apiKey: string): Promise<string | null> {
-    const merchant = await this.merchantService.getMerchantByApiKey(apiKey);
-    return merchant ? merchant.id : null;
+    const key = await this.apiKeyService.authenticate(apiKey);
+    return key ? key.merchantId : null;
   }
 }
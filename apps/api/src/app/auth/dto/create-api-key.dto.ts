@@ -0,0 +1,25 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiKeyScope, ApiKeyType } from '../models/api-key.model';
+
+export class CreateApiKeyDto {
+  @IsEnum(ApiKeyType)
+  type: ApiKeyType;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes?: ApiKeyScope[]; // Defaults to every scope the key type allows
+}
@@ -0,0 +1,19 @@
+import { IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+
+export class VerifyAuthChallengeDto {
+  @IsString()
+  @IsNotEmpty()
+  walletAddress: string;
+
+  @IsString()
+  @IsNotEmpty()
+  nonce: string;
+
+  @IsString()
+  @IsNotEmpty()
+  signature: string; // Base64 ed25519 signature of the challenge message
+
+  @IsOptional()
+  @IsUUID()
+  merchantId?: string; // Defaults to the wallet's oldest merchant
+}
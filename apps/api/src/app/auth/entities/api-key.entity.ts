@@ -0,0 +1,62 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Merchant } from '../../merchant/entities/merchant.entity';
+import { ApiKeyScope, ApiKeyType } from '../models/api-key.model';
+
+@Entity('api_keys')
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  merchantId: string;
+
+  @ManyToOne(() => Merchant)
+  @JoinColumn({ name: 'merchantId' })
+  merchant: Merchant;
+
+  @Column({ type: 'enum', enum: ApiKeyType })
+  type: ApiKeyType;
+
+  @Column({ type: 'varchar', nullable: true })
+  label: string | null;
+
+  // SHA-256 of the key, the plaintext is never stored
+  @Column({ unique: true, select: false })
+  keyHash: string;
+
+  // Start and end of the key so merchants can tell keys apart
+  @Column()
+  keyPrefix: string;
+
+  @Column()
+  lastFour: string;
+
+  @Column('simple-array')
+  scopes: ApiKeyScope[];
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  // Set when the key was rotated, it keeps working until then
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
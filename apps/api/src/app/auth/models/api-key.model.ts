@@ -0,0 +1,38 @@
+import { ApiKey } from '../entities/api-key.entity';
+
+export enum ApiKeyType {
+  PUBLISHABLE = 'publishable', // Safe to embed in browser code
+  SECRET = 'secret', // Server-side only
+}
+
+export enum ApiKeyScope {
+  PAYMENTS_CREATE = 'payments:create',
+  PAYMENTS_READ = 'payments:read',
+  PAYMENTS_LIST = 'payments:list',
+  PAYMENTS_SPLIT = 'payments:split', // Pay other wallets than the merchant's
+  REFUNDS_WRITE = 'refunds:write',
+  REFUNDS_READ = 'refunds:read',
+  INVOICES_WRITE = 'invoices:write',
+  INVOICES_READ = 'invoices:read',
+  PAYMENT_LINKS_WRITE = 'payment_links:write',
+  PAYMENT_LINKS_READ = 'payment_links:read',
+  SUBSCRIPTIONS_WRITE = 'subscriptions:write',
+  SUBSCRIPTIONS_READ = 'subscriptions:read',
+  WEBHOOKS = 'webhooks',
+  MERCHANT_READ = 'merchant:read',
+  MERCHANT_WRITE = 'merchant:write',
+  API_KEYS = 'api_keys',
+}
+
+// Publishable keys can never hold more than this
+export const PUBLISHABLE_KEY_SCOPES: ApiKeyScope[] = [
+  ApiKeyScope.PAYMENTS_CREATE,
+  ApiKeyScope.PAYMENTS_READ,
+];
+
+export const SECRET_KEY_SCOPES: ApiKeyScope[] = Object.values(ApiKeyScope);
+
+export interface IssuedApiKey {
+  apiKey: ApiKey;
+  key: string; // Plaintext key, only ever returned once
+}
@@ -0,0 +1,21 @@
+import { Merchant } from '../../merchant/entities/merchant.entity';
+
+export interface SessionPayload {
+  sub: string; // Merchant ID
+  wallet: string; // Wallet that signed in
+  iat: number;
+  exp: number;
+}
+
+export interface IssuedAuthChallenge {
+  nonce: string;
+  message: string; // Exact text the wallet has to sign
+  expiresAt: Date;
+}
+
+export interface IssuedSession {
+  token: string; // Send as "Authorization: Bearer <token>"
+  expiresAt: Date;
+  merchantId: string;
+  merchants: Merchant[]; // Every merchant the wallet owns
+}
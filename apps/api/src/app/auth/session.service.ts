@@ -0,0 +1,100 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { SessionPayload } from './models/session.model';
+
+const JWT_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+/**
+ * Issues and checks the short-lived HS256 JWTs used by wallet sign-in
+ */
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+  private readonly secret: string;
+  private readonly ttlMinutes: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.ttlMinutes = parseInt(
+      this.configService.get('AUTH_SESSION_TTL_MINUTES', '60'),
+    );
+
+    const secret = this.configService.get<string>('AUTH_SESSION_SECRET');
+    if (!secret) {
+      this.logger.warn(
+        'AUTH_SESSION_SECRET is not set, sessions will not survive a restart',
+      );
+    }
+    this.secret = secret || randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Issue a session token for a merchant
+   */
+  createSession(
+    merchantId: string,
+    walletAddress: string,
+  ): { token: string; expiresAt: Date } {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const payload: SessionPayload = {
+      sub: merchantId,
+      wallet: walletAddress,
+      iat: issuedAt,
+      exp: issuedAt + this.ttlMinutes * 60,
+    };
+
+    const unsigned = `${this.encode(JWT_HEADER)}.${this.encode(payload)}`;
+    return {
+      token: `${unsigned}.${this.sign(unsigned)}`,
+      expiresAt: new Date(payload.exp * 1000),
+    };
+  }
+
+  /**
+   * Get the payload of a valid, unexpired session token
+   */
+  verifySession(token: string): SessionPayload | null {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return null;
+    }
+
+    const [header, payload, signature] = parts;
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    try {
+      const { alg } = this.decode(header);
+      const session = this.decode(payload) as SessionPayload;
+
+      if (alg !== JWT_HEADER.alg || typeof session.sub !== 'string') {
+        return null;
+      }
+      if (!(session.exp > Date.now() / 1000)) {
+        return null;
+      }
+
+      return session;
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(data: string): string {
+    return createHmac('sha256', this.secret).update(data).digest('base64url');
+  }
+
+  private encode(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+
+  private decode(value: string) {
+    return JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  }
+}
@@ -0,0 +1,195 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createPrivateKey, sign } from 'crypto';
+import { Keypair } from '@solana/web3.js';
+import { WalletAuthService } from './wallet-auth.service';
+import { SessionService } from './session.service';
+import { AuthChallenge } from './entities/auth-challenge.entity';
+import { Merchant } from '../merchant/entities/merchant.entity';
+
+// DER prefix that turns a raw 32 byte ed25519 seed into a PKCS#8 private key
+const ED25519_PKCS8_PREFIX = Buffer.from(
+  '302e020100300506032b657004220420',
+  'hex',
+);
+
+describe('WalletAuthService', () => {
+  let service: WalletAuthService;
+  let sessionService: SessionService;
+  let challenges: AuthChallenge[];
+
+  const wallet = Keypair.generate();
+  const walletAddress = wallet.publicKey.toBase58();
+
+  const signMessage = (keypair: Keypair, message: string) =>
+    sign(
+      null,
+      Buffer.from(message),
+      createPrivateKey({
+        key: Buffer.concat([
+          ED25519_PKCS8_PREFIX,
+          Buffer.from(keypair.secretKey.slice(0, 32)),
+        ]),
+        format: 'der',
+        type: 'pkcs8',
+      }),
+    ).toString('base64');
+
+  const challengeRepository = {
+    create: jest.fn((challenge) => ({ id: 'challenge-1', ...challenge })),
+    save: jest.fn(async (challenge) => {
+      challenges.push(challenge);
+      return challenge;
+    }),
+    findOne: jest.fn(async ({ where }) =>
+      challenges.find(
+        (challenge) =>
+          challenge.nonce === where.nonce &&
+          challenge.walletAddress === where.walletAddress,
+      ),
+    ),
+    delete: jest.fn(async (criteria) => {
+      if (typeof criteria !== 'string') {
+        return { affected: 0 };
+      }
+      const count = challenges.length;
+      challenges = challenges.filter((challenge) => challenge.id !== criteria);
+      return { affected: count - challenges.length };
+    }),
+  };
+  const merchantRepository = {
+    find: jest.fn(async () => [
+      { id: 'merchant-1', walletAddress } as Merchant,
+      { id: 'merchant-2', walletAddress } as Merchant,
+    ]),
+  };
+  const configService = {
+    get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    challenges = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletAuthService,
+        SessionService,
+        {
+          provide: getRepositoryToken(AuthChallenge),
+          useValue: challengeRepository,
+        },
+        { provide: getRepositoryToken(Merchant), useValue: merchantRepository },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<WalletAuthService>(WalletAuthService);
+    sessionService = module.get<SessionService>(SessionService);
+  });
+
+  it('issues a sign-in message for the wallet', async () => {
+    const challenge = await service.createChallenge({ walletAddress });
+
+    expect(challenge.message).toContain(walletAddress);
+    expect(challenge.message).toContain(`Nonce: ${challenge.nonce}`);
+  });
+
+  it('rejects invalid wallet addresses', async () => {
+    await expect(
+      service.createChallenge({ walletAddress: 'not-a-wallet' }),
+    ).rejects.toThrow('Invalid wallet address');
+  });
+
+  it('starts a session for a correctly signed challenge', async () => {
+    const { nonce, message } = await service.createChallenge({
+      walletAddress,
+    });
+
+    const session = await service.verifyChallenge({
+      walletAddress,
+      nonce,
+      signature: signMessage(wallet, message),
+    });
+
+    expect(session.merchantId).toBe('merchant-1');
+    expect(session.merchants).toHaveLength(2);
+    expect(sessionService.verifySession(session.token)).toEqual(
+      expect.objectContaining({ sub: 'merchant-1', wallet: walletAddress }),
+    );
+  });
+
+  it('lets the wallet pick one of its merchants', async () => {
+    const { nonce, message } = await service.createChallenge({
+      walletAddress,
+    });
+
+    const session = await service.verifyChallenge({
+      walletAddress,
+      nonce,
+      signature: signMessage(wallet, message),
+      merchantId: 'merchant-2',
+    });
+
+    expect(session.merchantId).toBe('merchant-2');
+  });
+
+  it('rejects signatures from another wallet', async () => {
+    const { nonce, message } = await service.createChallenge({
+      walletAddress,
+    });
+
+    await expect(
+      service.verifyChallenge({
+        walletAddress,
+        nonce,
+        signature: signMessage(Keypair.generate(), message),
+      }),
+    ).rejects.toThrow('Invalid signature');
+  });
+
+  it('only accepts a challenge once', async () => {
+    const { nonce, message } = await service.createChallenge({
+      walletAddress,
+    });
+    const request = {
+      walletAddress,
+      nonce,
+      signature: signMessage(wallet, message),
+    };
+
+    await service.verifyChallenge(request);
+
+    await expect(service.verifyChallenge(request)).rejects.toThrow(
+      'Unknown sign-in challenge',
+    );
+  });
+
+  it('rejects expired challenges', async () => {
+    const { nonce, message } = await service.createChallenge({
+      walletAddress,
+    });
+    challenges[0].expiresAt = new Date(Date.now() - 1000);
+
+    await expect(
+      service.verifyChallenge({
+        walletAddress,
+        nonce,
+        signature: signMessage(wallet, message),
+      }),
+    ).rejects.toThrow('Sign-in challenge has expired');
+  });
+
+  it('rejects tampered session tokens', () => {
+    const { token } = sessionService.createSession('merchant-1', walletAddress);
+    const [header, , signature] = token.split('.');
+    const payload = Buffer.from(
+      JSON.stringify({ sub: 'merchant-2', exp: Date.now() }),
+    ).toString('base64url');
+
+    expect(
+      sessionService.verifySession(`${header}.${payload}.${signature}`),
+    ).toBeNull();
+  });
+});
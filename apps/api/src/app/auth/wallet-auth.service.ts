@@ -0,0 +1,201 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { createPublicKey, randomBytes, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { AuthChallenge } from './entities/auth-challenge.entity';
+import { Merchant } from '../merchant/entities/merchant.entity';
+import { SessionService } from './session.service';
+import { CreateAuthChallengeDto } from './dto/create-auth-challenge.dto';
+import { VerifyAuthChallengeDto } from './dto/verify-auth-challenge.dto';
+import { IssuedAuthChallenge, IssuedSession } from './models/session.model';
+
+// DER prefix that turns a raw 32 byte ed25519 key into an SPKI public key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Sign-In-With-Solana: merchants prove they own their wallet by signing a
+ * one-time challenge message, and get a session token in return
+ */
+@Injectable()
+export class WalletAuthService {
+  private readonly logger = new Logger(WalletAuthService.name);
+  private readonly challengeTtlMinutes: number;
+  private readonly dashboardUrl: URL;
+
+  constructor(
+    @InjectRepository(AuthChallenge)
+    private challengeRepository: Repository<AuthChallenge>,
+    @InjectRepository(Merchant)
+    private merchantRepository: Repository<Merchant>,
+    private readonly sessionService: SessionService,
+    private readonly configService: ConfigService,
+  ) {
+    this.challengeTtlMinutes = parseInt(
+      this.configService.get('AUTH_CHALLENGE_TTL_MINUTES', '5'),
+    );
+    this.dashboardUrl = new URL(
+      this.configService.get('DASHBOARD_URL', 'http://localhost:4200'),
+    );
+  }
+
+  /**
+   * Issue a one-time sign-in message for a wallet
+   */
+  async createChallenge(
+    createAuthChallengeDto: CreateAuthChallengeDto,
+  ): Promise<IssuedAuthChallenge> {
+    const walletAddress = this.parseWallet(
+      createAuthChallengeDto.walletAddress,
+    ).toBase58();
+
+    // Challenges are single use, so drop any that can no longer be used
+    await this.challengeRepository.delete({ expiresAt: LessThan(new Date()) });
+
+    const nonce = randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(
+      issuedAt.getTime() + this.challengeTtlMinutes * 60000,
+    );
+    const message = this.buildMessage(
+      walletAddress,
+      nonce,
+      issuedAt,
+      expiresAt,
+    );
+
+    await this.challengeRepository.save(
+      this.challengeRepository.create({
+        walletAddress,
+        nonce,
+        message,
+        expiresAt,
+      }),
+    );
+
+    return { nonce, message, expiresAt };
+  }
+
+  /**
+   * Check the signed challenge and start a session for one of the wallet's
+   * merchants
+   */
+  async verifyChallenge(
+    verifyAuthChallengeDto: VerifyAuthChallengeDto,
+  ): Promise<IssuedSession> {
+    const wallet = this.parseWallet(verifyAuthChallengeDto.walletAddress);
+    const walletAddress = wallet.toBase58();
+
+    const challenge = await this.challengeRepository.findOne({
+      where: { nonce: verifyAuthChallengeDto.nonce, walletAddress },
+    });
+    if (!challenge) {
+      throw new UnauthorizedException('Unknown sign-in challenge');
+    }
+
+    // Claim the challenge before checking it so it can never be used twice
+    const { affected } = await this.challengeRepository.delete(challenge.id);
+    if (!affected) {
+      throw new UnauthorizedException('Sign-in challenge was already used');
+    }
+    if (challenge.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Sign-in challenge has expired');
+    }
+
+    if (
+      !this.verifySignature(
+        wallet,
+        challenge.message,
+        verifyAuthChallengeDto.signature,
+      )
+    ) {
+      throw new UnauthorizedException('Invalid signature');
+    }
+
+    const merchants = await this.merchantRepository.find({
+      where: { walletAddress },
+      order: { createdAt: 'ASC' },
+    });
+    if (merchants.length === 0) {
+      throw new UnauthorizedException(
+        'No merchant is registered with this wallet',
+      );
+    }
+
+    const merchantId = verifyAuthChallengeDto.merchantId || merchants[0].id;
+    if (!merchants.some((merchant) => merchant.id === merchantId)) {
+      throw new ForbiddenException('Wallet does not own this merchant');
+    }
+
+    const session = this.sessionService.createSession(
+      merchantId,
+      walletAddress,
+    );
+    this.logger.log(
+      `Wallet ${walletAddress} signed in to merchant ${merchantId}`,
+    );
+
+    return { ...session, merchantId, merchants };
+  }
+
+  private parseWallet(walletAddress: string): PublicKey {
+    try {
+      return new PublicKey(walletAddress);
+    } catch {
+      throw new BadRequestException('Invalid wallet address');
+    }
+  }
+
+  private verifySignature(
+    wallet: PublicKey,
+    message: string,
+    signature: string,
+  ): boolean {
+    const publicKey = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, wallet.toBuffer()]),
+      format: 'der',
+      type: 'spki',
+    });
+
+    try {
+      return verify(
+        null,
+        Buffer.from(message, 'utf8'),
+        publicKey,
+        Buffer.from(signature, 'base64'),
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Build the challenge in the Sign-In-With-Solana message format
+   */
+  private buildMessage(
+    walletAddress: string,
+    nonce: string,
+    issuedAt: Date,
+    expiresAt: Date,
+  ): string {
+    return [
+      `${this.dashboardUrl.host} wants you to sign in with your Solana account:`,
+      walletAddress,
+      '',
+      'Sign in to the Payso merchant dashboard.',
+      '',
+      `URI: ${this.dashboardUrl.origin}`,
+      'Version: 1',
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`,
+      `Expiration Time: ${expiresAt.toISOString()}`,
+    ].join('\n');
+  }
+}
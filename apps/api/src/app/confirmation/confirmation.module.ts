@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfirmationService } from './confirmation.service';
+import { Payment } from '../payment/entities/payment.entity';
+import { PaymentModule } from '../payment/payment.module';
+import { SolanaModule } from '../solana/solana.module';
+import { VerificationModule } from '../verification/verification.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Payment]),
+    PaymentModule,
+    SolanaModule,
+    VerificationModule,
+  ],
+  providers: [ConfirmationService],
+})
+export class ConfirmationModule {}
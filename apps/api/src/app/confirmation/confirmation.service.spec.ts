@@ -0,0 +1,243 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Keypair } from '@solana/web3.js';
+import { ConfirmationService } from './confirmation.service';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { PaymentService } from '../payment/payment.service';
+import { VerificationService } from '../verification/verification.service';
+import { SOLANA_CONNECTION } from '../solana/solana.constants';
+import { VerificationFailureReason } from '../verification/models/verification-result.model';
+
+describe('ConfirmationService', () => {
+  let service: ConfirmationService;
+  let payment: Payment;
+  let referencedPayments: Payment[];
+
+  const paymentRepository = { find: jest.fn() };
+  const paymentService = {
+    confirmPayment: jest.fn(),
+    failPayment: jest.fn(),
+    updateConfirmationStatus: jest.fn(),
+    attachReferencedTransaction: jest.fn(),
+  };
+  const verificationService = { verifyPaymentTransaction: jest.fn() };
+  const connection = {
+    getSignatureStatuses: jest.fn(),
+    getSignaturesForAddress: jest.fn(),
+  };
+  const configService = {
+    get: jest.fn((key: string, defaultValue?: string) =>
+      key === 'CONFIRMATION_TIMEOUT_MS' ? '60000' : defaultValue,
+    ),
+  };
+
+  const mockStatus = (status: unknown) =>
+    connection.getSignatureStatuses.mockResolvedValue({
+      context: { slot: 100 },
+      value: [status],
+    });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    payment = {
+      id: 'payment-1',
+      status: PaymentStatus.PROCESSING,
+      transactionSignature: 'sig',
+      confirmationStatus: null,
+      submittedAt: new Date(),
+    } as Payment;
+    referencedPayments = [];
+    paymentRepository.find.mockImplementation(async ({ where }) =>
+      where[0].reference ? referencedPayments : [payment],
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConfirmationService,
+        { provide: getRepositoryToken(Payment), useValue: paymentRepository },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: VerificationService, useValue: verificationService },
+        { provide: ConfigService, useValue: configService },
+        { provide: SOLANA_CONNECTION, useValue: connection },
+      ],
+    }).compile();
+
+    service = module.get<ConfirmationService>(ConfirmationService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('attaches transactions found by the payment reference key', async () => {
+    referencedPayments = [
+      {
+        id: 'payment-2',
+        status: PaymentStatus.PENDING,
+        reference: Keypair.generate().publicKey.toBase58(),
+      } as Payment,
+    ];
+    connection.getSignaturesForAddress.mockResolvedValue([
+      { signature: 'failed-sig', err: { InstructionError: [0, 'Custom'] } },
+      { signature: 'spam-sig', err: null },
+      { signature: 'ref-sig', err: null },
+    ]);
+    verificationService.verifyPaymentTransaction.mockImplementation(
+      async (_payment, signature) => ({ verified: signature === 'ref-sig' }),
+    );
+    mockStatus(null);
+
+    await service.poll();
+
+    expect(
+      verificationService.verifyPaymentTransaction,
+    ).not.toHaveBeenCalledWith(expect.anything(), 'failed-sig');
+    expect(paymentService.attachReferencedTransaction).toHaveBeenCalledTimes(1);
+    expect(paymentService.attachReferencedTransaction).toHaveBeenCalledWith(
+      'payment-2',
+      'ref-sig',
+    );
+  });
+
+  it('ignores referenced transactions that do not pay the payment', async () => {
+    referencedPayments = [
+      {
+        id: 'payment-2',
+        status: PaymentStatus.PENDING,
+        reference: Keypair.generate().publicKey.toBase58(),
+      } as Payment,
+    ];
+    connection.getSignaturesForAddress.mockResolvedValue([
+      { signature: 'spam-sig', err: null },
+    ]);
+    verificationService.verifyPaymentTransaction.mockResolvedValue({
+      verified: false,
+      reason: VerificationFailureReason.INSUFFICIENT_AMOUNT,
+    });
+    mockStatus(null);
+
+    await service.poll();
+
+    expect(paymentService.attachReferencedTransaction).not.toHaveBeenCalled();
+    expect(paymentService.failPayment).not.toHaveBeenCalled();
+  });
+
+  it('records intermediate commitment levels without completing', async () => {
+    mockStatus({
+      slot: 90,
+      confirmations: 0,
+      err: null,
+      confirmationStatus: 'processed',
+    });
+
+    await service.poll();
+
+    expect(paymentService.updateConfirmationStatus).toHaveBeenCalledWith(
+      'payment-1',
+      'processed',
+      90,
+    );
+    expect(paymentService.confirmPayment).not.toHaveBeenCalled();
+  });
+
+  it('completes the payment once the transaction is confirmed', async () => {
+    mockStatus({
+      slot: 91,
+      confirmations: 1,
+      err: null,
+      confirmationStatus: 'confirmed',
+    });
+
+    await service.poll();
+
+    expect(paymentService.updateConfirmationStatus).toHaveBeenCalledWith(
+      'payment-1',
+      'confirmed',
+      91,
+    );
+    expect(paymentService.confirmPayment).toHaveBeenCalledWith(
+      'payment-1',
+      'sig',
+    );
+  });
+
+  it('only tracks finality for payments that are already completed', async () => {
+    payment.status = PaymentStatus.COMPLETED;
+    payment.confirmationStatus = 'confirmed';
+    mockStatus({
+      slot: 92,
+      confirmations: null,
+      err: null,
+      confirmationStatus: 'finalized',
+    });
+
+    await service.poll();
+
+    expect(paymentService.updateConfirmationStatus).toHaveBeenCalledWith(
+      'payment-1',
+      'finalized',
+      92,
+    );
+    expect(paymentService.confirmPayment).not.toHaveBeenCalled();
+  });
+
+  it('fails transactions that errored on-chain', async () => {
+    mockStatus({
+      slot: 93,
+      confirmations: 1,
+      err: { InstructionError: [0, 'Custom'] },
+      confirmationStatus: 'confirmed',
+    });
+
+    await service.poll();
+
+    expect(paymentService.failPayment).toHaveBeenCalledWith(
+      'payment-1',
+      expect.any(String),
+      VerificationFailureReason.TRANSACTION_FAILED,
+    );
+  });
+
+  it('waits for unseen transactions until the timeout elapses', async () => {
+    mockStatus(null);
+
+    await service.poll();
+
+    expect(paymentService.failPayment).not.toHaveBeenCalled();
+  });
+
+  it('fails unseen transactions once their blockhash has expired', async () => {
+    payment.submittedAt = new Date(Date.now() - 61000);
+    mockStatus(null);
+
+    await service.poll();
+
+    expect(paymentService.failPayment).toHaveBeenCalledWith(
+      'payment-1',
+      expect.any(String),
+      VerificationFailureReason.TRANSACTION_EXPIRED,
+    );
+  });
+
+  it('fails transactions stuck at processed once the timeout elapses', async () => {
+    payment.submittedAt = new Date(Date.now() - 61000);
+    payment.confirmationStatus = 'processed';
+    mockStatus({
+      slot: 94,
+      confirmations: 0,
+      err: null,
+      confirmationStatus: 'processed',
+    });
+
+    await service.poll();
+
+    expect(paymentService.confirmPayment).not.toHaveBeenCalled();
+    expect(paymentService.failPayment).toHaveBeenCalledWith(
+      'payment-1',
+      expect.any(String),
+      VerificationFailureReason.TRANSACTION_EXPIRED,
+    );
+  });
+});
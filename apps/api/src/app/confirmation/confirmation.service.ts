@@ -0,0 +1,313 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, MoreThan, Not, Repository } from 'typeorm';
+import {
+  Connection,
+  PublicKey,
+  SignatureStatus,
+  TransactionConfirmationStatus,
+} from '@solana/web3.js';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { PaymentService } from '../payment/payment.service';
+import { SOLANA_CONNECTION } from '../solana/solana.constants';
+import { VerificationService } from '../verification/verification.service';
+import { VerificationFailureReason } from '../verification/models/verification-result.model';
+
+// Commitment levels in the order a transaction reaches them
+const COMMITMENT_LEVELS: TransactionConfirmationStatus[] = [
+  'processed',
+  'confirmed',
+  'finalized',
+];
+
+@Injectable()
+export class ConfirmationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ConfirmationService.name);
+  private readonly pollIntervalMs: number;
+  private readonly timeoutMs: number;
+  private readonly batchSize: number;
+  private readonly completionCommitment: TransactionConfirmationStatus;
+  private timer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+
+  constructor(
+    @InjectRepository(Payment)
+    private paymentRepository: Repository<Payment>,
+    private readonly paymentService: PaymentService,
+    private readonly verificationService: VerificationService,
+    private readonly configService: ConfigService,
+    @Inject(SOLANA_CONNECTION)
+    private readonly connection: Connection,
+  ) {
+    this.pollIntervalMs = parseInt(
+      this.configService.get('CONFIRMATION_POLL_INTERVAL_MS', '5000'),
+    );
+    this.timeoutMs = parseInt(
+      this.configService.get('CONFIRMATION_TIMEOUT_MS', '90000'),
+    );
+    this.batchSize = parseInt(
+      this.configService.get('CONFIRMATION_BATCH_SIZE', '100'),
+    );
+    this.completionCommitment =
+      this.configService.get<TransactionConfirmationStatus>(
+        'CONFIRMATION_COMMITMENT',
+        'confirmed',
+      );
+  }
+
+  onModuleInit() {
+    if (
+      this.configService.get('CONFIRMATION_WORKER_ENABLED', 'true') !== 'true'
+    ) {
+      this.logger.log('Confirmation worker disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.logger.log(
+      `Confirmation worker started, polling every ${this.pollIntervalMs}ms`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Poll the signature status of every transaction that is not yet final
+   */
+  async poll(): Promise<void> {
+    // Skip this tick if the previous one is still running
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+
+    try {
+      await this.findReferencedTransactions();
+
+      const payments = await this.paymentRepository.find({
+        where: [
+          {
+            status: PaymentStatus.PROCESSING,
+            transactionSignature: Not(IsNull()),
+          },
+          {
+            status: PaymentStatus.COMPLETED,
+            transactionSignature: Not(IsNull()),
+            confirmationStatus: IsNull(),
+          },
+          {
+            status: PaymentStatus.COMPLETED,
+            transactionSignature: Not(IsNull()),
+            confirmationStatus: In(['processed', 'confirmed']),
+          },
+        ],
+        order: { updatedAt: 'ASC' },
+        take: this.batchSize,
+      });
+
+      if (payments.length === 0) {
+        return;
+      }
+
+      const { value: statuses } = await this.connection.getSignatureStatuses(
+        payments.map((payment) => payment.transactionSignature),
+        { searchTransactionHistory: true },
+      );
+
+      for (let i = 0; i < payments.length; i++) {
+        try {
+          await this.processSignatureStatus(payments[i], statuses[i]);
+        } catch (error) {
+          this.logger.error(
+            `Failed to process transaction for payment ${payments[i].id}: ${error.message}`,
+            error.stack,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to poll transaction statuses: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Look up transactions sent through Solana Pay by the payment's reference
+   * key, since those wallets never report a signature to us
+   */
+  private async findReferencedTransactions(): Promise<void> {
+    const payments = await this.paymentRepository.find({
+      where: [
+        {
+          status: PaymentStatus.PENDING,
+          reference: Not(IsNull()),
+          transactionSignature: IsNull(),
+          expiresAt: MoreThan(new Date()),
+        },
+        {
+          status: PaymentStatus.PROCESSING,
+          reference: Not(IsNull()),
+          transactionSignature: IsNull(),
+        },
+      ],
+      order: { updatedAt: 'DESC' },
+      take: this.batchSize,
+    });
+
+    for (const payment of payments) {
+      try {
+        const signatures = await this.connection.getSignaturesForAddress(
+          new PublicKey(payment.reference as string),
+          { limit: 10 },
+          'confirmed',
+        );
+
+        // Anyone can add the reference to a transaction, so only attach one
+        // that actually pays the payment. Failed attempts and other
+        // transactions are ignored, the customer may still retry.
+        for (const info of signatures) {
+          if (info.err) {
+            continue;
+          }
+
+          const verification =
+            await this.verificationService.verifyPaymentTransaction(
+              payment,
+              info.signature,
+            );
+          if (verification.verified) {
+            await this.paymentService.attachReferencedTransaction(
+              payment.id,
+              info.signature,
+            );
+            break;
+          }
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to look up reference for payment ${payment.id}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+  }
+
+  /**
+   * Advance a single payment based on the latest status of its transaction
+   */
+  private async processSignatureStatus(
+    payment: Payment,
+    status: SignatureStatus | null,
+  ): Promise<void> {
+    const isProcessing = payment.status === PaymentStatus.PROCESSING;
+
+    // Transaction never landed - fail it once its blockhash must have expired
+    if (!status) {
+      if (isProcessing && this.hasTimedOut(payment)) {
+        await this.expireTransaction(payment);
+      }
+      return;
+    }
+
+    if (status.err) {
+      if (isProcessing) {
+        await this.paymentService.failPayment(
+          payment.id,
+          `Transaction failed on-chain: ${JSON.stringify(status.err)}`,
+          VerificationFailureReason.TRANSACTION_FAILED,
+        );
+      }
+      return;
+    }
+
+    if (
+      status.confirmationStatus &&
+      status.confirmationStatus !== payment.confirmationStatus
+    ) {
+      this.logger.log(
+        `Transaction for payment ${payment.id} reached ${status.confirmationStatus}`,
+      );
+      await this.paymentService.updateConfirmationStatus(
+        payment.id,
+        status.confirmationStatus,
+        status.slot,
+      );
+    }
+
+    if (!isProcessing) {
+      return;
+    }
+
+    // Verify and complete once the configured commitment has been reached
+    if (this.hasReached(status.confirmationStatus, this.completionCommitment)) {
+      await this.paymentService.confirmPayment(
+        payment.id,
+        payment.transactionSignature,
+      );
+      return;
+    }
+
+    // Only processed transactions can still be dropped by the cluster
+    if (
+      !this.hasReached(status.confirmationStatus, 'confirmed') &&
+      this.hasTimedOut(payment)
+    ) {
+      await this.expireTransaction(payment);
+    }
+  }
+
+  /**
+   * Fail a payment whose transaction was not confirmed in time
+   */
+  private async expireTransaction(payment: Payment): Promise<void> {
+    this.logger.warn(
+      `Transaction for payment ${payment.id} expired before confirmation`,
+    );
+    await this.paymentService.failPayment(
+      payment.id,
+      'Transaction was not confirmed before its blockhash expired',
+      VerificationFailureReason.TRANSACTION_EXPIRED,
+    );
+  }
+
+  /**
+   * Check whether a commitment level is at least the required level
+   */
+  private hasReached(
+    confirmationStatus: TransactionConfirmationStatus | undefined,
+    required: TransactionConfirmationStatus,
+  ): boolean {
+    if (!confirmationStatus) {
+      return false;
+    }
+
+    return (
+      COMMITMENT_LEVELS.indexOf(confirmationStatus) >=
+      COMMITMENT_LEVELS.indexOf(required)
+    );
+  }
+
+  /**
+   * Check whether a submitted transaction has been pending for too long
+   */
+  private hasTimedOut(payment: Payment): boolean {
+    const submittedAt = payment.submittedAt ?? payment.updatedAt;
+    return Date.now() - new Date(submittedAt).getTime() > this.timeoutMs;
+  }
+}
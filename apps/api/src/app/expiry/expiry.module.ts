@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ExpiryService } from './expiry.service';
+import { Payment } from '../payment/entities/payment.entity';
+import { PaymentModule } from '../payment/payment.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Payment]), PaymentModule],
+  providers: [ExpiryService],
+})
+export class ExpiryModule {}
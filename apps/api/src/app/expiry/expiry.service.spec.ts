@@ -0,0 +1,85 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ExpiryService } from './expiry.service';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { PaymentService } from '../payment/payment.service';
+
+describe('ExpiryService', () => {
+  let service: ExpiryService;
+
+  const paymentRepository = { find: jest.fn() };
+  const paymentService = {
+    expirePayment: jest.fn(),
+    expireAbandonedPayment: jest.fn(),
+  };
+  const configService = {
+    get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    paymentRepository.find.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExpiryService,
+        { provide: getRepositoryToken(Payment), useValue: paymentRepository },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<ExpiryService>(ExpiryService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('expires every stale pending payment', async () => {
+    paymentRepository.find.mockResolvedValueOnce([
+      { id: 'payment-1' },
+      { id: 'payment-2' },
+    ]);
+
+    await service.sweep();
+
+    expect(paymentService.expirePayment).toHaveBeenCalledWith('payment-1');
+    expect(paymentService.expirePayment).toHaveBeenCalledWith('payment-2');
+  });
+
+  it('keeps sweeping when a single payment fails to expire', async () => {
+    paymentRepository.find.mockResolvedValueOnce([
+      { id: 'payment-1' },
+      { id: 'payment-2' },
+    ]);
+    paymentService.expirePayment.mockRejectedValueOnce(new Error('boom'));
+
+    await service.sweep();
+
+    expect(paymentService.expirePayment).toHaveBeenCalledTimes(2);
+  });
+
+  it('expires processing payments without a transaction after a grace period', async () => {
+    paymentRepository.find
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'payment-3' }]);
+
+    await service.sweep();
+
+    const [, [abandonedQuery]] = paymentRepository.find.mock.calls;
+    expect(abandonedQuery.where).toEqual(
+      expect.objectContaining({
+        status: PaymentStatus.PROCESSING,
+        transactionSignature: expect.objectContaining({ _type: 'isNull' }),
+      }),
+    );
+    const cutoff = abandonedQuery.where.expiresAt.value.getTime();
+    expect(Date.now() - cutoff).toBeGreaterThanOrEqual(600000);
+    expect(paymentService.expireAbandonedPayment).toHaveBeenCalledWith(
+      'payment-3',
+    );
+    expect(paymentService.expirePayment).not.toHaveBeenCalled();
+  });
+});
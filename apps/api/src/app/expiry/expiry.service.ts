@@ -0,0 +1,138 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { PaymentService } from '../payment/payment.service';
+
+@Injectable()
+export class ExpiryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ExpiryService.name);
+  private readonly sweepIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly processingGraceMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private isSweeping = false;
+
+  constructor(
+    @InjectRepository(Payment)
+    private paymentRepository: Repository<Payment>,
+    private readonly paymentService: PaymentService,
+    private readonly configService: ConfigService,
+  ) {
+    this.sweepIntervalMs = parseInt(
+      this.configService.get('EXPIRY_SWEEP_INTERVAL_MS', '60000'),
+    );
+    this.batchSize = parseInt(
+      this.configService.get('EXPIRY_BATCH_SIZE', '100'),
+    );
+    this.processingGraceMs = parseInt(
+      this.configService.get('EXPIRY_PROCESSING_GRACE_MS', '600000'),
+    );
+  }
+
+  onModuleInit() {
+    if (this.configService.get('EXPIRY_SWEEPER_ENABLED', 'true') !== 'true') {
+      this.logger.log('Expiry sweeper disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.sweep(), this.sweepIntervalMs);
+    this.logger.log(
+      `Expiry sweeper started, sweeping every ${this.sweepIntervalMs}ms`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Expire pending payments whose expiry time has passed, and processing
+   * payments that still have no transaction a grace period after it
+   */
+  async sweep(): Promise<void> {
+    // Skip this tick if the previous one is still running
+    if (this.isSweeping) {
+      return;
+    }
+
+    this.isSweeping = true;
+
+    try {
+      const payments = await this.paymentRepository.find({
+        where: {
+          status: PaymentStatus.PENDING,
+          expiresAt: LessThanOrEqual(new Date()),
+        },
+        order: { expiresAt: 'ASC' },
+        take: this.batchSize,
+      });
+
+      for (const payment of payments) {
+        try {
+          await this.paymentService.expirePayment(payment.id);
+        } catch (error) {
+          this.logger.error(
+            `Failed to expire payment ${payment.id}: ${error.message}`,
+            error.stack,
+          );
+        }
+      }
+
+      if (payments.length > 0) {
+        this.logger.log(`Expired ${payments.length} stale payments`);
+      }
+
+      await this.sweepAbandoned();
+    } catch (error) {
+      this.logger.error(
+        `Failed to sweep expired payments: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  /**
+   * Expire payments moved to processing whose transaction never arrived,
+   * neither reported by the wallet nor found through their reference
+   */
+  private async sweepAbandoned(): Promise<void> {
+    const payments = await this.paymentRepository.find({
+      where: {
+        status: PaymentStatus.PROCESSING,
+        transactionSignature: IsNull(),
+        expiresAt: LessThanOrEqual(
+          new Date(Date.now() - this.processingGraceMs),
+        ),
+      },
+      order: { expiresAt: 'ASC' },
+      take: this.batchSize,
+    });
+
+    for (const payment of payments) {
+      try {
+        await this.paymentService.expireAbandonedPayment(payment.id);
+      } catch (error) {
+        this.logger.error(
+          `Failed to expire abandoned payment ${payment.id}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+
+    if (payments.length > 0) {
+      this.logger.log(`Expired ${payments.length} abandoned payments`);
+    }
+  }
+}
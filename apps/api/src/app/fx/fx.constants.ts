@@ -0,0 +1,10 @@
+import { USDC_MINT, USDT_MINT } from '../solana/solana.constants';
+
+// Injection token for the configured exchange rate provider
+export const FX_RATE_PROVIDER = 'FX_RATE_PROVIDER';
+
+// Currency settlement token prices are quoted in
+export const FX_QUOTE_CURRENCY = 'USD';
+
+// Stablecoins valued at exactly one US dollar
+export const USD_STABLECOIN_MINTS = [USDC_MINT, USDT_MINT];
@@ -0,0 +1,46 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FxService } from './fx.service';
+import { FX_RATE_PROVIDER } from './fx.constants';
+import { FxRateProvider } from './models/fx-rate.model';
+import { HttpFxRateProvider } from './providers/http-fx-rate.provider';
+import { StaticFxRateProvider } from './providers/static-fx-rate.provider';
+import { JupiterModule } from '../jupiter/jupiter.module';
+
+@Module({
+  imports: [JupiterModule],
+  providers: [
+    FxService,
+    {
+      provide: FX_RATE_PROVIDER,
+      useFactory: (configService: ConfigService): FxRateProvider => {
+        const provider = configService.get('FX_PROVIDER', 'http');
+
+        if (provider === 'static') {
+          const ratesFile = configService.get<string>('FX_RATES_FILE');
+          if (!ratesFile) {
+            throw new Error(
+              'FX_RATES_FILE is required when FX_PROVIDER=static',
+            );
+          }
+          return StaticFxRateProvider.fromFile(ratesFile);
+        }
+
+        if (provider !== 'http') {
+          throw new Error(`Unknown FX_PROVIDER ${provider}`);
+        }
+
+        return new HttpFxRateProvider(
+          configService.get(
+            'FX_RATES_URL',
+            'https://open.er-api.com/v6/latest/USD',
+          ),
+          parseInt(configService.get('FX_CACHE_TTL_SECONDS', '300')) * 1000,
+        );
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [FxService],
+})
+export class FxModule {}
@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FxService } from './fx.service';
+import { FX_RATE_PROVIDER } from './fx.constants';
+import { StaticFxRateProvider } from './providers/static-fx-rate.provider';
+import { JupiterService } from '../jupiter/jupiter.service';
+import { Money } from '../money/money';
+import {
+  NATIVE_SOL_MINT,
+  USDC_MINT,
+  USDT_MINT,
+} from '../solana/solana.constants';
+
+describe('FxService', () => {
+  let service: FxService;
+
+  const rateProvider = new StaticFxRateProvider({
+    base: 'USD',
+    rates: { EUR: 0.8, GBP: 0.5, INR: 80, JPY: 150 },
+  });
+  const jupiterService = { getTokenPrice: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FxService,
+        { provide: FX_RATE_PROVIDER, useValue: rateProvider },
+        { provide: JupiterService, useValue: jupiterService },
+      ],
+    }).compile();
+
+    service = module.get<FxService>(FxService);
+  });
+
+  describe('normalizeCurrency', () => {
+    it('accepts ISO 4217 codes in any case', () => {
+      expect(service.normalizeCurrency(' gbp ')).toBe('GBP');
+    });
+
+    it.each(['', 'EURO', 'XYZ', 'US$'])('rejects %p', (currency) => {
+      expect(() => service.normalizeCurrency(currency)).toThrow(
+        'expected an ISO 4217 code',
+      );
+    });
+  });
+
+  describe('getRate', () => {
+    it('crosses rates through the base currency', async () => {
+      const { rate } = await service.getRate('GBP', 'EUR');
+
+      expect(rate).toBeCloseTo(1.6);
+    });
+
+    it('rejects currencies the provider has no rate for', async () => {
+      await expect(service.getRate('CHF', 'USD')).rejects.toThrow(
+        'No exchange rate available from CHF to USD',
+      );
+    });
+  });
+
+  describe('quoteSettlement', () => {
+    it('settles dollars 1:1 in USDC without fetching rates', async () => {
+      const getRates = jest.spyOn(rateProvider, 'getRates');
+
+      const quote = await service.quoteSettlement(
+        Money.of(10, 6),
+        'USD',
+        USDC_MINT,
+        6,
+      );
+
+      expect(quote).toEqual(
+        expect.objectContaining({
+          exchangeRate: 1,
+          source: 'identity',
+        }),
+      );
+      expect(quote.settlementAmount.toString()).toBe('10');
+      expect(getRates).not.toHaveBeenCalled();
+      getRates.mockRestore();
+    });
+
+    it('converts fiat currencies into dollar stablecoins', async () => {
+      const eur = await service.quoteSettlement(
+        Money.of(10, 6),
+        'EUR',
+        USDC_MINT,
+        6,
+      );
+      const inr = await service.quoteSettlement(
+        Money.of(1000, 6),
+        'INR',
+        USDT_MINT,
+        6,
+      );
+
+      expect(eur.settlementAmount.toString()).toBe('12.5');
+      expect(eur.source).toBe('static');
+      expect(inr.settlementAmount.toString()).toBe('12.5');
+      expect(jupiterService.getTokenPrice).not.toHaveBeenCalled();
+    });
+
+    it('prices other settlement tokens through Jupiter', async () => {
+      jupiterService.getTokenPrice.mockResolvedValue(250);
+
+      const quote = await service.quoteSettlement(
+        Money.of(50, 6),
+        'GBP',
+        NATIVE_SOL_MINT,
+        9,
+      );
+
+      expect(jupiterService.getTokenPrice).toHaveBeenCalledWith(
+        NATIVE_SOL_MINT,
+      );
+      expect(quote.settlementAmount.toString()).toBe('0.4');
+      expect(quote.settlementAmount.decimals).toBe(9);
+      expect(quote.exchangeRate).toBeCloseTo(0.008);
+      expect(quote.source).toBe('static+jupiter');
+    });
+
+    it('rounds to the settlement token decimals', async () => {
+      const quote = await service.quoteSettlement(
+        Money.of(1, 6),
+        'JPY',
+        USDC_MINT,
+        6,
+      );
+
+      expect(quote.settlementAmount.toString()).toBe('0.006667');
+    });
+  });
+
+  describe('StaticFxRateProvider', () => {
+    it('loads rates from a JSON file', async () => {
+      const path = join(mkdtempSync(join(tmpdir(), 'fx-')), 'rates.json');
+      writeFileSync(path, JSON.stringify({ base: 'usd', rates: { eur: 0.9 } }));
+
+      const table = await StaticFxRateProvider.fromFile(path).getRates();
+
+      expect(table.base).toBe('USD');
+      expect(table.rates).toEqual({ EUR: 0.9 });
+      expect(table.source).toBe('file:rates.json');
+    });
+
+    it('rejects non-positive rates', () => {
+      expect(
+        () => new StaticFxRateProvider({ base: 'USD', rates: { EUR: 0 } }),
+      ).toThrow('Invalid exchange rates for EUR');
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { isISO4217CurrencyCode } from 'class-validator';
+import { JupiterService } from '../jupiter/jupiter.service';
+import { Money } from '../money/money';
+import {
+  FX_QUOTE_CURRENCY,
+  FX_RATE_PROVIDER,
+  USD_STABLECOIN_MINTS,
+} from './fx.constants';
+import { FxRateProvider, SettlementQuote } from './models/fx-rate.model';
+
+/**
+ * Converts fiat payment amounts into settlement token amounts
+ */
+@Injectable()
+export class FxService {
+  private readonly logger = new Logger(FxService.name);
+
+  constructor(
+    @Inject(FX_RATE_PROVIDER)
+    private readonly rateProvider: FxRateProvider,
+    private readonly jupiterService: JupiterService,
+  ) {}
+
+  /**
+   * Validate an ISO 4217 currency code and return it in upper case
+   */
+  normalizeCurrency(currency: string): string {
+    const code = (currency || '').trim().toUpperCase();
+
+    if (!isISO4217CurrencyCode(code)) {
+      throw new BadRequestException(
+        `Invalid currency ${currency}, expected an ISO 4217 code such as USD or EUR`,
+      );
+    }
+
+    return code;
+  }
+
+  /**
+   * Get how many units of one currency one unit of another buys
+   */
+  async getRate(
+    from: string,
+    to: string,
+  ): Promise<{ rate: number; source: string; fetchedAt: Date }> {
+    if (from === to) {
+      return { rate: 1, source: 'identity', fetchedAt: new Date() };
+    }
+
+    const table = await this.rateProvider.getRates();
+    const fromRate = from === table.base ? 1 : table.rates[from];
+    const toRate = to === table.base ? 1 : table.rates[to];
+
+    if (!fromRate || !toRate) {
+      throw new BadRequestException(
+        `No exchange rate available from ${from} to ${to}`,
+      );
+    }
+
+    return {
+      rate: toRate / fromRate,
+      source: table.source,
+      fetchedAt: table.fetchedAt,
+    };
+  }
+
+  /**
+   * Convert an amount in a fiat currency into the settlement token at the
+   * current rates
+   */
+  async quoteSettlement(
+    amount: Money,
+    currency: string,
+    settlementMint: string,
+    settlementDecimals: number,
+  ): Promise<SettlementQuote> {
+    const fiatRate = await this.getRate(
+      this.normalizeCurrency(currency),
+      FX_QUOTE_CURRENCY,
+    );
+    const sources = [fiatRate.source];
+
+    // Anything but a dollar stablecoin is priced through Jupiter
+    let tokenPrice = 1;
+    if (!USD_STABLECOIN_MINTS.includes(settlementMint)) {
+      tokenPrice = await this.jupiterService.getTokenPrice(settlementMint);
+      sources.push('jupiter');
+    }
+
+    const exchangeRate = fiatRate.rate / tokenPrice;
+    const settlementAmount = amount.multiply(exchangeRate, settlementDecimals);
+
+    this.logger.log(
+      `Converted ${amount} ${currency} to ${settlementAmount} of ${settlementMint} at ${exchangeRate}`,
+    );
+
+    return {
+      settlementAmount,
+      exchangeRate,
+      source: sources.join('+'),
+      quotedAt: new Date(),
+    };
+  }
+}
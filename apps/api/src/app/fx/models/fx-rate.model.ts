@@ -0,0 +1,29 @@
+import { Money } from '../../money/money';
+
+/**
+ * Exchange rates against a base currency, e.g. base USD with { EUR: 0.92 }
+ * means one US dollar buys 0.92 euro
+ */
+export interface FxRateTable {
+  base: string; // ISO 4217 code
+  rates: Record<string, number>;
+  source: string; // Where the rates came from, kept on payments for auditing
+  fetchedAt: Date;
+}
+
+/**
+ * Source of fiat exchange rates, picked with FX_PROVIDER
+ */
+export interface FxRateProvider {
+  getRates(): Promise<FxRateTable>;
+}
+
+/**
+ * A payment amount converted into its settlement token
+ */
+export interface SettlementQuote {
+  settlementAmount: Money; // At the settlement token's decimals
+  exchangeRate: number; // Settlement token units per unit of the payment currency
+  source: string;
+  quotedAt: Date;
+}
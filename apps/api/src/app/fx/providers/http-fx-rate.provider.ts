@@ -0,0 +1,46 @@
+import { Logger } from '@nestjs/common';
+import axios from 'axios';
+import { FxRateProvider, FxRateTable } from '../models/fx-rate.model';
+
+/**
+ * Fetches rates from an open.er-api.com style endpoint, which answers with
+ * { "base_code": "USD", "rates": { "EUR": 0.92, ... } }, and caches them
+ */
+export class HttpFxRateProvider implements FxRateProvider {
+  private readonly logger = new Logger(HttpFxRateProvider.name);
+  private cached: FxRateTable | null = null;
+
+  constructor(
+    private readonly url: string,
+    private readonly cacheTtlMs: number,
+  ) {}
+
+  async getRates(): Promise<FxRateTable> {
+    if (
+      this.cached &&
+      Date.now() - this.cached.fetchedAt.getTime() < this.cacheTtlMs
+    ) {
+      return this.cached;
+    }
+
+    try {
+      const response = await axios.get(this.url);
+      const { base_code: base, rates } = response.data;
+
+      if (typeof base !== 'string' || !rates || typeof rates !== 'object') {
+        throw new Error('Unexpected response format');
+      }
+
+      this.cached = {
+        base: base.toUpperCase(),
+        rates,
+        source: new URL(this.url).host,
+        fetchedAt: new Date(),
+      };
+      return this.cached;
+    } catch (error) {
+      this.logger.error(`Failed to fetch exchange rates: ${error.message}`);
+      throw new Error('Failed to fetch exchange rates');
+    }
+  }
+}
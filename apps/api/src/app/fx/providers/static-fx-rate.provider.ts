@@ -0,0 +1,51 @@
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import { FxRateProvider, FxRateTable } from '../models/fx-rate.model';
+
+/**
+ * Serves a fixed set of exchange rates, for offline development and tests
+ */
+export class StaticFxRateProvider implements FxRateProvider {
+  private readonly table: FxRateTable;
+
+  constructor(
+    rates: { base: string; rates: Record<string, number> },
+    source = 'static',
+  ) {
+    const invalid = Object.entries(rates.rates).find(
+      ([, rate]) => typeof rate !== 'number' || !(rate > 0),
+    );
+    if (!rates.base || invalid) {
+      throw new Error(
+        `Invalid exchange rates${invalid ? ` for ${invalid[0]}` : ''}`,
+      );
+    }
+
+    this.table = {
+      base: rates.base.toUpperCase(),
+      rates: Object.fromEntries(
+        Object.entries(rates.rates).map(([code, rate]) => [
+          code.toUpperCase(),
+          rate,
+        ]),
+      ),
+      source,
+      fetchedAt: new Date(),
+    };
+  }
+
+  /**
+   * Load rates from a JSON file such as
+   * { "base": "USD", "rates": { "EUR": 0.92, "GBP": 0.79 } }
+   */
+  static fromFile(path: string): StaticFxRateProvider {
+    return new StaticFxRateProvider(
+      JSON.parse(readFileSync(path, 'utf8')),
+      `file:${basename(path)}`,
+    );
+  }
+
+  async getRates(): Promise<FxRateTable> {
+    return this.table;
+  }
+}
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('idempotency_keys')
+@Index(['key', 'scope', 'principal'], { unique: true })
+export class IdempotencyKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  key: string;
+
+  // Method and path of the request, e.g. "POST /payments"
+  @Column()
+  scope: string;
+
+  // Hash of the API key the request was made with, so keys never collide across merchants
+  @Column()
+  principal: string;
+
+  // Hash of the request body, used to reject reuse of a key with a different request
+  @Column()
+  requestHash: string;
+
+  // Null while the first request is still in flight
+  @Column({ type: 'jsonb', nullable: true })
+  responseBody: Record<string, unknown> | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+
+  @Index()
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,65 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import {
+  Observable,
+  catchError,
+  from,
+  map,
+  mergeMap,
+  of,
+  throwError,
+} from 'rxjs';
+import { IdempotencyService } from './idempotency.service';
+import { IDEMPOTENCY_KEY_HEADER } from './models/idempotency.model';
+
+/**
+ * Makes a route safe to retry with an Idempotency-Key header: the first
+ * response is stored and replayed for duplicates within the configured window
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+    const key = request.headers[IDEMPOTENCY_KEY_HEADER];
+
+    if (!key) {
+      return next.handle();
+    }
+
+    return from(
+      this.idempotencyService.begin({
+        key,
+        scope: `${request.method} ${request.path}`,
+        apiKey: request.headers['x-api-key'] || request.headers.authorization,
+        body: request.body,
+      }),
+    ).pipe(
+      mergeMap(({ replay, record }) => {
+        if (replay) {
+          response.setHeader('Idempotent-Replayed', 'true');
+          return of(replay);
+        }
+
+        return next.handle().pipe(
+          mergeMap((body) =>
+            from(this.idempotencyService.complete(record.id, body)).pipe(
+              map(() => body),
+            ),
+          ),
+          catchError((error) =>
+            from(this.idempotencyService.release(record.id)).pipe(
+              mergeMap(() => throwError(() => error)),
+            ),
+          ),
+        );
+      }),
+    );
+  }
+}
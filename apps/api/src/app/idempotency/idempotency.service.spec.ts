@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyKey } from './entities/idempotency-key.entity';
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+  let records: IdempotencyKey[];
+
+  const idempotencyKeyRepository = {
+    findOne: jest.fn(),
+    create: jest.fn(),
+    save: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+  const configService = {
+    get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+  };
+
+  const request = {
+    key: 'key-1',
+    scope: 'POST /payments',
+    apiKey: 'api-key',
+    body: { amount: 10, currency: 'USD' },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    records = [];
+    idempotencyKeyRepository.findOne.mockImplementation(async ({ where }) =>
+      records.find(
+        (r) =>
+          r.key === where.key &&
+          r.scope === where.scope &&
+          r.principal === where.principal,
+      ),
+    );
+    idempotencyKeyRepository.create.mockImplementation((r) => ({ ...r }));
+    idempotencyKeyRepository.save.mockImplementation(async (r) => {
+      const record = { ...r, id: `record-${records.length + 1}` };
+      records.push(record);
+      return record;
+    });
+    idempotencyKeyRepository.update.mockImplementation(async (id, changes) => {
+      Object.assign(
+        records.find((r) => r.id === id),
+        changes,
+      );
+    });
+    idempotencyKeyRepository.delete.mockImplementation(async (id) => {
+      records = records.filter((r) => r.id !== id);
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        {
+          provide: getRepositoryToken(IdempotencyKey),
+          useValue: idempotencyKeyRepository,
+        },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('claims a new key and replays the stored response for duplicates', async () => {
+    const { record } = await service.begin(request);
+    await service.complete(record.id, {
+      id: 'payment-1',
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+    });
+
+    const result = await service.begin({
+      ...request,
+      body: { currency: 'USD', amount: 10 },
+    });
+
+    expect(result.replay).toEqual({
+      id: 'payment-1',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('rejects reusing a key with a different request body', async () => {
+    const { record } = await service.begin(request);
+    await service.complete(record.id, { id: 'payment-1' });
+
+    await expect(
+      service.begin({ ...request, body: { amount: 20, currency: 'USD' } }),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('rejects duplicates while the first request is still in flight', async () => {
+    await service.begin(request);
+
+    await expect(service.begin(request)).rejects.toThrow(
+      'still being processed',
+    );
+  });
+
+  it('keeps keys separate per API key', async () => {
+    const { record } = await service.begin(request);
+    await service.complete(record.id, { id: 'payment-1' });
+
+    const result = await service.begin({ ...request, apiKey: 'other-key' });
+
+    expect(result.replay).toBeUndefined();
+    expect(result.record).toBeDefined();
+  });
+
+  it('frees a key for a retry when the request failed', async () => {
+    const { record } = await service.begin(request);
+    await service.release(record.id);
+
+    const result = await service.begin(request);
+
+    expect(result.record).toBeDefined();
+  });
+
+  it('lets a key be reused once its window has passed', async () => {
+    const { record } = await service.begin(request);
+    await service.complete(record.id, { id: 'payment-1' });
+    records[0].expiresAt = new Date(Date.now() - 1000);
+
+    const result = await service.begin({
+      ...request,
+      body: { amount: 20, currency: 'USD' },
+    });
+
+    expect(result.replay).toBeUndefined();
+    expect(result.record).toBeDefined();
+  });
+});
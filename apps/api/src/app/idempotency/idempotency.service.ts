@@ -0,0 +1,218 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, QueryFailedError, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { IdempotencyKey } from './entities/idempotency-key.entity';
+import {
+  IdempotencyResult,
+  IdempotentRequest,
+} from './models/idempotency.model';
+
+@Injectable()
+export class IdempotencyService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly ttlMs: number;
+  private readonly purgeIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private isPurging = false;
+
+  constructor(
+    @InjectRepository(IdempotencyKey)
+    private idempotencyKeyRepository: Repository<IdempotencyKey>,
+    private readonly configService: ConfigService,
+  ) {
+    this.ttlMs =
+      parseInt(this.configService.get('IDEMPOTENCY_KEY_TTL_HOURS', '24')) *
+      3600000;
+    this.purgeIntervalMs = parseInt(
+      this.configService.get('IDEMPOTENCY_PURGE_INTERVAL_MS', '3600000'),
+    );
+  }
+
+  onModuleInit() {
+    if (
+      this.configService.get('IDEMPOTENCY_PURGE_ENABLED', 'true') !== 'true'
+    ) {
+      this.logger.log('Idempotency key purge disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.purgeExpired(), this.purgeIntervalMs);
+    this.logger.log(
+      `Idempotency key purge started, running every ${this.purgeIntervalMs}ms`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claim an idempotency key for a request, or return the stored response
+   * if the same request was already handled
+   */
+  async begin(request: IdempotentRequest): Promise<IdempotencyResult> {
+    if (request.key.length > 255) {
+      throw new BadRequestException(
+        'Idempotency-Key must be at most 255 characters',
+      );
+    }
+
+    const principal = this.hash(request.apiKey || '');
+    const requestHash = this.hash(this.canonicalize(request.body));
+
+    const existing = await this.idempotencyKeyRepository.findOne({
+      where: { key: request.key, scope: request.scope, principal },
+    });
+
+    if (existing && existing.expiresAt.getTime() <= Date.now()) {
+      // The window has passed, so the key can be used for a new request
+      await this.idempotencyKeyRepository.delete(existing.id);
+    } else if (existing) {
+      if (existing.requestHash !== requestHash) {
+        throw new ConflictException(
+          'Idempotency-Key was already used with a different request',
+        );
+      }
+
+      if (!existing.completedAt) {
+        throw new ConflictException(
+          'A request with this Idempotency-Key is still being processed',
+        );
+      }
+
+      this.logger.log(
+        `Replaying response for idempotency key ${request.key} on ${request.scope}`,
+      );
+      return { replay: existing.responseBody || {} };
+    }
+
+    try {
+      const record = await this.idempotencyKeyRepository.save(
+        this.idempotencyKeyRepository.create({
+          key: request.key,
+          scope: request.scope,
+          principal,
+          requestHash,
+          responseBody: null,
+          completedAt: null,
+          expiresAt: new Date(Date.now() + this.ttlMs),
+        }),
+      );
+      return { record: { id: record.id } };
+    } catch (error) {
+      // Another request claimed the same key first
+      if (
+        error instanceof QueryFailedError &&
+        (error as QueryFailedError & { code?: string }).code === '23505'
+      ) {
+        throw new ConflictException(
+          'A request with this Idempotency-Key is still being processed',
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store the response of a request so duplicates can be replayed
+   */
+  async complete(id: string, responseBody: unknown): Promise<void> {
+    try {
+      // Round-trip through JSON so replays match what the first caller received
+      const body = JSON.parse(JSON.stringify(responseBody ?? {}));
+      await this.idempotencyKeyRepository.update(id, {
+        responseBody: body,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      // The request itself succeeded, so don't fail it over the stored copy
+      this.logger.error(
+        `Failed to store idempotent response ${id}: ${error.message}`,
+        error.stack,
+      );
+      await this.release(id);
+    }
+  }
+
+  /**
+   * Release a key whose request failed, so the client can retry it
+   */
+  async release(id: string): Promise<void> {
+    try {
+      await this.idempotencyKeyRepository.delete(id);
+    } catch (error) {
+      this.logger.error(
+        `Failed to release idempotency key ${id}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Delete keys whose replay window has passed
+   */
+  async purgeExpired(): Promise<void> {
+    // Skip this tick if the previous one is still running
+    if (this.isPurging) {
+      return;
+    }
+
+    this.isPurging = true;
+
+    try {
+      const result = await this.idempotencyKeyRepository.delete({
+        expiresAt: LessThanOrEqual(new Date()),
+      });
+
+      if (result.affected) {
+        this.logger.log(`Purged ${result.affected} expired idempotency keys`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to purge idempotency keys: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.isPurging = false;
+    }
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  /**
+   * Serialize a value with sorted object keys so equal bodies hash the same
+   */
+  private canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonicalize(item)).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value)
+        .sort()
+        .map(
+          (key) =>
+            `${JSON.stringify(key)}:${this.canonicalize(
+              (value as Record<string, unknown>)[key],
+            )}`,
+        );
+      return `{${entries.join(',')}}`;
+    }
+
+    return JSON.stringify(value ?? null);
+  }
+}
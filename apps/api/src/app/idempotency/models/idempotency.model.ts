@@ -0,0 +1,15 @@
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+export interface IdempotentRequest {
+  key: string;
+  scope: string; // Method and path, e.g. "POST /payments"
+  apiKey?: string; // API key or session token the request was sent with
+  body: unknown;
+}
+
+export interface IdempotencyResult {
+  // Set when a request with the same key already completed
+  replay?: Record<string, unknown>;
+  // Set when this request claimed the key and must record its response
+  record?: { id: string };
+}
@@ -0,0 +1,80 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEmail,
+  IsInt,
+  IsISO4217CurrencyCode,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  MAX_INVOICE_LINE_ITEMS,
+  MAX_LINE_ITEM_DESCRIPTION_LENGTH,
+} from '../invoice.constants';
+
+export class InvoiceLineItemDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(MAX_LINE_ITEM_DESCRIPTION_LENGTH)
+  description: string;
+
+  @IsNumber()
+  @Min(0.000001)
+  quantity: number;
+
+  @IsNumber()
+  @Min(0)
+  unitPrice: number; // In the invoice currency
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  taxRateBps?: number; // 825 for 8.25%, applied after the discount
+}
+
+export class CreateInvoiceDto {
+  @IsNotEmpty()
+  @IsISO4217CurrencyCode()
+  currency: string; // ISO 4217 code such as USD or EUR
+
+  @IsOptional()
+  @IsString()
+  customerName?: string;
+
+  @IsOptional()
+  @IsEmail()
+  customerEmail?: string;
+
+  @IsOptional()
+  @IsString()
+  memo?: string;
+
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_INVOICE_LINE_ITEMS)
+  lineItems: InvoiceLineItemDto[];
+
+  // One of discountBps or discountAmount
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  discountBps?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  discountAmount?: number; // In the invoice currency
+}
@@ -0,0 +1,57 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEmail,
+  IsInt,
+  IsISO4217CurrencyCode,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { InvoiceLineItemDto } from './create-invoice.dto';
+import { MAX_INVOICE_LINE_ITEMS } from '../invoice.constants';
+
+// Fields left out keep their current value, null clears optional ones
+export class UpdateInvoiceDto {
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @IsOptional()
+  @IsString()
+  customerName?: string | null;
+
+  @IsOptional()
+  @IsEmail()
+  customerEmail?: string | null;
+
+  @IsOptional()
+  @IsString()
+  memo?: string | null;
+
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string | null;
+
+  // Replaces every line of the invoice
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_INVOICE_LINE_ITEMS)
+  lineItems?: InvoiceLineItemDto[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  discountBps?: number | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  discountAmount?: number | null;
+}
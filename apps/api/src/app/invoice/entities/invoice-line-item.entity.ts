@@ -0,0 +1,78 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Invoice } from './invoice.entity';
+import { Money } from '../../money/money';
+import { MoneyTransformer } from '../../money/money.transformer';
+import { FIAT_DECIMALS } from '../../money/money.constants';
+
+@Entity('invoice_line_items')
+export class InvoiceLineItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  invoiceId: string;
+
+  // Lines dropped from a draft are deleted when it is saved
+  @ManyToOne(() => Invoice, (invoice) => invoice.lineItems, {
+    onDelete: 'CASCADE',
+    orphanedRowAction: 'delete',
+  })
+  @JoinColumn({ name: 'invoiceId' })
+  invoice: Invoice;
+
+  // Order the line is shown in on the invoice
+  @Column()
+  position: number;
+
+  @Column()
+  description: string;
+
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  quantity: Money;
+
+  // In the invoice currency
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  unitPrice: Money;
+
+  @Column({ type: 'int', default: 0 })
+  taxRateBps: number;
+
+  // quantity * unitPrice, rounded to the currency's minor unit
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  amount: Money;
+
+  // Share of the invoice discount taken off this line before tax
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  discountAmount: Money;
+
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  taxAmount: Money;
+}
@@ -0,0 +1,121 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+  Index,
+} from 'typeorm';
+import { InvoiceLineItem } from './invoice-line-item.entity';
+import { Money } from '../../money/money';
+import { MoneyTransformer } from '../../money/money.transformer';
+import { FIAT_DECIMALS } from '../../money/money.constants';
+
+export enum InvoiceStatus {
+  DRAFT = 'draft', // Still editable, has no number or payment yet
+  OPEN = 'open', // Finalized and waiting to be paid
+  PAID = 'paid',
+  VOID = 'void',
+}
+
+@Entity('invoices')
+@Index(['merchantId', 'createdAt'])
+// Drafts have no sequence yet, and nulls never collide
+@Index(['merchantId', 'sequence'], { unique: true })
+export class Invoice {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  merchantId: string;
+
+  // Per-merchant counter assigned on finalize, e.g. 42 for INV-0042
+  @Column({ type: 'int', nullable: true })
+  sequence: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  number: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: InvoiceStatus,
+    default: InvoiceStatus.DRAFT,
+  })
+  status: InvoiceStatus;
+
+  @Column()
+  currency: string; // ISO 4217 code such as USD or EUR
+
+  @Column({ type: 'varchar', nullable: true })
+  customerName: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  customerEmail: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  memo: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  dueDate: Date | null;
+
+  @OneToMany(() => InvoiceLineItem, (lineItem) => lineItem.invoice, {
+    eager: true,
+    cascade: true,
+  })
+  lineItems: InvoiceLineItem[];
+
+  // Either a percentage or a fixed amount comes off the subtotal
+  @Column({ type: 'int', nullable: true })
+  discountBps: number | null;
+
+  // Sum of the line amounts before discount and tax
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  subtotal: Money;
+
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  discountAmount: Money;
+
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  taxAmount: Money;
+
+  // What the customer pays, subtotal - discount + tax
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  total: Money;
+
+  // Payment the customer pays the invoice with, replaced if it lapses
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  paymentId: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finalizedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  paidAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  voidedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,11 @@
+import { MAX_PAYMENT_EXPIRY_MINUTES } from '../payment/payment.constants';
+
+// Invoices are numbered INV-0001, INV-0002, ... per merchant
+export const INVOICE_NUMBER_PREFIX = 'INV-';
+export const INVOICE_NUMBER_DIGITS = 4;
+
+export const MAX_INVOICE_LINE_ITEMS = 100;
+export const MAX_LINE_ITEM_DESCRIPTION_LENGTH = 500;
+
+// Invoice payments stay open as long as payments can
+export const MAX_INVOICE_PAYMENT_EXPIRY_MINUTES = MAX_PAYMENT_EXPIRY_MINUTES;
@@ -0,0 +1,116 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { InvoiceService } from './invoice.service';
+import { CreateInvoiceDto } from './dto/create-invoice.dto';
+import { UpdateInvoiceDto } from './dto/update-invoice.dto';
+import { Invoice } from './entities/invoice.entity';
+import { Payment } from '../payment/entities/payment.entity';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthMerchantId, Scopes } from '../auth/auth.decorators';
+import { ApiKeyScope } from '../auth/models/api-key.model';
+
+@Controller('invoices')
+@UseGuards(AuthGuard)
+export class InvoiceController {
+  private readonly logger = new Logger(InvoiceController.name);
+
+  constructor(private readonly invoiceService: InvoiceService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Scopes(ApiKeyScope.INVOICES_WRITE)
+  async create(
+    @Body() createInvoiceDto: CreateInvoiceDto,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Invoice> {
+    this.logger.log(
+      `Create invoice request for merchant ${merchantId}: ${JSON.stringify(
+        createInvoiceDto,
+      )}`,
+    );
+
+    return this.invoiceService.createInvoice(merchantId, createInvoiceDto);
+  }
+
+  @Get()
+  @Scopes(ApiKeyScope.INVOICES_READ)
+  async findAll(
+    @Query('status') status: string | undefined,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Invoice[]> {
+    return this.invoiceService.getInvoices(merchantId, status);
+  }
+
+  @Get(':id')
+  @Scopes(ApiKeyScope.INVOICES_READ)
+  async findOne(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Invoice> {
+    return this.invoiceService.getInvoice(merchantId, id);
+  }
+
+  @Patch(':id')
+  @Scopes(ApiKeyScope.INVOICES_WRITE)
+  async update(
+    @Param('id') id: string,
+    @Body() updateInvoiceDto: UpdateInvoiceDto,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Invoice> {
+    this.logger.log(`Update invoice request: ${id}`);
+    return this.invoiceService.updateInvoice(merchantId, id, updateInvoiceDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Scopes(ApiKeyScope.INVOICES_WRITE)
+  async remove(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<void> {
+    this.logger.log(`Delete invoice request: ${id}`);
+    return this.invoiceService.deleteInvoice(merchantId, id);
+  }
+
+  @Post(':id/finalize')
+  @Scopes(ApiKeyScope.INVOICES_WRITE)
+  async finalize(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Invoice> {
+    this.logger.log(`Finalize invoice request: ${id}`);
+    return this.invoiceService.finalizeInvoice(merchantId, id);
+  }
+
+  @Post(':id/void')
+  @Scopes(ApiKeyScope.INVOICES_WRITE)
+  async voidInvoice(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Invoice> {
+    this.logger.log(`Void invoice request: ${id}`);
+    return this.invoiceService.voidInvoice(merchantId, id);
+  }
+
+  // Opens a new payment when the last one expired or failed
+  @Post(':id/payment')
+  @Scopes(ApiKeyScope.INVOICES_WRITE)
+  async payment(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Payment> {
+    return this.invoiceService.getInvoicePayment(merchantId, id);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { InvoiceService } from './invoice.service';
+import { InvoiceController } from './invoice.controller';
+import { Invoice } from './entities/invoice.entity';
+import { InvoiceLineItem } from './entities/invoice-line-item.entity';
+import { PaymentModule } from '../payment/payment.module';
+import { AuthModule } from '../auth/auth.module';
+import { FxModule } from '../fx/fx.module';
+import { WebsocketModule } from '../websocket/websocket.module';
+import { WebhookModule } from '../webhook/webhook.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Invoice, InvoiceLineItem]),
+    PaymentModule,
+    AuthModule,
+    FxModule,
+    WebsocketModule,
+    WebhookModule,
+  ],
+  providers: [InvoiceService],
+  controllers: [InvoiceController],
+  exports: [InvoiceService],
+})
+export class InvoiceModule {}
@@ -0,0 +1,368 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { QueryFailedError } from 'typeorm';
+import { InvoiceService } from './invoice.service';
+import { Invoice, InvoiceStatus } from './entities/invoice.entity';
+import { InvoiceLineItem } from './entities/invoice-line-item.entity';
+import { CreateInvoiceDto } from './dto/create-invoice.dto';
+import { calculateInvoice, getMinorUnits } from './invoice.utils';
+import { PaymentService } from '../payment/payment.service';
+import { PaymentStatus } from '../payment/entities/payment.entity';
+import { FxService } from '../fx/fx.service';
+import { PaymentGateway } from '../websocket/payment/payment.gateway';
+import {
+  PaymentEvent,
+  PaymentEventListener,
+  PaymentEventType,
+} from '../websocket/models/event.model';
+import { WebhookService } from '../webhook/webhook.service';
+import { Money } from '../money/money';
+import { FIAT_DECIMALS } from '../money/money.constants';
+
+describe('InvoiceService', () => {
+  let service: InvoiceService;
+  let invoices: Invoice[];
+  let maxSequence: number | null;
+  let paymentListener: PaymentEventListener;
+
+  const invoiceId = '5b8f7c1e-2a4d-4f6b-9c3e-1d2a3b4c5d6e';
+
+  const matches = (invoice: Invoice, where: Partial<Invoice>) =>
+    Object.entries(where).every(
+      ([key, value]) => invoice[key as keyof Invoice] === value,
+    );
+
+  const invoiceRepository = {
+    create: jest.fn((invoice) => Object.assign(new Invoice(), invoice)),
+    save: jest.fn(async (invoice) => {
+      invoice.id = invoice.id ?? invoiceId;
+      invoices = [...invoices.filter(({ id }) => id !== invoice.id), invoice];
+      return invoice;
+    }),
+    find: jest.fn(async ({ where }) =>
+      invoices.filter((invoice) => matches(invoice, where)),
+    ),
+    findOne: jest.fn(
+      async ({ where }) =>
+        invoices.find((invoice) => matches(invoice, where)) ?? null,
+    ),
+    update: jest.fn(async (where, changes) => {
+      const matching = invoices.filter((invoice) => matches(invoice, where));
+      matching.forEach((invoice) => Object.assign(invoice, changes));
+      return { affected: matching.length };
+    }),
+    delete: jest.fn(),
+    createQueryBuilder: jest.fn(() => ({
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getRawOne: jest.fn(async () => ({ max: maxSequence })),
+    })),
+  };
+  const paymentService = {
+    onPaymentEvent: jest.fn((listener) => (paymentListener = listener)),
+    createPayment: jest.fn(async (dto) => ({
+      id: 'payment-1',
+      status: PaymentStatus.PENDING,
+      ...dto,
+    })),
+    getPaymentById: jest.fn(),
+    expirePayment: jest.fn(),
+  };
+  const fxService = {
+    normalizeCurrency: jest.fn((currency: string) => currency.toUpperCase()),
+  };
+  const paymentGateway = { emitToMerchant: jest.fn() };
+  const webhookService = { dispatch: jest.fn() };
+
+  const createDto = (
+    overrides: Partial<CreateInvoiceDto> = {},
+  ): CreateInvoiceDto => ({
+    currency: 'usd',
+    customerEmail: 'buyer@example.com',
+    lineItems: [
+      {
+        description: 'Design work',
+        quantity: 3,
+        unitPrice: 40,
+        taxRateBps: 1000,
+      },
+      { description: 'Hosting', quantity: 1, unitPrice: 20 },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    invoices = [];
+    maxSequence = null;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvoiceService,
+        { provide: getRepositoryToken(Invoice), useValue: invoiceRepository },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: FxService, useValue: fxService },
+        { provide: PaymentGateway, useValue: paymentGateway },
+        { provide: WebhookService, useValue: webhookService },
+      ],
+    }).compile();
+
+    service = module.get<InvoiceService>(InvoiceService);
+    service.onModuleInit();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('calculateInvoice', () => {
+    const line = (quantity: string, unitPrice: string, taxRateBps = 0) => ({
+      description: 'Line',
+      quantity: Money.of(quantity, 6),
+      unitPrice: Money.of(unitPrice, 6),
+      taxRateBps,
+    });
+
+    it('taxes each line on what is left after its share of the discount', () => {
+      const totals = calculateInvoice(
+        [line('3', '40', 1000), line('1', '20')],
+        { bps: 1000, amount: null },
+        2,
+      );
+
+      expect(totals.subtotal.toString()).toBe('140');
+      expect(totals.discountAmount.toString()).toBe('14');
+      expect(totals.lines.map((l) => l.discountAmount.toString())).toEqual([
+        '12',
+        '2',
+      ]);
+      expect(totals.taxAmount.toString()).toBe('10.8');
+      expect(totals.total.toString()).toBe('136.8');
+    });
+
+    it('rounds to the minor unit and gives leftovers to the largest line', () => {
+      const totals = calculateInvoice(
+        [line('1', '10'), line('1', '10'), line('1', '10.01')],
+        { bps: null, amount: Money.of('1', 6) },
+        2,
+      );
+
+      expect(totals.lines.map((l) => l.discountAmount.toString())).toEqual([
+        '0.33',
+        '0.33',
+        '0.34',
+      ]);
+      expect(totals.total.toString()).toBe('29.01');
+
+      const yen = calculateInvoice(
+        [line('1.5', '333')],
+        { bps: null, amount: null },
+        0,
+      );
+      expect(yen.total.toString()).toBe('500');
+    });
+
+    it('knows the minor unit of each currency', () => {
+      expect(getMinorUnits('USD')).toBe(2);
+      expect(getMinorUnits('JPY')).toBe(0);
+      expect(getMinorUnits('KWD')).toBe(3);
+    });
+  });
+
+  describe('createInvoice', () => {
+    it('creates a draft with calculated lines and totals', async () => {
+      const invoice = await service.createInvoice('merchant-1', createDto());
+
+      expect(invoice.status).toBe(InvoiceStatus.DRAFT);
+      expect(invoice.currency).toBe('USD');
+      expect(invoice.number).toBeNull();
+      expect(invoice.lineItems).toHaveLength(2);
+      expect(invoice.lineItems[0]).toBeInstanceOf(InvoiceLineItem);
+      expect(invoice.lineItems[0].amount.toString()).toBe('120');
+      expect(invoice.subtotal.toString()).toBe('140');
+      expect(invoice.taxAmount.toString()).toBe('12');
+      expect(invoice.total.toString()).toBe('152');
+    });
+
+    it('rejects invalid lines and discounts', async () => {
+      await expect(
+        service.createInvoice('merchant-1', createDto({ lineItems: [] })),
+      ).rejects.toThrow('lineItems must have at least one line');
+      await expect(
+        service.createInvoice(
+          'merchant-1',
+          createDto({
+            lineItems: [{ description: 'Line', quantity: 0, unitPrice: 5 }],
+          }),
+        ),
+      ).rejects.toThrow('lineItems[0].quantity must be positive');
+      await expect(
+        service.createInvoice(
+          'merchant-1',
+          createDto({ discountBps: 500, discountAmount: 5 }),
+        ),
+      ).rejects.toThrow('Set either discountBps or discountAmount, not both');
+      await expect(
+        service.createInvoice('merchant-1', createDto({ discountAmount: 500 })),
+      ).rejects.toThrow('Discount exceeds the invoice subtotal of 140');
+    });
+  });
+
+  describe('updateInvoice', () => {
+    it('recalculates drafts and refuses finalized invoices', async () => {
+      await service.createInvoice('merchant-1', createDto());
+
+      const updated = await service.updateInvoice('merchant-1', invoiceId, {
+        discountAmount: 40,
+      });
+      expect(updated.discountBps).toBeNull();
+      expect(updated.total.toString()).toBe('108.57');
+
+      invoices[0].status = InvoiceStatus.OPEN;
+      await expect(
+        service.updateInvoice('merchant-1', invoiceId, { memo: 'Thanks' }),
+      ).rejects.toThrow('Invoice in open state can no longer be changed');
+    });
+
+    it('hides invoices of other merchants', async () => {
+      await service.createInvoice('merchant-1', createDto());
+
+      await expect(
+        service.updateInvoice('merchant-2', invoiceId, { memo: 'Thanks' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('finalizeInvoice', () => {
+    it('numbers the invoice and opens a payment for its total', async () => {
+      maxSequence = 41;
+      await service.createInvoice('merchant-1', createDto());
+
+      const invoice = await service.finalizeInvoice('merchant-1', invoiceId);
+
+      expect(invoice.status).toBe(InvoiceStatus.OPEN);
+      expect(invoice.sequence).toBe(42);
+      expect(invoice.number).toBe('INV-0042');
+      expect(invoice.paymentId).toBe('payment-1');
+      expect(paymentService.createPayment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          merchantId: 'merchant-1',
+          amount: Money.of(152, FIAT_DECIMALS),
+          currency: 'USD',
+          customerEmail: 'buyer@example.com',
+          metadata: { invoiceId, invoiceNumber: 'INV-0042' },
+        }),
+      );
+      expect(webhookService.dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: PaymentEventType.INVOICE_FINALIZED,
+          paymentId: 'payment-1',
+        }),
+      );
+    });
+
+    it('retries with the next number when another invoice took it', async () => {
+      await service.createInvoice('merchant-1', createDto());
+      const taken = Object.assign(
+        new QueryFailedError('UPDATE', [], new Error('duplicate key')),
+        {
+          code: '23505',
+        },
+      );
+      invoiceRepository.update.mockRejectedValueOnce(taken);
+
+      const invoice = await service.finalizeInvoice('merchant-1', invoiceId);
+
+      expect(invoice.number).toBe('INV-0001');
+      expect(invoiceRepository.createQueryBuilder).toHaveBeenCalledTimes(2);
+    });
+
+    it('puts the invoice back in draft when the payment cannot be created', async () => {
+      await service.createInvoice('merchant-1', createDto());
+      paymentService.createPayment.mockRejectedValueOnce(
+        new BadRequestException('Merchant not found'),
+      );
+
+      await expect(
+        service.finalizeInvoice('merchant-1', invoiceId),
+      ).rejects.toThrow('Merchant not found');
+      expect(invoices[0].status).toBe(InvoiceStatus.DRAFT);
+      expect(invoices[0].number).toBeNull();
+    });
+  });
+
+  describe('payments', () => {
+    const completed = (paymentId: string): PaymentEvent => ({
+      type: PaymentEventType.PAYMENT_COMPLETED,
+      paymentId,
+      merchantId: 'merchant-1',
+      data: {},
+      timestamp: new Date(),
+    });
+
+    beforeEach(async () => {
+      await service.createInvoice('merchant-1', createDto());
+      await service.finalizeInvoice('merchant-1', invoiceId);
+      jest.clearAllMocks();
+    });
+
+    it('marks the invoice paid once when its payment completes', async () => {
+      await paymentListener(completed('payment-1'));
+      await paymentListener(completed('payment-1'));
+
+      expect(invoices[0].status).toBe(InvoiceStatus.PAID);
+      expect(invoices[0].paidAt).toBeInstanceOf(Date);
+      expect(webhookService.dispatch).toHaveBeenCalledTimes(1);
+      expect(webhookService.dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ type: PaymentEventType.INVOICE_PAID }),
+      );
+    });
+
+    it('ignores other payments', async () => {
+      await paymentListener(completed('payment-2'));
+
+      expect(invoices[0].status).toBe(InvoiceStatus.OPEN);
+    });
+
+    it('replaces a payment that expired', async () => {
+      paymentService.getPaymentById.mockResolvedValue({
+        id: 'payment-1',
+        status: PaymentStatus.EXPIRED,
+      });
+      paymentService.createPayment.mockResolvedValueOnce({
+        id: 'payment-2',
+        status: PaymentStatus.PENDING,
+      });
+
+      const payment = await service.getInvoicePayment('merchant-1', invoiceId);
+
+      expect(payment.id).toBe('payment-2');
+      expect(invoices[0].paymentId).toBe('payment-2');
+    });
+
+    it('voids open invoices by expiring their pending payment', async () => {
+      paymentService.expirePayment.mockResolvedValue({
+        id: 'payment-1',
+        status: PaymentStatus.EXPIRED,
+      });
+
+      const invoice = await service.voidInvoice('merchant-1', invoiceId);
+
+      expect(invoice.status).toBe(InvoiceStatus.VOID);
+      expect(paymentService.expirePayment).toHaveBeenCalledWith('payment-1');
+    });
+
+    it('does not void invoices the customer is paying', async () => {
+      paymentService.expirePayment.mockResolvedValue({
+        id: 'payment-1',
+        status: PaymentStatus.PROCESSING,
+      });
+
+      await expect(
+        service.voidInvoice('merchant-1', invoiceId),
+      ).rejects.toThrow(BadRequestException);
+      expect(invoices[0].status).toBe(InvoiceStatus.OPEN);
+    });
+  });
+});
@@ -0,0 +1,620 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { QueryFailedError, Repository } from 'typeorm';
+import { isEmail, isUUID } from 'class-validator';
+import { Invoice, InvoiceStatus } from './entities/invoice.entity';
+import { InvoiceLineItem } from './entities/invoice-line-item.entity';
+import { CreateInvoiceDto, InvoiceLineItemDto } from './dto/create-invoice.dto';
+import { UpdateInvoiceDto } from './dto/update-invoice.dto';
+import { InvoiceDiscount, InvoiceLineInput } from './models/invoice.model';
+import {
+  MAX_INVOICE_LINE_ITEMS,
+  MAX_INVOICE_PAYMENT_EXPIRY_MINUTES,
+  MAX_LINE_ITEM_DESCRIPTION_LENGTH,
+} from './invoice.constants';
+import {
+  calculateInvoice,
+  formatInvoiceNumber,
+  getMinorUnits,
+} from './invoice.utils';
+import { PaymentService } from '../payment/payment.service';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { FxService } from '../fx/fx.service';
+import { PaymentGateway } from '../websocket/payment/payment.gateway';
+import {
+  PaymentEvent,
+  PaymentEventType,
+} from '../websocket/models/event.model';
+import { WebhookService } from '../webhook/webhook.service';
+import { Money } from '../money/money';
+import { FIAT_DECIMALS } from '../money/money.constants';
+
+// Payments that can no longer be paid, so the invoice needs a new one
+const LAPSED_PAYMENT_STATUSES = [PaymentStatus.EXPIRED, PaymentStatus.FAILED];
+
+// Finalizing invoices of one merchant at once can race for a number
+const MAX_NUMBER_ATTEMPTS = 5;
+
+@Injectable()
+export class InvoiceService implements OnModuleInit {
+  private readonly logger = new Logger(InvoiceService.name);
+
+  constructor(
+    @InjectRepository(Invoice)
+    private invoiceRepository: Repository<Invoice>,
+    private readonly paymentService: PaymentService,
+    private readonly fxService: FxService,
+    private readonly paymentGateway: PaymentGateway,
+    private readonly webhookService: WebhookService,
+  ) {}
+
+  onModuleInit() {
+    this.paymentService.onPaymentEvent((event) =>
+      this.handlePaymentEvent(event),
+    );
+  }
+
+  /**
+   * Create a draft invoice, which can be edited until it is finalized
+   */
+  async createInvoice(
+    merchantId: string,
+    createInvoiceDto: CreateInvoiceDto,
+  ): Promise<Invoice> {
+    const invoice = this.invoiceRepository.create({
+      merchantId,
+      status: InvoiceStatus.DRAFT,
+      currency: this.fxService.normalizeCurrency(createInvoiceDto.currency),
+      sequence: null,
+      number: null,
+      customerName: null,
+      customerEmail: null,
+      memo: null,
+      dueDate: null,
+      discountBps: null,
+      discountAmount: Money.zero(FIAT_DECIMALS),
+      paymentId: null,
+      finalizedAt: null,
+      paidAt: null,
+      voidedAt: null,
+    });
+
+    this.applyChanges(invoice, createInvoiceDto);
+    const savedInvoice = await this.invoiceRepository.save(invoice);
+
+    this.logger.log(
+      `Created draft invoice ${savedInvoice.id} for merchant ${merchantId}`,
+    );
+    return this.getInvoice(merchantId, savedInvoice.id);
+  }
+
+  /**
+   * The merchant's invoices, newest first
+   */
+  async getInvoices(merchantId: string, status?: string): Promise<Invoice[]> {
+    if (
+      status &&
+      !Object.values(InvoiceStatus).includes(status as InvoiceStatus)
+    ) {
+      throw new BadRequestException(
+        `Invalid status ${status}, expected one of ${Object.values(
+          InvoiceStatus,
+        ).join(', ')}`,
+      );
+    }
+
+    return this.invoiceRepository.find({
+      where: {
+        merchantId,
+        ...(status ? { status: status as InvoiceStatus } : {}),
+      },
+      order: { createdAt: 'DESC', lineItems: { position: 'ASC' } },
+    });
+  }
+
+  /**
+   * Get one of the merchant's invoices
+   */
+  async getInvoice(merchantId: string, id: string): Promise<Invoice> {
+    const invoice = isUUID(id)
+      ? await this.invoiceRepository.findOne({
+          where: { id, merchantId },
+          order: { lineItems: { position: 'ASC' } },
+        })
+      : null;
+
+    if (!invoice) {
+      throw new NotFoundException(`Invoice with ID ${id} not found`);
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Change a draft invoice, recalculating its totals
+   */
+  async updateInvoice(
+    merchantId: string,
+    id: string,
+    updateInvoiceDto: UpdateInvoiceDto,
+  ): Promise<Invoice> {
+    const invoice = await this.getDraftInvoice(merchantId, id);
+
+    this.applyChanges(invoice, updateInvoiceDto);
+    await this.invoiceRepository.save(invoice);
+
+    return this.getInvoice(merchantId, id);
+  }
+
+  /**
+   * Delete a draft invoice, finalized invoices can only be voided
+   */
+  async deleteInvoice(merchantId: string, id: string): Promise<void> {
+    const invoice = await this.getDraftInvoice(merchantId, id);
+
+    await this.invoiceRepository.delete({ id: invoice.id });
+    this.logger.log(`Deleted draft invoice ${id}`);
+  }
+
+  /**
+   * Number a draft invoice and open the payment the customer pays it with
+   */
+  async finalizeInvoice(merchantId: string, id: string): Promise<Invoice> {
+    const invoice = await this.getDraftInvoice(merchantId, id);
+
+    if (!invoice.total.isPositive()) {
+      throw new BadRequestException(
+        'Only invoices with a positive total can be finalized',
+      );
+    }
+
+    await this.assignNumber(invoice);
+
+    try {
+      const payment = await this.createInvoicePayment(invoice);
+      await this.invoiceRepository.update(
+        { id: invoice.id },
+        { paymentId: payment.id },
+      );
+    } catch (error) {
+      // Hand the number back so drafts never leave gaps
+      await this.invoiceRepository.update(
+        { id: invoice.id },
+        {
+          status: InvoiceStatus.DRAFT,
+          sequence: null,
+          number: null,
+          finalizedAt: null,
+        },
+      );
+      throw error;
+    }
+
+    const finalizedInvoice = await this.getInvoice(merchantId, id);
+    await this.notifyMerchant(
+      PaymentEventType.INVOICE_FINALIZED,
+      finalizedInvoice,
+    );
+
+    this.logger.log(
+      `Finalized invoice ${finalizedInvoice.number} (${id}) for payment ${finalizedInvoice.paymentId}`,
+    );
+    return finalizedInvoice;
+  }
+
+  /**
+   * Cancel an open invoice and expire its payment
+   */
+  async voidInvoice(merchantId: string, id: string): Promise<Invoice> {
+    const invoice = await this.getInvoice(merchantId, id);
+
+    if (invoice.status !== InvoiceStatus.OPEN) {
+      throw new BadRequestException(
+        `Invoice in ${invoice.status} state cannot be voided`,
+      );
+    }
+
+    if (invoice.paymentId) {
+      // Only pending payments expire, paying customers are left to finish
+      const payment = await this.paymentService.expirePayment(
+        invoice.paymentId,
+      );
+
+      if (!LAPSED_PAYMENT_STATUSES.includes(payment.status)) {
+        throw new BadRequestException(
+          `Invoice payment is ${payment.status}, so the invoice can no longer be voided`,
+        );
+      }
+    }
+
+    // The payment may have completed in the meantime
+    const { affected } = await this.invoiceRepository.update(
+      { id: invoice.id, status: InvoiceStatus.OPEN },
+      { status: InvoiceStatus.VOID, voidedAt: new Date() },
+    );
+    if (!affected) {
+      throw new BadRequestException('Invoice is no longer open');
+    }
+
+    const voidedInvoice = await this.getInvoice(merchantId, id);
+    await this.notifyMerchant(PaymentEventType.INVOICE_VOIDED, voidedInvoice);
+
+    this.logger.log(`Voided invoice ${voidedInvoice.number} (${id})`);
+    return voidedInvoice;
+  }
+
+  /**
+   * The payment the customer pays an open invoice with, replacing one that
+   * expired or failed
+   */
+  async getInvoicePayment(merchantId: string, id: string): Promise<Payment> {
+    const invoice = await this.getInvoice(merchantId, id);
+
+    if (
+      invoice.status !== InvoiceStatus.OPEN &&
+      invoice.status !== InvoiceStatus.PAID
+    ) {
+      throw new BadRequestException(
+        `Invoice in ${invoice.status} state has no payment`,
+      );
+    }
+
+    const payment = invoice.paymentId
+      ? await this.paymentService.getPaymentById(invoice.paymentId)
+      : null;
+
+    if (
+      invoice.status === InvoiceStatus.PAID ||
+      (payment && !LAPSED_PAYMENT_STATUSES.includes(payment.status))
+    ) {
+      return payment;
+    }
+
+    const replacement = await this.createInvoicePayment(invoice);
+    await this.invoiceRepository.update(
+      { id: invoice.id },
+      { paymentId: replacement.id },
+    );
+
+    this.logger.log(
+      `Replaced ${payment?.status ?? 'missing'} payment of invoice ${invoice.id} with ${replacement.id}`,
+    );
+    return replacement;
+  }
+
+  /**
+   * Mark an open invoice paid once its payment completes
+   */
+  private async handlePaymentEvent(event: PaymentEvent): Promise<void> {
+    if (event.type !== PaymentEventType.PAYMENT_COMPLETED) {
+      return;
+    }
+
+    const invoice = await this.invoiceRepository.findOne({
+      where: { paymentId: event.paymentId },
+    });
+    if (!invoice) {
+      return;
+    }
+
+    // Both completion paths can report the same payment
+    const { affected } = await this.invoiceRepository.update(
+      { id: invoice.id, status: InvoiceStatus.OPEN },
+      { status: InvoiceStatus.PAID, paidAt: new Date() },
+    );
+    if (!affected) {
+      if (invoice.status !== InvoiceStatus.PAID) {
+        this.logger.warn(
+          `Payment ${event.paymentId} completed for ${invoice.status} invoice ${invoice.id}`,
+        );
+      }
+      return;
+    }
+
+    const paidInvoice = await this.getInvoice(invoice.merchantId, invoice.id);
+    await this.notifyMerchant(PaymentEventType.INVOICE_PAID, paidInvoice);
+
+    this.logger.log(`Invoice ${paidInvoice.number} (${invoice.id}) paid`);
+  }
+
+  private async getDraftInvoice(
+    merchantId: string,
+    id: string,
+  ): Promise<Invoice> {
+    const invoice = await this.getInvoice(merchantId, id);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new BadRequestException(
+        `Invoice in ${invoice.status} state can no longer be changed`,
+      );
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Open a draft under the merchant's next invoice number
+   * Numbers come from the highest one so far, and the unique index on
+   * (merchantId, sequence) turns a race into a retry
+   */
+  private async assignNumber(invoice: Invoice): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const { max } = await this.invoiceRepository
+        .createQueryBuilder('invoice')
+        .select('MAX(invoice.sequence)', 'max')
+        .where('invoice.merchantId = :merchantId', {
+          merchantId: invoice.merchantId,
+        })
+        .getRawOne();
+      const sequence = Number(max ?? 0) + 1;
+
+      try {
+        const { affected } = await this.invoiceRepository.update(
+          { id: invoice.id, status: InvoiceStatus.DRAFT },
+          {
+            status: InvoiceStatus.OPEN,
+            sequence,
+            number: formatInvoiceNumber(sequence),
+            finalizedAt: new Date(),
+          },
+        );
+        if (!affected) {
+          throw new BadRequestException('Invoice is no longer a draft');
+        }
+
+        invoice.sequence = sequence;
+        invoice.number = formatInvoiceNumber(sequence);
+        return;
+      } catch (error) {
+        const isTaken =
+          error instanceof QueryFailedError &&
+          (error as QueryFailedError & { code?: string }).code === '23505';
+        if (!isTaken || attempt >= MAX_NUMBER_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private createInvoicePayment(invoice: Invoice): Promise<Payment> {
+    return this.paymentService.createPayment({
+      merchantId: invoice.merchantId,
+      amount: invoice.total,
+      currency: invoice.currency,
+      customerEmail: invoice.customerEmail ?? undefined,
+      metadata: { invoiceId: invoice.id, invoiceNumber: invoice.number },
+      expiresInMinutes: MAX_INVOICE_PAYMENT_EXPIRY_MINUTES,
+    });
+  }
+
+  /**
+   * Check and apply the given fields to a draft, then recalculate its lines
+   * and totals
+   */
+  private applyChanges(
+    invoice: Invoice,
+    changes: CreateInvoiceDto | UpdateInvoiceDto,
+  ): void {
+    if (changes.currency !== undefined) {
+      invoice.currency = this.fxService.normalizeCurrency(changes.currency);
+    }
+    if (changes.customerName !== undefined) {
+      invoice.customerName = changes.customerName?.trim() || null;
+    }
+    if (changes.customerEmail !== undefined) {
+      invoice.customerEmail = this.parseCustomerEmail(changes.customerEmail);
+    }
+    if (changes.memo !== undefined) {
+      invoice.memo = changes.memo?.trim() || null;
+    }
+    if (changes.dueDate !== undefined) {
+      invoice.dueDate = this.parseDueDate(changes.dueDate);
+    }
+
+    // Setting either kind of discount replaces the other
+    if (
+      changes.discountBps !== undefined ||
+      changes.discountAmount !== undefined
+    ) {
+      const discount = this.parseDiscount(
+        changes.discountBps,
+        changes.discountAmount,
+      );
+      invoice.discountBps = discount.bps;
+      invoice.discountAmount = discount.amount ?? Money.zero(FIAT_DECIMALS);
+    }
+
+    const lines: InvoiceLineInput[] =
+      changes.lineItems !== undefined || !invoice.lineItems
+        ? this.parseLineItems(changes.lineItems)
+        : invoice.lineItems;
+
+    const totals = calculateInvoice(
+      lines,
+      {
+        bps: invoice.discountBps,
+        amount: invoice.discountBps === null ? invoice.discountAmount : null,
+      },
+      getMinorUnits(invoice.currency),
+    );
+
+    if (totals.discountAmount.compare(totals.subtotal) > 0) {
+      throw new BadRequestException(
+        `Discount exceeds the invoice subtotal of ${totals.subtotal}`,
+      );
+    }
+
+    invoice.lineItems = lines.map((line, position) =>
+      Object.assign(
+        line instanceof InvoiceLineItem ? line : new InvoiceLineItem(),
+        {
+          position,
+          description: line.description,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          taxRateBps: line.taxRateBps,
+          ...totals.lines[position],
+        },
+      ),
+    );
+    invoice.subtotal = totals.subtotal;
+    invoice.discountAmount = totals.discountAmount;
+    invoice.taxAmount = totals.taxAmount;
+    invoice.total = totals.total;
+  }
+
+  private parseLineItems(lineItems: InvoiceLineItemDto[]): InvoiceLineInput[] {
+    if (!Array.isArray(lineItems) || lineItems.length === 0) {
+      throw new BadRequestException('lineItems must have at least one line');
+    }
+    if (lineItems.length > MAX_INVOICE_LINE_ITEMS) {
+      throw new BadRequestException(
+        `An invoice can have at most ${MAX_INVOICE_LINE_ITEMS} line items`,
+      );
+    }
+
+    return lineItems.map((lineItem, i) => {
+      const description =
+        typeof lineItem?.description === 'string'
+          ? lineItem.description.trim()
+          : '';
+      if (
+        !description ||
+        description.length > MAX_LINE_ITEM_DESCRIPTION_LENGTH
+      ) {
+        throw new BadRequestException(
+          `lineItems[${i}].description must be 1 to ${MAX_LINE_ITEM_DESCRIPTION_LENGTH} characters`,
+        );
+      }
+
+      const quantity = this.parseAmount(
+        lineItem.quantity,
+        `lineItems[${i}].quantity`,
+      );
+      if (!quantity.isPositive()) {
+        throw new BadRequestException(
+          `lineItems[${i}].quantity must be positive`,
+        );
+      }
+
+      return {
+        description,
+        quantity,
+        unitPrice: this.parseAmount(
+          lineItem.unitPrice,
+          `lineItems[${i}].unitPrice`,
+        ),
+        taxRateBps: this.parseBps(
+          lineItem.taxRateBps ?? 0,
+          `lineItems[${i}].taxRateBps`,
+        ),
+      };
+    });
+  }
+
+  private parseDiscount(
+    discountBps: number | null | undefined,
+    discountAmount: number | null | undefined,
+  ): InvoiceDiscount {
+    if (discountBps != null && discountAmount != null) {
+      throw new BadRequestException(
+        'Set either discountBps or discountAmount, not both',
+      );
+    }
+
+    return {
+      bps:
+        discountBps != null ? this.parseBps(discountBps, 'discountBps') : null,
+      amount:
+        discountAmount != null
+          ? this.parseAmount(discountAmount, 'discountAmount')
+          : null,
+    };
+  }
+
+  /**
+   * A non-negative decimal in the invoice currency or a quantity
+   */
+  private parseAmount(value: unknown, field: string): Money {
+    let amount: Money | null = null;
+    if (typeof value === 'number' || typeof value === 'string') {
+      try {
+        amount = Money.of(value, FIAT_DECIMALS);
+      } catch {
+        amount = null;
+      }
+    }
+
+    if (!amount) {
+      throw new BadRequestException(`${field} must be a number`);
+    }
+    if (amount.isNegative()) {
+      throw new BadRequestException(`${field} cannot be negative`);
+    }
+    return amount;
+  }
+
+  private parseBps(value: unknown, field: string): number {
+    if (
+      typeof value !== 'number' ||
+      !Number.isInteger(value) ||
+      value < 0 ||
+      value > 10000
+    ) {
+      throw new BadRequestException(
+        `${field} must be a whole number of basis points from 0 to 10000`,
+      );
+    }
+    return value;
+  }
+
+  private parseCustomerEmail(customerEmail: string | null): string | null {
+    const email = customerEmail?.trim();
+    if (!email) {
+      return null;
+    }
+
+    if (!isEmail(email)) {
+      throw new BadRequestException('Invalid customerEmail');
+    }
+    return email;
+  }
+
+  private parseDueDate(dueDate: string | null): Date | null {
+    if (!dueDate) {
+      return null;
+    }
+
+    const date = new Date(dueDate);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException('dueDate must be an ISO 8601 date');
+    }
+    return date;
+  }
+
+  /**
+   * Notify the merchant of an invoice change over the websocket and its
+   * webhook, keyed on the invoice's current payment
+   */
+  private async notifyMerchant(
+    type: PaymentEventType,
+    invoice: Invoice,
+  ): Promise<void> {
+    const event: PaymentEvent = {
+      type,
+      paymentId: invoice.paymentId,
+      merchantId: invoice.merchantId,
+      data: invoice,
+      timestamp: new Date(),
+    };
+
+    this.paymentGateway.emitToMerchant(invoice.merchantId, event);
+    await this.webhookService.dispatch(event);
+  }
+}
@@ -0,0 +1,94 @@
+import { Money } from '../money/money';
+import { FIAT_DECIMALS } from '../money/money.constants';
+import {
+  INVOICE_NUMBER_DIGITS,
+  INVOICE_NUMBER_PREFIX,
+} from './invoice.constants';
+import {
+  InvoiceDiscount,
+  InvoiceLineInput,
+  InvoiceTotals,
+} from './models/invoice.model';
+
+/**
+ * Decimals of the currency's smallest unit, e.g. 2 for USD and 0 for JPY
+ */
+export function getMinorUnits(currency: string): number {
+  const { maximumFractionDigits } = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+  }).resolvedOptions();
+
+  return Math.min(maximumFractionDigits, FIAT_DECIMALS);
+}
+
+/**
+ * The number shown on an invoice, e.g. INV-0042
+ */
+export function formatInvoiceNumber(sequence: number): string {
+  return `${INVOICE_NUMBER_PREFIX}${String(sequence).padStart(
+    INVOICE_NUMBER_DIGITS,
+    '0',
+  )}`;
+}
+
+/**
+ * Line amounts, discount, tax and total of an invoice, each rounded to the
+ * currency's minor unit
+ * The discount is spread over the lines by their amount so each line is
+ * taxed at its own rate on what is left of it
+ */
+export function calculateInvoice(
+  lines: InvoiceLineInput[],
+  discount: InvoiceDiscount,
+  minorUnits: number,
+): InvoiceTotals {
+  const zero = Money.zero(minorUnits);
+  const amounts = lines.map((line) =>
+    line.unitPrice.multiply(line.quantity.toString(), minorUnits),
+  );
+  const subtotal = amounts.reduce((total, amount) => total.add(amount), zero);
+
+  const discountAmount =
+    discount.bps !== null
+      ? subtotal.multiply(`${discount.bps}e-4`, minorUnits)
+      : (discount.amount ?? zero).rescale(minorUnits);
+
+  // Rounding leftovers go to the largest line
+  const largest = amounts.reduce(
+    (index, amount, i) => (amount.compare(amounts[index]) > 0 ? i : index),
+    0,
+  );
+  const discounts = amounts.map((amount) =>
+    subtotal.isZero()
+      ? zero
+      : Money.fromBaseUnits(
+          (discountAmount.baseUnits * amount.baseUnits) / subtotal.baseUnits,
+          minorUnits,
+        ),
+  );
+  const allocated = discounts.reduce((total, share) => total.add(share), zero);
+  discounts[largest] = discounts[largest].add(
+    discountAmount.subtract(allocated),
+  );
+
+  const taxes = lines.map((line, i) =>
+    amounts[i].subtract(discounts[i]).multiply(`${line.taxRateBps}e-4`),
+  );
+  const taxAmount = taxes.reduce((total, tax) => total.add(tax), zero);
+
+  return {
+    lines: amounts.map((amount, i) => ({
+      amount: amount.rescale(FIAT_DECIMALS),
+      discountAmount: discounts[i].rescale(FIAT_DECIMALS),
+      taxAmount: taxes[i].rescale(FIAT_DECIMALS),
+    })),
+    subtotal: subtotal.rescale(FIAT_DECIMALS),
+    discountAmount: discountAmount.rescale(FIAT_DECIMALS),
+    taxAmount: taxAmount.rescale(FIAT_DECIMALS),
+    total: subtotal
+      .subtract(discountAmount)
+      .add(taxAmount)
+      .rescale(FIAT_DECIMALS),
+  };
+}
@@ -0,0 +1,28 @@
+import { Money } from '../../money/money';
+
+export interface InvoiceLineInput {
+  description: string;
+  quantity: Money;
+  unitPrice: Money;
+  taxRateBps: number;
+}
+
+// At most one of both is set
+export interface InvoiceDiscount {
+  bps: number | null;
+  amount: Money | null;
+}
+
+export interface InvoiceLineTotals {
+  amount: Money; // quantity * unitPrice
+  discountAmount: Money; // Share of the invoice discount
+  taxAmount: Money; // Tax on the line after its discount
+}
+
+export interface InvoiceTotals {
+  lines: InvoiceLineTotals[]; // In the order of the input lines
+  subtotal: Money;
+  discountAmount: Money;
+  taxAmount: Money;
+  total: Money;
+}
@@ -1,12 +1,21 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
 import { JupiterService } from './jupiter.service';
+import { JupiterQuote } from './models/quote.model';
+import {
+  DEFAULT_SWAP_SETTINGS,
+  PriorityFeeMode,
+} from './models/swap-settings.model';
 
 describe('JupiterService', () => {
   let service: JupiterService;
 
   beforeEach(async () => {
+    jest.restoreAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [JupiterService],
+      providers: [JupiterService, { provide: ConfigService, useValue: {} }],
     }).compile();
 
     service = module.get<JupiterService>(JupiterService);
@@ -15,4 +24,124 @@ describe('JupiterService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('getQuote', () => {
+    const mockQuote = (priceImpactPct: string) =>
+      jest
+        .spyOn(axios, 'get')
+        .mockResolvedValue({ data: { inAmount: '1000', priceImpactPct } });
+
+    it('applies the slippage and route settings', async () => {
+      const get = mockQuote('0');
+
+      await service.getQuote('in', 'out', BigInt(1000), 'ExactOut', {
+        ...DEFAULT_SWAP_SETTINGS,
+        maxSlippageBps: 25,
+        excludedDexes: ['Raydium', 'Orca V2'],
+        onlyDirectRoutes: true,
+      });
+
+      const params = new URL(get.mock.calls[0][0]).searchParams;
+      expect(params.get('slippageBps')).toBe('25');
+      expect(params.get('excludeDexes')).toBe('Raydium,Orca V2');
+      expect(params.get('onlyDirectRoutes')).toBe('true');
+      expect(params.has('platformFeeBps')).toBe(false);
+    });
+
+    it('adds the platform fee', async () => {
+      const get = mockQuote('0');
+
+      await service.getQuote(
+        'in',
+        'out',
+        BigInt(1000),
+        'ExactOut',
+        DEFAULT_SWAP_SETTINGS,
+        25,
+      );
+
+      const params = new URL(get.mock.calls[0][0]).searchParams;
+      expect(params.get('platformFeeBps')).toBe('25');
+    });
+
+    it('rejects quotes above the price impact limit', async () => {
+      mockQuote('0.025');
+
+      await expect(
+        service.getQuote('in', 'out', BigInt(1000), 'ExactOut', {
+          ...DEFAULT_SWAP_SETTINGS,
+          maxPriceImpactPct: 2,
+        }),
+      ).rejects.toThrow('Swap price impact of 2.50% is above the limit of 2%');
+    });
+
+    it('accepts quotes within the price impact limit', async () => {
+      mockQuote('0.015');
+
+      const quote = await service.getQuote(
+        'in',
+        'out',
+        BigInt(1000),
+        'ExactOut',
+        { ...DEFAULT_SWAP_SETTINGS, maxPriceImpactPct: 2 },
+      );
+
+      expect(quote.inAmount).toBe('1000');
+    });
+  });
+
+  describe('buildSwapTransaction', () => {
+    const quote = { inAmount: '1000' } as JupiterQuote;
+
+    it('uses a fixed compute unit price by default', async () => {
+      const post = jest
+        .spyOn(axios, 'post')
+        .mockResolvedValue({ data: { swapTransaction: 'tx' } });
+
+      await service.buildSwapTransaction(quote, 'user');
+
+      expect(post.mock.calls[0][1]).toEqual(
+        expect.objectContaining({ computeUnitPriceMicroLamports: 2000 }),
+      );
+    });
+
+    it('collects the platform fee into the fee account', async () => {
+      const post = jest
+        .spyOn(axios, 'post')
+        .mockResolvedValue({ data: { swapTransaction: 'tx' } });
+
+      await service.buildSwapTransaction(
+        quote,
+        'user',
+        'merchant',
+        DEFAULT_SWAP_SETTINGS,
+        'fee-account',
+      );
+
+      expect(post.mock.calls[0][1]).toEqual(
+        expect.objectContaining({ feeAccount: 'fee-account' }),
+      );
+    });
+
+    it('lets Jupiter estimate a capped fee in dynamic mode', async () => {
+      const post = jest
+        .spyOn(axios, 'post')
+        .mockResolvedValue({ data: { swapTransaction: 'tx' } });
+
+      await service.buildSwapTransaction(quote, 'user', undefined, {
+        ...DEFAULT_SWAP_SETTINGS,
+        priorityFeeMode: PriorityFeeMode.DYNAMIC,
+        maxPriorityFeeLamports: 50000,
+      });
+
+      const body = post.mock.calls[0][1] as Record<string, unknown>;
+      expect(body.computeUnitPriceMicroLamports).toBeUndefined();
+      expect(body.prioritizationFeeLamports).toEqual({
+        priorityLevelWithMaxLamports: {
+          priorityLevel: 'high',
+          maxLamports: 50000,
+        },
+      });
+    });
+  });
 });
@@ -1,8 +1,13 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
 import { Token } from './models/token.model';
 import { JupiterQuote } from './models/quote.model';
+import {
+  DEFAULT_SWAP_SETTINGS,
+  PriorityFeeMode,
+  SwapSettings,
+} from './models/swap-settings.model';
 
 @Injectable()
 export class JupiterService {
@@ -10,6 +15,7 @@ export class JupiterService {
   private readonly jupiterQuoteApiUrl = 'https://quote-api.jup.ag/v6/quote';
   private readonly jupiterSwapApiUrl = 'https://quote-api.jup.ag/v6/swap';
   private readonly jupiterTokensUrl = 'https://token.jup.ag/all';
+  private readonly jupiterPriceApiUrl = 'https://price.jup.ag/v6/price';
 
   constructor(private configService: ConfigService) {}
 
@@ -42,47 +48,97 @@ export class JupiterService {
     }
   }
 
+  /**
+   * Get the price of a token in US dollars, as quoted against USDC
+   */
+  async getTokenPrice(mint: string): Promise<number> {
+    try {
+      const response = await axios.get(
+        `${this.jupiterPriceApiUrl}?ids=${encodeURIComponent(mint)}`,
+      );
+      const price = response.data.data[mint]?.price;
+
+      if (typeof price !== 'number' || !(price > 0)) {
+        throw new Error(`No price available for ${mint}`);
+      }
+
+      return price;
+    } catch (error) {
+      this.logger.error(`Failed to get token price: ${error.message}`);
+      throw new Error('Failed to get token price from Jupiter API');
+    }
+  }
+
   /**
    * Get quote for swapping tokens
+   * Quotes with a higher price impact than the settings allow are rejected
    */
   async getQuote(
     inputMint: string,
     outputMint: string,
-    amount: number,
-    slippageBps: number = 100,
+    amount: bigint, // Base units, of the output token in ExactOut mode
     swapMode: string = 'ExactOut',
+    settings: SwapSettings = DEFAULT_SWAP_SETTINGS,
+    platformFeeBps = 0,
   ): Promise<JupiterQuote> {
+    let quote: JupiterQuote;
     try {
       const params = new URLSearchParams({
         inputMint,
         outputMint,
         amount: amount.toString(),
-        slippageBps: slippageBps.toString(),
+        slippageBps: settings.maxSlippageBps.toString(),
         swapMode,
+        onlyDirectRoutes: settings.onlyDirectRoutes.toString(),
       });
+      if (settings.excludedDexes.length > 0) {
+        params.set('excludeDexes', settings.excludedDexes.join(','));
+      }
+      if (platformFeeBps > 0) {
+        params.set('platformFeeBps', platformFeeBps.toString());
+      }
 
       const response = await axios.get(
         `${this.jupiterQuoteApiUrl}?${params.toString()}`,
       );
-      return response.data;
+      quote = response.data;
     } catch (error) {
       this.logger.error(`Failed to get quote: ${error.message}`);
       throw new Error('Failed to get quote from Jupiter API');
     }
+
+    // Jupiter reports the price impact as a fraction
+    const priceImpactPct = parseFloat(quote.priceImpactPct) * 100;
+    if (
+      settings.maxPriceImpactPct != null &&
+      priceImpactPct > settings.maxPriceImpactPct
+    ) {
+      throw new BadRequestException(
+        `Swap price impact of ${priceImpactPct.toFixed(2)}% is above the limit of ${settings.maxPriceImpactPct}%`,
+      );
+    }
+
+    return quote;
   }
 
   /**
    * Build swap transaction
    * This will create a transaction that swaps tokens and sends output directly to destination
+   * Without a destination the output goes to the user, unwrapped if it is SOL
+   * Quotes with a platform fee need the token account that collects it
    */
   async buildSwapTransaction(
     quoteResponse: JupiterQuote,
     userPublicKey: string,
-    destinationTokenAccount: string,
+    destinationTokenAccount?: string,
+    settings: SwapSettings = DEFAULT_SWAP_SETTINGS,
+    feeAccount?: string,
   ): Promise<string> {
     try {
       this.logger.log(
-        `Building swap transaction with destination account: ${destinationTokenAccount}`,
+        `Building swap transaction with destination account: ${
+          destinationTokenAccount || userPublicKey
+        }`,
       );
 
       const response = await axios.post(this.jupiterSwapApiUrl, {
@@ -92,11 +148,9 @@ export class JupiterService {
         wrapAndUnwrapSol: true,
         useSharedAccounts: true,
         skipUserAccountsRpcCalls: false,
-        computeUnitPriceMicroLamports: 2000, // Higher priority for faster execution
+        ...this.getPriorityFee(settings), // Higher priority for faster execution
         asLegacyTransaction: false,
-        feeConfig: {
-          feeBps: 0, // No additional fees
-        },
+        feeAccount, // Receives the quote's platform fee
       });
 
       this.logger.log(
@@ -108,4 +162,24 @@ export class JupiterService {
       throw new Error('Failed to build swap transaction from Jupiter API');
     }
   }
+
+  /**
+   * Swap API parameters for the priority fee the settings ask for
+   */
+  private getPriorityFee(settings: SwapSettings): Record<string, unknown> {
+    if (settings.priorityFeeMode === PriorityFeeMode.DYNAMIC) {
+      return {
+        prioritizationFeeLamports: {
+          priorityLevelWithMaxLamports: {
+            priorityLevel: 'high',
+            maxLamports: settings.maxPriorityFeeLamports,
+          },
+        },
+      };
+    }
+
+    return {
+      computeUnitPriceMicroLamports: settings.priorityFeeMicroLamports,
+    };
+  }
 }
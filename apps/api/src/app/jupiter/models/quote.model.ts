@@ -7,6 +7,7 @@ export interface JupiterQuote {
   swapMode: string;
   slippageBps: number;
   priceImpactPct: string;
+  platformFee?: { amount: string; feeBps: number } | null; // In the input token for ExactOut
   routePlan: any[];
   swapInfo: any;
   contextSlot?: number;
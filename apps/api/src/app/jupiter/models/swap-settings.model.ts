@@ -0,0 +1,27 @@
+export enum PriorityFeeMode {
+  DYNAMIC = 'dynamic', // Jupiter estimates the fee, up to maxPriorityFeeLamports
+  FIXED = 'fixed', // Always priorityFeeMicroLamports per compute unit
+}
+
+/**
+ * How swaps are quoted and built
+ */
+export interface SwapSettings {
+  maxSlippageBps: number;
+  priorityFeeMode: PriorityFeeMode;
+  priorityFeeMicroLamports: number;
+  maxPriorityFeeLamports: number;
+  excludedDexes: string[]; // Jupiter DEX labels, e.g. "Raydium CLMM"
+  maxPriceImpactPct: number | null; // In percent, quotes above it are rejected
+  onlyDirectRoutes: boolean;
+}
+
+export const DEFAULT_SWAP_SETTINGS: SwapSettings = {
+  maxSlippageBps: 100,
+  priorityFeeMode: PriorityFeeMode.FIXED,
+  priorityFeeMicroLamports: 2000,
+  maxPriorityFeeLamports: 1000000,
+  excludedDexes: [],
+  maxPriceImpactPct: null,
+  onlyDirectRoutes: false,
+};
@@ -1,4 +1,11 @@
-import { IsNotEmpty, IsString } from 'class-validator';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
 
 export class CreateMerchantDto {
   @IsNotEmpty()
@@ -8,4 +15,14 @@ export class CreateMerchantDto {
   @IsNotEmpty()
   @IsString()
   walletAddress: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10080)
+  paymentExpiryMinutes?: number;
+
+  @IsOptional()
+  @IsString()
+  settlementMint?: string; // Defaults to USDC
 }
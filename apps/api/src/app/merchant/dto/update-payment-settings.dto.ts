@@ -0,0 +1,51 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { PriorityFeeMode } from '../../jupiter/models/swap-settings.model';
+
+// Settings left out keep their current value
+export class UpdatePaymentSettingsDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5000)
+  maxSlippageBps?: number;
+
+  @IsOptional()
+  @IsEnum(PriorityFeeMode)
+  priorityFeeMode?: PriorityFeeMode;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  priorityFeeMicroLamports?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxPriorityFeeLamports?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  excludedDexes?: string[];
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  @Max(100)
+  maxPriceImpactPct?: number | null; // Null removes the limit
+
+  @IsOptional()
+  @IsBoolean()
+  onlyDirectRoutes?: boolean;
+}
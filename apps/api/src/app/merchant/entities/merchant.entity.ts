@@ -8,6 +8,11 @@ import {
   OneToMany,
 } from 'typeorm';
 import { Payment } from '../../payment/entities/payment.entity';
+import { USDC_DECIMALS, USDC_MINT } from '../../solana/solana.constants';
+import { PaymentSettings } from './payment-settings.entity';
+import { Money } from '../../money/money';
+import { MoneyTransformer } from '../../money/money.transformer';
+import { FIAT_DECIMALS } from '../../money/money.constants';
 
 @Entity('merchants')
 export class Merchant {
@@ -20,8 +25,41 @@ export class Merchant {
   @Column()
   walletAddress: string;
 
-  @Column({ unique: true })
-  apiKey: string;
+  // Legacy plaintext key, moved into the api_keys table on startup
+  @Column({ type: 'varchar', unique: true, nullable: true, select: false })
+  apiKey: string | null;
+
+  @Column({ default: 30 })
+  paymentExpiryMinutes: number;
+
+  // Token the merchant receives, the wrapped SOL mint means native SOL
+  @Column({ default: USDC_MINT })
+  settlementMint: string;
+
+  @Column({ default: USDC_DECIMALS })
+  settlementDecimals: number;
+
+  // How swaps into the settlement token are quoted and built
+  @Column(() => PaymentSettings)
+  paymentSettings: PaymentSettings;
+
+  // Platform fee overrides, null means the platform default
+  @Column({ type: 'int', nullable: true })
+  platformFeeBps: number | null;
+
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    nullable: true,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  platformFeeMinUsd: Money | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  webhookUrl: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  webhookSecret: string | null;
 
   @OneToMany(() => Payment, (payment) => payment.merchantId)
   payments: Payment[];
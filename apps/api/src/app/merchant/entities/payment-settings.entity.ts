@@ -0,0 +1,39 @@
+import { Column } from 'typeorm';
+import {
+  DEFAULT_SWAP_SETTINGS,
+  PriorityFeeMode,
+  SwapSettings,
+} from '../../jupiter/models/swap-settings.model';
+
+/**
+ * Merchant's swap configuration, embedded in the merchants table
+ */
+export class PaymentSettings implements SwapSettings {
+  // Most a swap may slip from its quote
+  @Column({ default: DEFAULT_SWAP_SETTINGS.maxSlippageBps })
+  maxSlippageBps: number;
+
+  @Column({
+    type: 'enum',
+    enum: PriorityFeeMode,
+    default: DEFAULT_SWAP_SETTINGS.priorityFeeMode,
+  })
+  priorityFeeMode: PriorityFeeMode;
+
+  // Compute unit price in fixed mode
+  @Column({ default: DEFAULT_SWAP_SETTINGS.priorityFeeMicroLamports })
+  priorityFeeMicroLamports: number;
+
+  // Most the priority fee may cost in dynamic mode
+  @Column({ default: DEFAULT_SWAP_SETTINGS.maxPriorityFeeLamports })
+  maxPriorityFeeLamports: number;
+
+  @Column({ type: 'text', array: true, default: () => "'{}'" })
+  excludedDexes: string[];
+
+  @Column({ type: 'double precision', nullable: true })
+  maxPriceImpactPct: number | null;
+
+  @Column({ default: DEFAULT_SWAP_SETTINGS.onlyDirectRoutes })
+  onlyDirectRoutes: boolean;
+}
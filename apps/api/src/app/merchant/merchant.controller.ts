@@ -12,7 +12,12 @@ import {
 } from '@nestjs/common';
 import { MerchantService } from './merchant.service';
 import { CreateMerchantDto } from './dto/create-merchant.dto';
+import { UpdatePaymentSettingsDto } from './dto/update-payment-settings.dto';
 import { Merchant } from './entities/merchant.entity';
+import { IssuedMerchantKeys } from './models/merchant.model';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthMerchantId, OwnMerchant, Scopes } from '../auth/auth.decorators';
+import { ApiKeyScope } from '../auth/models/api-key.model';
 
 @Controller('merchants')
 export class MerchantController {
@@ -22,23 +27,36 @@ export class MerchantController {
   @HttpCode(HttpStatus.CREATED)
   async create(
     @Body() createMerchantDto: CreateMerchantDto
-  ): Promise<Merchant> {
+  ): Promise<Merchant & IssuedMerchantKeys> {
     return this.merchantService.createMerchant(createMerchantDto);
   }
 
   @Get(':id')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.MERCHANT_READ)
+  @OwnMerchant('id')
   async findOne(@Param('id') id: string): Promise<Merchant> {
     return this.merchantService.getMerchantById(id);
   }
 
   @Get()
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.MERCHANT_READ)
   async getByWalletAddress(
-    @Query('walletAddress') walletAddress: string
+    @Query('walletAddress') walletAddress: string | undefined,
+    @AuthMerchantId() merchantId: string
   ): Promise<Merchant[]> {
-    return this.merchantService.getMerchantsByWalletAddress(walletAddress);
+    // Keys only ever see their own merchant
+    const merchant = await this.merchantService.getMerchantById(merchantId);
+    return !walletAddress || merchant.walletAddress === walletAddress
+      ? [merchant]
+      : [];
   }
 
   @Put(':id/wallet')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.MERCHANT_WRITE)
+  @OwnMerchant('id')
   async updateWallet(
     @Param('id') id: string,
     @Body('walletAddress') walletAddress: string
@@ -46,8 +64,71 @@ export class MerchantController {
     return this.merchantService.updateWalletAddress(id, walletAddress);
   }
 
+  @Put(':id/payment-expiry')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.MERCHANT_WRITE)
+  @OwnMerchant('id')
+  async updatePaymentExpiry(
+    @Param('id') id: string,
+    @Body('paymentExpiryMinutes') paymentExpiryMinutes: number
+  ): Promise<Merchant> {
+    return this.merchantService.updatePaymentExpiry(id, paymentExpiryMinutes);
+  }
+
+  @Put(':id/settlement-mint')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.MERCHANT_WRITE)
+  @OwnMerchant('id')
+  async updateSettlementMint(
+    @Param('id') id: string,
+    @Body('settlementMint') settlementMint: string
+  ): Promise<Merchant> {
+    return this.merchantService.updateSettlementMint(id, settlementMint);
+  }
+
+  @Put(':id/payment-settings')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.MERCHANT_WRITE)
+  @OwnMerchant('id')
+  async updatePaymentSettings(
+    @Param('id') id: string,
+    @Body() updatePaymentSettingsDto: UpdatePaymentSettingsDto
+  ): Promise<Merchant> {
+    return this.merchantService.updatePaymentSettings(
+      id,
+      updatePaymentSettingsDto
+    );
+  }
+
+  @Put(':id/webhook')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.MERCHANT_WRITE)
+  @OwnMerchant('id')
+  async updateWebhook(
+    @Param('id') id: string,
+    @Body('webhookUrl') webhookUrl: string | null
+  ): Promise<Merchant> {
+    return this.merchantService.updateWebhook(id, webhookUrl);
+  }
+
+  @Post(':id/webhook/rotate-secret')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.MERCHANT_WRITE)
+  @OwnMerchant('id')
+  async rotateWebhookSecret(
+    @Param('id') id: string
+  ): Promise<{ webhookSecret: string }> {
+    return this.merchantService.rotateWebhookSecret(id);
+  }
+
   @Post(':id/regenerate-api-key')
-  async regenerateApiKey(@Param('id') id: string): Promise<{ apiKey: string }> {
-    return this.merchantService.regenerateApiKey(id);
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.API_KEYS)
+  @OwnMerchant('id')
+  async regenerateApiKey(
+    @Param('id') id: string,
+    @Body('gracePeriodMinutes') gracePeriodMinutes: number | undefined
+  ): Promise<{ apiKey: string }> {
+    return this.merchantService.regenerateApiKey(id, gracePeriodMinutes);
   }
 }
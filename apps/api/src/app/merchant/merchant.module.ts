@@ -3,9 +3,11 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { MerchantService } from './merchant.service';
 import { MerchantController } from './merchant.controller';
 import { Merchant } from './entities/merchant.entity';
+import { AuthModule } from '../auth/auth.module';
+import { JupiterModule } from '../jupiter/jupiter.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Merchant])],
+  imports: [TypeOrmModule.forFeature([Merchant]), AuthModule, JupiterModule],
   providers: [MerchantService],
   controllers: [MerchantController],
   exports: [MerchantService],
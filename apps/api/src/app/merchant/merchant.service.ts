@@ -1,37 +1,69 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { v4 as uuidv4 } from 'uuid';
+import { randomBytes } from 'crypto';
 import { Merchant } from './entities/merchant.entity';
 import { CreateMerchantDto } from './dto/create-merchant.dto';
+import { UpdatePaymentSettingsDto } from './dto/update-payment-settings.dto';
+import { UpdatePlatformFeeDto } from '../platform-fee/dto/update-platform-fee.dto';
+import { IssuedMerchantKeys } from './models/merchant.model';
 import { PublicKey } from '@solana/web3.js';
+import { ApiKeyService } from '../auth/api-key.service';
+import { JupiterService } from '../jupiter/jupiter.service';
+import { PriorityFeeMode } from '../jupiter/models/swap-settings.model';
+import { Money } from '../money/money';
+import { FIAT_DECIMALS } from '../money/money.constants';
+import {
+  NATIVE_SOL_DECIMALS,
+  NATIVE_SOL_MINT,
+  USDC_DECIMALS,
+  USDC_MINT,
+} from '../solana/solana.constants';
 
 @Injectable()
 export class MerchantService {
   constructor(
     @InjectRepository(Merchant)
-    private merchantRepository: Repository<Merchant>
+    private merchantRepository: Repository<Merchant>,
+    private readonly apiKeyService: ApiKeyService,
+    private readonly jupiterService: JupiterService
   ) {}
 
   /**
-   * Create a new merchant
+   * Create a new merchant with a default secret and publishable key
    */
   async createMerchant(
     createMerchantDto: CreateMerchantDto
-  ): Promise<Merchant> {
+  ): Promise<Merchant & IssuedMerchantKeys> {
     try {
       new PublicKey(createMerchantDto.walletAddress);
+    } catch (error) {
+      throw new Error('Invalid wallet address');
+    }
 
-      const merchant = this.merchantRepository.create({
+    const settlement = await this.resolveSettlementToken(
+      createMerchantDto.settlementMint || USDC_MINT
+    );
+
+    const merchant = await this.merchantRepository.save(
+      this.merchantRepository.create({
         name: createMerchantDto.name,
         walletAddress: createMerchantDto.walletAddress,
-        apiKey: this.generateApiKey(),
-      });
+        paymentExpiryMinutes: createMerchantDto.paymentExpiryMinutes,
+        settlementMint: settlement.mint,
+        settlementDecimals: settlement.decimals,
+      })
+    );
 
-      return this.merchantRepository.save(merchant);
-    } catch (error) {
-      throw new Error('Invalid wallet address');
-    }
+    const { secret, publishable } = await this.apiKeyService.issueDefaultKeys(
+      merchant.id
+    );
+
+    return { ...merchant, apiKey: secret.key, publishableKey: publishable.key };
   }
 
   /**
@@ -63,13 +95,6 @@ export class MerchantService {
       throw new Error('Invalid wallet address');
     }
   }
-  /**
-   * Get merchant by API key
-   */
-  async getMerchantByApiKey(apiKey: string): Promise<Merchant | null> {
-    return this.merchantRepository.findOne({ where: { apiKey } });
-  }
-
   /**
    * Update merchant wallet address
    */
@@ -91,20 +116,266 @@ export class MerchantService {
   }
 
   /**
-   * Regenerate API key
+   * Update how long pending payments stay valid by default
+   */
+  async updatePaymentExpiry(
+    id: string,
+    paymentExpiryMinutes: number
+  ): Promise<Merchant> {
+    if (!Number.isInteger(paymentExpiryMinutes) || paymentExpiryMinutes < 1) {
+      throw new BadRequestException(
+        'Payment expiry must be a positive number of minutes'
+      );
+    }
+
+    const merchant = await this.getMerchantById(id);
+    merchant.paymentExpiryMinutes = paymentExpiryMinutes;
+
+    return this.merchantRepository.save(merchant);
+  }
+
+  /**
+   * Change the token new payments settle in
+   */
+  async updateSettlementMint(
+    id: string,
+    settlementMint: string
+  ): Promise<Merchant> {
+    const settlement = await this.resolveSettlementToken(settlementMint);
+
+    const merchant = await this.getMerchantById(id);
+    merchant.settlementMint = settlement.mint;
+    merchant.settlementDecimals = settlement.decimals;
+
+    return this.merchantRepository.save(merchant);
+  }
+
+  /**
+   * Change how swaps into the settlement token are quoted and built
+   */
+  async updatePaymentSettings(
+    id: string,
+    updatePaymentSettingsDto: UpdatePaymentSettingsDto
+  ): Promise<Merchant> {
+    const {
+      maxSlippageBps,
+      priorityFeeMode,
+      priorityFeeMicroLamports,
+      maxPriorityFeeLamports,
+      excludedDexes,
+      maxPriceImpactPct,
+      onlyDirectRoutes,
+    } = updatePaymentSettingsDto;
+
+    if (
+      maxSlippageBps !== undefined &&
+      (!Number.isInteger(maxSlippageBps) ||
+        maxSlippageBps < 1 ||
+        maxSlippageBps > 5000)
+    ) {
+      throw new BadRequestException(
+        'Max slippage must be between 1 and 5000 basis points'
+      );
+    }
+
+    if (
+      priorityFeeMode !== undefined &&
+      !Object.values(PriorityFeeMode).includes(priorityFeeMode)
+    ) {
+      throw new BadRequestException(
+        `Priority fee mode must be one of ${Object.values(PriorityFeeMode).join(', ')}`
+      );
+    }
+
+    for (const [name, value] of [
+      ['Priority fee', priorityFeeMicroLamports],
+      ['Max priority fee', maxPriorityFeeLamports],
+    ] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new BadRequestException(`${name} must be a whole number`);
+      }
+    }
+
+    if (
+      excludedDexes !== undefined &&
+      (!Array.isArray(excludedDexes) ||
+        excludedDexes.some((dex) => typeof dex !== 'string' || !dex.trim()))
+    ) {
+      throw new BadRequestException('Excluded DEXes must be a list of names');
+    }
+
+    if (
+      maxPriceImpactPct != null &&
+      (typeof maxPriceImpactPct !== 'number' ||
+        !(maxPriceImpactPct > 0) ||
+        maxPriceImpactPct > 100)
+    ) {
+      throw new BadRequestException(
+        'Max price impact must be a percentage above 0 and at most 100'
+      );
+    }
+
+    if (
+      onlyDirectRoutes !== undefined &&
+      typeof onlyDirectRoutes !== 'boolean'
+    ) {
+      throw new BadRequestException('Only direct routes must be true or false');
+    }
+
+    // Settings left out keep their current value
+    const merchant = await this.getMerchantById(id);
+    const settings = merchant.paymentSettings;
+    settings.maxSlippageBps = maxSlippageBps ?? settings.maxSlippageBps;
+    settings.priorityFeeMode = priorityFeeMode ?? settings.priorityFeeMode;
+    settings.priorityFeeMicroLamports =
+      priorityFeeMicroLamports ?? settings.priorityFeeMicroLamports;
+    settings.maxPriorityFeeLamports =
+      maxPriorityFeeLamports ?? settings.maxPriorityFeeLamports;
+    settings.excludedDexes =
+      excludedDexes?.map((dex) => dex.trim()) ?? settings.excludedDexes;
+    settings.onlyDirectRoutes = onlyDirectRoutes ?? settings.onlyDirectRoutes;
+    if (maxPriceImpactPct !== undefined) {
+      settings.maxPriceImpactPct = maxPriceImpactPct;
+    }
+
+    return this.merchantRepository.save(merchant);
+  }
+
+  /**
+   * Set or clear the merchant's platform fee overrides, only platform
+   * operators may call this
+   */
+  async updatePlatformFee(
+    id: string,
+    updatePlatformFeeDto: UpdatePlatformFeeDto
+  ): Promise<Merchant> {
+    const { feeBps, minFeeUsd } = updatePlatformFeeDto;
+
+    if (
+      feeBps != null &&
+      (!Number.isInteger(feeBps) || feeBps < 0 || feeBps > 10000)
+    ) {
+      throw new BadRequestException(
+        'Platform fee must be between 0 and 10000 basis points'
+      );
+    }
+
+    if (
+      minFeeUsd != null &&
+      (typeof minFeeUsd !== 'string' || !/^\d+(\.\d+)?$/.test(minFeeUsd))
+    ) {
+      throw new BadRequestException(
+        'Minimum platform fee must be a decimal amount of US dollars'
+      );
+    }
+
+    // Overrides left out keep their current value
+    const merchant = await this.getMerchantById(id);
+    if (feeBps !== undefined) {
+      merchant.platformFeeBps = feeBps;
+    }
+    if (minFeeUsd !== undefined) {
+      merchant.platformFeeMinUsd =
+        minFeeUsd === null ? null : Money.of(minFeeUsd, FIAT_DECIMALS);
+    }
+
+    return this.merchantRepository.save(merchant);
+  }
+
+  /**
+   * Set or clear the endpoint that receives webhook events
+   */
+  async updateWebhook(
+    id: string,
+    webhookUrl: string | null
+  ): Promise<Merchant> {
+    if (webhookUrl) {
+      let url: URL;
+      try {
+        url = new URL(webhookUrl);
+      } catch {
+        throw new BadRequestException('Invalid webhook URL');
+      }
+
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new BadRequestException('Webhook URL must use http or https');
+      }
+    }
+
+    const merchant = await this.getMerchantById(id);
+    merchant.webhookUrl = webhookUrl || null;
+
+    // Issue a signing secret the first time an endpoint is configured
+    if (merchant.webhookUrl && !merchant.webhookSecret) {
+      merchant.webhookSecret = this.generateWebhookSecret();
+    }
+
+    return this.merchantRepository.save(merchant);
+  }
+
+  /**
+   * Regenerate the webhook signing secret
    */
-  async regenerateApiKey(id: string): Promise<{ apiKey: string }> {
+  async rotateWebhookSecret(id: string): Promise<{ webhookSecret: string }> {
     const merchant = await this.getMerchantById(id);
-    merchant.apiKey = this.generateApiKey();
+    merchant.webhookSecret = this.generateWebhookSecret();
 
     await this.merchantRepository.save(merchant);
-    return { apiKey: merchant.apiKey };
+    return { webhookSecret: merchant.webhookSecret };
+  }
+
+  /**
+   * Regenerate API key
+   * The previous secret key keeps working for the rotation grace period
+   */
+  async regenerateApiKey(
+    id: string,
+    gracePeriodMinutes?: number
+  ): Promise<{ apiKey: string }> {
+    await this.getMerchantById(id);
+
+    const { key } = await this.apiKeyService.rotateDefaultSecretKey(
+      id,
+      gracePeriodMinutes
+    );
+    return { apiKey: key };
+  }
+
+  /**
+   * Look up the decimals of a settlement mint, which has to be SOL or a
+   * token from the Jupiter token list so payments can be swapped into it
+   */
+  private async resolveSettlementToken(
+    mint: string
+  ): Promise<{ mint: string; decimals: number }> {
+    try {
+      new PublicKey(mint);
+    } catch {
+      throw new BadRequestException('Invalid settlement mint');
+    }
+
+    if (mint === USDC_MINT) {
+      return { mint, decimals: USDC_DECIMALS };
+    }
+    if (mint === NATIVE_SOL_MINT) {
+      return { mint, decimals: NATIVE_SOL_DECIMALS };
+    }
+
+    const tokens = await this.jupiterService.getAllTokens();
+    const token = tokens.find((t) => t.address === mint);
+    if (!token) {
+      throw new BadRequestException(
+        `Settlement mint ${mint} is not in the Jupiter token list`
+      );
+    }
+
+    return { mint, decimals: token.decimals };
   }
 
   /**
-   * Generate a random API key
+   * Generate a random webhook signing secret
    */
-  private generateApiKey(): string {
-    return `cpay_${uuidv4().replace(/-/g, '')}`;
+  private generateWebhookSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
   }
 }
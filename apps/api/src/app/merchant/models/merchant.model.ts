@@ -1,8 +1,23 @@
+import { SwapSettings } from '../../jupiter/models/swap-settings.model';
+
 export class Merchant {
   id: string;
   name: string;
   walletAddress: string;
-  apiKey: string;
+  apiKey?: string | null; // Legacy key, see the api_keys table
+  paymentExpiryMinutes: number; // Default lifetime of pending payments
+  settlementMint: string; // Mint of the token the merchant receives
+  settlementDecimals: number;
+  paymentSettings: SwapSettings; // How swaps into the settlement token are made
+  platformFeeBps?: number | null; // Platform fee override, null for the default
+  platformFeeMinUsd?: string | null; // Minimum platform fee override in USD
+  webhookUrl?: string | null; // Endpoint that receives signed payment events
+  webhookSecret?: string | null; // Secret used to sign webhook payloads
   createdAt: Date;
   updatedAt: Date;
 }
+
+export interface IssuedMerchantKeys {
+  apiKey: string; // Secret key, only returned when the merchant is created
+  publishableKey: string; // Key for browser code like PaymentWidget
+}
@@ -0,0 +1,5 @@
+// Decimals fiat payment amounts are kept with
+export const FIAT_DECIMALS = 6;
+
+// Decimals of columns that hold token amounts, more than SPL tokens use
+export const TOKEN_DECIMALS = 18;
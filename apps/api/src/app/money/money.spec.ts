@@ -0,0 +1,241 @@
+import { Money, RoundingMode } from './money';
+import { MoneyTransformer } from './money.transformer';
+
+// Small seeded generator so the property checks are repeatable
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+
+  return {
+    int: (max: number) => Math.floor(next() * max),
+    // Up to 24 digits, well past what a float holds exactly
+    baseUnits: () => {
+      const digits = 1 + Math.floor(next() * 24);
+      let value = '';
+      for (let i = 0; i < digits; i++) {
+        value += Math.floor(next() * 10);
+      }
+      return BigInt(next() < 0.2 ? `-${value}` : value);
+    },
+  };
+}
+
+const RUNS = 500;
+const ROUNDING_MODES = Object.values(RoundingMode);
+
+describe('Money', () => {
+  describe('parsing', () => {
+    it.each([
+      ['12.5', 6, BigInt(12500000)],
+      ['0.000001', 6, BigInt(1)],
+      ['-3', 2, BigInt(-300)],
+      ['.5', 1, BigInt(5)],
+      ['7.', 0, BigInt(7)],
+      ['1e-7', 9, BigInt(100)],
+      ['2.5E+3', 0, BigInt(2500)],
+      [
+        '123456789012345678.123456789',
+        9,
+        BigInt('123456789012345678123456789'),
+      ],
+    ])('reads %p at %p decimals exactly', (value, decimals, baseUnits) => {
+      expect(Money.of(value, decimals).baseUnits).toBe(baseUnits);
+    });
+
+    it('reads numbers by their shortest decimal form', () => {
+      expect(Money.of(0.1 + 0.2, 6).toString()).toBe('0.3');
+      expect(Money.of(10.99, 6).baseUnits).toBe(BigInt(10990000));
+      expect(Money.of(1e-7, 9).baseUnits).toBe(BigInt(100));
+    });
+
+    it.each(['', '.', 'abc', '1.2.3', '1,5', '--1'])('rejects %p', (value) => {
+      expect(() => Money.of(value, 6)).toThrow('Invalid amount');
+    });
+
+    it('rejects non-finite numbers and unsafe base units', () => {
+      expect(() => Money.of(Infinity, 6)).toThrow('Invalid amount');
+      expect(() => Money.of(NaN, 6)).toThrow('Invalid amount');
+      expect(() => Money.fromBaseUnits(2 ** 60, 6)).toThrow('safe integer');
+      expect(() => Money.zero(-1)).toThrow('Invalid number of decimals');
+    });
+  });
+
+  describe('rounding', () => {
+    it.each([
+      ['1.25', RoundingMode.DOWN, '1.2'],
+      ['1.25', RoundingMode.UP, '1.3'],
+      ['1.25', RoundingMode.HALF_UP, '1.3'],
+      ['1.25', RoundingMode.HALF_EVEN, '1.2'],
+      ['1.35', RoundingMode.HALF_EVEN, '1.4'],
+      ['1.251', RoundingMode.HALF_EVEN, '1.3'],
+      ['-1.25', RoundingMode.DOWN, '-1.2'],
+      ['-1.25', RoundingMode.UP, '-1.3'],
+      ['-1.25', RoundingMode.HALF_UP, '-1.3'],
+      ['-1.25', RoundingMode.HALF_EVEN, '-1.2'],
+      ['-0.04', RoundingMode.HALF_UP, '0'],
+    ])('rounds %p %s to %p', (value, rounding, expected) => {
+      expect(Money.of(value, 1, rounding).toString()).toBe(expected);
+    });
+
+    it('never moves more than one unit, or half a unit to the nearest', () => {
+      const random = createRandom(1);
+
+      for (let run = 0; run < RUNS; run++) {
+        const from = 1 + random.int(18);
+        const to = random.int(from);
+        const value = Money.fromBaseUnits(random.baseUnits(), from);
+
+        for (const rounding of ROUNDING_MODES) {
+          const error = value
+            .rescale(to, rounding)
+            .subtract(value)
+            .rescale(from).baseUnits;
+          const unit = Money.fromBaseUnits(1, to).toBaseUnits(from);
+          const absolute = error < BigInt(0) ? -error : error;
+
+          expect(absolute < unit).toBe(true);
+          if (
+            rounding === RoundingMode.HALF_UP ||
+            rounding === RoundingMode.HALF_EVEN
+          ) {
+            expect(absolute * BigInt(2) <= unit).toBe(true);
+          }
+        }
+      }
+    });
+
+    it('rounds towards zero for DOWN and away from it for UP', () => {
+      const random = createRandom(2);
+
+      for (let run = 0; run < RUNS; run++) {
+        const value = Money.fromBaseUnits(random.baseUnits(), 9);
+        const down = value.rescale(3, RoundingMode.DOWN);
+        const up = value.rescale(3, RoundingMode.UP);
+
+        if (value.isNegative()) {
+          expect(down.compare(value)).toBeGreaterThanOrEqual(0);
+          expect(up.compare(value)).toBeLessThanOrEqual(0);
+        } else {
+          expect(down.compare(value)).toBeLessThanOrEqual(0);
+          expect(up.compare(value)).toBeGreaterThanOrEqual(0);
+        }
+      }
+    });
+
+    it('is symmetric around zero for the nearest modes', () => {
+      const random = createRandom(3);
+
+      for (let run = 0; run < RUNS; run++) {
+        const units = random.baseUnits();
+        for (const rounding of [RoundingMode.HALF_UP, RoundingMode.HALF_EVEN]) {
+          const positive = Money.fromBaseUnits(units, 8).rescale(2, rounding);
+          const negative = Money.fromBaseUnits(-units, 8).rescale(2, rounding);
+
+          expect(negative.baseUnits).toBe(-positive.baseUnits);
+        }
+      }
+    });
+  });
+
+  describe('round trips', () => {
+    it('survives formatting and parsing', () => {
+      const random = createRandom(4);
+
+      for (let run = 0; run < RUNS; run++) {
+        const decimals = random.int(19);
+        const value = Money.fromBaseUnits(random.baseUnits(), decimals);
+
+        expect(Money.of(value.toFixed(), decimals).baseUnits).toBe(
+          value.baseUnits,
+        );
+        expect(Money.of(value.toString(), decimals).baseUnits).toBe(
+          value.baseUnits,
+        );
+        expect(Money.of(value.toJSON(), decimals).equals(value)).toBe(true);
+      }
+    });
+
+    it('survives adding decimals and removing them again', () => {
+      const random = createRandom(5);
+
+      for (let run = 0; run < RUNS; run++) {
+        const value = Money.fromBaseUnits(random.baseUnits(), 6);
+        const widened = value.rescale(6 + random.int(12));
+
+        for (const rounding of ROUNDING_MODES) {
+          expect(widened.rescale(6, rounding).baseUnits).toBe(value.baseUnits);
+        }
+      }
+    });
+
+    it('survives the database transformer', () => {
+      const random = createRandom(6);
+      const transformer = new MoneyTransformer(18);
+
+      for (let run = 0; run < RUNS; run++) {
+        const value = Money.fromBaseUnits(random.baseUnits(), random.int(19));
+        const stored = transformer.to(value);
+
+        expect(stored).toBe(value.rescale(18).toFixed());
+        expect(transformer.from(stored)?.equals(value)).toBe(true);
+      }
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('adds and subtracts exactly', () => {
+      const random = createRandom(7);
+
+      for (let run = 0; run < RUNS; run++) {
+        const a = Money.fromBaseUnits(random.baseUnits(), random.int(10));
+        const b = Money.fromBaseUnits(random.baseUnits(), random.int(10));
+
+        expect(a.add(b).subtract(b).equals(a)).toBe(true);
+        expect(a.add(b).equals(b.add(a))).toBe(true);
+        expect(a.subtract(b).isNegative()).toBe(a.compare(b) < 0);
+      }
+    });
+
+    it('multiplies by decimal factors without float error', () => {
+      expect(Money.of('10', 6).multiply(1.1).toString()).toBe('11');
+      expect(Money.of('0.1', 6).multiply(3).toString()).toBe('0.3');
+      expect(Money.of('10', 6).multiply('0.333333333', 9).toString()).toBe(
+        '3.33333333',
+      );
+      expect(
+        Money.of('1', 6)
+          .multiply(1 / 3, 2)
+          .toString(),
+      ).toBe('0.33');
+    });
+
+    it('keeps the amount when multiplying by one', () => {
+      const random = createRandom(8);
+
+      for (let run = 0; run < RUNS; run++) {
+        const value = Money.fromBaseUnits(random.baseUnits(), random.int(12));
+
+        expect(value.multiply(1).equals(value)).toBe(true);
+        expect(value.multiply('1.000').baseUnits).toBe(value.baseUnits);
+      }
+    });
+  });
+
+  describe('formatting', () => {
+    it.each([
+      [BigInt(12500000), 6, '12.500000', '12.5'],
+      [BigInt(-5), 3, '-0.005', '-0.005'],
+      [BigInt(1000), 0, '1000', '1000'],
+      [BigInt(0), 9, '0.000000000', '0'],
+    ])('formats %p at %p decimals', (baseUnits, decimals, fixed, trimmed) => {
+      const value = Money.fromBaseUnits(baseUnits, decimals);
+
+      expect(value.toFixed()).toBe(fixed);
+      expect(value.toString()).toBe(trimmed);
+      expect(JSON.stringify({ value })).toBe(`{"value":"${trimmed}"}`);
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { ValueTransformer } from 'typeorm';
+import { Money } from './money';
+
+/**
+ * Maps decimal columns to Money, so amounts are never read into floating
+ * point. The scale must match the column's scale.
+ */
+export class MoneyTransformer implements ValueTransformer {
+  constructor(private readonly scale: number) {}
+
+  to(value: Money | string | number | null | undefined): string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    return Money.of(value, this.scale).toFixed();
+  }
+
+  from(value: string | null): Money | null {
+    return value === null || value === undefined
+      ? null
+      : Money.of(value, this.scale);
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * How to round an amount that has more decimals than it can hold
+ */
+export enum RoundingMode {
+  DOWN = 'down', // Towards zero
+  UP = 'up', // Away from zero
+  HALF_UP = 'half_up', // To the nearest, ties away from zero
+  HALF_EVEN = 'half_even', // To the nearest, ties to the even neighbour
+}
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+// Plain or scientific notation decimals, as written by String(number)
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * An exact decimal amount held as bigint base units, so 12.5 USDC is
+ * 12500000 base units with 6 decimals
+ */
+export class Money {
+  private constructor(
+    readonly baseUnits: bigint,
+    readonly decimals: number,
+  ) {}
+
+  /**
+   * Wrap base units, e.g. a token balance or a Jupiter quote amount
+   */
+  static fromBaseUnits(
+    baseUnits: bigint | string | number,
+    decimals: number,
+  ): Money {
+    assertDecimals(decimals);
+
+    if (typeof baseUnits === 'number' && !Number.isSafeInteger(baseUnits)) {
+      throw new RangeError(`${baseUnits} is not a safe integer amount`);
+    }
+
+    return new Money(BigInt(baseUnits), decimals);
+  }
+
+  /**
+   * Parse a decimal amount without going through floating point, rounding
+   * anything beyond the given decimals
+   */
+  static of(
+    value: Money | string | number,
+    decimals: number,
+    rounding = RoundingMode.HALF_UP,
+  ): Money {
+    assertDecimals(decimals);
+
+    if (value instanceof Money) {
+      return value.rescale(decimals, rounding);
+    }
+
+    const { units, scale } = parseDecimal(value);
+    return new Money(rescaleUnits(units, scale, decimals, rounding), decimals);
+  }
+
+  static zero(decimals: number): Money {
+    return Money.fromBaseUnits(ZERO, decimals);
+  }
+
+  /**
+   * Change the number of decimals, rounding when some are dropped
+   */
+  rescale(decimals: number, rounding = RoundingMode.HALF_UP): Money {
+    assertDecimals(decimals);
+
+    return new Money(
+      rescaleUnits(this.baseUnits, this.decimals, decimals, rounding),
+      decimals,
+    );
+  }
+
+  /**
+   * Base units at the given decimals, e.g. for a transfer instruction
+   */
+  toBaseUnits(
+    decimals = this.decimals,
+    rounding = RoundingMode.HALF_UP,
+  ): bigint {
+    return this.rescale(decimals, rounding).baseUnits;
+  }
+
+  /**
+   * Exact sum, kept at the larger of both decimals
+   */
+  add(other: Money): Money {
+    const decimals = Math.max(this.decimals, other.decimals);
+    return new Money(
+      this.toBaseUnits(decimals) + other.toBaseUnits(decimals),
+      decimals,
+    );
+  }
+
+  /**
+   * Exact difference, kept at the larger of both decimals
+   */
+  subtract(other: Money): Money {
+    const decimals = Math.max(this.decimals, other.decimals);
+    return new Money(
+      this.toBaseUnits(decimals) - other.toBaseUnits(decimals),
+      decimals,
+    );
+  }
+
+  /**
+   * Multiply by a decimal factor such as an exchange rate, rounding the
+   * result to the given decimals
+   */
+  multiply(
+    factor: string | number,
+    decimals = this.decimals,
+    rounding = RoundingMode.HALF_UP,
+  ): Money {
+    assertDecimals(decimals);
+
+    const { units, scale } = parseDecimal(factor);
+    return new Money(
+      rescaleUnits(
+        this.baseUnits * units,
+        this.decimals + scale,
+        decimals,
+        rounding,
+      ),
+      decimals,
+    );
+  }
+
+  /**
+   * -1, 0 or 1 as this amount is less than, equal to or greater than another
+   */
+  compare(other: Money): number {
+    const difference = this.subtract(other).baseUnits;
+    return difference > ZERO ? 1 : difference < ZERO ? -1 : 0;
+  }
+
+  equals(other: Money): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.baseUnits === ZERO;
+  }
+
+  isPositive(): boolean {
+    return this.baseUnits > ZERO;
+  }
+
+  isNegative(): boolean {
+    return this.baseUnits < ZERO;
+  }
+
+  /**
+   * The amount with all of its decimals, as stored in decimal columns
+   */
+  toFixed(): string {
+    const negative = this.baseUnits < ZERO;
+    const digits = (negative ? -this.baseUnits : this.baseUnits)
+      .toString()
+      .padStart(this.decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - this.decimals);
+    const fraction = digits.slice(digits.length - this.decimals);
+
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * The amount without trailing zeros, e.g. "12.5"
+   */
+  toString(): string {
+    const fixed = this.toFixed();
+    return fixed.includes('.') ? fixed.replace(/\.?0+$/, '') : fixed;
+  }
+
+  /**
+   * Nearest floating point number, only for display and logging
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * Amounts are sent to clients as decimal strings so they keep every digit
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+function assertDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new RangeError(`Invalid number of decimals: ${decimals}`);
+  }
+}
+
+function pow10(exponent: number): bigint {
+  return BigInt(`1${'0'.repeat(exponent)}`);
+}
+
+/**
+ * Split a decimal into integer units and the number of decimals they carry
+ */
+function parseDecimal(value: string | number): {
+  units: bigint;
+  scale: number;
+} {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new RangeError(`Invalid amount: ${value}`);
+  }
+
+  const match = DECIMAL_PATTERN.exec(String(value).trim());
+  if (!match || !(match[2] || match[3])) {
+    throw new RangeError(`Invalid amount: ${value}`);
+  }
+
+  const [, sign, whole = '', fraction = '', exponent = '0'] = match;
+  const units = BigInt(`${sign === '-' ? '-' : ''}${whole}${fraction}` || '0');
+  const scale = fraction.length - parseInt(exponent, 10);
+
+  return scale < 0
+    ? { units: units * pow10(-scale), scale: 0 }
+    : { units, scale };
+}
+
+/**
+ * Move base units from one number of decimals to another
+ */
+function rescaleUnits(
+  units: bigint,
+  from: number,
+  to: number,
+  rounding: RoundingMode,
+): bigint {
+  if (to >= from) {
+    return units * pow10(to - from);
+  }
+
+  const divisor = pow10(from - to);
+  const quotient = units / divisor; // Truncates towards zero
+  const remainder = units % divisor;
+  if (remainder === ZERO) {
+    return quotient;
+  }
+
+  const away = quotient + (units < ZERO ? -ONE : ONE);
+  const doubled = (remainder < ZERO ? -remainder : remainder) * TWO;
+
+  switch (rounding) {
+    case RoundingMode.DOWN:
+      return quotient;
+    case RoundingMode.UP:
+      return away;
+    case RoundingMode.HALF_EVEN:
+      return doubled > divisor ||
+        (doubled === divisor && quotient % TWO !== ZERO)
+        ? away
+        : quotient;
+    default:
+      return doubled >= divisor ? away : quotient;
+  }
+}
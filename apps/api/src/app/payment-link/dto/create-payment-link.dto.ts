@@ -0,0 +1,45 @@
+import {
+  IsDateString,
+  IsInt,
+  IsISO4217CurrencyCode,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { MAX_PAYMENT_LINK_DESCRIPTION_LENGTH } from '../payment-link.constants';
+
+export class CreatePaymentLinkDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(MAX_PAYMENT_LINK_DESCRIPTION_LENGTH)
+  description: string;
+
+  @IsNotEmpty()
+  @IsISO4217CurrencyCode()
+  currency: string; // ISO 4217 code such as USD or EUR
+
+  // Leave out to let the customer choose, within minAmount and maxAmount
+  @IsOptional()
+  @IsNumber()
+  amount?: number;
+
+  @IsOptional()
+  @IsNumber()
+  minAmount?: number;
+
+  @IsOptional()
+  @IsNumber()
+  maxAmount?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUses?: number; // Paid payments the link accepts, unlimited by default
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
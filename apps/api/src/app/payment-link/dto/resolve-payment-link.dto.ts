@@ -0,0 +1,11 @@
+import { IsEmail, IsNumber, IsOptional } from 'class-validator';
+
+export class ResolvePaymentLinkDto {
+  @IsOptional()
+  @IsNumber()
+  amount?: number; // Required when the link lets the customer choose
+
+  @IsOptional()
+  @IsEmail()
+  customerEmail?: string;
+}
@@ -0,0 +1,73 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Money } from '../../money/money';
+import { MoneyTransformer } from '../../money/money.transformer';
+import { FIAT_DECIMALS } from '../../money/money.constants';
+
+@Entity('payment_links')
+@Index(['merchantId', 'createdAt'])
+export class PaymentLink {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  merchantId: string;
+
+  // Shown to customers on the link page
+  @Column({ type: 'text' })
+  description: string;
+
+  @Column()
+  currency: string; // ISO 4217 code such as USD or EUR
+
+  // Fixed price, null when the customer chooses the amount
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    nullable: true,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  amount: Money | null;
+
+  // Bounds for customer-chosen amounts
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    nullable: true,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  minAmount: Money | null;
+
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    nullable: true,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  maxAmount: Money | null;
+
+  // How many times the link can be paid, unlimited when null
+  @Column({ type: 'int', nullable: true })
+  maxUses: number | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ default: true })
+  active: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  deactivatedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
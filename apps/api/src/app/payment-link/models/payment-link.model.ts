@@ -0,0 +1,20 @@
+import { Money } from '../../money/money';
+
+export interface PaymentLinkStats {
+  payments: number; // Payments minted for visitors
+  paidPayments: number; // Completed, including ones refunded since
+  collectedAmount: Money; // Sum of paid payments, in the link currency
+  remainingUses: number | null; // Null when the link has no maxUses
+  lastPaymentAt: Date | null;
+}
+
+// What customers see before paying, without the merchant's settings
+export interface PublicPaymentLink {
+  id: string;
+  description: string;
+  currency: string;
+  amount: Money | null;
+  minAmount: Money | null;
+  maxAmount: Money | null;
+  available: boolean; // False once inactive, expired or used up
+}
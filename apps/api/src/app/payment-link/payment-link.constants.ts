@@ -0,0 +1,4 @@
+export const MAX_PAYMENT_LINK_DESCRIPTION_LENGTH = 500;
+
+// Metadata key linking minted payments back to their link
+export const PAYMENT_LINK_METADATA_KEY = 'paymentLinkId';
@@ -0,0 +1,108 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { PaymentLinkService } from './payment-link.service';
+import { CreatePaymentLinkDto } from './dto/create-payment-link.dto';
+import { ResolvePaymentLinkDto } from './dto/resolve-payment-link.dto';
+import { PaymentLink } from './entities/payment-link.entity';
+import {
+  PaymentLinkStats,
+  PublicPaymentLink,
+} from './models/payment-link.model';
+import { Payment } from '../payment/entities/payment.entity';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthMerchantId, Scopes } from '../auth/auth.decorators';
+import { ApiKeyScope } from '../auth/models/api-key.model';
+
+@Controller('payment-links')
+export class PaymentLinkController {
+  private readonly logger = new Logger(PaymentLinkController.name);
+
+  constructor(private readonly paymentLinkService: PaymentLinkService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENT_LINKS_WRITE)
+  async create(
+    @Body() createPaymentLinkDto: CreatePaymentLinkDto,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<PaymentLink> {
+    this.logger.log(
+      `Create payment link request for merchant ${merchantId}: ${JSON.stringify(
+        createPaymentLinkDto,
+      )}`,
+    );
+
+    return this.paymentLinkService.createPaymentLink(
+      merchantId,
+      createPaymentLinkDto,
+    );
+  }
+
+  @Get()
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENT_LINKS_READ)
+  async findAll(@AuthMerchantId() merchantId: string): Promise<PaymentLink[]> {
+    return this.paymentLinkService.getPaymentLinks(merchantId);
+  }
+
+  @Get(':id')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENT_LINKS_READ)
+  async findOne(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<PaymentLink> {
+    return this.paymentLinkService.getPaymentLink(merchantId, id);
+  }
+
+  @Get(':id/stats')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENT_LINKS_READ)
+  async stats(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<PaymentLinkStats> {
+    return this.paymentLinkService.getPaymentLinkStats(merchantId, id);
+  }
+
+  @Post(':id/deactivate')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENT_LINKS_WRITE)
+  async deactivate(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<PaymentLink> {
+    this.logger.log(`Deactivate payment link request: ${id}`);
+    return this.paymentLinkService.deactivatePaymentLink(merchantId, id);
+  }
+
+  // Public, shown to anyone with the link
+  @Get(':id/public')
+  async getPublic(@Param('id') id: string): Promise<PublicPaymentLink> {
+    return this.paymentLinkService.getPublicPaymentLink(id);
+  }
+
+  // Public, every visitor gets a payment of their own
+  @Post(':id/resolve')
+  @HttpCode(HttpStatus.CREATED)
+  async resolve(
+    @Param('id') id: string,
+    @Body() resolvePaymentLinkDto: ResolvePaymentLinkDto,
+  ): Promise<Payment> {
+    this.logger.log(`Resolve payment link request: ${id}`);
+    return this.paymentLinkService.resolvePaymentLink(
+      id,
+      resolvePaymentLinkDto,
+    );
+  }
+}
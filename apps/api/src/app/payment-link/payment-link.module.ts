@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PaymentLinkService } from './payment-link.service';
+import { PaymentLinkController } from './payment-link.controller';
+import { PaymentLink } from './entities/payment-link.entity';
+import { Payment } from '../payment/entities/payment.entity';
+import { PaymentModule } from '../payment/payment.module';
+import { AuthModule } from '../auth/auth.module';
+import { FxModule } from '../fx/fx.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([PaymentLink, Payment]),
+    PaymentModule,
+    AuthModule,
+    FxModule,
+  ],
+  providers: [PaymentLinkService],
+  controllers: [PaymentLinkController],
+  exports: [PaymentLinkService],
+})
+export class PaymentLinkModule {}
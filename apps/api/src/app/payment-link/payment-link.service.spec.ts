@@ -0,0 +1,285 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PaymentLinkService } from './payment-link.service';
+import { PaymentLink } from './entities/payment-link.entity';
+import { CreatePaymentLinkDto } from './dto/create-payment-link.dto';
+import { PaymentService } from '../payment/payment.service';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { FxService } from '../fx/fx.service';
+import { Money } from '../money/money';
+import { FIAT_DECIMALS } from '../money/money.constants';
+
+describe('PaymentLinkService', () => {
+  let service: PaymentLinkService;
+  let paymentLinks: PaymentLink[];
+  let statsRows: {
+    status: PaymentStatus;
+    count: string;
+    amount: string | null;
+    lastPaymentAt: Date | null;
+  }[];
+
+  const merchantId = 'merchant-1';
+  const linkId = '7c2d9e4f-1a3b-4c5d-8e6f-9a0b1c2d3e4f';
+
+  const statsQuery = {
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn(async () => statsRows),
+  };
+  const paymentLinkRepository = {
+    create: jest.fn((link) => Object.assign(new PaymentLink(), link)),
+    save: jest.fn(async (link) => {
+      link.id = link.id ?? linkId;
+      paymentLinks = [...paymentLinks.filter(({ id }) => id !== link.id), link];
+      return link;
+    }),
+    find: jest.fn(async ({ where }) =>
+      paymentLinks.filter((link) => link.merchantId === where.merchantId),
+    ),
+    findOne: jest.fn(
+      async ({ where }) =>
+        paymentLinks.find((link) => link.id === where.id) ?? null,
+    ),
+  };
+  const paymentRepository = {
+    createQueryBuilder: jest.fn(() => statsQuery),
+  };
+  const paymentService = {
+    createPayment: jest.fn(async (dto) => ({
+      id: 'payment-1',
+      status: PaymentStatus.PENDING,
+      ...dto,
+    })),
+  };
+  const fxService = {
+    normalizeCurrency: jest.fn((currency: string) => currency.toUpperCase()),
+  };
+
+  const createDto = (
+    overrides: Partial<CreatePaymentLinkDto> = {},
+  ): CreatePaymentLinkDto => ({
+    description: 'Conference ticket',
+    currency: 'usd',
+    amount: 25,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    paymentLinks = [];
+    statsRows = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentLinkService,
+        {
+          provide: getRepositoryToken(PaymentLink),
+          useValue: paymentLinkRepository,
+        },
+        { provide: getRepositoryToken(Payment), useValue: paymentRepository },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: FxService, useValue: fxService },
+      ],
+    }).compile();
+
+    service = module.get<PaymentLinkService>(PaymentLinkService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createPaymentLink', () => {
+    it('creates an active link in the normalized currency', async () => {
+      const link = await service.createPaymentLink(
+        merchantId,
+        createDto({ maxUses: 100 }),
+      );
+
+      expect(link).toMatchObject({
+        id: linkId,
+        merchantId,
+        description: 'Conference ticket',
+        currency: 'USD',
+        minAmount: null,
+        maxAmount: null,
+        maxUses: 100,
+        active: true,
+      });
+      expect(link.amount.toString()).toBe('25');
+    });
+
+    it('rejects bounds on links with a fixed amount', async () => {
+      await expect(
+        service.createPaymentLink(merchantId, createDto({ minAmount: 5 })),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('rejects a minimum above the maximum', async () => {
+      await expect(
+        service.createPaymentLink(
+          merchantId,
+          createDto({ amount: undefined, minAmount: 50, maxAmount: 10 }),
+        ),
+      ).rejects.toThrow('minAmount cannot exceed maxAmount');
+    });
+
+    it('rejects invalid amounts, uses and expiry', async () => {
+      await expect(
+        service.createPaymentLink(merchantId, createDto({ amount: 0 })),
+      ).rejects.toThrow('amount must be a positive number');
+      await expect(
+        service.createPaymentLink(merchantId, createDto({ maxUses: 1.5 })),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.createPaymentLink(
+          merchantId,
+          createDto({ expiresAt: '2020-01-01T00:00:00Z' }),
+        ),
+      ).rejects.toThrow('expiresAt must be in the future');
+      await expect(
+        service.createPaymentLink(merchantId, createDto({ description: ' ' })),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('getPaymentLink', () => {
+    it("hides other merchants' links", async () => {
+      await service.createPaymentLink(merchantId, createDto());
+
+      await expect(
+        service.getPaymentLink('merchant-2', linkId),
+      ).rejects.toThrow(NotFoundException);
+      await expect(
+        service.getPaymentLink(merchantId, 'not-a-uuid'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('deactivatePaymentLink', () => {
+    it('stops the link from minting payments', async () => {
+      await service.createPaymentLink(merchantId, createDto());
+
+      const link = await service.deactivatePaymentLink(merchantId, linkId);
+
+      expect(link.active).toBe(false);
+      expect(link.deactivatedAt).toBeInstanceOf(Date);
+      await expect(service.resolvePaymentLink(linkId, {})).rejects.toThrow(
+        'Payment link is no longer active',
+      );
+      await expect(service.getPublicPaymentLink(linkId)).resolves.toMatchObject(
+        { available: false },
+      );
+    });
+  });
+
+  describe('resolvePaymentLink', () => {
+    it('mints a payment tagged with the link for every visitor', async () => {
+      await service.createPaymentLink(merchantId, createDto());
+
+      await service.resolvePaymentLink(linkId, {
+        customerEmail: 'buyer@example.com',
+      });
+      await service.resolvePaymentLink(linkId, {});
+
+      expect(paymentService.createPayment).toHaveBeenCalledTimes(2);
+      expect(paymentService.createPayment).toHaveBeenCalledWith({
+        merchantId,
+        amount: Money.of(25, FIAT_DECIMALS),
+        currency: 'USD',
+        customerEmail: 'buyer@example.com',
+        metadata: { paymentLinkId: linkId },
+      });
+    });
+
+    it('lets the customer choose an amount within the bounds', async () => {
+      await service.createPaymentLink(
+        merchantId,
+        createDto({ amount: undefined, minAmount: 5, maxAmount: 100 }),
+      );
+
+      await service.resolvePaymentLink(linkId, { amount: 42.5 });
+
+      expect(paymentService.createPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: Money.of('42.5', FIAT_DECIMALS) }),
+      );
+      await expect(service.resolvePaymentLink(linkId, {})).rejects.toThrow(
+        'amount is required for this payment link',
+      );
+      await expect(
+        service.resolvePaymentLink(linkId, { amount: 1 }),
+      ).rejects.toThrow('amount must be at least 5 USD');
+      await expect(
+        service.resolvePaymentLink(linkId, { amount: 500 }),
+      ).rejects.toThrow('amount can be at most 100 USD');
+    });
+
+    it('refuses expired links and links that are used up', async () => {
+      await service.createPaymentLink(merchantId, createDto({ maxUses: 2 }));
+      statsRows = [
+        {
+          status: PaymentStatus.COMPLETED,
+          count: '2',
+          amount: '50',
+          lastPaymentAt: new Date(),
+        },
+      ];
+
+      await expect(service.resolvePaymentLink(linkId, {})).rejects.toThrow(
+        'Payment link has reached its maximum uses',
+      );
+
+      statsRows = [];
+      paymentLinks[0].expiresAt = new Date(Date.now() - 1000);
+      await expect(service.resolvePaymentLink(linkId, {})).rejects.toThrow(
+        'Payment link has expired',
+      );
+      expect(paymentService.createPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPaymentLinkStats', () => {
+    it('counts minted and paid payments and sums what was collected', async () => {
+      await service.createPaymentLink(merchantId, createDto({ maxUses: 10 }));
+      statsRows = [
+        {
+          status: PaymentStatus.PENDING,
+          count: '3',
+          amount: '75',
+          lastPaymentAt: new Date('2026-03-12T00:00:00Z'),
+        },
+        {
+          status: PaymentStatus.COMPLETED,
+          count: '2',
+          amount: '50',
+          lastPaymentAt: new Date('2026-03-10T00:00:00Z'),
+        },
+        {
+          status: PaymentStatus.REFUNDED,
+          count: '1',
+          amount: '25',
+          lastPaymentAt: new Date('2026-03-11T00:00:00Z'),
+        },
+      ];
+
+      const stats = await service.getPaymentLinkStats(merchantId, linkId);
+
+      expect(stats).toMatchObject({
+        payments: 6,
+        paidPayments: 3,
+        remainingUses: 7,
+        lastPaymentAt: new Date('2026-03-12T00:00:00Z'),
+      });
+      expect(stats.collectedAmount).toEqual(Money.of('75', 6));
+      expect(statsQuery.andWhere).toHaveBeenCalledWith(
+        'payment.metadata @> :metadata',
+        { metadata: JSON.stringify({ paymentLinkId: linkId }) },
+      );
+    });
+  });
+});
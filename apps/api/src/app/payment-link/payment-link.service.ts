@@ -0,0 +1,357 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { isUUID } from 'class-validator';
+import { PaymentLink } from './entities/payment-link.entity';
+import { CreatePaymentLinkDto } from './dto/create-payment-link.dto';
+import { ResolvePaymentLinkDto } from './dto/resolve-payment-link.dto';
+import {
+  PaymentLinkStats,
+  PublicPaymentLink,
+} from './models/payment-link.model';
+import {
+  MAX_PAYMENT_LINK_DESCRIPTION_LENGTH,
+  PAYMENT_LINK_METADATA_KEY,
+} from './payment-link.constants';
+import { PaymentService } from '../payment/payment.service';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { FxService } from '../fx/fx.service';
+import { Money } from '../money/money';
+import { FIAT_DECIMALS } from '../money/money.constants';
+
+// Payments that used up one of the link's uses
+const PAID_STATUSES = [
+  PaymentStatus.COMPLETED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+];
+
+@Injectable()
+export class PaymentLinkService {
+  private readonly logger = new Logger(PaymentLinkService.name);
+
+  constructor(
+    @InjectRepository(PaymentLink)
+    private paymentLinkRepository: Repository<PaymentLink>,
+    @InjectRepository(Payment)
+    private paymentRepository: Repository<Payment>,
+    private readonly paymentService: PaymentService,
+    private readonly fxService: FxService,
+  ) {}
+
+  /**
+   * Create a reusable link that mints a payment for every visitor
+   */
+  async createPaymentLink(
+    merchantId: string,
+    createPaymentLinkDto: CreatePaymentLinkDto,
+  ): Promise<PaymentLink> {
+    const description = (createPaymentLinkDto.description || '').trim();
+    if (
+      !description ||
+      description.length > MAX_PAYMENT_LINK_DESCRIPTION_LENGTH
+    ) {
+      throw new BadRequestException(
+        `description must be 1 to ${MAX_PAYMENT_LINK_DESCRIPTION_LENGTH} characters`,
+      );
+    }
+
+    const amount = this.parseAmount(createPaymentLinkDto.amount, 'amount');
+    const minAmount = this.parseAmount(
+      createPaymentLinkDto.minAmount,
+      'minAmount',
+    );
+    const maxAmount = this.parseAmount(
+      createPaymentLinkDto.maxAmount,
+      'maxAmount',
+    );
+    if (amount && (minAmount || maxAmount)) {
+      throw new BadRequestException(
+        'minAmount and maxAmount only apply to links without a fixed amount',
+      );
+    }
+    if (minAmount && maxAmount && minAmount.compare(maxAmount) > 0) {
+      throw new BadRequestException('minAmount cannot exceed maxAmount');
+    }
+
+    const maxUses = createPaymentLinkDto.maxUses ?? null;
+    if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1)) {
+      throw new BadRequestException('maxUses must be a positive whole number');
+    }
+
+    const expiresAt = createPaymentLinkDto.expiresAt
+      ? new Date(createPaymentLinkDto.expiresAt)
+      : null;
+    if (expiresAt && isNaN(expiresAt.getTime())) {
+      throw new BadRequestException('expiresAt must be an ISO 8601 date');
+    }
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const paymentLink = await this.paymentLinkRepository.save(
+      this.paymentLinkRepository.create({
+        merchantId,
+        description,
+        currency: this.fxService.normalizeCurrency(
+          createPaymentLinkDto.currency,
+        ),
+        amount,
+        minAmount,
+        maxAmount,
+        maxUses,
+        expiresAt,
+        active: true,
+        deactivatedAt: null,
+      }),
+    );
+
+    this.logger.log(
+      `Created payment link ${paymentLink.id} for merchant ${merchantId}`,
+    );
+    return paymentLink;
+  }
+
+  /**
+   * The merchant's payment links, newest first
+   */
+  async getPaymentLinks(merchantId: string): Promise<PaymentLink[]> {
+    return this.paymentLinkRepository.find({
+      where: { merchantId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Get one of the merchant's payment links
+   */
+  async getPaymentLink(merchantId: string, id: string): Promise<PaymentLink> {
+    const paymentLink = await this.findPaymentLink(id);
+
+    // Report other merchants' links as missing rather than forbidden
+    if (paymentLink.merchantId !== merchantId) {
+      throw new NotFoundException(`Payment link with ID ${id} not found`);
+    }
+
+    return paymentLink;
+  }
+
+  /**
+   * Stop a link from minting payments, payments it already minted can
+   * still be paid
+   */
+  async deactivatePaymentLink(
+    merchantId: string,
+    id: string,
+  ): Promise<PaymentLink> {
+    const paymentLink = await this.getPaymentLink(merchantId, id);
+
+    if (!paymentLink.active) {
+      return paymentLink;
+    }
+
+    paymentLink.active = false;
+    paymentLink.deactivatedAt = new Date();
+    const updatedLink = await this.paymentLinkRepository.save(paymentLink);
+
+    this.logger.log(`Deactivated payment link ${id}`);
+    return updatedLink;
+  }
+
+  /**
+   * How often a link was opened and paid, and what it collected
+   */
+  async getPaymentLinkStats(
+    merchantId: string,
+    id: string,
+  ): Promise<PaymentLinkStats> {
+    return this.getStats(await this.getPaymentLink(merchantId, id));
+  }
+
+  /**
+   * The parts of a link customers see before paying
+   */
+  async getPublicPaymentLink(id: string): Promise<PublicPaymentLink> {
+    const paymentLink = await this.findPaymentLink(id);
+    const stats = await this.getStats(paymentLink);
+
+    return {
+      id: paymentLink.id,
+      description: paymentLink.description,
+      currency: paymentLink.currency,
+      amount: paymentLink.amount,
+      minAmount: paymentLink.minAmount,
+      maxAmount: paymentLink.maxAmount,
+      available: this.getUnavailableReason(paymentLink, stats) === null,
+    };
+  }
+
+  /**
+   * Mint a fresh payment for a visitor of the link
+   */
+  async resolvePaymentLink(
+    id: string,
+    resolvePaymentLinkDto: ResolvePaymentLinkDto,
+  ): Promise<Payment> {
+    const paymentLink = await this.findPaymentLink(id);
+
+    // Uses are checked when visitors arrive, so payments started at the
+    // same time can all still be paid
+    const unavailable = this.getUnavailableReason(
+      paymentLink,
+      await this.getStats(paymentLink),
+    );
+    if (unavailable) {
+      throw new BadRequestException(unavailable);
+    }
+
+    const amount =
+      paymentLink.amount ??
+      this.parseChosenAmount(paymentLink, resolvePaymentLinkDto.amount);
+
+    const payment = await this.paymentService.createPayment({
+      merchantId: paymentLink.merchantId,
+      amount,
+      currency: paymentLink.currency,
+      customerEmail: resolvePaymentLinkDto.customerEmail,
+      metadata: { [PAYMENT_LINK_METADATA_KEY]: paymentLink.id },
+    });
+
+    this.logger.log(
+      `Payment link ${paymentLink.id} minted payment ${payment.id}`,
+    );
+    return payment;
+  }
+
+  private async findPaymentLink(id: string): Promise<PaymentLink> {
+    const paymentLink = isUUID(id)
+      ? await this.paymentLinkRepository.findOne({ where: { id } })
+      : null;
+
+    if (!paymentLink) {
+      throw new NotFoundException(`Payment link with ID ${id} not found`);
+    }
+
+    return paymentLink;
+  }
+
+  /**
+   * Sum up the payments minted by a link, found through their metadata
+   */
+  private async getStats(paymentLink: PaymentLink): Promise<PaymentLinkStats> {
+    const rows: {
+      status: PaymentStatus;
+      count: string;
+      amount: string | null;
+      lastPaymentAt: Date | null;
+    }[] = await this.paymentRepository
+      .createQueryBuilder('payment')
+      .select('payment.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('SUM(payment.amount)', 'amount')
+      .addSelect('MAX(payment.createdAt)', 'lastPaymentAt')
+      .where('payment.merchantId = :merchantId', {
+        merchantId: paymentLink.merchantId,
+      })
+      .andWhere('payment.metadata @> :metadata', {
+        metadata: JSON.stringify({
+          [PAYMENT_LINK_METADATA_KEY]: paymentLink.id,
+        }),
+      })
+      .groupBy('payment.status')
+      .getRawMany();
+
+    const paidRows = rows.filter((row) => PAID_STATUSES.includes(row.status));
+    const paidPayments = paidRows.reduce(
+      (total, row) => total + Number(row.count),
+      0,
+    );
+    const lastPaymentAt = rows.reduce<Date | null>(
+      (latest, row) =>
+        row.lastPaymentAt && (!latest || new Date(row.lastPaymentAt) > latest)
+          ? new Date(row.lastPaymentAt)
+          : latest,
+      null,
+    );
+
+    return {
+      payments: rows.reduce((total, row) => total + Number(row.count), 0),
+      paidPayments,
+      collectedAmount: paidRows.reduce(
+        (total, row) => total.add(Money.of(row.amount ?? 0, FIAT_DECIMALS)),
+        Money.zero(FIAT_DECIMALS),
+      ),
+      remainingUses:
+        paymentLink.maxUses === null
+          ? null
+          : Math.max(paymentLink.maxUses - paidPayments, 0),
+      lastPaymentAt,
+    };
+  }
+
+  private getUnavailableReason(
+    paymentLink: PaymentLink,
+    stats: PaymentLinkStats,
+  ): string | null {
+    if (!paymentLink.active) {
+      return 'Payment link is no longer active';
+    }
+    if (
+      paymentLink.expiresAt &&
+      paymentLink.expiresAt.getTime() <= Date.now()
+    ) {
+      return 'Payment link has expired';
+    }
+    if (stats.remainingUses === 0) {
+      return 'Payment link has reached its maximum uses';
+    }
+    return null;
+  }
+
+  private parseChosenAmount(paymentLink: PaymentLink, value: unknown): Money {
+    const amount = this.parseAmount(value, 'amount');
+    if (!amount) {
+      throw new BadRequestException('amount is required for this payment link');
+    }
+
+    if (paymentLink.minAmount && amount.compare(paymentLink.minAmount) < 0) {
+      throw new BadRequestException(
+        `amount must be at least ${paymentLink.minAmount} ${paymentLink.currency}`,
+      );
+    }
+    if (paymentLink.maxAmount && amount.compare(paymentLink.maxAmount) > 0) {
+      throw new BadRequestException(
+        `amount can be at most ${paymentLink.maxAmount} ${paymentLink.currency}`,
+      );
+    }
+    return amount;
+  }
+
+  /**
+   * A positive amount in the link currency, null when left out
+   */
+  private parseAmount(value: unknown, field: string): Money | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    let amount: Money | null = null;
+    if (typeof value === 'number' || typeof value === 'string') {
+      try {
+        amount = Money.of(value, FIAT_DECIMALS);
+      } catch {
+        amount = null;
+      }
+    }
+
+    if (!amount || !amount.isPositive()) {
+      throw new BadRequestException(`${field} must be a positive number`);
+    }
+    return amount;
+  }
+}
@@ -1,23 +1,79 @@
-import { IsNotEmpty, IsNumber, IsString, IsOptional } from 'class-validator';
+import {
+  IsNotEmpty,
+  IsString,
+  IsOptional,
+  IsInt,
+  IsISO4217CurrencyCode,
+  IsArray,
+  ArrayMaxSize,
+  ArrayMinSize,
+  Min,
+  Max,
+  IsEmail,
+  IsObject,
+} from 'class-validator';
+import {
+  MAX_PAYMENT_EXPIRY_MINUTES,
+  MAX_PAYMENT_RECIPIENTS,
+} from '../payment.constants';
+import { Money } from '../../money/money';
+
+// One of shareBps or amount, in the payment currency
+export class PaymentRecipientDto {
+  @IsNotEmpty()
+  @IsString()
+  walletAddress: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  shareBps?: number;
+
+  // Decimal strings and Money keep every digit, numbers go through floats
+  @IsOptional()
+  amount?: Money | string | number;
+}
 
 export class CreatePaymentDto {
   @IsNotEmpty()
   @IsString()
   merchantId: string;
 
+  // Decimal strings and Money keep every digit, numbers go through floats
   @IsNotEmpty()
-  @IsNumber()
-  amount: number;
+  amount: Money | string | number;
 
   @IsNotEmpty()
-  @IsString()
-  currency: string; // USD, EUR, etc.
+  @IsISO4217CurrencyCode()
+  currency: string; // ISO 4217 code such as USD or EUR
 
   @IsOptional()
-  @IsString()
+  @IsEmail()
   customerEmail?: string;
 
+  // Up to MAX_METADATA_KEYS keys, numbers and booleans are stored as strings
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, string | number | boolean>;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAYMENT_EXPIRY_MINUTES)
+  expiresInMinutes?: number; // Overrides the merchant's default expiry
+
   @IsOptional()
   @IsString()
-  metadata?: string;
+  successUrl?: string; // Hosted checkout redirects here once paid
+
+  @IsOptional()
+  @IsString()
+  cancelUrl?: string; // Hosted checkout links back here
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_PAYMENT_RECIPIENTS)
+  recipients?: PaymentRecipientDto[]; // Splits the payment, adding up to amount
 }
@@ -1,4 +1,4 @@
-import { IsNotEmpty, IsString } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
 
 export class ExecutePaymentDto {
   @IsNotEmpty()
@@ -12,4 +12,8 @@ export class ExecutePaymentDto {
   @IsNotEmpty()
   @IsString()
   customerWallet: string; // Customer wallet address
+
+  @IsOptional()
+  @IsUUID()
+  quoteId?: string; // Quote the customer accepted, defaults to the last prepared one
 }
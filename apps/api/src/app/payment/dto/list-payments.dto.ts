@@ -0,0 +1,71 @@
+import {
+  IsEmail,
+  IsIn,
+  IsISO4217CurrencyCode,
+  IsISO8601,
+  IsNumberString,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { PaymentSortField } from '../models/payment-list.model';
+
+// Query parameters arrive as strings
+export class ListPaymentsDto {
+  @IsOptional()
+  @IsString()
+  cursor?: string; // nextCursor of the previous page
+
+  @IsOptional()
+  @IsNumberString()
+  limit?: string;
+
+  @IsOptional()
+  @IsIn(['createdAt', 'amount'])
+  sort?: PaymentSortField;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  @IsOptional()
+  @IsString()
+  status?: string; // One status or several separated by commas
+
+  @IsOptional()
+  @IsISO8601()
+  from?: string; // Created at or after
+
+  @IsOptional()
+  @IsISO8601()
+  to?: string; // Created before
+
+  @IsOptional()
+  @IsString()
+  selectedToken?: string;
+
+  @IsOptional()
+  @IsString()
+  customerWallet?: string;
+
+  @IsOptional()
+  @IsEmail()
+  customerEmail?: string;
+
+  // Sent as metadata[orderId]=123, payments need every pair to match
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, string>;
+
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  minAmount?: string; // In the payment currency, inclusive
+
+  @IsOptional()
+  @IsNumberString()
+  maxAmount?: string;
+}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Payment } from './payment.entity';
+import { Money } from '../../money/money';
+import { MoneyTransformer } from '../../money/money.transformer';
+import { FIAT_DECIMALS, TOKEN_DECIMALS } from '../../money/money.constants';
+
+@Entity('payment_legs')
+export class PaymentLeg {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  paymentId: string;
+
+  @ManyToOne(() => Payment, (payment) => payment.legs, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'paymentId' })
+  payment: Payment;
+
+  // Order of the leg's transfer in the payment transaction
+  @Column()
+  position: number;
+
+  @Column()
+  walletAddress: string;
+
+  // Share of the payment the recipient was given, when not a fixed amount
+  @Column({ type: 'int', nullable: true })
+  shareBps: number | null;
+
+  // Part of the payment amount, in the payment currency
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  amount: Money;
+
+  // Settlement token the recipient receives, set with the exchange rate
+  @Column('decimal', {
+    precision: 38,
+    scale: TOKEN_DECIMALS,
+    nullable: true,
+    transformer: new MoneyTransformer(TOKEN_DECIMALS),
+  })
+  settlementAmount: Money | null;
+}
@@ -5,18 +5,39 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   ManyToOne,
+  OneToMany,
   JoinColumn,
+  Index,
 } from 'typeorm';
+import { TransactionConfirmationStatus } from '@solana/web3.js';
 import { Merchant } from '../../merchant/entities/merchant.entity';
+import { Refund } from '../../refund/entities/refund.entity';
+import { PaymentLeg } from './payment-leg.entity';
+import { USDC_DECIMALS, USDC_MINT } from '../../solana/solana.constants';
+import { Money } from '../../money/money';
+import { MoneyTransformer } from '../../money/money.transformer';
+import { FIAT_DECIMALS, TOKEN_DECIMALS } from '../../money/money.constants';
 
 export enum PaymentStatus {
   PENDING = 'pending',
   PROCESSING = 'processing',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  EXPIRED = 'expired',
+  REFUNDED = 'refunded',
+  PARTIALLY_REFUNDED = 'partially_refunded',
 }
 
+// Values are strings so payments can be searched by them
+export type PaymentMetadata = Record<string, string>;
+
+// Merchant payment listings filter on these and page through createdAt or amount
 @Entity('payments')
+@Index(['merchantId', 'createdAt', 'id'])
+@Index(['merchantId', 'amount', 'id'])
+@Index(['merchantId', 'status', 'createdAt'])
+@Index(['merchantId', 'selectedToken'])
+@Index(['merchantId', 'customerWallet'])
 export class Payment {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -28,14 +49,24 @@ export class Payment {
   @JoinColumn({ name: 'merchantId' })
   merchant: Merchant;
 
-  @Column('decimal', { precision: 18, scale: 6 })
-  amount: number;
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  amount: Money;
 
   @Column()
   currency: string;
 
-  @Column('decimal', { precision: 18, scale: 6, default: 0 })
-  tokenAmount: number;
+  // Amount of the selected token the customer pays
+  @Column('decimal', {
+    precision: 38,
+    scale: TOKEN_DECIMALS,
+    default: 0,
+    transformer: new MoneyTransformer(TOKEN_DECIMALS),
+  })
+  tokenAmount: Money;
 
   @Column({ nullable: true })
   selectedToken: string;
@@ -43,9 +74,74 @@ export class Payment {
   @Column()
   destinationWallet: string;
 
+  // Recipients of split payments, otherwise everything goes to the merchant
+  @OneToMany(() => PaymentLeg, (leg) => leg.payment, {
+    eager: true,
+    cascade: true,
+  })
+  legs: PaymentLeg[];
+
+  // Merchant's settlement token when the payment was created
+  @Column({ default: USDC_MINT })
+  settlementMint: string;
+
+  @Column({ default: USDC_DECIMALS })
+  settlementDecimals: number;
+
+  // Settlement token owed, converted from amount when the payment is prepared
+  @Column('decimal', {
+    precision: 38,
+    scale: TOKEN_DECIMALS,
+    nullable: true,
+    transformer: new MoneyTransformer(TOKEN_DECIMALS),
+  })
+  settlementAmount: Money | null;
+
+  // Settlement token units per unit of currency at the time of conversion
+  @Column('decimal', { precision: 30, scale: 15, nullable: true })
+  exchangeRate: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  exchangeRateSource: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  exchangeRateAt: Date | null;
+
+  // Platform fee taken out of the settlement amount, set with the exchange rate
+  @Column({ default: 0 })
+  platformFeeBps: number;
+
+  @Column('decimal', {
+    precision: 38,
+    scale: TOKEN_DECIMALS,
+    default: 0,
+    transformer: new MoneyTransformer(TOKEN_DECIMALS),
+  })
+  platformFeeAmount: Money;
+
+  // Settlement token the merchant receives after the platform fee
+  @Column('decimal', {
+    precision: 38,
+    scale: TOKEN_DECIMALS,
+    nullable: true,
+    transformer: new MoneyTransformer(TOKEN_DECIMALS),
+  })
+  netAmount: Money | null;
+
+  // Swap quote the customer was last shown, reused on execute while valid
+  @Column({ type: 'varchar', nullable: true })
+  quoteId: string | null;
+
   @Column({ nullable: true })
   customerWallet: string;
 
+  @Column({ type: 'varchar', nullable: true })
+  customerEmail: string | null;
+
+  // Merchant's own values such as an order ID, returned with every event
+  @Column({ type: 'jsonb', default: {} })
+  metadata: PaymentMetadata;
+
   @Column({
     type: 'enum',
     enum: PaymentStatus,
@@ -53,9 +149,46 @@ export class Payment {
   })
   status: PaymentStatus;
 
-  @Column({ nullable: true })
+  @Column({ nullable: true, unique: true })
   transactionSignature: string;
 
+  @Column({ type: 'varchar', nullable: true, unique: true })
+  reference: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  confirmationStatus: TransactionConfirmationStatus | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  submittedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  // Where hosted checkout sends the customer after paying or cancelling
+  @Column({ type: 'varchar', nullable: true })
+  successUrl: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  cancelUrl: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  failureCode: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  failureReason: string | null;
+
+  // Settlement token sent back through completed refunds
+  @Column('decimal', {
+    precision: 38,
+    scale: TOKEN_DECIMALS,
+    default: 0,
+    transformer: new MoneyTransformer(TOKEN_DECIMALS),
+  })
+  refundedAmount: Money;
+
+  @OneToMany(() => Refund, (refund) => refund.payment)
+  refunds: Refund[];
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,27 @@
+import {
+  Payment,
+  PaymentMetadata,
+  PaymentStatus,
+} from '../entities/payment.entity';
+import { Money } from '../../money/money';
+
+export type PaymentSortField = 'createdAt' | 'amount';
+
+export interface PaymentListFilters {
+  statuses: PaymentStatus[];
+  from?: Date;
+  to?: Date;
+  selectedToken?: string;
+  customerWallet?: string;
+  customerEmail?: string;
+  metadata?: PaymentMetadata;
+  currency?: string;
+  minAmount?: Money;
+  maxAmount?: Money;
+}
+
+export interface PaymentPage {
+  data: Payment[];
+  nextCursor: string | null; // Pass as cursor to get the next page, null on the last one
+  total: number; // Payments matching the filters across every page
+}
@@ -1,21 +1,80 @@
+import { JupiterQuote } from '../../jupiter/models/quote.model';
+
 export enum PaymentStatus {
   PENDING = 'pending',
   PROCESSING = 'processing',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  EXPIRED = 'expired',
+  REFUNDED = 'refunded',
+  PARTIALLY_REFUNDED = 'partially_refunded',
 }
 
 export class Payment {
   id: string;
   merchantId: string;
-  amount: number;
-  currency: string; // USD, EUR, etc.
-  tokenAmount: number;
+  amount: string; // Exact decimal, e.g. "12.5"
+  currency: string; // ISO 4217 code such as USD or EUR
+  tokenAmount: string; // Amount of the selected token, exact decimal
   selectedToken: string; // Token mint address
   destinationWallet: string; // Merchant wallet address
+  legs: PaymentLeg[]; // Recipients of a split payment, empty otherwise
+  settlementMint: string; // Token the merchant receives
+  settlementDecimals: number;
+  settlementAmount?: string; // Amount converted into the settlement token
+  exchangeRate?: number; // Settlement token units per unit of currency
+  exchangeRateSource?: string;
+  exchangeRateAt?: Date; // When the exchange rate was snapshotted
+  platformFeeBps: number; // Platform fee rate charged on the settlement amount
+  platformFeeAmount: string; // Platform fee in the settlement token
+  netAmount?: string; // Settlement token the merchant receives after the fee
+  quoteId?: string; // Swap quote locked when the payment was prepared
   customerWallet?: string; // Customer wallet address if known
+  customerEmail?: string | null;
+  metadata: Record<string, string>; // Merchant's own key/value pairs
   status: PaymentStatus;
   transactionSignature?: string;
+  reference?: string; // Solana Pay reference key included in the payment transaction
+  confirmationStatus?: 'processed' | 'confirmed' | 'finalized';
+  submittedAt?: Date; // When the transaction signature was first reported
+  expiresAt?: Date; // Pending payments expire after this time
+  successUrl?: string | null; // Hosted checkout redirects here once paid
+  cancelUrl?: string | null; // Hosted checkout links back here
+  failureCode?: string; // Machine-readable failure reason
+  failureReason?: string;
+  refundedAmount: string; // Total of completed refunds in the settlement token
   createdAt: Date;
   updatedAt: Date;
 }
+
+export class PaymentLeg {
+  id: string;
+  position: number; // Order the recipients are paid in
+  walletAddress: string;
+  shareBps?: number | null; // Share of the payment, unless a fixed amount
+  amount: string; // Part of the payment amount, in its currency
+  settlementAmount?: string; // Settlement token the recipient receives
+}
+
+export interface TransactionLeg {
+  walletAddress: string;
+  destinationTokenAccount: string; // The wallet itself for native SOL
+  amount: string; // Settlement token base units
+}
+
+export interface TransactionData {
+  isDirectUsdcTransfer: boolean;
+  isDirectTransfer: boolean;
+  isNativeSol: boolean; // Settles in SOL, sent straight to the merchant wallet
+  merchantAddress: string;
+  destinationTokenAccount: string; // Merchant wallet itself for native SOL
+  amount?: string; // Base units the merchant receives in direct transfers
+  legs?: TransactionLeg[]; // Paid instead of the merchant for split payments
+  platformFeeAccount?: string; // Where direct transfers send the platform fee
+  platformFeeAmount?: string; // Base units of the platform fee
+  tokenMint?: string;
+  decimals?: number;
+  reference?: string; // Key direct transfers must include, swaps already do
+  swapTransaction?: string; // Base64 Jupiter swap transaction
+  quote?: JupiterQuote;
+}
@@ -0,0 +1,14 @@
+// Transfers to more recipients would not fit in one transaction next to a swap
+export const MAX_PAYMENT_RECIPIENTS = 5;
+
+// Longest a payment can stay open before it expires, one week
+export const MAX_PAYMENT_EXPIRY_MINUTES = 10080;
+
+// Payments returned per page when listing a merchant's payments
+export const DEFAULT_PAYMENT_PAGE_SIZE = 20;
+export const MAX_PAYMENT_PAGE_SIZE = 100;
+
+// Metadata stays small enough to return with every payment and event
+export const MAX_METADATA_KEYS = 50;
+export const MAX_METADATA_KEY_LENGTH = 40;
+export const MAX_METADATA_VALUE_LENGTH = 500;
@@ -1,13 +1,41 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
 import { PaymentController } from './payment.controller';
+import { PaymentService } from './payment.service';
+import { CreatePaymentDto } from './dto/create-payment.dto';
+import { JupiterService } from '../jupiter/jupiter.service';
+import { AuthGuard } from '../auth/auth.guard';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+import {
+  ApiKeyScope,
+  PUBLISHABLE_KEY_SCOPES,
+  SECRET_KEY_SCOPES,
+} from '../auth/models/api-key.model';
 
 describe('PaymentController', () => {
   let controller: PaymentController;
 
+  const paymentService = { createPayment: jest.fn() };
+
   beforeEach(async () => {
+    jest.resetAllMocks();
+    paymentService.createPayment.mockImplementation(async (dto) => ({
+      id: 'payment-1',
+      ...dto,
+    }));
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [PaymentController],
-    }).compile();
+      providers: [
+        { provide: PaymentService, useValue: paymentService },
+        { provide: JupiterService, useValue: {} },
+      ],
+    })
+      .overrideGuard(AuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideInterceptor(IdempotencyInterceptor)
+      .useValue({ intercept: (_context, next) => next.handle() })
+      .compile();
 
     controller = module.get<PaymentController>(PaymentController);
   });
@@ -15,4 +43,59 @@ describe('PaymentController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  describe('create', () => {
+    const splitPayment = (): CreatePaymentDto => ({
+      merchantId: 'merchant-2',
+      amount: 10,
+      currency: 'USD',
+      recipients: [
+        {
+          walletAddress: '11111111111111111111111111111111',
+          shareBps: 10000,
+        },
+      ],
+    });
+
+    it('creates payments for the merchant of the API key', async () => {
+      await controller.create(
+        { merchantId: 'merchant-2', amount: 10, currency: 'USD' },
+        'merchant-1',
+        PUBLISHABLE_KEY_SCOPES,
+      );
+
+      expect(paymentService.createPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ merchantId: 'merchant-1' }),
+      );
+    });
+
+    it('rejects split payments from publishable keys', async () => {
+      await expect(
+        controller.create(splitPayment(), 'merchant-1', PUBLISHABLE_KEY_SCOPES),
+      ).rejects.toThrow(ForbiddenException);
+      expect(paymentService.createPayment).not.toHaveBeenCalled();
+    });
+
+    it('rejects split payments from keys without the split scope', async () => {
+      await expect(
+        controller.create(
+          splitPayment(),
+          'merchant-1',
+          SECRET_KEY_SCOPES.filter(
+            (scope) => scope !== ApiKeyScope.PAYMENTS_SPLIT,
+          ),
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('lets secret keys split payments', async () => {
+      const payment = await controller.create(
+        splitPayment(),
+        'merchant-1',
+        SECRET_KEY_SCOPES,
+      );
+
+      expect(payment.id).toBe('payment-1');
+    });
+  });
 });
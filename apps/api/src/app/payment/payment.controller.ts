@@ -4,19 +4,31 @@ import {
   Get,
   Param,
   Post,
+  Query,
   UseGuards,
+  UseInterceptors,
   HttpStatus,
   HttpCode,
-  Headers,
-  UnauthorizedException,
   Logger,
+  ForbiddenException,
 } from '@nestjs/common';
 import { PaymentService } from './payment.service';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { ExecutePaymentDto } from './dto/execute-payment.dto';
+import { ListPaymentsDto } from './dto/list-payments.dto';
 import { Payment, PaymentStatus } from './entities/payment.entity';
-import { MerchantService } from '../merchant/merchant.service';
+import { PaymentPage } from './models/payment-list.model';
 import { JupiterService } from '../jupiter/jupiter.service';
+import { Quote } from '../quote/entities/quote.entity';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+import { AuthGuard } from '../auth/auth.guard';
+import {
+  AuthMerchantId,
+  AuthScopes,
+  OwnMerchant,
+  Scopes,
+} from '../auth/auth.decorators';
+import { ApiKeyScope } from '../auth/models/api-key.model';
 
 @Controller('payments')
 export class PaymentController {
@@ -24,30 +36,36 @@ export class PaymentController {
 
   constructor(
     private readonly paymentService: PaymentService,
-    private readonly merchantService: MerchantService,
     private readonly jupiterService: JupiterService,
   ) {}
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENTS_CREATE)
+  @UseInterceptors(IdempotencyInterceptor)
   async create(
     @Body() createPaymentDto: CreatePaymentDto,
-    @Headers('x-api-key') apiKey: string,
+    @AuthMerchantId() merchantId: string,
+    @AuthScopes() scopes: ApiKeyScope[],
   ): Promise<Payment> {
     this.logger.log(
       `Create payment request received: ${JSON.stringify(createPaymentDto)}`,
     );
 
-    // Validate API key
-    const merchant = await this.merchantService.getMerchantByApiKey(apiKey);
-    if (!merchant) {
-      this.logger.error(`Invalid API key: ${apiKey}`);
-      throw new UnauthorizedException('Invalid API key');
+    // Recipients decide who gets paid, so publishable keys can never set them
+    if (
+      createPaymentDto.recipients != null &&
+      !scopes.includes(ApiKeyScope.PAYMENTS_SPLIT)
+    ) {
+      throw new ForbiddenException(
+        `Split payments need the ${ApiKeyScope.PAYMENTS_SPLIT} scope of a secret key`,
+      );
     }
 
     // Override merchantId from API key
-    createPaymentDto.merchantId = merchant.id;
-    this.logger.log(`Creating payment for merchant ${merchant.id}`);
+    createPaymentDto.merchantId = merchantId;
+    this.logger.log(`Creating payment for merchant ${merchantId}`);
 
     const payment = await this.paymentService.createPayment(createPaymentDto);
     this.logger.log(`Payment created successfully: ${payment.id}`);
@@ -56,32 +74,56 @@ export class PaymentController {
   }
 
   @Get(':id')
-  async findOne(@Param('id') id: string): Promise<Payment> {
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENTS_READ)
+  async findOne(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Payment> {
     this.logger.log(`Get payment request: ${id}`);
-    const payment = await this.paymentService.getPaymentById(id);
+    const payment = await this.paymentService.getPaymentById(id, merchantId);
     this.logger.log(`Payment retrieved: ${id}, status: ${payment.status}`);
     return payment;
   }
 
+  @Get(':id/quote')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENTS_READ)
+  async findQuote(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Quote | null> {
+    return this.paymentService.getPaymentQuote(id, merchantId);
+  }
+
   @Post(':id/prepare')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENTS_CREATE)
   async prepare(
     @Param('id') id: string,
     @Body('selectedToken') selectedToken: string,
-  ): Promise<{ payment: Payment; quote: any }> {
+    @AuthMerchantId() merchantId: string,
+  ): Promise<{ payment: Payment; quote: Quote | null }> {
     this.logger.log(`Prepare payment request: ${id}, token: ${selectedToken}`);
+    await this.paymentService.getPaymentById(id, merchantId);
     const result = await this.paymentService.preparePayment(id, selectedToken);
     this.logger.log(`Payment prepared: ${id}`);
     return result;
   }
 
   @Post(':id/execute')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENTS_CREATE)
+  @UseInterceptors(IdempotencyInterceptor)
   async execute(
     @Param('id') id: string,
     @Body() executePaymentDto: ExecutePaymentDto,
+    @AuthMerchantId() merchantId: string,
   ): Promise<{ payment: Payment; transactionData: any }> {
     try {
       // Log the incoming request
       this.logger.log(`Execute payment request for ID: ${id}`);
+      await this.paymentService.getPaymentById(id, merchantId);
 
       // Make sure the payment ID in the URL matches the one in the DTO
       executePaymentDto.paymentId = id;
@@ -106,14 +148,42 @@ export class PaymentController {
     }
   }
 
+  @Post(':id/submit')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENTS_CREATE)
+  async submit(
+    @Param('id') id: string,
+    @Body('transactionSignature') transactionSignature: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Payment> {
+    this.logger.log(
+      `Submit transaction request: ${id}, signature: ${transactionSignature}`,
+    );
+    await this.paymentService.getPaymentById(id, merchantId);
+
+    // Record the signature so the confirmation worker can track it
+    const payment =
+      await this.paymentService.updatePaymentStatusAfterSubmission(
+        id,
+        transactionSignature,
+      );
+    this.logger.log(`Transaction submitted for payment: ${id}`);
+
+    return payment;
+  }
+
   @Post(':id/confirm')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENTS_CREATE)
   async confirm(
     @Param('id') id: string,
     @Body('transactionSignature') transactionSignature: string,
+    @AuthMerchantId() merchantId: string,
   ): Promise<Payment> {
     this.logger.log(
       `Confirm payment request: ${id}, signature: ${transactionSignature}`,
     );
+    await this.paymentService.getPaymentById(id, merchantId);
 
     try {
       // Confirm the payment with the transaction signature
@@ -134,26 +204,21 @@ export class PaymentController {
   }
 
   @Get('merchant/:merchantId')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENTS_LIST)
+  @OwnMerchant()
   async findByMerchant(
     @Param('merchantId') merchantId: string,
-    @Headers('x-api-key') apiKey: string,
-  ): Promise<Payment[]> {
+    @Query() query: ListPaymentsDto,
+  ): Promise<PaymentPage> {
     this.logger.log(`Get payments for merchant: ${merchantId}`);
 
-    // Validate API key
-    const merchant = await this.merchantService.getMerchantByApiKey(apiKey);
-    if (!merchant || merchant.id !== merchantId) {
-      this.logger.error(`Invalid API key for merchant: ${merchantId}`);
-      throw new UnauthorizedException('Invalid API key');
-    }
-
-    const payments =
-      await this.paymentService.getPaymentsByMerchantId(merchantId);
+    const page = await this.paymentService.listPayments(merchantId, query);
     this.logger.log(
-      `Retrieved ${payments.length} payments for merchant: ${merchantId}`,
+      `Retrieved ${page.data.length} of ${page.total} payments for merchant: ${merchantId}`,
     );
 
-    return payments;
+    return page;
   }
 
   @Get('tokens/popular')
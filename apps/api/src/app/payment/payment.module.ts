@@ -3,16 +3,33 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { PaymentService } from './payment.service';
 import { PaymentController } from './payment.controller';
 import { Payment } from './entities/payment.entity';
+import { PaymentLeg } from './entities/payment-leg.entity';
 import { MerchantModule } from '../merchant/merchant.module';
 import { JupiterModule } from '../jupiter/jupiter.module';
 import { WebsocketModule } from '../websocket/websocket.module';
+import { VerificationModule } from '../verification/verification.module';
+import { WebhookModule } from '../webhook/webhook.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { AuthModule } from '../auth/auth.module';
+import { SolanaModule } from '../solana/solana.module';
+import { FxModule } from '../fx/fx.module';
+import { QuoteModule } from '../quote/quote.module';
+import { PlatformFeeModule } from '../platform-fee/platform-fee.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Payment]),
+    TypeOrmModule.forFeature([Payment, PaymentLeg]),
     MerchantModule,
     JupiterModule,
     WebsocketModule,
+    VerificationModule,
+    WebhookModule,
+    IdempotencyModule,
+    AuthModule,
+    SolanaModule,
+    FxModule,
+    QuoteModule,
+    PlatformFeeModule,
   ],
   providers: [PaymentService],
   controllers: [PaymentController],
@@ -1,18 +1,1322 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddress } from '@solana/spl-token';
 import { PaymentService } from './payment.service';
+import {
+  CreatePaymentDto,
+  PaymentRecipientDto,
+} from './dto/create-payment.dto';
+import { Payment, PaymentStatus } from './entities/payment.entity';
+import { PaymentLeg } from './entities/payment-leg.entity';
+import { MerchantService } from '../merchant/merchant.service';
+import { JupiterService } from '../jupiter/jupiter.service';
+import { DEFAULT_SWAP_SETTINGS } from '../jupiter/models/swap-settings.model';
+import { PaymentGateway } from '../websocket/payment/payment.gateway';
+import { PaymentEventType } from '../websocket/models/event.model';
+import { VerificationService } from '../verification/verification.service';
+import { VerificationFailureReason } from '../verification/models/verification-result.model';
+import { WebhookService } from '../webhook/webhook.service';
+import { Money } from '../money/money';
+import { FxService } from '../fx/fx.service';
+import { FX_RATE_PROVIDER } from '../fx/fx.constants';
+import { StaticFxRateProvider } from '../fx/providers/static-fx-rate.provider';
+import { QuoteService } from '../quote/quote.service';
+import { Quote } from '../quote/entities/quote.entity';
+import { PlatformFeeService } from '../platform-fee/platform-fee.service';
+import {
+  NATIVE_SOL_MINT,
+  SOLANA_CONNECTION,
+  USDC_MINT,
+} from '../solana/solana.constants';
 
 describe('PaymentService', () => {
   let service: PaymentService;
+  let payment: Payment;
+
+  const paymentRepository = {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    save: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  };
+  const merchantService = { getMerchantById: jest.fn() };
+  const jupiterService = {
+    getQuote: jest.fn(),
+    getPopularTokens: jest.fn(),
+    getTokenPrice: jest.fn(),
+  };
+  const paymentGateway = {
+    emitToMerchant: jest.fn(),
+    emitToPayment: jest.fn(),
+  };
+  const verificationService = { verifyPaymentTransaction: jest.fn() };
+  const webhookService = { dispatch: jest.fn() };
+  const quoteRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+  };
+  const configService = {
+    get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+  };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+
+    payment = {
+      id: 'payment-1',
+      merchantId: 'merchant-1',
+      amount: Money.of(10, 6),
+      status: PaymentStatus.PROCESSING,
+    } as Payment;
+    paymentRepository.findOne.mockImplementation(async () => payment);
+    paymentRepository.save.mockImplementation(async (p) => p);
+    paymentRepository.create.mockImplementation((p) => ({ ...p }));
+    merchantService.getMerchantById.mockResolvedValue({
+      id: 'merchant-1',
+      paymentSettings: DEFAULT_SWAP_SETTINGS,
+    });
+    quoteRepository.create.mockImplementation((q) => ({ ...q }));
+    quoteRepository.save.mockImplementation(async (q) => ({
+      id: 'quote-2',
+      ...q,
+    }));
+    configService.get.mockImplementation((_key, defaultValue) => defaultValue);
+
+    service = await createService();
+  });
+
+  const createService = async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [PaymentService],
+      providers: [
+        PaymentService,
+        { provide: getRepositoryToken(Payment), useValue: paymentRepository },
+        {
+          provide: getRepositoryToken(PaymentLeg),
+          useValue: { create: (leg: Partial<PaymentLeg>) => ({ ...leg }) },
+        },
+        { provide: MerchantService, useValue: merchantService },
+        { provide: JupiterService, useValue: jupiterService },
+        { provide: PaymentGateway, useValue: paymentGateway },
+        { provide: DataSource, useValue: {} },
+        { provide: VerificationService, useValue: verificationService },
+        { provide: WebhookService, useValue: webhookService },
+        FxService,
+        {
+          provide: FX_RATE_PROVIDER,
+          useValue: new StaticFxRateProvider({
+            base: 'USD',
+            rates: { EUR: 0.8 },
+          }),
+        },
+        QuoteService,
+        { provide: getRepositoryToken(Quote), useValue: quoteRepository },
+        PlatformFeeService,
+        { provide: ConfigService, useValue: configService },
+        { provide: SOLANA_CONNECTION, useValue: {} },
+      ],
     }).compile();
 
-    service = module.get<PaymentService>(PaymentService);
-  });
+    return module.get<PaymentService>(PaymentService);
+  };
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('confirmPayment', () => {
+    it('completes the payment once the transaction is verified', async () => {
+      verificationService.verifyPaymentTransaction.mockResolvedValue({
+        verified: true,
+      });
+
+      const result = await service.confirmPayment('payment-1', 'sig');
+
+      expect(result.status).toBe(PaymentStatus.COMPLETED);
+      expect(result.transactionSignature).toBe('sig');
+      expect(paymentGateway.emitToPayment).toHaveBeenCalledWith(
+        'payment-1',
+        expect.objectContaining({ type: PaymentEventType.PAYMENT_COMPLETED }),
+      );
+      expect(webhookService.dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: PaymentEventType.PAYMENT_COMPLETED,
+          merchantId: 'merchant-1',
+        }),
+      );
+    });
+
+    it('fails the payment with a structured reason on mismatch', async () => {
+      verificationService.verifyPaymentTransaction.mockResolvedValue({
+        verified: false,
+        reason: VerificationFailureReason.INSUFFICIENT_AMOUNT,
+        message: 'underpaid',
+      });
+
+      const result = await service.confirmPayment('payment-1', 'sig');
+
+      expect(result.status).toBe(PaymentStatus.FAILED);
+      expect(result.failureCode).toBe(
+        VerificationFailureReason.INSUFFICIENT_AMOUNT,
+      );
+      expect(paymentGateway.emitToMerchant).toHaveBeenCalledWith(
+        'merchant-1',
+        expect.objectContaining({
+          type: PaymentEventType.PAYMENT_FAILED,
+          data: expect.objectContaining({
+            reason: 'underpaid',
+            code: VerificationFailureReason.INSUFFICIENT_AMOUNT,
+          }),
+        }),
+      );
+    });
+
+    it.each([
+      VerificationFailureReason.SIGNATURE_ALREADY_USED,
+      VerificationFailureReason.REFERENCE_MISMATCH,
+    ])('does not attach a signature rejected as %s', async (reason) => {
+      verificationService.verifyPaymentTransaction.mockResolvedValue({
+        verified: false,
+        reason,
+        message: 'not this payment',
+      });
+
+      const result = await service.confirmPayment('payment-1', 'sig');
+
+      expect(result.status).toBe(PaymentStatus.FAILED);
+      expect(result.transactionSignature).toBeUndefined();
+    });
+
+    it('keeps the payment processing while the transaction has not landed', async () => {
+      verificationService.verifyPaymentTransaction.mockResolvedValue({
+        verified: false,
+        reason: VerificationFailureReason.TRANSACTION_NOT_FOUND,
+      });
+
+      const result = await service.confirmPayment('payment-1', 'sig');
+
+      expect(result.status).toBe(PaymentStatus.PROCESSING);
+      expect(result.transactionSignature).toBe('sig');
+      expect(paymentGateway.emitToMerchant).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      PaymentStatus.COMPLETED,
+      PaymentStatus.REFUNDED,
+      PaymentStatus.PARTIALLY_REFUNDED,
+      PaymentStatus.FAILED,
+      PaymentStatus.EXPIRED,
+    ])('returns %s payments unchanged', async (status) => {
+      payment.status = status;
+      payment.transactionSignature = 'sig';
+
+      const result = await service.confirmPayment('payment-1', 'other-sig');
+
+      expect(result.status).toBe(status);
+      expect(result.transactionSignature).toBe('sig');
+      expect(
+        verificationService.verifyPaymentTransaction,
+      ).not.toHaveBeenCalled();
+      expect(paymentRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('does not fail a completed payment for a failed transaction', async () => {
+      payment.status = PaymentStatus.COMPLETED;
+      payment.transactionSignature = 'sig';
+      verificationService.verifyPaymentTransaction.mockResolvedValue({
+        verified: false,
+        reason: VerificationFailureReason.TRANSACTION_FAILED,
+        message: 'failed on-chain',
+      });
+
+      const result = await service.confirmPayment('payment-1', 'failed-sig');
+
+      expect(result.status).toBe(PaymentStatus.COMPLETED);
+      expect(result.transactionSignature).toBe('sig');
+      expect(webhookService.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('does not complete a refunded payment again for its own signature', async () => {
+      payment.status = PaymentStatus.REFUNDED;
+      payment.transactionSignature = 'sig';
+      verificationService.verifyPaymentTransaction.mockResolvedValue({
+        verified: true,
+      });
+      const listener = jest.fn();
+      service.onPaymentEvent(listener);
+
+      const result = await service.confirmPayment('payment-1', 'sig');
+
+      expect(result.status).toBe(PaymentStatus.REFUNDED);
+      expect(webhookService.dispatch).not.toHaveBeenCalled();
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('verifies pending payments', async () => {
+      payment.status = PaymentStatus.PENDING;
+      verificationService.verifyPaymentTransaction.mockResolvedValue({
+        verified: true,
+      });
+
+      const result = await service.confirmPayment('payment-1', 'sig');
+
+      expect(result.status).toBe(PaymentStatus.COMPLETED);
+    });
+
+    it('records the wallet that paid when it was not known', async () => {
+      verificationService.verifyPaymentTransaction.mockResolvedValue({
+        verified: true,
+        feePayer: 'payer-wallet',
+      });
+
+      const result = await service.confirmPayment('payment-1', 'sig');
+
+      expect(result.customerWallet).toBe('payer-wallet');
+    });
+
+    it('keeps a customer wallet that is already known', async () => {
+      payment.customerWallet = 'customer-wallet';
+      verificationService.verifyPaymentTransaction.mockResolvedValue({
+        verified: true,
+        feePayer: 'billing-authority',
+      });
+
+      const result = await service.confirmPayment('payment-1', 'sig');
+
+      expect(result.customerWallet).toBe('customer-wallet');
+    });
+
+    it('tells event listeners, even when one of them fails', async () => {
+      verificationService.verifyPaymentTransaction.mockResolvedValue({
+        verified: true,
+      });
+      const failing = jest.fn().mockRejectedValue(new Error('listener down'));
+      const listener = jest.fn();
+      service.onPaymentEvent(failing);
+      service.onPaymentEvent(listener);
+
+      const result = await service.confirmPayment('payment-1', 'sig');
+
+      expect(result.status).toBe(PaymentStatus.COMPLETED);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: PaymentEventType.PAYMENT_COMPLETED,
+          paymentId: 'payment-1',
+        }),
+      );
+    });
+  });
+
+  describe('expiry', () => {
+    beforeEach(() => {
+      merchantService.getMerchantById.mockResolvedValue({
+        id: 'merchant-1',
+        walletAddress: 'wallet',
+        paymentExpiryMinutes: 30,
+      });
+    });
+
+    it('uses the merchant default expiry', async () => {
+      const result = await service.createPayment({
+        merchantId: 'merchant-1',
+        amount: 10,
+        currency: 'USD',
+      });
+
+      const minutes =
+        (new Date(result.expiresAt as Date).getTime() - Date.now()) / 60000;
+      expect(Math.round(minutes)).toBe(30);
+    });
+
+    it('lets the payment override the merchant expiry', async () => {
+      const result = await service.createPayment({
+        merchantId: 'merchant-1',
+        amount: 10,
+        currency: 'USD',
+        expiresInMinutes: 5,
+      });
+
+      const minutes =
+        (new Date(result.expiresAt as Date).getTime() - Date.now()) / 60000;
+      expect(Math.round(minutes)).toBe(5);
+    });
+
+    it.each([0, -5, 1.5, NaN, 10081, '30'])(
+      'rejects an expiry of %p minutes',
+      async (expiresInMinutes) => {
+        await expect(
+          service.createPayment({
+            merchantId: 'merchant-1',
+            amount: 10,
+            currency: 'USD',
+            expiresInMinutes: expiresInMinutes as number,
+          }),
+        ).rejects.toThrow(BadRequestException);
+        expect(paymentRepository.save).not.toHaveBeenCalled();
+      },
+    );
+
+    it('expires and rejects stale pending payments on prepare', async () => {
+      payment.status = PaymentStatus.PENDING;
+      payment.expiresAt = new Date(Date.now() - 1000);
+
+      await expect(
+        service.preparePayment('payment-1', 'token'),
+      ).rejects.toThrow('Payment has expired');
+      expect(payment.status).toBe(PaymentStatus.EXPIRED);
+      expect(paymentGateway.emitToPayment).toHaveBeenCalledWith(
+        'payment-1',
+        expect.objectContaining({ type: PaymentEventType.PAYMENT_EXPIRED }),
+      );
+    });
+
+    it('rejects executing an expired payment', async () => {
+      payment.status = PaymentStatus.EXPIRED;
+
+      await expect(
+        service.executePayment({
+          paymentId: 'payment-1',
+          selectedToken: 'token',
+          customerWallet: '11111111111111111111111111111111',
+        }),
+      ).rejects.toThrow('Payment has expired');
+    });
+
+    it('leaves payments with a transaction in flight alone', async () => {
+      const result = await service.expirePayment('payment-1');
+
+      expect(result.status).toBe(PaymentStatus.PROCESSING);
+    });
+
+    it('expires processing payments that never got a transaction', async () => {
+      const result = await service.expireAbandonedPayment('payment-1');
+
+      expect(result.status).toBe(PaymentStatus.EXPIRED);
+      expect(paymentGateway.emitToPayment).toHaveBeenCalledWith(
+        'payment-1',
+        expect.objectContaining({ type: PaymentEventType.PAYMENT_EXPIRED }),
+      );
+    });
+
+    it('never abandons payments with a transaction', async () => {
+      payment.transactionSignature = 'sig';
+
+      const result = await service.expireAbandonedPayment('payment-1');
+
+      expect(result.status).toBe(PaymentStatus.PROCESSING);
+      expect(paymentRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settlement token', () => {
+    beforeEach(() => {
+      payment.status = PaymentStatus.PENDING;
+      payment.currency = 'USD';
+      payment.settlementMint = NATIVE_SOL_MINT;
+      payment.settlementDecimals = 9;
+      jupiterService.getTokenPrice.mockResolvedValue(200);
+    });
+
+    it('settles in the merchant settlement token', async () => {
+      merchantService.getMerchantById.mockResolvedValue({
+        id: 'merchant-1',
+        walletAddress: 'wallet',
+        paymentExpiryMinutes: 30,
+        settlementMint: NATIVE_SOL_MINT,
+        settlementDecimals: 9,
+      });
+
+      const result = await service.createPayment({
+        merchantId: 'merchant-1',
+        amount: 10,
+        currency: 'USD',
+      });
+
+      expect(result.settlementMint).toBe(NATIVE_SOL_MINT);
+      expect(result.settlementDecimals).toBe(9);
+    });
+
+    it('quotes swaps into the settlement token', async () => {
+      jupiterService.getQuote.mockResolvedValue({ inAmount: '10000000' });
+      jupiterService.getPopularTokens.mockResolvedValue([
+        { address: USDC_MINT, decimals: 6 },
+      ]);
+
+      await service.preparePayment('payment-1', USDC_MINT);
+
+      expect(jupiterService.getQuote).toHaveBeenCalledWith(
+        USDC_MINT,
+        NATIVE_SOL_MINT,
+        BigInt(50000000),
+        'ExactOut',
+        DEFAULT_SWAP_SETTINGS,
+        0,
+      );
+    });
+
+    it("quotes swaps with the merchant's swap settings", async () => {
+      const paymentSettings = {
+        ...DEFAULT_SWAP_SETTINGS,
+        maxSlippageBps: 30,
+        excludedDexes: ['Raydium'],
+        onlyDirectRoutes: true,
+      };
+      merchantService.getMerchantById.mockResolvedValue({
+        id: 'merchant-1',
+        paymentSettings,
+      });
+      jupiterService.getQuote.mockResolvedValue({ inAmount: '10000000' });
+      jupiterService.getPopularTokens.mockResolvedValue([
+        { address: USDC_MINT, decimals: 6 },
+      ]);
+
+      const { quote } = await service.preparePayment('payment-1', USDC_MINT);
+
+      expect(jupiterService.getQuote).toHaveBeenCalledWith(
+        USDC_MINT,
+        NATIVE_SOL_MINT,
+        BigInt(50000000),
+        'ExactOut',
+        paymentSettings,
+        0,
+      );
+      expect(quote?.slippageBps).toBe(30);
+    });
+
+    it('keeps the reason a quote was rejected', async () => {
+      jupiterService.getQuote.mockRejectedValue(
+        new BadRequestException(
+          'Swap price impact of 5.00% is above the limit',
+        ),
+      );
+      jupiterService.getPopularTokens.mockResolvedValue([]);
+
+      await expect(
+        service.preparePayment('payment-1', USDC_MINT),
+      ).rejects.toThrow('Swap price impact of 5.00% is above the limit');
+    });
+
+    it('pays native SOL straight to the merchant wallet', async () => {
+      payment.destinationWallet = '11111111111111111111111111111111';
+      payment.settlementAmount = Money.of('0.05', 9);
+
+      const transactionData = await service.buildTransactionData(
+        payment,
+        NATIVE_SOL_MINT,
+        '11111111111111111111111111111111',
+      );
+
+      expect(transactionData.isDirectTransfer).toBe(true);
+      expect(transactionData.isNativeSol).toBe(true);
+      expect(transactionData.destinationTokenAccount).toBe(
+        payment.destinationWallet,
+      );
+      expect(transactionData.amount).toBe('50000000');
+    });
+
+    it('does not trust the account of a Solana Pay transaction request', async () => {
+      payment.destinationWallet = '11111111111111111111111111111111';
+      payment.settlementAmount = Money.of('0.05', 9);
+      const account = Keypair.generate().publicKey.toBase58();
+
+      const { payment: requested, transactionData } =
+        await service.buildTransactionRequest('payment-1', account);
+
+      expect(requested.customerWallet).toBeUndefined();
+      expect(requested.status).toBe(PaymentStatus.PENDING);
+      expect(transactionData.amount).toBe('50000000');
+    });
+  });
+
+  describe('exchange rates', () => {
+    beforeEach(() => {
+      payment.status = PaymentStatus.PENDING;
+      payment.currency = 'EUR';
+      payment.settlementMint = USDC_MINT;
+      payment.settlementDecimals = 6;
+    });
+
+    it('normalizes the payment currency', async () => {
+      merchantService.getMerchantById.mockResolvedValue({
+        id: 'merchant-1',
+        walletAddress: 'wallet',
+        paymentExpiryMinutes: 30,
+      });
+
+      const result = await service.createPayment({
+        merchantId: 'merchant-1',
+        amount: 10,
+        currency: 'eur',
+      });
+
+      expect(result.currency).toBe('EUR');
+    });
+
+    it('keeps every digit of decimal string and Money amounts', async () => {
+      merchantService.getMerchantById.mockResolvedValue({
+        id: 'merchant-1',
+        walletAddress: 'wallet',
+        paymentExpiryMinutes: 30,
+      });
+
+      const fromString = await service.createPayment({
+        merchantId: 'merchant-1',
+        amount: '9007199254740993.01',
+        currency: 'USD',
+      });
+      const fromMoney = await service.createPayment({
+        merchantId: 'merchant-1',
+        amount: Money.of('9007199254740993.01', 2),
+        currency: 'USD',
+      });
+
+      expect(fromString.amount.toString()).toBe('9007199254740993.01');
+      expect(fromMoney.amount.toString()).toBe('9007199254740993.01');
+    });
+
+    it('rejects amounts that are malformed or not positive', async () => {
+      merchantService.getMerchantById.mockResolvedValue({
+        id: 'merchant-1',
+        walletAddress: 'wallet',
+        paymentExpiryMinutes: 30,
+      });
+
+      for (const amount of ['ten', 0, -5, NaN]) {
+        await expect(
+          service.createPayment({
+            merchantId: 'merchant-1',
+            amount,
+            currency: 'USD',
+          }),
+        ).rejects.toThrow(BadRequestException);
+      }
+    });
+
+    it('rejects currencies that are not ISO 4217 codes', async () => {
+      merchantService.getMerchantById.mockResolvedValue({
+        id: 'merchant-1',
+        walletAddress: 'wallet',
+        paymentExpiryMinutes: 30,
+      });
+
+      await expect(
+        service.createPayment({
+          merchantId: 'merchant-1',
+          amount: 10,
+          currency: 'EURO',
+        }),
+      ).rejects.toThrow('Invalid currency EURO');
+    });
+
+    it('snapshots the exchange rate when the payment is prepared', async () => {
+      const { payment: prepared } = await service.preparePayment(
+        'payment-1',
+        USDC_MINT,
+      );
+
+      expect(prepared.settlementAmount?.toString()).toBe('12.5');
+      expect(prepared.exchangeRate).toBe(1.25);
+      expect(prepared.exchangeRateSource).toBe('static');
+      expect(prepared.exchangeRateAt).toBeInstanceOf(Date);
+      expect(prepared.tokenAmount.toString()).toBe('12.5');
+    });
+
+    it('snapshots the rate for transfers the platform sends itself', async () => {
+      const processing = await service.markProcessing(
+        'payment-1',
+        '11111111111111111111111111111111',
+      );
+
+      expect(processing.status).toBe(PaymentStatus.PROCESSING);
+      expect(processing.selectedToken).toBe(USDC_MINT);
+      expect(processing.tokenAmount.toString()).toBe('12.5');
+      expect(processing.customerWallet).toBe(
+        '11111111111111111111111111111111',
+      );
+
+      await expect(
+        service.markProcessing('payment-1', '11111111111111111111111111111111'),
+      ).rejects.toThrow('Payment is no longer in pending state');
+    });
+
+    it('keeps the prepared rate when executing', async () => {
+      payment.destinationWallet = '11111111111111111111111111111111';
+      payment.settlementAmount = Money.of(12, 6);
+      payment.exchangeRate = 1.2;
+
+      const { transactionData } = await service.executePayment({
+        paymentId: 'payment-1',
+        selectedToken: USDC_MINT,
+        customerWallet: '11111111111111111111111111111111',
+      });
+
+      expect(transactionData.amount).toBe('12000000');
+      expect(payment.exchangeRate).toBe(1.2);
+    });
+  });
+
+  describe('quote locking', () => {
+    const customerWallet = '11111111111111111111111111111111';
+    const acceptedQuote = {
+      id: 'quote-1',
+      paymentId: 'payment-1',
+      inputMint: USDC_MINT,
+      inputDecimals: 6,
+      outputMint: NATIVE_SOL_MINT,
+      outputDecimals: 9,
+      inAmount: Money.of('10', 6),
+      outAmount: Money.of('0.05', 9),
+      route: { inAmount: '10000000' },
+      expiresAt: new Date(Date.now() + 30000),
+    } as Quote;
+
+    beforeEach(() => {
+      payment.status = PaymentStatus.PENDING;
+      payment.currency = 'USD';
+      payment.destinationWallet = customerWallet;
+      payment.settlementMint = NATIVE_SOL_MINT;
+      payment.settlementDecimals = 9;
+      payment.settlementAmount = Money.of('0.05', 9);
+      payment.quoteId = 'quote-1';
+      jupiterService.getTokenPrice.mockResolvedValue(200);
+      jupiterService.getPopularTokens.mockResolvedValue([
+        { address: USDC_MINT, decimals: 6 },
+      ]);
+      jest
+        .spyOn(service, 'buildTransactionData')
+        .mockResolvedValue({} as never);
+    });
+
+    it('locks the quote shown when preparing', async () => {
+      jupiterService.getQuote.mockResolvedValue({ inAmount: '10000000' });
+
+      const { payment: prepared, quote } = await service.preparePayment(
+        'payment-1',
+        USDC_MINT,
+      );
+
+      expect(quote?.id).toBe('quote-2');
+      expect(quote?.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(prepared.quoteId).toBe('quote-2');
+      expect(prepared.tokenAmount.toString()).toBe('10');
+    });
+
+    it('reuses the accepted quote while it is valid', async () => {
+      quoteRepository.findOne.mockResolvedValue(acceptedQuote);
+
+      await service.executePayment({
+        paymentId: 'payment-1',
+        selectedToken: USDC_MINT,
+        customerWallet,
+      });
+
+      expect(jupiterService.getQuote).not.toHaveBeenCalled();
+      expect(service.buildTransactionData).toHaveBeenCalledWith(
+        payment,
+        USDC_MINT,
+        customerWallet,
+        acceptedQuote.route,
+      );
+    });
+
+    it('re-quotes expired quotes within the price tolerance', async () => {
+      quoteRepository.findOne.mockResolvedValue({
+        ...acceptedQuote,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      jupiterService.getQuote.mockResolvedValue({ inAmount: '10040000' });
+
+      const result = await service.executePayment({
+        paymentId: 'payment-1',
+        selectedToken: USDC_MINT,
+        customerWallet,
+      });
+
+      expect(result.payment.status).toBe(PaymentStatus.PROCESSING);
+      expect(result.payment.quoteId).toBe('quote-2');
+      expect(result.payment.tokenAmount.toString()).toBe('10.04');
+    });
+
+    it('requires accepting a new quote when the price moved', async () => {
+      quoteRepository.findOne.mockResolvedValue({
+        ...acceptedQuote,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      jupiterService.getQuote.mockResolvedValue({ inAmount: '10500000' });
+
+      await expect(
+        service.executePayment({
+          paymentId: 'payment-1',
+          selectedToken: USDC_MINT,
+          customerWallet,
+          quoteId: 'quote-1',
+        }),
+      ).rejects.toMatchObject({
+        status: 409,
+        response: expect.objectContaining({
+          code: 'QUOTE_CHANGED',
+          quote: expect.objectContaining({ id: 'quote-2' }),
+        }),
+      });
+      expect(payment.status).toBe(PaymentStatus.PENDING);
+      expect(payment.quoteId).toBe('quote-2');
+      expect(service.buildTransactionData).not.toHaveBeenCalled();
+    });
+
+    it('rejects quotes of other payments', async () => {
+      quoteRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.executePayment({
+          paymentId: 'payment-1',
+          selectedToken: USDC_MINT,
+          customerWallet,
+          quoteId: 'quote-9',
+        }),
+      ).rejects.toThrow('Unknown quote quote-9');
+    });
+
+    it("returns the payment's quote to its merchant", async () => {
+      quoteRepository.findOne.mockResolvedValue(acceptedQuote);
+
+      await expect(
+        service.getPaymentQuote('payment-1', 'merchant-1'),
+      ).resolves.toBe(acceptedQuote);
+      expect(quoteRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'quote-1', paymentId: 'payment-1' },
+      });
+      await expect(
+        service.getPaymentQuote('payment-1', 'merchant-2'),
+      ).rejects.toThrow('not found');
+    });
+  });
+
+  describe('platform fees', () => {
+    const feeWallet = Keypair.generate().publicKey;
+    const config: Record<string, string> = {
+      PLATFORM_FEE_BPS: '100',
+      PLATFORM_FEE_MIN_USD: '0.25',
+      PLATFORM_FEE_WALLET: feeWallet.toBase58(),
+    };
+
+    beforeEach(async () => {
+      configService.get.mockImplementation(
+        (key, defaultValue) => config[key] ?? defaultValue,
+      );
+      service = await createService();
+
+      payment.status = PaymentStatus.PENDING;
+      payment.currency = 'USD';
+      payment.amount = Money.of(100, 6);
+      payment.destinationWallet = '11111111111111111111111111111111';
+      payment.settlementMint = USDC_MINT;
+      payment.settlementDecimals = 6;
+    });
+
+    it('takes the fee out of the settlement amount', async () => {
+      const { payment: prepared } = await service.preparePayment(
+        'payment-1',
+        USDC_MINT,
+      );
+
+      expect(prepared.settlementAmount?.toString()).toBe('100');
+      expect(prepared.platformFeeBps).toBe(100);
+      expect(prepared.platformFeeAmount.toString()).toBe('1');
+      expect(prepared.netAmount?.toString()).toBe('99');
+      expect(prepared.tokenAmount.toString()).toBe('100');
+    });
+
+    it('charges at least the minimum fee', async () => {
+      payment.amount = Money.of(10, 6);
+
+      const { payment: prepared } = await service.preparePayment(
+        'payment-1',
+        USDC_MINT,
+      );
+
+      expect(prepared.platformFeeAmount.toString()).toBe('0.25');
+      expect(prepared.netAmount?.toString()).toBe('9.75');
+    });
+
+    it("uses the merchant's fee overrides", async () => {
+      merchantService.getMerchantById.mockResolvedValue({
+        id: 'merchant-1',
+        paymentSettings: DEFAULT_SWAP_SETTINGS,
+        platformFeeBps: 50,
+        platformFeeMinUsd: Money.of(0, 6),
+      });
+
+      const { payment: prepared } = await service.preparePayment(
+        'payment-1',
+        USDC_MINT,
+      );
+
+      expect(prepared.platformFeeBps).toBe(50);
+      expect(prepared.platformFeeAmount.toString()).toBe('0.5');
+    });
+
+    it('splits the fee off direct transfers', async () => {
+      payment.settlementAmount = Money.of(100, 6);
+      payment.platformFeeAmount = Money.of(1, 6);
+      payment.netAmount = Money.of(99, 6);
+
+      const transactionData = await service.buildTransactionData(
+        payment,
+        USDC_MINT,
+        '11111111111111111111111111111111',
+      );
+
+      expect(transactionData.amount).toBe('99000000');
+      expect(transactionData.platformFeeAmount).toBe('1000000');
+      expect(transactionData.platformFeeAccount).toBe(
+        (
+          await getAssociatedTokenAddress(new PublicKey(USDC_MINT), feeWallet)
+        ).toBase58(),
+      );
+    });
+
+    it('charges the fee on swaps through Jupiter', async () => {
+      jupiterService.getQuote.mockResolvedValue({ inAmount: '500000000' });
+      jupiterService.getPopularTokens.mockResolvedValue([
+        { address: NATIVE_SOL_MINT, decimals: 9 },
+      ]);
+
+      await service.preparePayment('payment-1', NATIVE_SOL_MINT);
+
+      // A 1 USDC fee on the 99 USDC the merchant receives, rounded up
+      expect(jupiterService.getQuote).toHaveBeenCalledWith(
+        NATIVE_SOL_MINT,
+        USDC_MINT,
+        BigInt(99000000),
+        'ExactOut',
+        DEFAULT_SWAP_SETTINGS,
+        102,
+      );
+    });
+  });
+
+  describe('hosted checkout redirects', () => {
+    beforeEach(() => {
+      merchantService.getMerchantById.mockResolvedValue({
+        id: 'merchant-1',
+        walletAddress: Keypair.generate().publicKey.toBase58(),
+        paymentExpiryMinutes: 30,
+        settlementMint: USDC_MINT,
+        settlementDecimals: 6,
+        paymentSettings: DEFAULT_SWAP_SETTINGS,
+      });
+    });
+
+    it('stores the success and cancel URLs', async () => {
+      const created = await service.createPayment({
+        merchantId: 'merchant-1',
+        amount: 10,
+        currency: 'USD',
+        successUrl: 'https://shop.example/orders/42/paid',
+        cancelUrl: 'https://shop.example/cart',
+      });
+
+      expect(created.successUrl).toBe('https://shop.example/orders/42/paid');
+      expect(created.cancelUrl).toBe('https://shop.example/cart');
+    });
+
+    it('rejects redirect URLs that are not http or https', async () => {
+      await expect(
+        service.createPayment({
+          merchantId: 'merchant-1',
+          amount: 10,
+          currency: 'USD',
+          successUrl: 'javascript:alert(1)',
+        }),
+      ).rejects.toThrow('successUrl must use http or https');
+      await expect(
+        service.createPayment({
+          merchantId: 'merchant-1',
+          amount: 10,
+          currency: 'USD',
+          cancelUrl: '/cart',
+        }),
+      ).rejects.toThrow('Invalid cancelUrl');
+    });
+  });
+
+  describe('customer email and metadata', () => {
+    beforeEach(() => {
+      merchantService.getMerchantById.mockResolvedValue({
+        id: 'merchant-1',
+        walletAddress: Keypair.generate().publicKey.toBase58(),
+        paymentExpiryMinutes: 30,
+        settlementMint: USDC_MINT,
+        settlementDecimals: 6,
+        paymentSettings: DEFAULT_SWAP_SETTINGS,
+      });
+    });
+
+    const createPayment = (overrides: Partial<CreatePaymentDto>) =>
+      service.createPayment({
+        merchantId: 'merchant-1',
+        amount: 10,
+        currency: 'USD',
+        ...overrides,
+      });
+
+    it('stores them and sends them with the created event', async () => {
+      const created = await createPayment({
+        customerEmail: ' customer@example.com ',
+        metadata: { orderId: 'order-42', quantity: 2, gift: false },
+      });
+
+      expect(created.customerEmail).toBe('customer@example.com');
+      expect(created.metadata).toEqual({
+        orderId: 'order-42',
+        quantity: '2',
+        gift: 'false',
+      });
+      expect(paymentGateway.emitToMerchant).toHaveBeenCalledWith(
+        'merchant-1',
+        expect.objectContaining({
+          type: PaymentEventType.PAYMENT_CREATED,
+          data: expect.objectContaining({
+            customerEmail: 'customer@example.com',
+            metadata: expect.objectContaining({ orderId: 'order-42' }),
+          }),
+        }),
+      );
+    });
+
+    it('accepts metadata sent as a JSON string by older clients', async () => {
+      const created = await createPayment({
+        metadata: '{"orderId":"order-42"}' as unknown as Record<string, string>,
+      });
+
+      expect(created.metadata).toEqual({ orderId: 'order-42' });
+    });
+
+    it('defaults to no metadata', async () => {
+      const created = await createPayment({});
+
+      expect(created.customerEmail).toBeNull();
+      expect(created.metadata).toEqual({});
+    });
+
+    it('rejects invalid emails and metadata', async () => {
+      await expect(
+        createPayment({ customerEmail: 'not-an-email' }),
+      ).rejects.toThrow('Invalid customerEmail');
+      await expect(
+        createPayment({
+          metadata: ['order-42'] as unknown as Record<string, string>,
+        }),
+      ).rejects.toThrow('metadata must be an object');
+      await expect(
+        createPayment({
+          metadata: { items: { sku: 'a' } } as unknown as Record<
+            string,
+            string
+          >,
+        }),
+      ).rejects.toThrow('metadata.items must be a string, number or boolean');
+      await expect(
+        createPayment({ metadata: { ['k'.repeat(41)]: 'value' } }),
+      ).rejects.toThrow('metadata keys must be 1 to 40 characters');
+      await expect(
+        createPayment({ metadata: { note: 'x'.repeat(501) } }),
+      ).rejects.toThrow('metadata.note can be at most 500 characters');
+      await expect(
+        createPayment({
+          metadata: Object.fromEntries(
+            Array.from({ length: 51 }, (_, i) => [`key${i}`, 'value']),
+          ),
+        }),
+      ).rejects.toThrow('metadata can have at most 50 keys');
+    });
+  });
+
+  describe('split payments', () => {
+    const seller = Keypair.generate().publicKey.toBase58();
+    const marketplace = Keypair.generate().publicKey.toBase58();
+
+    beforeEach(() => {
+      merchantService.getMerchantById.mockResolvedValue({
+        id: 'merchant-1',
+        walletAddress: marketplace,
+        paymentExpiryMinutes: 30,
+        settlementMint: USDC_MINT,
+        settlementDecimals: 6,
+        paymentSettings: DEFAULT_SWAP_SETTINGS,
+      });
+    });
+
+    const createPayment = (recipients: PaymentRecipientDto[]) =>
+      service.createPayment({
+        merchantId: 'merchant-1',
+        amount: 10,
+        currency: 'USD',
+        recipients,
+      });
+
+    it('splits the amount between fixed amounts and shares', async () => {
+      const created = await createPayment([
+        { walletAddress: seller, amount: 7 },
+        { walletAddress: marketplace, shareBps: 3000 },
+      ]);
+
+      expect(
+        created.legs.map((leg) => [leg.position, leg.amount.toString()]),
+      ).toEqual([
+        [0, '7'],
+        [1, '3'],
+      ]);
+    });
+
+    it('gives the rounding remainder of shares to the last share', async () => {
+      const created = await createPayment([
+        { walletAddress: seller, shareBps: 3333 },
+        { walletAddress: marketplace, shareBps: 6667 },
+      ]);
+
+      expect(created.legs.map((leg) => leg.amount.toString())).toEqual([
+        '3.333',
+        '6.667',
+      ]);
+    });
+
+    it('rejects recipients that do not add up to the amount', async () => {
+      await expect(
+        createPayment([
+          { walletAddress: seller, amount: 7 },
+          { walletAddress: marketplace, shareBps: 2000 },
+        ]),
+      ).rejects.toThrow('add up to 9');
+    });
+
+    it('keeps every digit of decimal string recipient amounts', async () => {
+      const created = await createPayment([
+        { walletAddress: seller, amount: '3.333333' },
+        { walletAddress: marketplace, amount: '6.666667' },
+      ]);
+
+      expect(created.legs.map((leg) => leg.amount.toString())).toEqual([
+        '3.333333',
+        '6.666667',
+      ]);
+    });
+
+    it.each(['abc', '', '-3', 0])(
+      'rejects the invalid recipient amount %p',
+      async (amount) => {
+        await expect(
+          createPayment([
+            { walletAddress: seller, amount },
+            { walletAddress: marketplace, shareBps: 5000 },
+          ]),
+        ).rejects.toThrow(BadRequestException);
+      },
+    );
+
+    it('rejects recipients with both a share and an amount', async () => {
+      await expect(
+        createPayment([{ walletAddress: seller, amount: 10, shareBps: 10000 }]),
+      ).rejects.toThrow('either a shareBps or an amount');
+    });
+
+    it('splits the settlement amount between the legs', async () => {
+      payment.status = PaymentStatus.PENDING;
+      payment.currency = 'USD';
+      payment.settlementMint = USDC_MINT;
+      payment.settlementDecimals = 6;
+      payment.destinationWallet = marketplace;
+      payment.legs = [
+        { position: 0, walletAddress: seller, amount: Money.of(7, 6) },
+        { position: 1, walletAddress: marketplace, amount: Money.of(3, 6) },
+      ] as PaymentLeg[];
+
+      await service.preparePayment('payment-1', USDC_MINT);
+      const transactionData = await service.buildTransactionData(
+        payment,
+        USDC_MINT,
+        Keypair.generate().publicKey.toBase58(),
+      );
+
+      expect(transactionData.legs).toEqual([
+        expect.objectContaining({ walletAddress: seller, amount: '7000000' }),
+        expect.objectContaining({
+          walletAddress: marketplace,
+          amount: '3000000',
+        }),
+      ]);
+    });
+  });
+
+  describe('listPayments', () => {
+    const cursorId = '6f1c3b5e-2d4a-4b8e-9c7f-1a2b3c4d5e6f';
+
+    const mockQueryBuilder = (rows: Partial<Payment>[], total: number) => {
+      const queryBuilder = {
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        addOrderBy: jest.fn().mockReturnThis(),
+        take: jest.fn().mockReturnThis(),
+        getCount: jest.fn().mockResolvedValue(total),
+        getMany: jest.fn().mockResolvedValue(rows),
+        getRawOne: jest
+          .fn()
+          .mockResolvedValue({ value: '2026-03-10 12:00:00.123456' }),
+      };
+      paymentRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+      return queryBuilder;
+    };
+
+    it('returns the newest payments with a cursor to the next page', async () => {
+      const queryBuilder = mockQueryBuilder(
+        [{ id: 'payment-3' }, { id: 'payment-2' }, { id: 'payment-1' }],
+        7,
+      );
+
+      const page = await service.listPayments('merchant-1', { limit: '2' });
+
+      expect(page.data.map(({ id }) => id)).toEqual(['payment-3', 'payment-2']);
+      expect(page.total).toBe(7);
+      expect(Buffer.from(page.nextCursor, 'base64url').toString()).toBe(
+        'payment-2',
+      );
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'payment.merchantId = :merchantId',
+        { merchantId: 'merchant-1' },
+      );
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+        'payment.createdAt',
+        'DESC',
+      );
+      expect(queryBuilder.addOrderBy).toHaveBeenCalledWith(
+        'payment.id',
+        'DESC',
+      );
+      expect(queryBuilder.take).toHaveBeenCalledWith(3);
+    });
+
+    it('has no next cursor on the last page', async () => {
+      mockQueryBuilder([{ id: 'payment-1' }], 1);
+
+      const page = await service.listPayments('merchant-1');
+
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('applies every filter that is set', async () => {
+      const queryBuilder = mockQueryBuilder([], 0);
+
+      await service.listPayments('merchant-1', {
+        status: 'completed, refunded',
+        from: '2026-03-01T00:00:00Z',
+        to: '2026-04-01T00:00:00Z',
+        selectedToken: NATIVE_SOL_MINT,
+        customerWallet: 'customer-wallet',
+        currency: 'usd',
+        minAmount: '10',
+        maxAmount: '99.5',
+      });
+
+      expect(queryBuilder.andWhere.mock.calls).toEqual([
+        [
+          'payment.status IN (:...statuses)',
+          { statuses: [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED] },
+        ],
+        ['payment.createdAt >= :from', { from: new Date('2026-03-01') }],
+        ['payment.createdAt < :to', { to: new Date('2026-04-01') }],
+        [
+          'payment.selectedToken = :selectedToken',
+          { selectedToken: NATIVE_SOL_MINT },
+        ],
+        [
+          'payment.customerWallet = :customerWallet',
+          { customerWallet: 'customer-wallet' },
+        ],
+        ['payment.currency = :currency', { currency: 'USD' }],
+        ['payment.amount >= :minAmount', { minAmount: '10.000000' }],
+        ['payment.amount <= :maxAmount', { maxAmount: '99.500000' }],
+      ]);
+    });
+
+    it('searches by customer email and metadata', async () => {
+      const queryBuilder = mockQueryBuilder([], 0);
+
+      await service.listPayments('merchant-1', {
+        customerEmail: 'Customer@Example.com',
+        metadata: { orderId: 'order-42' },
+      });
+
+      expect(queryBuilder.andWhere.mock.calls).toEqual([
+        [
+          'LOWER(payment.customerEmail) = :customerEmail',
+          { customerEmail: 'customer@example.com' },
+        ],
+        [
+          'payment.metadata @> :metadata',
+          { metadata: '{"orderId":"order-42"}' },
+        ],
+      ]);
+    });
+
+    it('continues after the cursor in the requested order', async () => {
+      const queryBuilder = mockQueryBuilder([], 5);
+
+      await service.listPayments('merchant-1', {
+        cursor: Buffer.from(cursorId).toString('base64url'),
+        sort: 'amount',
+        order: 'asc',
+      });
+
+      expect(queryBuilder.select).toHaveBeenCalledWith(
+        'CAST(payment.amount AS text)',
+        'value',
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        '(payment.amount, payment.id) > (:afterValue, :afterId)',
+        { afterValue: '2026-03-10 12:00:00.123456', afterId: cursorId },
+      );
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+        'payment.amount',
+        'ASC',
+      );
+    });
+
+    it("rejects cursors that are not one of the merchant's payments", async () => {
+      const queryBuilder = mockQueryBuilder([], 0);
+      queryBuilder.getRawOne.mockResolvedValue(undefined);
+
+      await expect(
+        service.listPayments('merchant-1', {
+          cursor: Buffer.from(cursorId).toString('base64url'),
+        }),
+      ).rejects.toThrow('Invalid cursor');
+      await expect(
+        service.listPayments('merchant-1', { cursor: 'not-a-cursor' }),
+      ).rejects.toThrow('Invalid cursor');
+    });
+
+    it('rejects malformed filters', async () => {
+      mockQueryBuilder([], 0);
+
+      await expect(
+        service.listPayments('merchant-1', { status: 'paid' }),
+      ).rejects.toThrow('Invalid status: paid');
+      await expect(
+        service.listPayments('merchant-1', { from: 'yesterday' }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.listPayments('merchant-1', { limit: '500' }),
+      ).rejects.toThrow('limit must be between 1 and 100');
+      await expect(
+        service.listPayments('merchant-1', { minAmount: '5', maxAmount: '1' }),
+      ).rejects.toThrow('minAmount cannot be above maxAmount');
+    });
+  });
 });
@@ -1,31 +1,104 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { Payment, PaymentStatus } from './entities/payment.entity';
-import { CreatePaymentDto } from './dto/create-payment.dto';
+import { isEmail, isUUID } from 'class-validator';
+import {
+  Payment,
+  PaymentMetadata,
+  PaymentStatus,
+} from './entities/payment.entity';
+import { PaymentLeg } from './entities/payment-leg.entity';
+import {
+  CreatePaymentDto,
+  PaymentRecipientDto,
+} from './dto/create-payment.dto';
 import { ExecutePaymentDto } from './dto/execute-payment.dto';
+import { ListPaymentsDto } from './dto/list-payments.dto';
+import { TransactionData } from './models/payment.model';
+import {
+  PaymentListFilters,
+  PaymentPage,
+  PaymentSortField,
+} from './models/payment-list.model';
+import {
+  DEFAULT_PAYMENT_PAGE_SIZE,
+  MAX_METADATA_KEY_LENGTH,
+  MAX_METADATA_KEYS,
+  MAX_METADATA_VALUE_LENGTH,
+  MAX_PAYMENT_EXPIRY_MINUTES,
+  MAX_PAYMENT_PAGE_SIZE,
+  MAX_PAYMENT_RECIPIENTS,
+} from './payment.constants';
+import { getPaymentLegs } from './payment.utils';
 import { MerchantService } from '../merchant/merchant.service';
 import { JupiterService } from '../jupiter/jupiter.service';
-import { PaymentEventType } from '../websocket/models/event.model';
-import { PublicKey } from '@solana/web3.js';
-import { getAssociatedTokenAddress } from '@solana/spl-token';
+import { JupiterQuote } from '../jupiter/models/quote.model';
+import { SwapSettings } from '../jupiter/models/swap-settings.model';
+import {
+  PaymentEvent,
+  PaymentEventListener,
+  PaymentEventType,
+} from '../websocket/models/event.model';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionConfirmationStatus,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddress,
+} from '@solana/spl-token';
 import { PaymentGateway } from '../websocket/payment/payment.gateway';
 import { DataSource } from 'typeorm';
-
-// Common USDC mint address
-const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+import { SOLANA_CONNECTION, USDC_MINT } from '../solana/solana.constants';
+import {
+  appendInstructions,
+  createReferenceInstruction,
+  isNativeSol,
+} from '../solana/solana.utils';
+import { VerificationService } from '../verification/verification.service';
+import { VerificationFailureReason } from '../verification/models/verification-result.model';
+import { WebhookService } from '../webhook/webhook.service';
+import { FxService } from '../fx/fx.service';
+import { Money, RoundingMode } from '../money/money';
+import { FIAT_DECIMALS } from '../money/money.constants';
+import { QuoteService } from '../quote/quote.service';
+import { Quote } from '../quote/entities/quote.entity';
+import { PlatformFeeService } from '../platform-fee/platform-fee.service';
 
 @Injectable()
 export class PaymentService {
   private readonly logger = new Logger(PaymentService.name);
+  private readonly eventListeners: PaymentEventListener[] = [];
 
   constructor(
     @InjectRepository(Payment)
     private paymentRepository: Repository<Payment>,
+    @InjectRepository(PaymentLeg)
+    private paymentLegRepository: Repository<PaymentLeg>,
     private readonly merchantService: MerchantService,
     private readonly jupiterService: JupiterService,
     private readonly paymentGateway: PaymentGateway,
     private readonly dataSource: DataSource,
+    private readonly verificationService: VerificationService,
+    private readonly webhookService: WebhookService,
+    private readonly fxService: FxService,
+    private readonly quoteService: QuoteService,
+    private readonly platformFeeService: PlatformFeeService,
+    @Inject(SOLANA_CONNECTION)
+    private readonly connection: Connection,
   ) {}
 
   /**
@@ -36,20 +109,56 @@ export class PaymentService {
       createPaymentDto.merchantId,
     );
 
+    // Payment-level expiry overrides the merchant default
+    const expiresInMinutes =
+      createPaymentDto.expiresInMinutes != null
+        ? this.parseExpiresInMinutes(createPaymentDto.expiresInMinutes)
+        : merchant.paymentExpiryMinutes;
+
+    const successUrl = this.parseRedirectUrl(
+      createPaymentDto.successUrl,
+      'successUrl',
+    );
+    const cancelUrl = this.parseRedirectUrl(
+      createPaymentDto.cancelUrl,
+      'cancelUrl',
+    );
+
+    const customerEmail = this.parseCustomerEmail(
+      createPaymentDto.customerEmail,
+    );
+    const metadata = this.parseMetadata(createPaymentDto.metadata);
+
+    const amount = this.parseAmount(createPaymentDto.amount);
+    const legs = createPaymentDto.recipients
+      ? this.createLegs(createPaymentDto.recipients, amount)
+      : [];
+
     const payment = this.paymentRepository.create({
       merchantId: merchant.id,
-      amount: createPaymentDto.amount,
-      currency: createPaymentDto.currency,
-      tokenAmount: 0, // Will be calculated when token is selected
+      amount,
+      currency: this.fxService.normalizeCurrency(createPaymentDto.currency),
+      tokenAmount: Money.zero(0), // Will be calculated when token is selected
+      platformFeeAmount: Money.zero(0), // Set with the exchange rate
       selectedToken: '', // Will be set when customer selects a token
       destinationWallet: merchant.walletAddress,
+      legs,
+      settlementMint: merchant.settlementMint,
+      settlementDecimals: merchant.settlementDecimals,
       status: PaymentStatus.PENDING,
+      expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+      successUrl,
+      cancelUrl,
+      customerEmail,
+      metadata,
+      // Unique key wallets add to the transaction so it can be found on-chain
+      reference: Keypair.generate().publicKey.toBase58(),
     });
 
     const savedPayment = await this.paymentRepository.save(payment);
 
     // Emit payment created event
-    this.paymentGateway.emitToMerchant(savedPayment.merchantId, {
+    await this.notifyMerchant({
       type: PaymentEventType.PAYMENT_CREATED,
       paymentId: savedPayment.id,
       merchantId: savedPayment.merchantId,
@@ -61,69 +170,87 @@ export class PaymentService {
   }
 
   /**
-   * Get payment by ID
+   * Get payment by ID, optionally only from the given merchant
    */
-  async getPaymentById(id: string): Promise<Payment> {
+  async getPaymentById(id: string, merchantId?: string): Promise<Payment> {
     const payment = await this.paymentRepository.findOne({ where: { id } });
 
-    if (!payment) {
+    // Report other merchants' payments as missing rather than forbidden
+    if (!payment || (merchantId && payment.merchantId !== merchantId)) {
       throw new NotFoundException(`Payment with ID ${id} not found`);
     }
 
     return payment;
   }
 
+  /**
+   * Get the swap quote a payment was last prepared with, null when it was
+   * paid in the settlement token
+   */
+  async getPaymentQuote(
+    id: string,
+    merchantId?: string,
+  ): Promise<Quote | null> {
+    const payment = await this.getPaymentById(id, merchantId);
+    if (!payment.quoteId) {
+      return null;
+    }
+
+    return this.quoteService.getQuote(payment.quoteId, payment.id);
+  }
+
   /**
    * Prepare a payment for execution
-   * This calculates the token amount needed based on the selected token
+   * This calculates the token amount needed based on the selected token and
+   * locks the swap quote the customer is shown
    */
   async preparePayment(
     paymentId: string,
     selectedToken: string,
-  ): Promise<{ payment: Payment; quote: any }> {
+  ): Promise<{ payment: Payment; quote: Quote | null }> {
     const payment = await this.getPaymentById(paymentId);
 
+    await this.assertNotExpired(payment);
+
     if (payment.status !== PaymentStatus.PENDING) {
       throw new Error('Payment is no longer in pending state');
     }
 
+    // Every prepare locks in the current exchange rate
+    await this.applyExchangeRate(payment);
+
     try {
-      // Get quote for token swap (if not USDC)
-      let quote;
-      if (selectedToken === USDC_MINT) {
-        // Direct USDC transfer - no swap needed
-        // Convert amount to USDC with 6 decimals
-        payment.tokenAmount = payment.amount * 1000000;
-        quote = { isDirectTransfer: true };
+      // Get quote for token swap (if not the settlement token)
+      let quote: Quote | null = null;
+      if (selectedToken === payment.settlementMint) {
+        // Direct transfer - no swap needed
+        payment.tokenAmount = payment.settlementAmount.rescale(
+          payment.settlementDecimals,
+        );
       } else {
-        // Need to swap - get quote from Jupiter
-        // We're using ExactOut mode to specify the exact USDC amount we want to receive
-        quote = await this.jupiterService.getQuote(
+        // Need to swap - lock a Jupiter quote the customer can accept
+        quote = await this.quoteService.createQuote(
+          payment,
           selectedToken,
-          USDC_MINT,
-          Math.floor(payment.amount * 1000000), // Convert to USDC decimals (6)
-          100, // 1% slippage
-          'ExactOut',
+          await this.getTokenDecimals(selectedToken),
+          await this.getSwapSettings(payment),
         );
-
-        // Calculate input token amount based on quote
-        const tokens = await this.jupiterService.getPopularTokens();
-        const selectedTokenInfo = tokens.find(
-          (t) => t.address === selectedToken,
-        );
-        const decimals = selectedTokenInfo ? selectedTokenInfo.decimals : 6;
-
-        payment.tokenAmount =
-          parseInt(quote.inAmount) / Math.pow(10, decimals - 6);
+        payment.tokenAmount = quote.inAmount;
       }
 
       // Update payment
       payment.selectedToken = selectedToken;
+      payment.quoteId = quote?.id ?? null;
       const updatedPayment = await this.paymentRepository.save(payment);
 
       return { payment: updatedPayment, quote };
     } catch (error) {
       this.logger.error(`Failed to prepare payment: ${error.message}`);
+
+      // Keep the reason a quote was rejected, e.g. its price impact
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new Error('Failed to prepare payment with selected token');
     }
   }
@@ -137,11 +264,15 @@ export class PaymentService {
   ): Promise<Payment> {
     const payment = await this.getPaymentById(paymentId);
 
-    payment.transactionSignature = transactionSignature;
+    if (payment.status !== PaymentStatus.PROCESSING) {
+      throw new Error('Payment is not awaiting a transaction');
+    }
+
+    this.attachTransactionSignature(payment, transactionSignature);
     const updatedPayment = await this.paymentRepository.save(payment);
 
     // Emit transaction submitted event
-    this.paymentGateway.emitToMerchant(updatedPayment.merchantId, {
+    const event = {
       type: PaymentEventType.TRANSACTION_SUBMITTED,
       paymentId: updatedPayment.id,
       merchantId: updatedPayment.merchantId,
@@ -150,12 +281,89 @@ export class PaymentService {
         transactionSignature,
       },
       timestamp: new Date(),
-    });
+    };
+    await this.notifyMerchant(event);
+    this.paymentGateway.emitToPayment(updatedPayment.id, event);
 
     return updatedPayment;
   }
+
   /**
-   * Execute payment - builds transaction data with special handling for USDC
+   * Attach a transaction found on-chain through the payment's reference key
+   */
+  async attachReferencedTransaction(
+    paymentId: string,
+    transactionSignature: string,
+  ): Promise<Payment> {
+    const payment = await this.getPaymentById(paymentId);
+
+    if (
+      payment.transactionSignature ||
+      (payment.status !== PaymentStatus.PENDING &&
+        payment.status !== PaymentStatus.PROCESSING)
+    ) {
+      return payment;
+    }
+
+    payment.status = PaymentStatus.PROCESSING;
+    this.attachTransactionSignature(payment, transactionSignature);
+    const updatedPayment = await this.paymentRepository.save(payment);
+
+    // Emit transaction submitted event
+    const event = {
+      type: PaymentEventType.TRANSACTION_SUBMITTED,
+      paymentId: updatedPayment.id,
+      merchantId: updatedPayment.merchantId,
+      data: {
+        payment: updatedPayment,
+        transactionSignature,
+      },
+      timestamp: new Date(),
+    };
+    await this.notifyMerchant(event);
+    this.paymentGateway.emitToPayment(updatedPayment.id, event);
+
+    this.logger.log(
+      `Found transaction ${transactionSignature} for payment ${paymentId} by reference`,
+    );
+    return updatedPayment;
+  }
+
+  /**
+   * Record a new commitment level reached by the payment's transaction
+   */
+  async updateConfirmationStatus(
+    paymentId: string,
+    confirmationStatus: TransactionConfirmationStatus,
+    slot: number,
+  ): Promise<Payment> {
+    const payment = await this.getPaymentById(paymentId);
+
+    payment.confirmationStatus = confirmationStatus;
+    const updatedPayment = await this.paymentRepository.save(payment);
+
+    // Emit transaction confirmed event for every commitment step
+    const event = {
+      type: PaymentEventType.TRANSACTION_CONFIRMED,
+      paymentId: updatedPayment.id,
+      merchantId: updatedPayment.merchantId,
+      data: {
+        payment: updatedPayment,
+        transactionSignature: updatedPayment.transactionSignature,
+        confirmationStatus,
+        slot,
+      },
+      timestamp: new Date(),
+    };
+    await this.notifyMerchant(event);
+    this.paymentGateway.emitToPayment(updatedPayment.id, event);
+
+    return updatedPayment;
+  }
+
+  /**
+   * Execute payment - builds transaction data with special handling for
+   * payments in the settlement token
    */
   async executePayment(
     executePaymentDto: ExecutePaymentDto,
@@ -183,6 +391,8 @@ export class PaymentService {
       }
 
       // Check payment status
+      await this.assertNotExpired(payment);
+
       if (payment.status !== PaymentStatus.PENDING) {
         this.logger.error(
           `Payment ${paymentId} is not in pending state: ${payment.status}`,
@@ -190,6 +400,21 @@ export class PaymentService {
         throw new Error('Payment is no longer in pending state');
       }
 
+      // Payments executed without being prepared convert at current rates
+      if (payment.settlementAmount == null) {
+        await this.applyExchangeRate(payment);
+      }
+
+      // Swaps are built from the quote the customer accepted
+      let quote: Quote | null = null;
+      if (selectedToken !== payment.settlementMint) {
+        quote = await this.resolveQuote(
+          payment,
+          selectedToken,
+          executePaymentDto.quoteId,
+        );
+      }
+
       // Update payment status - but don't execute transaction
       payment.status = PaymentStatus.PROCESSING;
       payment.customerWallet = customerWallet;
@@ -201,78 +426,12 @@ export class PaymentService {
       let transactionData;
 
       try {
-        // Get merchant's public key
-        const merchantPublicKey = new PublicKey(payment.destinationWallet);
-        const isDirectUsdcTransfer = selectedToken === USDC_MINT;
-
-        this.logger.log(`Is direct USDC transfer: ${isDirectUsdcTransfer}`);
-
-        if (isDirectUsdcTransfer) {
-          // Direct USDC transfer - get the merchant's USDC account
-          const usdcMintPublicKey = new PublicKey(USDC_MINT);
-
-          const merchantUsdcAccount = await getAssociatedTokenAddress(
-            usdcMintPublicKey,
-            merchantPublicKey,
-          );
-
-          // For direct USDC transfers, just provide basic information
-          // The frontend will handle building the transfer transaction
-          transactionData = {
-            isDirectUsdcTransfer: true,
-            isDirectTransfer: true,
-            merchantAddress: payment.destinationWallet,
-            destinationTokenAccount: merchantUsdcAccount.toString(),
-            amount: payment.tokenAmount,
-            tokenMint: USDC_MINT,
-          };
-
-          this.logger.log(
-            `Direct USDC transfer data prepared for payment ${paymentId} to ${merchantUsdcAccount.toString()}`,
-          );
-        } else {
-          // Need to swap tokens using Jupiter and send directly to merchant
-          this.logger.log(`Preparing Jupiter swap for payment ${paymentId}`);
-
-          // First get a quote
-          const quote = await this.jupiterService.getQuote(
-            selectedToken,
-            USDC_MINT,
-            Math.floor(payment.amount * 1000000), // Convert to USDC decimals (6)
-            100, // 1% slippage
-            'ExactOut',
-          );
-
-          this.logger.log(`Jupiter quote obtained for payment ${paymentId}`);
-
-          // Get merchant's USDC token account
-          const usdcMintPublicKey = new PublicKey(USDC_MINT);
-          const merchantUsdcAccount = await getAssociatedTokenAddress(
-            usdcMintPublicKey,
-            merchantPublicKey,
-          );
-
-          // Build the swap transaction with merchant as destination
-          const swapTransaction =
-            await this.jupiterService.buildSwapTransaction(
-              quote,
-              customerWallet,
-              merchantUsdcAccount.toString(), // This sends directly to merchant's account
-            );
-
-          transactionData = {
-            isDirectUsdcTransfer: false,
-            isDirectTransfer: false,
-            swapTransaction,
-            quote,
-            destinationTokenAccount: merchantUsdcAccount.toString(),
-            merchantAddress: payment.destinationWallet,
-          };
-
-          this.logger.log(
-            `Jupiter swap transaction data prepared for payment ${paymentId}`,
-          );
-        }
+        transactionData = await this.buildTransactionData(
+          payment,
+          selectedToken,
+          customerWallet,
+          quote?.route,
+        );
       } catch (error) {
         this.logger.error(
           `Failed to prepare transaction data: ${error.message}`,
@@ -288,7 +447,7 @@ export class PaymentService {
 
       // Emit payment updated event
       try {
-        this.paymentGateway.emitToMerchant(updatedPayment.merchantId, {
+        await this.notifyMerchant({
           type: PaymentEventType.PAYMENT_UPDATED,
           paymentId: updatedPayment.id,
           merchantId: updatedPayment.merchantId,
@@ -319,10 +478,231 @@ export class PaymentService {
         `Failed to execute payment: ${error.message}`,
         error.stack,
       );
+
+      // Keep the status and body, e.g. the new quote to accept
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new Error(`Failed to execute payment: ${error.message}`);
     }
   }
 
+  /**
+   * Build transaction data for a wallet that requested a transaction through
+   * Solana Pay. The payment stays pending until the transaction is found
+   * on-chain by its reference key, which is also when the paying wallet is
+   * recorded, since anyone can request a transaction for any account.
+   */
+  async buildTransactionRequest(
+    paymentId: string,
+    account: string,
+    selectedToken?: string,
+  ): Promise<{ payment: Payment; transactionData: TransactionData }> {
+    try {
+      new PublicKey(account);
+    } catch {
+      throw new BadRequestException('Invalid account');
+    }
+
+    const payment = await this.getPaymentById(paymentId);
+
+    await this.assertNotExpired(payment);
+
+    if (payment.status !== PaymentStatus.PENDING) {
+      throw new BadRequestException('Payment is no longer in pending state');
+    }
+
+    if (payment.settlementAmount == null) {
+      await this.applyExchangeRate(payment);
+    }
+
+    payment.selectedToken = selectedToken || payment.settlementMint;
+    const updatedPayment = await this.paymentRepository.save(payment);
+
+    const transactionData = await this.buildTransactionData(
+      updatedPayment,
+      updatedPayment.selectedToken,
+      account,
+    );
+
+    return { payment: updatedPayment, transactionData };
+  }
+
+  /**
+   * Build the transaction data for paying a payment with the selected token,
+   * swapping with the given quote or a fresh one
+   */
+  async buildTransactionData(
+    payment: Payment,
+    selectedToken: string,
+    customerWallet: string,
+    lockedQuote?: JupiterQuote,
+  ): Promise<TransactionData> {
+    const paymentId = payment.id;
+    const settlementMint = payment.settlementMint;
+    const nativeSol = isNativeSol(settlementMint);
+    // Payments from before platform fees pay the merchant everything
+    const merchantAmount = (
+      payment.netAmount ?? payment.settlementAmount
+    ).toBaseUnits(payment.settlementDecimals);
+    const platformFeeAmount =
+      payment.platformFeeAmount?.toBaseUnits(payment.settlementDecimals) ??
+      BigInt(0);
+    const legs = getPaymentLegs(payment);
+
+    // Get merchant's public key
+    const merchantPublicKey = new PublicKey(payment.destinationWallet);
+    const isDirectTransfer = selectedToken === settlementMint;
+
+    this.logger.log(`Is direct transfer: ${isDirectTransfer}`);
+
+    // Native SOL goes straight to the wallet, tokens to its associated account
+    const destinationAccount = nativeSol
+      ? merchantPublicKey
+      : await getAssociatedTokenAddress(
+          new PublicKey(settlementMint),
+          merchantPublicKey,
+        );
+
+    if (isDirectTransfer) {
+      this.logger.log(
+        `Direct transfer data prepared for payment ${paymentId} to ${destinationAccount.toString()}`,
+      );
+
+      // For direct transfers, just provide basic information
+      // The frontend will handle building the transfer transaction
+      const transactionData: TransactionData = {
+        isDirectUsdcTransfer: settlementMint === USDC_MINT,
+        isDirectTransfer: true,
+        isNativeSol: nativeSol,
+        merchantAddress: payment.destinationWallet,
+        destinationTokenAccount: destinationAccount.toString(),
+        amount: merchantAmount.toString(),
+        tokenMint: settlementMint,
+        decimals: payment.settlementDecimals,
+        reference: payment.reference ?? undefined,
+      };
+
+      // Split payments transfer each recipient its leg
+      if (legs.length > 0) {
+        transactionData.legs = await Promise.all(
+          legs.map(async (leg) => ({
+            walletAddress: leg.walletAddress,
+            destinationTokenAccount: (nativeSol
+              ? new PublicKey(leg.walletAddress)
+              : await getAssociatedTokenAddress(
+                  new PublicKey(settlementMint),
+                  new PublicKey(leg.walletAddress),
+                )
+            ).toString(),
+            amount: leg.settlementAmount
+              .toBaseUnits(payment.settlementDecimals)
+              .toString(),
+          })),
+        );
+      }
+
+      // The platform fee is split off with a second transfer
+      if (platformFeeAmount > BigInt(0)) {
+        transactionData.platformFeeAccount = nativeSol
+          ? this.platformFeeService.getFeeWallet()
+          : await this.platformFeeService.getFeeTokenAccount(settlementMint);
+        transactionData.platformFeeAmount = platformFeeAmount.toString();
+      }
+
+      return transactionData;
+    } else {
+      // Need to swap tokens using Jupiter and send directly to merchant
+      this.logger.log(`Preparing Jupiter swap for payment ${paymentId}`);
+
+      const settings = await this.getSwapSettings(payment);
+
+      // Wallets requesting a transaction through Solana Pay get a fresh quote
+      const quote =
+        lockedQuote ??
+        (await this.jupiterService.getQuote(
+          selectedToken,
+          settlementMint,
+          merchantAmount,
+          'ExactOut',
+          settings,
+          this.platformFeeService.getSwapFeeBps(payment),
+        ));
+
+      this.logger.log(`Jupiter quote obtained for payment ${paymentId}`);
+
+      // Jupiter collects the platform fee in the token the customer pays with
+      const feeAccount = quote.platformFee?.feeBps
+        ? await this.platformFeeService.getFeeTokenAccount(selectedToken)
+        : undefined;
+
+      // Verification only accepts transactions tagged with the reference key
+      const referenceInstructions = payment.reference
+        ? [
+            createReferenceInstruction(
+              new PublicKey(customerWallet),
+              payment.reference,
+            ),
+          ]
+        : [];
+
+      let swapTransaction: string;
+      if (nativeSol || legs.length > 0) {
+        // Jupiter can only deliver to a single token account, so let the swap
+        // pay out to the customer, unwrapping SOL, and forward it from there
+        swapTransaction = await this.jupiterService.buildSwapTransaction(
+          quote,
+          customerWallet,
+          undefined,
+          settings,
+          feeAccount,
+        );
+        swapTransaction = await appendInstructions(
+          this.connection,
+          swapTransaction,
+          [
+            ...(await this.buildDistributionInstructions(
+              payment,
+              customerWallet,
+              merchantAmount,
+            )),
+            ...referenceInstructions,
+          ],
+        );
+      } else {
+        // Build the swap transaction with merchant as destination
+        swapTransaction = await this.jupiterService.buildSwapTransaction(
+          quote,
+          customerWallet,
+          destinationAccount.toString(), // This sends directly to merchant's account
+          settings,
+          feeAccount,
+        );
+        if (referenceInstructions.length > 0) {
+          swapTransaction = await appendInstructions(
+            this.connection,
+            swapTransaction,
+            referenceInstructions,
+          );
+        }
+      }
+
+      this.logger.log(
+        `Jupiter swap transaction data prepared for payment ${paymentId}`,
+      );
+
+      return {
+        isDirectUsdcTransfer: false,
+        isDirectTransfer: false,
+        isNativeSol: nativeSol,
+        swapTransaction,
+        quote,
+        destinationTokenAccount: destinationAccount.toString(),
+        merchantAddress: payment.destinationWallet,
+      };
+    }
+  }
+
   /**
    * Confirm payment with transaction signature
    * This is called after the frontend has successfully submitted the transaction
@@ -339,27 +719,69 @@ export class PaymentService {
       // Get payment
       const payment = await this.getPaymentById(paymentId);
 
-      // Check if payment is in processing state
-      if (payment.status !== PaymentStatus.PROCESSING) {
+      // Settled, refunded and failed payments are never verified again
+      if (
+        payment.status !== PaymentStatus.PENDING &&
+        payment.status !== PaymentStatus.PROCESSING
+      ) {
         this.logger.warn(
-          `Payment ${paymentId} is not in processing state: ${payment.status}`,
+          `Payment ${paymentId} is no longer awaiting a transaction: ${payment.status}`,
         );
-        // Still continue as the transaction might be valid
+        return payment;
       }
 
-      // Update payment with transaction signature
-      payment.transactionSignature = transactionSignature;
-      await this.paymentRepository.save(payment);
+      // Verify the transaction on-chain before completing the payment
+      const verification =
+        await this.verificationService.verifyPaymentTransaction(
+          payment,
+          transactionSignature,
+        );
+
+      if (!verification.verified) {
+        this.logger.warn(
+          `Verification failed for payment ${paymentId}: ${verification.message}`,
+        );
+
+        // Not landed yet - keep the signature and leave the payment processing
+        if (
+          verification.reason ===
+          VerificationFailureReason.TRANSACTION_NOT_FOUND
+        ) {
+          this.attachTransactionSignature(payment, transactionSignature);
+          return this.paymentRepository.save(payment);
+        }
 
-      // In a production environment, you would verify the transaction on-chain here
-      // For now, we'll just mark it as completed
+        // Never attach a signature that settles another payment or was not
+        // made for this one
+        if (
+          verification.reason !==
+            VerificationFailureReason.SIGNATURE_ALREADY_USED &&
+          verification.reason !== VerificationFailureReason.REFERENCE_MISMATCH
+        ) {
+          this.attachTransactionSignature(payment, transactionSignature);
+          await this.paymentRepository.save(payment);
+        }
+
+        return this.failPayment(
+          paymentId,
+          verification.message ?? 'Transaction verification failed',
+          verification.reason,
+        );
+      }
 
       // Mark payment as completed
+      this.attachTransactionSignature(payment, transactionSignature);
       payment.status = PaymentStatus.COMPLETED;
+
+      // Wallets paying through a Solana Pay link are only known on-chain,
+      // and refunds go back to the wallet that paid
+      if (!payment.customerWallet && verification.feePayer) {
+        payment.customerWallet = verification.feePayer;
+      }
       const completedPayment = await this.paymentRepository.save(payment);
 
       // Emit payment completed event
-      this.paymentGateway.emitToMerchant(completedPayment.merchantId, {
+      await this.notifyMerchant({
         type: PaymentEventType.PAYMENT_COMPLETED,
         paymentId: completedPayment.id,
         merchantId: completedPayment.merchantId,
@@ -396,7 +818,7 @@ export class PaymentService {
     const updatedPayment = await this.paymentRepository.save(payment);
 
     // Emit payment completed event
-    this.paymentGateway.emitToMerchant(updatedPayment.merchantId, {
+    await this.notifyMerchant({
       type: PaymentEventType.PAYMENT_COMPLETED,
       paymentId: updatedPayment.id,
       merchantId: updatedPayment.merchantId,
@@ -410,34 +832,821 @@ export class PaymentService {
   /**
    * Mark payment as failed
    */
-  async failPayment(paymentId: string, reason: string): Promise<Payment> {
+  async failPayment(
+    paymentId: string,
+    reason: string,
+    code?: string,
+  ): Promise<Payment> {
     const payment = await this.getPaymentById(paymentId);
 
     payment.status = PaymentStatus.FAILED;
+    payment.failureReason = reason;
+    payment.failureCode = code ?? null;
     const updatedPayment = await this.paymentRepository.save(payment);
 
     // Emit payment failed event
-    this.paymentGateway.emitToMerchant(updatedPayment.merchantId, {
+    await this.notifyMerchant({
       type: PaymentEventType.PAYMENT_FAILED,
       paymentId: updatedPayment.id,
       merchantId: updatedPayment.merchantId,
       data: {
         payment: updatedPayment,
         reason,
+        code,
       },
       timestamp: new Date(),
     });
 
+    this.paymentGateway.emitToPayment(updatedPayment.id, {
+      type: PaymentEventType.PAYMENT_FAILED,
+      paymentId: updatedPayment.id,
+      merchantId: updatedPayment.merchantId,
+      data: {
+        payment: updatedPayment,
+        reason,
+        code,
+      },
+      timestamp: new Date(),
+    });
+
+    return updatedPayment;
+  }
+
+  /**
+   * Mark a pending payment as expired
+   */
+  async expirePayment(paymentId: string): Promise<Payment> {
+    const payment = await this.getPaymentById(paymentId);
+
+    // Payments with a transaction in flight are left to the confirmation worker
+    if (payment.status !== PaymentStatus.PENDING) {
+      return payment;
+    }
+
+    return this.markExpired(payment);
+  }
+
+  /**
+   * Expire a processing payment that never got a transaction, such as a
+   * checkout the customer abandoned after executing it
+   */
+  async expireAbandonedPayment(paymentId: string): Promise<Payment> {
+    const payment = await this.getPaymentById(paymentId);
+
+    if (
+      payment.status !== PaymentStatus.PROCESSING ||
+      payment.transactionSignature
+    ) {
+      return payment;
+    }
+
+    return this.markExpired(payment);
+  }
+
+  /**
+   * Move a pending payment to processing for a transfer the platform sends
+   * itself, such as a subscription charge pulled through a token delegate
+   */
+  async markProcessing(
+    paymentId: string,
+    customerWallet: string,
+  ): Promise<Payment> {
+    const payment = await this.getPaymentById(paymentId);
+
+    if (payment.status !== PaymentStatus.PENDING) {
+      throw new BadRequestException('Payment is no longer in pending state');
+    }
+
+    if (payment.settlementAmount == null) {
+      await this.applyExchangeRate(payment);
+    }
+
+    // Delegated transfers move the settlement token itself, never a swap
+    payment.status = PaymentStatus.PROCESSING;
+    payment.customerWallet = customerWallet;
+    payment.selectedToken = payment.settlementMint;
+    payment.tokenAmount = payment.settlementAmount.rescale(
+      payment.settlementDecimals,
+    );
+    const updatedPayment = await this.paymentRepository.save(payment);
+
+    const event = {
+      type: PaymentEventType.PAYMENT_UPDATED,
+      paymentId: updatedPayment.id,
+      merchantId: updatedPayment.merchantId,
+      data: updatedPayment,
+      timestamp: new Date(),
+    };
+    await this.notifyMerchant(event);
+    this.paymentGateway.emitToPayment(updatedPayment.id, event);
+
+    return updatedPayment;
+  }
+
+  /**
+   * A page of the merchant's payments matching the filters, newest first
+   * unless sorted otherwise
+   * Pages are keyed on the sort column and ID, so payments created while
+   * paging never shift the pages that follow
+   */
+  async listPayments(
+    merchantId: string,
+    query: ListPaymentsDto = {},
+  ): Promise<PaymentPage> {
+    const filters = this.parseListFilters(query);
+    const sort: PaymentSortField = query.sort ?? 'createdAt';
+    if (sort !== 'createdAt' && sort !== 'amount') {
+      throw new BadRequestException('sort must be createdAt or amount');
+    }
+    if (query.order && query.order !== 'asc' && query.order !== 'desc') {
+      throw new BadRequestException('order must be asc or desc');
+    }
+    const order = query.order === 'asc' ? 'ASC' : 'DESC';
+    const limit = this.parsePageSize(query.limit);
+
+    const queryBuilder = this.paymentRepository
+      .createQueryBuilder('payment')
+      .where('payment.merchantId = :merchantId', { merchantId });
+    if (filters.statuses.length > 0) {
+      queryBuilder.andWhere('payment.status IN (:...statuses)', {
+        statuses: filters.statuses,
+      });
+    }
+    if (filters.from) {
+      queryBuilder.andWhere('payment.createdAt >= :from', {
+        from: filters.from,
+      });
+    }
+    if (filters.to) {
+      queryBuilder.andWhere('payment.createdAt < :to', { to: filters.to });
+    }
+    if (filters.selectedToken) {
+      queryBuilder.andWhere('payment.selectedToken = :selectedToken', {
+        selectedToken: filters.selectedToken,
+      });
+    }
+    if (filters.customerWallet) {
+      queryBuilder.andWhere('payment.customerWallet = :customerWallet', {
+        customerWallet: filters.customerWallet,
+      });
+    }
+    if (filters.customerEmail) {
+      queryBuilder.andWhere('LOWER(payment.customerEmail) = :customerEmail', {
+        customerEmail: filters.customerEmail.toLowerCase(),
+      });
+    }
+    if (filters.metadata) {
+      queryBuilder.andWhere('payment.metadata @> :metadata', {
+        metadata: JSON.stringify(filters.metadata),
+      });
+    }
+    if (filters.currency) {
+      queryBuilder.andWhere('payment.currency = :currency', {
+        currency: filters.currency,
+      });
+    }
+    if (filters.minAmount) {
+      queryBuilder.andWhere('payment.amount >= :minAmount', {
+        minAmount: filters.minAmount.toFixed(),
+      });
+    }
+    if (filters.maxAmount) {
+      queryBuilder.andWhere('payment.amount <= :maxAmount', {
+        maxAmount: filters.maxAmount.toFixed(),
+      });
+    }
+
+    const total = await queryBuilder.getCount();
+
+    if (query.cursor) {
+      const after = await this.getCursorPosition(
+        merchantId,
+        query.cursor,
+        sort,
+      );
+      queryBuilder.andWhere(
+        `(payment.${sort}, payment.id) ${order === 'ASC' ? '>' : '<'} (:afterValue, :afterId)`,
+        after,
+      );
+    }
+
+    // One extra row tells whether there is another page
+    const rows = await queryBuilder
+      .leftJoinAndSelect('payment.legs', 'leg')
+      .orderBy(`payment.${sort}`, order)
+      .addOrderBy('payment.id', order)
+      .take(limit + 1)
+      .getMany();
+
+    const data = rows.slice(0, limit);
+    return {
+      data,
+      nextCursor:
+        rows.length > limit
+          ? Buffer.from(data[data.length - 1].id).toString('base64url')
+          : null,
+      total,
+    };
+  }
+
+  /**
+   * Make sure a pending payment has an exchange rate snapshot, so its
+   * settlement amount is known
+   */
+  async ensureExchangeRate(payment: Payment): Promise<Payment> {
+    if (
+      payment.settlementAmount != null ||
+      payment.status !== PaymentStatus.PENDING
+    ) {
+      return payment;
+    }
+
+    await this.applyExchangeRate(payment);
+    return this.paymentRepository.save(payment);
+  }
+
+  /**
+   * Run a listener for every payment event, so other modules can follow
+   * payments without this service depending on them
+   */
+  onPaymentEvent(listener: PaymentEventListener): void {
+    this.eventListeners.push(listener);
+  }
+
+  /**
+   * Notify the merchant of an event over the websocket and its webhook
+   */
+  private async notifyMerchant(event: PaymentEvent): Promise<void> {
+    this.paymentGateway.emitToMerchant(event.merchantId, event);
+    await this.webhookService.dispatch(event);
+
+    // A failing listener never fails the payment update itself
+    for (const listener of this.eventListeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        this.logger.error(
+          `Payment event listener failed for ${event.type} on payment ${event.paymentId}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+  }
+
+  /**
+   * Expire a payment and tell the merchant and the checkout page
+   */
+  private async markExpired(payment: Payment): Promise<Payment> {
+    payment.status = PaymentStatus.EXPIRED;
+    const updatedPayment = await this.paymentRepository.save(payment);
+
+    // Emit payment expired event
+    const event = {
+      type: PaymentEventType.PAYMENT_EXPIRED,
+      paymentId: updatedPayment.id,
+      merchantId: updatedPayment.merchantId,
+      data: updatedPayment,
+      timestamp: new Date(),
+    };
+    await this.notifyMerchant(event);
+    this.paymentGateway.emitToPayment(updatedPayment.id, event);
+
+    this.logger.log(`Payment ${payment.id} expired`);
     return updatedPayment;
   }
 
   /**
-   * Get payments by merchant ID
+   * Attach a transaction signature, remembering when it was first reported
+   */
+  private attachTransactionSignature(
+    payment: Payment,
+    transactionSignature: string,
+  ): void {
+    if (payment.transactionSignature !== transactionSignature) {
+      payment.transactionSignature = transactionSignature;
+      payment.submittedAt = new Date();
+    }
+  }
+
+  /**
+   * Get the quote to swap with: the accepted quote while it is still valid,
+   * otherwise a new one, which has to be accepted again if the price moved
+   */
+  private async resolveQuote(
+    payment: Payment,
+    inputMint: string,
+    acceptedQuoteId?: string,
+  ): Promise<Quote> {
+    const quoteId = acceptedQuoteId ?? payment.quoteId;
+    const accepted = quoteId
+      ? await this.quoteService.getQuote(quoteId, payment.id)
+      : null;
+
+    if (acceptedQuoteId && !accepted) {
+      throw new BadRequestException(`Unknown quote ${acceptedQuoteId}`);
+    }
+
+    if (accepted && this.quoteService.isValid(accepted, payment, inputMint)) {
+      return accepted;
+    }
+
+    const quote = await this.quoteService.createQuote(
+      payment,
+      inputMint,
+      await this.getTokenDecimals(inputMint),
+      await this.getSwapSettings(payment),
+    );
+    payment.selectedToken = inputMint;
+    payment.quoteId = quote.id;
+    payment.tokenAmount = quote.inAmount;
+
+    if (accepted && this.quoteService.hasPriceMoved(accepted, quote)) {
+      await this.paymentRepository.save(payment);
+      this.logger.warn(
+        `Price moved for payment ${payment.id}: ${accepted.inAmount} became ${quote.inAmount}`,
+      );
+
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'Conflict',
+        code: 'QUOTE_CHANGED',
+        message: `The price moved since the quote was accepted, accept the new quote to pay ${quote.inAmount} instead`,
+        quote,
+      });
+    }
+
+    return quote;
+  }
+
+  /**
+   * Turn listing query parameters into filters, rejecting malformed ones
+   */
+  private parseListFilters(query: ListPaymentsDto): PaymentListFilters {
+    const statuses = query.status
+      ? query.status.split(',').map((status) => status.trim())
+      : [];
+    const validStatuses = Object.values(PaymentStatus) as string[];
+    const invalidStatus = statuses.find(
+      (status) => !validStatuses.includes(status),
+    );
+    if (invalidStatus) {
+      throw new BadRequestException(`Invalid status: ${invalidStatus}`);
+    }
+
+    const parseDate = (value: string | undefined, field: string) => {
+      if (!value) {
+        return undefined;
+      }
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        throw new BadRequestException(`Invalid ${field}, use an ISO 8601 date`);
+      }
+      return date;
+    };
+
+    const parseAmount = (value: string | undefined, field: string) => {
+      if (!value) {
+        return undefined;
+      }
+      try {
+        return Money.of(value, FIAT_DECIMALS);
+      } catch {
+        throw new BadRequestException(`Invalid ${field}`);
+      }
+    };
+
+    const minAmount = parseAmount(query.minAmount, 'minAmount');
+    const maxAmount = parseAmount(query.maxAmount, 'maxAmount');
+    if (minAmount && maxAmount && minAmount.compare(maxAmount) > 0) {
+      throw new BadRequestException('minAmount cannot be above maxAmount');
+    }
+
+    return {
+      statuses: statuses as PaymentStatus[],
+      from: parseDate(query.from, 'from'),
+      to: parseDate(query.to, 'to'),
+      selectedToken: query.selectedToken,
+      customerWallet: query.customerWallet,
+      customerEmail: query.customerEmail,
+      metadata: query.metadata ? this.parseMetadata(query.metadata) : undefined,
+      currency: query.currency?.toUpperCase(),
+      minAmount,
+      maxAmount,
+    };
+  }
+
+  private parsePageSize(limit: string | undefined): number {
+    if (!limit) {
+      return DEFAULT_PAYMENT_PAGE_SIZE;
+    }
+
+    const pageSize = Number(limit);
+    if (
+      !Number.isInteger(pageSize) ||
+      pageSize < 1 ||
+      pageSize > MAX_PAYMENT_PAGE_SIZE
+    ) {
+      throw new BadRequestException(
+        `limit must be between 1 and ${MAX_PAYMENT_PAGE_SIZE}`,
+      );
+    }
+    return pageSize;
+  }
+
+  /**
+   * Sort value and ID of the last payment of the previous page
+   * The value is read as text so timestamps keep their microseconds
+   */
+  private async getCursorPosition(
+    merchantId: string,
+    cursor: string,
+    sort: PaymentSortField,
+  ): Promise<{ afterValue: string; afterId: string }> {
+    const afterId = Buffer.from(cursor, 'base64url').toString();
+
+    const after = isUUID(afterId)
+      ? await this.paymentRepository
+          .createQueryBuilder('payment')
+          .select(`CAST(payment.${sort} AS text)`, 'value')
+          .where('payment.id = :afterId', { afterId })
+          .andWhere('payment.merchantId = :merchantId', { merchantId })
+          .getRawOne<{ value: string }>()
+      : null;
+    if (!after) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    return { afterValue: after.value, afterId };
+  }
+
+  private parseAmount(
+    amount: Money | string | number,
+    field = 'amount',
+  ): Money {
+    let parsed: Money;
+    try {
+      parsed = Money.of(amount, FIAT_DECIMALS);
+    } catch {
+      throw new BadRequestException(`Invalid ${field}`);
+    }
+
+    if (!parsed.isPositive()) {
+      throw new BadRequestException(`${field} must be positive`);
+    }
+    return parsed;
+  }
+
+  private parseExpiresInMinutes(expiresInMinutes: unknown): number {
+    if (
+      typeof expiresInMinutes !== 'number' ||
+      !Number.isInteger(expiresInMinutes) ||
+      expiresInMinutes < 1 ||
+      expiresInMinutes > MAX_PAYMENT_EXPIRY_MINUTES
+    ) {
+      throw new BadRequestException(
+        `expiresInMinutes must be a whole number between 1 and ${MAX_PAYMENT_EXPIRY_MINUTES}`,
+      );
+    }
+    return expiresInMinutes;
+  }
+
+  private parseCustomerEmail(customerEmail: string | undefined): string | null {
+    if (!customerEmail) {
+      return null;
+    }
+
+    const email = customerEmail.trim();
+    if (!isEmail(email)) {
+      throw new BadRequestException('Invalid customerEmail');
+    }
+    return email;
+  }
+
+  /**
+   * Check payment metadata, a flat object whose values are stored as strings
+   * Older clients send it as a JSON string
    */
-  async getPaymentsByMerchantId(merchantId: string): Promise<Payment[]> {
-    return this.paymentRepository.find({
-      where: { merchantId },
-      order: { createdAt: 'DESC' },
+  private parseMetadata(metadata: unknown): PaymentMetadata {
+    if (metadata == null) {
+      return {};
+    }
+
+    let parsed = metadata;
+    if (typeof parsed === 'string') {
+      try {
+        parsed = JSON.parse(parsed);
+      } catch {
+        throw new BadRequestException('metadata must be an object');
+      }
+    }
+    if (
+      typeof parsed !== 'object' ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      throw new BadRequestException('metadata must be an object');
+    }
+
+    const entries = Object.entries(parsed);
+    if (entries.length > MAX_METADATA_KEYS) {
+      throw new BadRequestException(
+        `metadata can have at most ${MAX_METADATA_KEYS} keys`,
+      );
+    }
+
+    return Object.fromEntries(
+      entries.map(([key, value]) => {
+        if (key.length === 0 || key.length > MAX_METADATA_KEY_LENGTH) {
+          throw new BadRequestException(
+            `metadata keys must be 1 to ${MAX_METADATA_KEY_LENGTH} characters`,
+          );
+        }
+        if (!['string', 'number', 'boolean'].includes(typeof value)) {
+          throw new BadRequestException(
+            `metadata.${key} must be a string, number or boolean`,
+          );
+        }
+
+        const text = String(value);
+        if (text.length > MAX_METADATA_VALUE_LENGTH) {
+          throw new BadRequestException(
+            `metadata.${key} can be at most ${MAX_METADATA_VALUE_LENGTH} characters`,
+          );
+        }
+        return [key, text];
+      }),
+    );
+  }
+
+  /**
+   * Check a hosted checkout redirect URL, which has to be absolute http(s)
+   */
+  private parseRedirectUrl(
+    redirectUrl: string | undefined,
+    field: string,
+  ): string | null {
+    if (!redirectUrl) {
+      return null;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(redirectUrl);
+    } catch {
+      throw new BadRequestException(`Invalid ${field}`);
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new BadRequestException(`${field} must use http or https`);
+    }
+
+    return url.toString();
+  }
+
+  /**
+   * Turn the recipients of a split payment into legs, checking that their
+   * fixed amounts and shares add up to the payment amount
+   */
+  private createLegs(
+    recipients: PaymentRecipientDto[],
+    amount: Money,
+  ): PaymentLeg[] {
+    if (
+      !Array.isArray(recipients) ||
+      recipients.length === 0 ||
+      recipients.length > MAX_PAYMENT_RECIPIENTS
+    ) {
+      throw new BadRequestException(
+        `Split payments need between 1 and ${MAX_PAYMENT_RECIPIENTS} recipients`,
+      );
+    }
+
+    const legs = recipients.map((recipient, position) => {
+      try {
+        new PublicKey(recipient.walletAddress);
+      } catch {
+        throw new BadRequestException(
+          `Invalid recipient wallet ${recipient.walletAddress}`,
+        );
+      }
+
+      const { shareBps, amount: fixedAmount } = recipient;
+      if ((shareBps == null) === (fixedAmount == null)) {
+        throw new BadRequestException(
+          'Each recipient needs either a shareBps or an amount',
+        );
+      }
+      if (
+        shareBps != null &&
+        (!Number.isInteger(shareBps) || shareBps < 1 || shareBps > 10000)
+      ) {
+        throw new BadRequestException(
+          'Recipient shares must be between 1 and 10000 basis points',
+        );
+      }
+
+      if (fixedAmount != null) {
+        return this.paymentLegRepository.create({
+          position,
+          walletAddress: recipient.walletAddress,
+          shareBps: null,
+          amount: this.parseAmount(fixedAmount, 'recipient amount'),
+        });
+      }
+
+      const legAmount = amount.multiply(
+        shareBps / 10000,
+        FIAT_DECIMALS,
+        RoundingMode.DOWN,
+      );
+      if (!legAmount.isPositive()) {
+        throw new BadRequestException('Recipient amounts must be positive');
+      }
+
+      return this.paymentLegRepository.create({
+        position,
+        walletAddress: recipient.walletAddress,
+        shareBps,
+        amount: legAmount,
+      });
+    });
+
+    // Shares are rounded down, so their remainder goes to the last of them
+    const exact = legs.reduce(
+      (total, leg) =>
+        total.add(
+          leg.shareBps != null
+            ? amount.multiply(leg.shareBps / 10000, FIAT_DECIMALS * 2)
+            : leg.amount,
+        ),
+      Money.zero(FIAT_DECIMALS),
+    );
+    if (!exact.equals(amount)) {
+      throw new BadRequestException(
+        `Recipient amounts and shares add up to ${exact}, not the payment amount of ${amount}`,
+      );
+    }
+
+    const allocated = legs.reduce(
+      (total, leg) => total.add(leg.amount),
+      Money.zero(FIAT_DECIMALS),
+    );
+    const lastShare = [...legs].reverse().find((leg) => leg.shareBps != null);
+    if (lastShare) {
+      lastShare.amount = lastShare.amount.add(amount.subtract(allocated));
+    }
+
+    return legs;
+  }
+
+  /**
+   * Split what the merchant side receives between the legs of a split
+   * payment, in proportion to their amounts
+   */
+  private allocateLegs(payment: Payment): void {
+    const legs = getPaymentLegs(payment);
+    if (legs.length === 0) {
+      return;
+    }
+
+    const netAmount = payment.netAmount.toBaseUnits(payment.settlementDecimals);
+    const total = payment.amount.toBaseUnits(FIAT_DECIMALS);
+
+    // Rounding leftovers go to the last leg
+    let allocated = BigInt(0);
+    legs.forEach((leg, index) => {
+      const units =
+        index === legs.length - 1
+          ? netAmount - allocated
+          : (netAmount * leg.amount.toBaseUnits(FIAT_DECIMALS)) / total;
+      allocated += units;
+      leg.settlementAmount = Money.fromBaseUnits(
+        units,
+        payment.settlementDecimals,
+      );
     });
   }
+
+  /**
+   * Transfers from the customer that pay out a swap's output, to every leg
+   * of a split payment or otherwise to the merchant
+   */
+  private async buildDistributionInstructions(
+    payment: Payment,
+    customerWallet: string,
+    merchantAmount: bigint,
+  ): Promise<TransactionInstruction[]> {
+    const customer = new PublicKey(customerWallet);
+    const legs = getPaymentLegs(payment);
+    const transfers =
+      legs.length > 0
+        ? legs.map((leg) => ({
+            wallet: new PublicKey(leg.walletAddress),
+            amount: leg.settlementAmount.toBaseUnits(
+              payment.settlementDecimals,
+            ),
+          }))
+        : [
+            {
+              wallet: new PublicKey(payment.destinationWallet),
+              amount: merchantAmount,
+            },
+          ];
+
+    if (isNativeSol(payment.settlementMint)) {
+      return transfers.map(({ wallet, amount }) =>
+        SystemProgram.transfer({
+          fromPubkey: customer,
+          toPubkey: wallet,
+          lamports: amount,
+        }),
+      );
+    }
+
+    const mint = new PublicKey(payment.settlementMint);
+    const source = await getAssociatedTokenAddress(mint, customer);
+    return Promise.all(
+      transfers.map(async ({ wallet, amount }) =>
+        createTransferCheckedInstruction(
+          source,
+          mint,
+          await getAssociatedTokenAddress(mint, wallet),
+          customer,
+          amount,
+          payment.settlementDecimals,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get the swap settings of the payment's merchant
+   */
+  private async getSwapSettings(payment: Payment): Promise<SwapSettings> {
+    const merchant = await this.merchantService.getMerchantById(
+      payment.merchantId,
+    );
+    return merchant.paymentSettings;
+  }
+
+  /**
+   * Get the decimals of a token from Jupiter's token list
+   */
+  private async getTokenDecimals(mint: string): Promise<number> {
+    const tokens = await this.jupiterService.getPopularTokens();
+    const token = tokens.find((t) => t.address === mint);
+    return token ? token.decimals : 6;
+  }
+
+  /**
+   * Convert the payment amount into the settlement token at current rates
+   * and keep the rate and the platform fee on the payment
+   */
+  private async applyExchangeRate(payment: Payment): Promise<void> {
+    const quote = await this.fxService.quoteSettlement(
+      payment.amount,
+      payment.currency,
+      payment.settlementMint,
+      payment.settlementDecimals,
+    );
+
+    payment.settlementAmount = quote.settlementAmount;
+    payment.exchangeRate = quote.exchangeRate;
+    payment.exchangeRateSource = quote.source;
+    payment.exchangeRateAt = quote.quotedAt;
+
+    const merchant = await this.merchantService.getMerchantById(
+      payment.merchantId,
+    );
+    const fee = await this.platformFeeService.calculateFee(
+      merchant,
+      quote.settlementAmount,
+      payment.settlementMint,
+      payment.settlementDecimals,
+    );
+
+    payment.platformFeeBps = fee.feeBps;
+    payment.platformFeeAmount = fee.feeAmount;
+    payment.netAmount = fee.netAmount;
+
+    this.allocateLegs(payment);
+  }
+
+  /**
+   * Reject expired payments, expiring them first if the sweeper has not yet
+   */
+  private async assertNotExpired(payment: Payment): Promise<void> {
+    const isPastExpiry =
+      !!payment.expiresAt &&
+      new Date(payment.expiresAt).getTime() <= Date.now();
+
+    if (payment.status === PaymentStatus.PENDING && isPastExpiry) {
+      await this.expirePayment(payment.id);
+      throw new Error('Payment has expired');
+    }
+
+    if (payment.status === PaymentStatus.EXPIRED) {
+      throw new Error('Payment has expired');
+    }
+  }
 }
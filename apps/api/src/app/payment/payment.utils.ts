@@ -0,0 +1,10 @@
+import { Payment } from './entities/payment.entity';
+import { PaymentLeg } from './entities/payment-leg.entity';
+
+/**
+ * The recipients of a split payment in the order they are paid, empty when
+ * the merchant receives everything
+ */
+export function getPaymentLegs(payment: Payment): PaymentLeg[] {
+  return [...(payment.legs ?? [])].sort((a, b) => a.position - b.position);
+}
@@ -0,0 +1,14 @@
+import { IsInt, IsNumberString, IsOptional, Max, Min } from 'class-validator';
+
+// Null goes back to the platform default, fields left out are kept
+export class UpdatePlatformFeeDto {
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  feeBps?: number | null;
+
+  @IsOptional()
+  @IsNumberString()
+  minFeeUsd?: string | null;
+}
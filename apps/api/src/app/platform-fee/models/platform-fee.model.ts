@@ -0,0 +1,20 @@
+import { Money } from '../../money/money';
+
+/**
+ * Fee the platform charges a merchant, from the global default or the
+ * merchant's overrides
+ */
+export interface PlatformFeeConfig {
+  feeBps: number;
+  minFeeUsd: Money; // Flat minimum, converted into the settlement token
+  overridden: boolean; // Whether the merchant has its own fee
+}
+
+/**
+ * How a payment's settlement amount is split between merchant and platform
+ */
+export interface PlatformFee {
+  feeBps: number;
+  feeAmount: Money; // In the settlement token
+  netAmount: Money; // What the merchant receives
+}
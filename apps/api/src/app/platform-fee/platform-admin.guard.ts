@@ -0,0 +1,42 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Authenticates platform operators with an x-admin-key header matching
+ * PLATFORM_ADMIN_KEY
+ */
+@Injectable()
+export class PlatformAdminGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const adminKey = this.configService.get<string>('PLATFORM_ADMIN_KEY');
+    if (!adminKey) {
+      throw new ForbiddenException('Platform administration is disabled');
+    }
+
+    const key = context.switchToHttp().getRequest().headers['x-admin-key'];
+    if (typeof key !== 'string' || !this.matches(key, adminKey)) {
+      throw new UnauthorizedException('Invalid admin key');
+    }
+
+    return true;
+  }
+
+  /**
+   * Compare digests, so the comparison takes the same time for any key
+   */
+  private matches(key: string, adminKey: string): boolean {
+    return timingSafeEqual(
+      createHash('sha256').update(key).digest(),
+      createHash('sha256').update(adminKey).digest(),
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { Body, Controller, Get, Param, Put, UseGuards } from '@nestjs/common';
+import { PlatformFeeService } from './platform-fee.service';
+import { PlatformAdminGuard } from './platform-admin.guard';
+import { UpdatePlatformFeeDto } from './dto/update-platform-fee.dto';
+import { PlatformFeeConfig } from './models/platform-fee.model';
+import { MerchantService } from '../merchant/merchant.service';
+
+@Controller('platform-fees')
+@UseGuards(PlatformAdminGuard)
+export class PlatformFeeController {
+  constructor(
+    private readonly platformFeeService: PlatformFeeService,
+    private readonly merchantService: MerchantService,
+  ) {}
+
+  @Get('merchants/:merchantId')
+  async getMerchantFee(
+    @Param('merchantId') merchantId: string,
+  ): Promise<PlatformFeeConfig> {
+    const merchant = await this.merchantService.getMerchantById(merchantId);
+    return this.platformFeeService.getFeeConfig(merchant);
+  }
+
+  @Put('merchants/:merchantId')
+  async updateMerchantFee(
+    @Param('merchantId') merchantId: string,
+    @Body() updatePlatformFeeDto: UpdatePlatformFeeDto,
+  ): Promise<PlatformFeeConfig> {
+    const merchant = await this.merchantService.updatePlatformFee(
+      merchantId,
+      updatePlatformFeeDto,
+    );
+    return this.platformFeeService.getFeeConfig(merchant);
+  }
+}
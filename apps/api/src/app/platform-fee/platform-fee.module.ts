@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PlatformFeeService } from './platform-fee.service';
+import { PlatformFeeController } from './platform-fee.controller';
+import { PlatformAdminGuard } from './platform-admin.guard';
+import { MerchantModule } from '../merchant/merchant.module';
+import { FxModule } from '../fx/fx.module';
+
+@Module({
+  imports: [MerchantModule, FxModule],
+  providers: [PlatformFeeService, PlatformAdminGuard],
+  controllers: [PlatformFeeController],
+  exports: [PlatformFeeService],
+})
+export class PlatformFeeModule {}
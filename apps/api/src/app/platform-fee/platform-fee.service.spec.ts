@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Keypair } from '@solana/web3.js';
+import { PlatformFeeService } from './platform-fee.service';
+import { Merchant } from '../merchant/entities/merchant.entity';
+import { Payment } from '../payment/entities/payment.entity';
+import { FxService } from '../fx/fx.service';
+import { Money } from '../money/money';
+import { NATIVE_SOL_MINT, USDC_MINT } from '../solana/solana.constants';
+
+describe('PlatformFeeService', () => {
+  let service: PlatformFeeService;
+  let config: Record<string, string>;
+
+  const merchant = {} as Merchant;
+  const fxService = { quoteSettlement: jest.fn() };
+  const configService = {
+    get: jest.fn(
+      (key: string, defaultValue?: string) => config[key] ?? defaultValue,
+    ),
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PlatformFeeService,
+        { provide: ConfigService, useValue: configService },
+        { provide: FxService, useValue: fxService },
+      ],
+    }).compile();
+
+    return module.get<PlatformFeeService>(PlatformFeeService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    config = {
+      PLATFORM_FEE_BPS: '100',
+      PLATFORM_FEE_MIN_USD: '0.25',
+      PLATFORM_FEE_WALLET: Keypair.generate().publicKey.toBase58(),
+    };
+    fxService.quoteSettlement.mockImplementation(async (amount: Money) => ({
+      settlementAmount: amount.rescale(6),
+    }));
+
+    service = await createService();
+  });
+
+  describe('getFeeConfig', () => {
+    it('uses the platform default', () => {
+      const feeConfig = service.getFeeConfig(merchant);
+
+      expect(feeConfig.feeBps).toBe(100);
+      expect(feeConfig.minFeeUsd.toString()).toBe('0.25');
+      expect(feeConfig.overridden).toBe(false);
+    });
+
+    it("prefers the merchant's overrides", () => {
+      const feeConfig = service.getFeeConfig({
+        platformFeeBps: 40,
+        platformFeeMinUsd: null,
+      } as Merchant);
+
+      expect(feeConfig.feeBps).toBe(40);
+      expect(feeConfig.minFeeUsd.toString()).toBe('0.25');
+      expect(feeConfig.overridden).toBe(true);
+    });
+  });
+
+  describe('calculateFee', () => {
+    it('charges the rate on the settlement amount', async () => {
+      const fee = await service.calculateFee(
+        merchant,
+        Money.of(100, 6),
+        USDC_MINT,
+        6,
+      );
+
+      expect(fee.feeBps).toBe(100);
+      expect(fee.feeAmount.toString()).toBe('1');
+      expect(fee.netAmount.toString()).toBe('99');
+    });
+
+    it('charges at least the minimum, converted into the settlement token', async () => {
+      fxService.quoteSettlement.mockResolvedValue({
+        settlementAmount: Money.of('0.00125', 9),
+      });
+
+      const fee = await service.calculateFee(
+        merchant,
+        Money.of('0.05', 9),
+        NATIVE_SOL_MINT,
+        9,
+      );
+
+      expect(fxService.quoteSettlement).toHaveBeenCalledWith(
+        Money.of('0.25', 6),
+        'USD',
+        NATIVE_SOL_MINT,
+        9,
+      );
+      expect(fee.feeAmount.toString()).toBe('0.00125');
+      expect(fee.netAmount.toString()).toBe('0.04875');
+    });
+
+    it('never charges more than the payment', async () => {
+      const fee = await service.calculateFee(
+        merchant,
+        Money.of('0.1', 6),
+        USDC_MINT,
+        6,
+      );
+
+      expect(fee.feeAmount.toString()).toBe('0.1');
+      expect(fee.netAmount.isZero()).toBe(true);
+    });
+
+    it('charges nothing without a fee wallet', async () => {
+      delete config.PLATFORM_FEE_WALLET;
+      service = await createService();
+
+      const fee = await service.calculateFee(
+        merchant,
+        Money.of(100, 6),
+        USDC_MINT,
+        6,
+      );
+
+      expect(fee.feeBps).toBe(0);
+      expect(fee.feeAmount.isZero()).toBe(true);
+      expect(fee.netAmount.toString()).toBe('100');
+    });
+  });
+
+  describe('getSwapFeeBps', () => {
+    it('turns the fee into a rate on the net amount, rounded up', () => {
+      const payment = {
+        settlementDecimals: 6,
+        platformFeeAmount: Money.of(1, 6),
+        netAmount: Money.of(99, 6),
+      } as Payment;
+
+      expect(service.getSwapFeeBps(payment)).toBe(102);
+    });
+
+    it('is zero for payments without a fee', () => {
+      const payment = {
+        settlementDecimals: 6,
+        platformFeeAmount: Money.zero(6),
+        netAmount: Money.of(100, 6),
+      } as Payment;
+
+      expect(service.getSwapFeeBps(payment)).toBe(0);
+    });
+  });
+});
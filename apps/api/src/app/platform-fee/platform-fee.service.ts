@@ -0,0 +1,148 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddress } from '@solana/spl-token';
+import { Merchant } from '../merchant/entities/merchant.entity';
+import { Payment } from '../payment/entities/payment.entity';
+import { FxService } from '../fx/fx.service';
+import { FX_QUOTE_CURRENCY } from '../fx/fx.constants';
+import { Money } from '../money/money';
+import { FIAT_DECIMALS } from '../money/money.constants';
+import { PlatformFee, PlatformFeeConfig } from './models/platform-fee.model';
+
+/**
+ * Works out the platform's fee on payments and where it is collected
+ */
+@Injectable()
+export class PlatformFeeService {
+  private readonly logger = new Logger(PlatformFeeService.name);
+  private readonly defaultFeeBps: number;
+  private readonly defaultMinFeeUsd: Money;
+  private readonly feeWallet: PublicKey | null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly fxService: FxService,
+  ) {
+    this.defaultFeeBps = parseInt(
+      this.configService.get('PLATFORM_FEE_BPS', '0'),
+    );
+    this.defaultMinFeeUsd = Money.of(
+      this.configService.get('PLATFORM_FEE_MIN_USD', '0'),
+      FIAT_DECIMALS,
+    );
+
+    const feeWallet = this.configService.get<string>('PLATFORM_FEE_WALLET');
+    this.feeWallet = feeWallet ? new PublicKey(feeWallet) : null;
+
+    if (!this.feeWallet) {
+      this.logger.warn(
+        'PLATFORM_FEE_WALLET is not set, no platform fees will be collected',
+      );
+    }
+  }
+
+  /**
+   * Get the fee a merchant pays, its overrides taking precedence over the
+   * platform default
+   */
+  getFeeConfig(merchant: Merchant): PlatformFeeConfig {
+    return {
+      feeBps: merchant.platformFeeBps ?? this.defaultFeeBps,
+      minFeeUsd: merchant.platformFeeMinUsd ?? this.defaultMinFeeUsd,
+      overridden:
+        merchant.platformFeeBps != null || merchant.platformFeeMinUsd != null,
+    };
+  }
+
+  /**
+   * Split a settlement amount into the platform fee and what the merchant
+   * receives. The fee is the merchant's rate, but at least its minimum.
+   */
+  async calculateFee(
+    merchant: Merchant,
+    settlementAmount: Money,
+    settlementMint: string,
+    settlementDecimals: number,
+  ): Promise<PlatformFee> {
+    const amount = settlementAmount.rescale(settlementDecimals);
+    const { feeBps, minFeeUsd } = this.getFeeConfig(merchant);
+
+    // Nothing is charged without a wallet to collect it in
+    if (!this.feeWallet || (feeBps === 0 && !minFeeUsd.isPositive())) {
+      return {
+        feeBps: 0,
+        feeAmount: Money.zero(settlementDecimals),
+        netAmount: amount,
+      };
+    }
+
+    let feeAmount = amount.multiply(feeBps / 10000, settlementDecimals);
+
+    if (minFeeUsd.isPositive()) {
+      const { settlementAmount: minFee } = await this.fxService.quoteSettlement(
+        minFeeUsd,
+        FX_QUOTE_CURRENCY,
+        settlementMint,
+        settlementDecimals,
+      );
+      if (minFee.compare(feeAmount) > 0) {
+        feeAmount = minFee;
+      }
+    }
+
+    // The fee can never take more than the whole payment
+    if (feeAmount.compare(amount) > 0) {
+      feeAmount = amount;
+    }
+
+    return { feeBps, feeAmount, netAmount: amount.subtract(feeAmount) };
+  }
+
+  /**
+   * Jupiter only charges a rate, on the input amount of a swap that is worth
+   * the merchant's net amount, so turn the payment's fee into that rate
+   */
+  getSwapFeeBps(payment: Payment): number {
+    if (!payment.platformFeeAmount?.isPositive() || !payment.netAmount) {
+      return 0;
+    }
+
+    const fee = payment.platformFeeAmount.toBaseUnits(
+      payment.settlementDecimals,
+    );
+    const net = payment.netAmount.toBaseUnits(payment.settlementDecimals);
+    if (net <= BigInt(0)) {
+      return 0;
+    }
+
+    // Round up, so the platform is never paid less than the fee
+    return Number((fee * BigInt(10000) + net - BigInt(1)) / net);
+  }
+
+  /**
+   * Wallet that collects platform fees paid in native SOL
+   */
+  getFeeWallet(): string {
+    return this.requireFeeWallet().toBase58();
+  }
+
+  /**
+   * Platform's associated token account for a mint, which has to exist
+   * before fees can be paid into it
+   */
+  async getFeeTokenAccount(mint: string): Promise<string> {
+    const account = await getAssociatedTokenAddress(
+      new PublicKey(mint),
+      this.requireFeeWallet(),
+    );
+    return account.toBase58();
+  }
+
+  private requireFeeWallet(): PublicKey {
+    if (!this.feeWallet) {
+      throw new Error('PLATFORM_FEE_WALLET is not configured');
+    }
+    return this.feeWallet;
+  }
+}
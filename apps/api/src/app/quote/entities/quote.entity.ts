@@ -0,0 +1,74 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Payment } from '../../payment/entities/payment.entity';
+import { JupiterQuote } from '../../jupiter/models/quote.model';
+import { Money } from '../../money/money';
+import { MoneyTransformer } from '../../money/money.transformer';
+import { TOKEN_DECIMALS } from '../../money/money.constants';
+
+@Entity('quotes')
+export class Quote {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  paymentId: string;
+
+  @ManyToOne(() => Payment)
+  @JoinColumn({ name: 'paymentId' })
+  payment: Payment;
+
+  // Token the customer pays with
+  @Column()
+  inputMint: string;
+
+  @Column()
+  inputDecimals: number;
+
+  // Payment's settlement token
+  @Column()
+  outputMint: string;
+
+  @Column()
+  outputDecimals: number;
+
+  // Amount of the input token the customer pays, before slippage
+  @Column('decimal', {
+    precision: 38,
+    scale: TOKEN_DECIMALS,
+    transformer: new MoneyTransformer(TOKEN_DECIMALS),
+  })
+  inAmount: Money;
+
+  // Settlement token the merchant receives
+  @Column('decimal', {
+    precision: 38,
+    scale: TOKEN_DECIMALS,
+    transformer: new MoneyTransformer(TOKEN_DECIMALS),
+  })
+  outAmount: Money;
+
+  @Column()
+  slippageBps: number;
+
+  @Column('decimal', { precision: 20, scale: 10, default: 0 })
+  priceImpactPct: number;
+
+  // Jupiter quote the swap transaction is built from
+  @Column({ type: 'jsonb' })
+  route: JupiterQuote;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { QuoteService } from './quote.service';
+import { Quote } from './entities/quote.entity';
+import { JupiterModule } from '../jupiter/jupiter.module';
+import { PlatformFeeModule } from '../platform-fee/platform-fee.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Quote]),
+    JupiterModule,
+    PlatformFeeModule,
+  ],
+  providers: [QuoteService],
+  exports: [QuoteService],
+})
+export class QuoteModule {}
@@ -0,0 +1,171 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { QuoteService } from './quote.service';
+import { Quote } from './entities/quote.entity';
+import { Payment } from '../payment/entities/payment.entity';
+import { JupiterService } from '../jupiter/jupiter.service';
+import { PlatformFeeService } from '../platform-fee/platform-fee.service';
+import { DEFAULT_SWAP_SETTINGS } from '../jupiter/models/swap-settings.model';
+import { Money } from '../money/money';
+import { NATIVE_SOL_MINT, USDC_MINT } from '../solana/solana.constants';
+
+describe('QuoteService', () => {
+  let service: QuoteService;
+  let payment: Payment;
+
+  const quoteRepository = {
+    create: jest.fn((quote) => ({ ...quote })),
+    save: jest.fn(async (quote) => ({ id: 'quote-1', ...quote })),
+    findOne: jest.fn(),
+  };
+  const jupiterService = { getQuote: jest.fn() };
+  const platformFeeService = { getSwapFeeBps: jest.fn() };
+  const configService = {
+    get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+  };
+
+  const createQuote = (inAmount: string, overrides: Partial<Quote> = {}) =>
+    ({
+      id: 'quote-1',
+      paymentId: 'payment-1',
+      inputMint: USDC_MINT,
+      inputDecimals: 6,
+      outputMint: NATIVE_SOL_MINT,
+      outputDecimals: 9,
+      inAmount: Money.of(inAmount, 6),
+      outAmount: Money.of('0.05', 9),
+      expiresAt: new Date(Date.now() + 30000),
+      ...overrides,
+    }) as Quote;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    platformFeeService.getSwapFeeBps.mockReturnValue(0);
+
+    payment = {
+      id: 'payment-1',
+      settlementMint: NATIVE_SOL_MINT,
+      settlementDecimals: 9,
+      settlementAmount: Money.of('0.05', 9),
+    } as Payment;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuoteService,
+        { provide: getRepositoryToken(Quote), useValue: quoteRepository },
+        { provide: JupiterService, useValue: jupiterService },
+        { provide: PlatformFeeService, useValue: platformFeeService },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<QuoteService>(QuoteService);
+  });
+
+  describe('createQuote', () => {
+    it('locks an ExactOut quote for the settlement amount', async () => {
+      jupiterService.getQuote.mockResolvedValue({
+        inAmount: '10020000',
+        slippageBps: 100,
+        priceImpactPct: '0.0012',
+      });
+
+      const quote = await service.createQuote(payment, USDC_MINT, 6);
+
+      expect(jupiterService.getQuote).toHaveBeenCalledWith(
+        USDC_MINT,
+        NATIVE_SOL_MINT,
+        BigInt(50000000),
+        'ExactOut',
+        DEFAULT_SWAP_SETTINGS,
+        0,
+      );
+      expect(quote.inAmount.toString()).toBe('10.02');
+      expect(quote.outAmount.toString()).toBe('0.05');
+      expect(quote.priceImpactPct).toBe(0.0012);
+      expect(quote.route.inAmount).toBe('10020000');
+    });
+
+    it('quotes what the merchant receives with the platform fee on top', async () => {
+      jupiterService.getQuote.mockResolvedValue({ inAmount: '9900000' });
+      platformFeeService.getSwapFeeBps.mockReturnValue(102);
+      payment.platformFeeAmount = Money.of('0.0005', 9);
+      payment.netAmount = Money.of('0.0495', 9);
+
+      const quote = await service.createQuote(payment, USDC_MINT, 6);
+
+      expect(jupiterService.getQuote).toHaveBeenCalledWith(
+        USDC_MINT,
+        NATIVE_SOL_MINT,
+        BigInt(49500000),
+        'ExactOut',
+        DEFAULT_SWAP_SETTINGS,
+        102,
+      );
+      expect(quote.outAmount.toString()).toBe('0.0495');
+      expect(service.isValid(quote, payment, USDC_MINT)).toBe(true);
+    });
+
+    it('expires after the configured time', async () => {
+      jupiterService.getQuote.mockResolvedValue({ inAmount: '1' });
+      const before = Date.now();
+
+      const quote = await service.createQuote(payment, USDC_MINT, 6);
+
+      const ttl = quote.expiresAt.getTime() - before;
+      expect(ttl).toBeGreaterThanOrEqual(30000);
+      expect(ttl).toBeLessThan(31000);
+    });
+  });
+
+  describe('isValid', () => {
+    it('accepts unexpired quotes for the same token and amount', () => {
+      expect(service.isValid(createQuote('10'), payment, USDC_MINT)).toBe(true);
+    });
+
+    it('rejects expired quotes', () => {
+      const quote = createQuote('10', { expiresAt: new Date(Date.now() - 1) });
+
+      expect(service.isValid(quote, payment, USDC_MINT)).toBe(false);
+    });
+
+    it('rejects quotes for another token or amount', () => {
+      expect(service.isValid(createQuote('10'), payment, 'other')).toBe(false);
+
+      payment.settlementAmount = Money.of('0.06', 9);
+      expect(service.isValid(createQuote('10'), payment, USDC_MINT)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('hasPriceMoved', () => {
+    it('allows price increases within the tolerance', () => {
+      expect(
+        service.hasPriceMoved(createQuote('10'), createQuote('10.05')),
+      ).toBe(false);
+    });
+
+    it('flags price increases beyond the tolerance', () => {
+      expect(
+        service.hasPriceMoved(createQuote('10'), createQuote('10.050001')),
+      ).toBe(true);
+    });
+
+    it('never flags a lower price', () => {
+      expect(service.hasPriceMoved(createQuote('10'), createQuote('9'))).toBe(
+        false,
+      );
+    });
+
+    it('flags quotes for another token', () => {
+      expect(
+        service.hasPriceMoved(
+          createQuote('10'),
+          createQuote('10', { inputMint: 'other' }),
+        ),
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Quote } from './entities/quote.entity';
+import { Payment } from '../payment/entities/payment.entity';
+import { JupiterService } from '../jupiter/jupiter.service';
+import {
+  DEFAULT_SWAP_SETTINGS,
+  SwapSettings,
+} from '../jupiter/models/swap-settings.model';
+import { Money } from '../money/money';
+import { PlatformFeeService } from '../platform-fee/platform-fee.service';
+
+/**
+ * Locks swap quotes for a payment for a short price-validity window, so the
+ * customer is charged the input amount they were shown
+ */
+@Injectable()
+export class QuoteService {
+  private readonly logger = new Logger(QuoteService.name);
+  private readonly ttlSeconds: number;
+  private readonly priceToleranceBps: number;
+
+  constructor(
+    @InjectRepository(Quote)
+    private quoteRepository: Repository<Quote>,
+    private readonly jupiterService: JupiterService,
+    private readonly platformFeeService: PlatformFeeService,
+    private readonly configService: ConfigService,
+  ) {
+    this.ttlSeconds = parseInt(
+      this.configService.get('QUOTE_TTL_SECONDS', '30'),
+    );
+    this.priceToleranceBps = parseInt(
+      this.configService.get('QUOTE_PRICE_TOLERANCE_BPS', '50'),
+    );
+  }
+
+  /**
+   * Quote a swap from the input token into what the merchant receives of the
+   * payment, with the platform fee on top, and lock it until it expires
+   */
+  async createQuote(
+    payment: Payment,
+    inputMint: string,
+    inputDecimals: number,
+    settings: SwapSettings = DEFAULT_SWAP_SETTINGS,
+  ): Promise<Quote> {
+    const outAmount = this.getMerchantAmount(payment);
+
+    // ExactOut, so the merchant always receives its net amount
+    const route = await this.jupiterService.getQuote(
+      inputMint,
+      payment.settlementMint,
+      outAmount.baseUnits,
+      'ExactOut',
+      settings,
+      this.platformFeeService.getSwapFeeBps(payment),
+    );
+
+    const quote = this.quoteRepository.create({
+      paymentId: payment.id,
+      inputMint,
+      inputDecimals,
+      outputMint: payment.settlementMint,
+      outputDecimals: payment.settlementDecimals,
+      inAmount: Money.fromBaseUnits(route.inAmount, inputDecimals),
+      outAmount,
+      slippageBps: route.slippageBps ?? settings.maxSlippageBps,
+      priceImpactPct: parseFloat(route.priceImpactPct) || 0,
+      route,
+      expiresAt: new Date(Date.now() + this.ttlSeconds * 1000),
+    });
+
+    const savedQuote = await this.quoteRepository.save(quote);
+    this.logger.log(
+      `Locked quote ${savedQuote.id} for payment ${payment.id}: ${savedQuote.inAmount} of ${inputMint} until ${savedQuote.expiresAt.toISOString()}`,
+    );
+
+    return savedQuote;
+  }
+
+  /**
+   * Get a payment's quote by ID
+   */
+  async getQuote(id: string, paymentId: string): Promise<Quote | null> {
+    return this.quoteRepository.findOne({ where: { id, paymentId } });
+  }
+
+  /**
+   * Whether a quote can still be used to pay the payment with a token
+   */
+  isValid(quote: Quote, payment: Payment, inputMint: string): boolean {
+    return (
+      new Date(quote.expiresAt).getTime() > Date.now() &&
+      quote.inputMint === inputMint &&
+      quote.outputMint === payment.settlementMint &&
+      payment.settlementAmount != null &&
+      quote.outAmount.equals(this.getMerchantAmount(payment))
+    );
+  }
+
+  /**
+   * Whether a new quote asks the customer for more than the tolerance over
+   * the quote they accepted. Paying less never needs accepting again.
+   */
+  hasPriceMoved(accepted: Quote, current: Quote): boolean {
+    if (accepted.inputMint !== current.inputMint) {
+      return true;
+    }
+
+    const limit = accepted.inAmount.multiply(
+      (10000 + this.priceToleranceBps) / 10000,
+      accepted.inputDecimals,
+    );
+
+    return current.inAmount.compare(limit) > 0;
+  }
+
+  /**
+   * Settlement token the merchant receives, payments from before platform
+   * fees receive the whole settlement amount
+   */
+  private getMerchantAmount(payment: Payment): Money {
+    return (payment.netAmount ?? payment.settlementAmount).rescale(
+      payment.settlementDecimals,
+    );
+  }
+}
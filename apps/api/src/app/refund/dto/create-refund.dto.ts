@@ -0,0 +1,14 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { Money } from '../../money/money';
+
+export class CreateRefundDto {
+  // In the settlement token, defaults to the remaining refundable amount.
+  // Decimal strings and Money keep every digit, numbers go through floats.
+  @IsOptional()
+  amount?: Money | string | number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,73 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Payment } from '../../payment/entities/payment.entity';
+import { Money } from '../../money/money';
+import { MoneyTransformer } from '../../money/money.transformer';
+import { TOKEN_DECIMALS } from '../../money/money.constants';
+
+export enum RefundStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+@Entity('refunds')
+export class Refund {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  paymentId: string;
+
+  @ManyToOne(() => Payment, (payment) => payment.refunds)
+  @JoinColumn({ name: 'paymentId' })
+  payment: Payment;
+
+  @Column()
+  merchantId: string;
+
+  // In the payment's settlement token
+  @Column('decimal', {
+    precision: 38,
+    scale: TOKEN_DECIMALS,
+    transformer: new MoneyTransformer(TOKEN_DECIMALS),
+  })
+  amount: Money;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  @Column()
+  destinationWallet: string;
+
+  @Column({
+    type: 'enum',
+    enum: RefundStatus,
+    default: RefundStatus.PENDING,
+  })
+  status: RefundStatus;
+
+  @Column({ type: 'varchar', nullable: true, unique: true })
+  transactionSignature: string | null;
+
+  @Column({ type: 'bigint', nullable: true })
+  lastValidBlockHeight: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  failureReason: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,75 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { RefundService } from './refund.service';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { Refund } from './entities/refund.entity';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthMerchantId, Scopes } from '../auth/auth.decorators';
+import { ApiKeyScope } from '../auth/models/api-key.model';
+
+@Controller('payments/:paymentId/refunds')
+@UseGuards(AuthGuard)
+export class RefundController {
+  private readonly logger = new Logger(RefundController.name);
+
+  constructor(private readonly refundService: RefundService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Scopes(ApiKeyScope.REFUNDS_WRITE)
+  async create(
+    @Param('paymentId') paymentId: string,
+    @Body() createRefundDto: CreateRefundDto,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<{ refund: Refund; transaction: string }> {
+    this.logger.log(
+      `Create refund request for payment ${paymentId}: ${JSON.stringify(
+        createRefundDto,
+      )}`,
+    );
+
+    return this.refundService.createRefund(
+      merchantId,
+      paymentId,
+      createRefundDto,
+    );
+  }
+
+  @Get()
+  @Scopes(ApiKeyScope.REFUNDS_READ)
+  async findAll(
+    @Param('paymentId') paymentId: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Refund[]> {
+    return this.refundService.getRefunds(merchantId, paymentId);
+  }
+
+  @Post(':refundId/confirm')
+  @Scopes(ApiKeyScope.REFUNDS_WRITE)
+  async confirm(
+    @Param('paymentId') paymentId: string,
+    @Param('refundId') refundId: string,
+    @Body('transactionSignature') transactionSignature: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Refund> {
+    this.logger.log(
+      `Confirm refund request: ${refundId}, signature: ${transactionSignature}`,
+    );
+
+    return this.refundService.confirmRefund(
+      merchantId,
+      paymentId,
+      refundId,
+      transactionSignature,
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RefundService } from './refund.service';
+import { RefundController } from './refund.controller';
+import { Refund } from './entities/refund.entity';
+import { Payment } from '../payment/entities/payment.entity';
+import { AuthModule } from '../auth/auth.module';
+import { WebsocketModule } from '../websocket/websocket.module';
+import { WebhookModule } from '../webhook/webhook.module';
+import { VerificationModule } from '../verification/verification.module';
+import { SolanaModule } from '../solana/solana.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Refund, Payment]),
+    AuthModule,
+    WebsocketModule,
+    WebhookModule,
+    VerificationModule,
+    SolanaModule,
+  ],
+  providers: [RefundService],
+  controllers: [RefundController],
+  exports: [RefundService],
+})
+export class RefundModule {}
@@ -0,0 +1,273 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Keypair, Transaction } from '@solana/web3.js';
+import { RefundService } from './refund.service';
+import { Refund, RefundStatus } from './entities/refund.entity';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { PaymentLeg } from '../payment/entities/payment-leg.entity';
+import { PaymentGateway } from '../websocket/payment/payment.gateway';
+import { PaymentEventType } from '../websocket/models/event.model';
+import { WebhookService } from '../webhook/webhook.service';
+import { VerificationService } from '../verification/verification.service';
+import { VerificationFailureReason } from '../verification/models/verification-result.model';
+import { SOLANA_CONNECTION, USDC_MINT } from '../solana/solana.constants';
+import { Money } from '../money/money';
+
+describe('RefundService', () => {
+  let service: RefundService;
+  let payment: Payment;
+  let refunds: Refund[];
+
+  const merchantWallet = Keypair.generate().publicKey.toString();
+  const customerWallet = Keypair.generate().publicKey.toString();
+
+  const refundRepository = {
+    create: jest.fn((refund) => ({ id: 'refund-1', ...refund })),
+    save: jest.fn(async (refund) => refund),
+    update: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+  const paymentRepository = {
+    findOne: jest.fn(),
+    save: jest.fn(async (p) => p),
+  };
+  const paymentGateway = {
+    emitToMerchant: jest.fn(),
+    emitToPayment: jest.fn(),
+  };
+  const webhookService = { dispatch: jest.fn() };
+  const verificationService = { verifyTokenTransfer: jest.fn() };
+  const connection = {
+    getLatestBlockhash: jest.fn(),
+    getBlockHeight: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    payment = {
+      id: 'payment-1',
+      merchantId: 'merchant-1',
+      amount: Money.of(10, 6),
+      refundedAmount: Money.zero(6),
+      destinationWallet: merchantWallet,
+      customerWallet,
+      settlementMint: USDC_MINT,
+      settlementDecimals: 6,
+      status: PaymentStatus.COMPLETED,
+    } as Payment;
+    refunds = [];
+
+    paymentRepository.findOne.mockImplementation(async ({ where }) =>
+      where.id === payment.id && where.merchantId === payment.merchantId
+        ? payment
+        : null,
+    );
+    refundRepository.find.mockImplementation(async ({ where }) =>
+      refunds.filter((refund) => refund.status === where.status),
+    );
+    connection.getLatestBlockhash.mockResolvedValue({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 1000,
+    });
+    connection.getBlockHeight.mockResolvedValue(900);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundService,
+        { provide: getRepositoryToken(Refund), useValue: refundRepository },
+        { provide: getRepositoryToken(Payment), useValue: paymentRepository },
+        { provide: PaymentGateway, useValue: paymentGateway },
+        { provide: WebhookService, useValue: webhookService },
+        { provide: VerificationService, useValue: verificationService },
+        { provide: SOLANA_CONNECTION, useValue: connection },
+      ],
+    }).compile();
+
+    service = module.get<RefundService>(RefundService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createRefund', () => {
+    it('refunds the full amount by default with an unsigned transfer', async () => {
+      const { refund, transaction } = await service.createRefund(
+        'merchant-1',
+        'payment-1',
+        {},
+      );
+
+      expect(refund.amount.toString()).toBe('10');
+      expect(refund.destinationWallet).toBe(customerWallet);
+      expect(refund.status).toBe(RefundStatus.PENDING);
+
+      const decoded = Transaction.from(Buffer.from(transaction, 'base64'));
+      expect(decoded.feePayer?.toString()).toBe(merchantWallet);
+      expect(decoded.instructions).toHaveLength(2);
+      expect(decoded.signatures.every((s) => s.signature === null)).toBe(true);
+
+      expect(paymentGateway.emitToMerchant).toHaveBeenCalledWith(
+        'merchant-1',
+        expect.objectContaining({ type: PaymentEventType.REFUND_CREATED }),
+      );
+    });
+
+    it('rejects refunds larger than what is left to refund', async () => {
+      payment.status = PaymentStatus.PARTIALLY_REFUNDED;
+      payment.refundedAmount = Money.of(6, 6);
+      refunds = [
+        {
+          id: 'refund-0',
+          amount: Money.of(2, 6),
+          status: RefundStatus.PENDING,
+        } as Refund,
+      ];
+
+      await expect(
+        service.createRefund('merchant-1', 'payment-1', { amount: 2.5 }),
+      ).rejects.toThrow('exceeds the refundable amount of 2');
+    });
+
+    it('refunds decimal string amounts exactly', async () => {
+      const { refund } = await service.createRefund('merchant-1', 'payment-1', {
+        amount: '2.123457',
+      });
+
+      expect(refund.amount.toString()).toBe('2.123457');
+    });
+
+    it.each(['abc', '', '-1', 0])(
+      'rejects the invalid amount %p',
+      async (amount) => {
+        await expect(
+          service.createRefund('merchant-1', 'payment-1', { amount }),
+        ).rejects.toThrow(BadRequestException);
+      },
+    );
+
+    it('rejects payments that have not completed', async () => {
+      payment.status = PaymentStatus.PENDING;
+
+      await expect(
+        service.createRefund('merchant-1', 'payment-1', {}),
+      ).rejects.toThrow('cannot be refunded');
+    });
+
+    it('rejects split payments', async () => {
+      payment.legs = [
+        {
+          position: 0,
+          walletAddress: merchantWallet,
+          settlementAmount: Money.of(7, 6),
+        },
+        {
+          position: 1,
+          walletAddress: Keypair.generate().publicKey.toString(),
+          settlementAmount: Money.of(3, 6),
+        },
+      ] as PaymentLeg[];
+
+      await expect(
+        service.createRefund('merchant-1', 'payment-1', {}),
+      ).rejects.toThrow(BadRequestException);
+      expect(refundRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("hides other merchants' payments", async () => {
+      await expect(
+        service.createRefund('merchant-2', 'payment-1', {}),
+      ).rejects.toThrow('not found');
+    });
+  });
+
+  describe('confirmRefund', () => {
+    let refund: Refund;
+
+    beforeEach(() => {
+      refund = {
+        id: 'refund-1',
+        paymentId: 'payment-1',
+        merchantId: 'merchant-1',
+        amount: Money.of(4, 6),
+        destinationWallet: customerWallet,
+        status: RefundStatus.PENDING,
+      } as Refund;
+      refundRepository.findOne.mockImplementation(async ({ where }) =>
+        where.id === refund.id ? refund : null,
+      );
+      refunds = [refund];
+    });
+
+    it('partially refunds the payment once the transfer is verified', async () => {
+      verificationService.verifyTokenTransfer.mockResolvedValue({
+        verified: true,
+      });
+
+      const result = await service.confirmRefund(
+        'merchant-1',
+        'payment-1',
+        'refund-1',
+        'sig',
+      );
+
+      expect(result.status).toBe(RefundStatus.COMPLETED);
+      expect(payment.refundedAmount.toString()).toBe('4');
+      expect(payment.status).toBe(PaymentStatus.PARTIALLY_REFUNDED);
+      expect(webhookService.dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ type: PaymentEventType.REFUND_COMPLETED }),
+      );
+    });
+
+    it('marks the payment refunded once the full amount is returned', async () => {
+      refund.amount = Money.of(10, 6);
+      verificationService.verifyTokenTransfer.mockResolvedValue({
+        verified: true,
+      });
+
+      await service.confirmRefund('merchant-1', 'payment-1', 'refund-1', 'sig');
+
+      expect(payment.status).toBe(PaymentStatus.REFUNDED);
+    });
+
+    it('keeps the refund pending while the transaction has not landed', async () => {
+      verificationService.verifyTokenTransfer.mockResolvedValue({
+        verified: false,
+        reason: VerificationFailureReason.TRANSACTION_NOT_FOUND,
+      });
+
+      const result = await service.confirmRefund(
+        'merchant-1',
+        'payment-1',
+        'refund-1',
+        'sig',
+      );
+
+      expect(result.status).toBe(RefundStatus.PENDING);
+      expect(result.transactionSignature).toBe('sig');
+      expect(paymentRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('fails the refund when the customer was not credited', async () => {
+      verificationService.verifyTokenTransfer.mockResolvedValue({
+        verified: false,
+        reason: VerificationFailureReason.INSUFFICIENT_AMOUNT,
+        message: 'short',
+      });
+
+      const result = await service.confirmRefund(
+        'merchant-1',
+        'payment-1',
+        'refund-1',
+        'sig',
+      );
+
+      expect(result.status).toBe(RefundStatus.FAILED);
+      expect(result.failureReason).toBe('short');
+      expect(payment.status).toBe(PaymentStatus.COMPLETED);
+    });
+  });
+});
@@ -0,0 +1,468 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Not, Repository } from 'typeorm';
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddress,
+} from '@solana/spl-token';
+import { Refund, RefundStatus } from './entities/refund.entity';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { getPaymentLegs } from '../payment/payment.utils';
+import { PaymentGateway } from '../websocket/payment/payment.gateway';
+import {
+  PaymentEvent,
+  PaymentEventType,
+} from '../websocket/models/event.model';
+import { WebhookService } from '../webhook/webhook.service';
+import { VerificationService } from '../verification/verification.service';
+import { VerificationFailureReason } from '../verification/models/verification-result.model';
+import { SOLANA_CONNECTION } from '../solana/solana.constants';
+import { isNativeSol } from '../solana/solana.utils';
+import { Money } from '../money/money';
+
+// Only settled payments can have money sent back
+const REFUNDABLE_STATUSES = [
+  PaymentStatus.COMPLETED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+];
+
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+
+  constructor(
+    @InjectRepository(Refund)
+    private refundRepository: Repository<Refund>,
+    @InjectRepository(Payment)
+    private paymentRepository: Repository<Payment>,
+    private readonly paymentGateway: PaymentGateway,
+    private readonly webhookService: WebhookService,
+    private readonly verificationService: VerificationService,
+    @Inject(SOLANA_CONNECTION)
+    private readonly connection: Connection,
+  ) {}
+
+  /**
+   * Create a refund and build the unsigned transfer for the merchant to sign
+   */
+  async createRefund(
+    merchantId: string,
+    paymentId: string,
+    createRefundDto: CreateRefundDto,
+  ): Promise<{ refund: Refund; transaction: string }> {
+    const payment = await this.getMerchantPayment(merchantId, paymentId);
+
+    if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+      throw new BadRequestException(
+        `Payment in ${payment.status} state cannot be refunded`,
+      );
+    }
+
+    if (!payment.customerWallet) {
+      throw new BadRequestException('Payment has no customer wallet to refund');
+    }
+
+    // Refunds are sent from the merchant's wallet, which never received the
+    // other recipients' legs
+    if (getPaymentLegs(payment).length > 0) {
+      throw new BadRequestException('Split payments cannot be refunded');
+    }
+
+    await this.failStalePendingRefunds(payment.id);
+
+    // Pending refunds hold their amount until they complete or go stale
+    const pendingRefunds = await this.refundRepository.find({
+      where: { paymentId: payment.id, status: RefundStatus.PENDING },
+    });
+    const refundable = pendingRefunds
+      .reduce(
+        (total, refund) => total.subtract(refund.amount),
+        this.getSettledAmount(payment).subtract(payment.refundedAmount),
+      )
+      .rescale(payment.settlementDecimals);
+
+    const amount =
+      createRefundDto.amount != null
+        ? this.parseAmount(createRefundDto.amount, payment.settlementDecimals)
+        : refundable;
+
+    if (!amount.isPositive()) {
+      throw new BadRequestException('Nothing left to refund on this payment');
+    }
+
+    if (amount.compare(refundable) > 0) {
+      throw new BadRequestException(
+        `Refund amount exceeds the refundable amount of ${refundable}`,
+      );
+    }
+
+    const { transaction, lastValidBlockHeight } =
+      await this.buildRefundTransaction(payment, amount.baseUnits);
+
+    const refund = this.refundRepository.create({
+      paymentId: payment.id,
+      merchantId: payment.merchantId,
+      amount,
+      reason: createRefundDto.reason ?? null,
+      destinationWallet: payment.customerWallet,
+      status: RefundStatus.PENDING,
+      lastValidBlockHeight: lastValidBlockHeight.toString(),
+    });
+    const savedRefund = await this.refundRepository.save(refund);
+
+    await this.notify(payment, PaymentEventType.REFUND_CREATED, {
+      refund: savedRefund,
+      payment,
+    });
+
+    this.logger.log(
+      `Refund ${savedRefund.id} of ${savedRefund.amount} created for payment ${payment.id}`,
+    );
+    return { refund: savedRefund, transaction };
+  }
+
+  /**
+   * Confirm a refund once the merchant has sent the signed transaction
+   */
+  async confirmRefund(
+    merchantId: string,
+    paymentId: string,
+    refundId: string,
+    transactionSignature: string,
+  ): Promise<Refund> {
+    const payment = await this.getMerchantPayment(merchantId, paymentId);
+    const refund = await this.getRefund(payment.id, refundId);
+
+    if (refund.status !== RefundStatus.PENDING) {
+      throw new BadRequestException(
+        `Refund in ${refund.status} state cannot be confirmed`,
+      );
+    }
+
+    // A signature can only ever settle a single refund
+    const existingRefund = await this.refundRepository.findOne({
+      where: { transactionSignature, id: Not(refund.id) },
+    });
+    if (existingRefund) {
+      throw new BadRequestException(
+        `Transaction ${transactionSignature} is already linked to refund ${existingRefund.id}`,
+      );
+    }
+
+    refund.transactionSignature = transactionSignature;
+
+    const verification = await this.verificationService.verifyTokenTransfer(
+      transactionSignature,
+      refund.destinationWallet,
+      refund.amount.toBaseUnits(payment.settlementDecimals),
+      payment.settlementMint,
+    );
+
+    if (!verification.verified) {
+      // Not landed yet - keep the signature so the merchant can retry
+      if (
+        verification.reason === VerificationFailureReason.TRANSACTION_NOT_FOUND
+      ) {
+        return this.refundRepository.save(refund);
+      }
+
+      return this.failRefund(
+        payment,
+        refund,
+        verification.message ?? 'Refund transaction verification failed',
+      );
+    }
+
+    refund.status = RefundStatus.COMPLETED;
+    refund.failureReason = null;
+    const completedRefund = await this.refundRepository.save(refund);
+
+    const updatedPayment = await this.applyCompletedRefunds(payment);
+
+    await this.notify(updatedPayment, PaymentEventType.REFUND_COMPLETED, {
+      refund: completedRefund,
+      payment: updatedPayment,
+    });
+
+    this.logger.log(
+      `Refund ${refund.id} completed, payment ${payment.id} is now ${updatedPayment.status}`,
+    );
+    return completedRefund;
+  }
+
+  /**
+   * Get all refunds for a payment, newest first
+   */
+  async getRefunds(merchantId: string, paymentId: string): Promise<Refund[]> {
+    const payment = await this.getMerchantPayment(merchantId, paymentId);
+
+    return this.refundRepository.find({
+      where: { paymentId: payment.id },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Build an unsigned transfer of the settlement token from the merchant back
+   * to the customer
+   */
+  private async buildRefundTransaction(
+    payment: Payment,
+    amount: bigint,
+  ): Promise<{ transaction: string; lastValidBlockHeight: number }> {
+    const merchantWallet = new PublicKey(payment.destinationWallet);
+    const customerWallet = new PublicKey(payment.customerWallet);
+
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash();
+
+    const transaction = new Transaction({
+      feePayer: merchantWallet,
+      blockhash,
+      lastValidBlockHeight,
+    }).add(
+      ...(await this.buildRefundInstructions(
+        payment,
+        merchantWallet,
+        customerWallet,
+        amount,
+      )),
+    );
+
+    return {
+      transaction: transaction
+        .serialize({ requireAllSignatures: false, verifySignatures: false })
+        .toString('base64'),
+      lastValidBlockHeight,
+    };
+  }
+
+  private async buildRefundInstructions(
+    payment: Payment,
+    merchantWallet: PublicKey,
+    customerWallet: PublicKey,
+    amount: bigint,
+  ): Promise<TransactionInstruction[]> {
+    // Native SOL needs no token accounts
+    if (isNativeSol(payment.settlementMint)) {
+      return [
+        SystemProgram.transfer({
+          fromPubkey: merchantWallet,
+          toPubkey: customerWallet,
+          lamports: amount,
+        }),
+      ];
+    }
+
+    const mint = new PublicKey(payment.settlementMint);
+    const merchantTokenAccount = await getAssociatedTokenAddress(
+      mint,
+      merchantWallet,
+    );
+    const customerTokenAccount = await getAssociatedTokenAddress(
+      mint,
+      customerWallet,
+    );
+
+    return [
+      // The customer may have closed their token account since paying
+      createAssociatedTokenAccountIdempotentInstruction(
+        merchantWallet,
+        customerTokenAccount,
+        customerWallet,
+        mint,
+      ),
+      createTransferCheckedInstruction(
+        merchantTokenAccount,
+        mint,
+        customerTokenAccount,
+        merchantWallet,
+        amount,
+        payment.settlementDecimals,
+      ),
+    ];
+  }
+
+  /**
+   * Fail pending refunds whose transaction can no longer land
+   */
+  private async failStalePendingRefunds(paymentId: string): Promise<void> {
+    const pendingRefunds = await this.refundRepository.find({
+      where: { paymentId, status: RefundStatus.PENDING },
+    });
+
+    const unsigned = pendingRefunds.filter(
+      (refund) => !refund.transactionSignature && refund.lastValidBlockHeight,
+    );
+    if (unsigned.length === 0) {
+      return;
+    }
+
+    const blockHeight = await this.connection.getBlockHeight();
+    const stale = unsigned.filter(
+      (refund) => Number(refund.lastValidBlockHeight) < blockHeight,
+    );
+
+    if (stale.length === 0) {
+      return;
+    }
+
+    await this.refundRepository.update(
+      { id: In(stale.map((refund) => refund.id)) },
+      {
+        status: RefundStatus.FAILED,
+        failureReason: 'Refund transaction expired before it was sent',
+      },
+    );
+    this.logger.log(
+      `Failed ${stale.length} stale refunds for payment ${paymentId}`,
+    );
+  }
+
+  /**
+   * Mark a refund as failed
+   */
+  private async failRefund(
+    payment: Payment,
+    refund: Refund,
+    reason: string,
+  ): Promise<Refund> {
+    refund.status = RefundStatus.FAILED;
+    refund.failureReason = reason;
+    const failedRefund = await this.refundRepository.save(refund);
+
+    await this.notify(payment, PaymentEventType.REFUND_FAILED, {
+      refund: failedRefund,
+      payment,
+      reason,
+    });
+
+    this.logger.warn(`Refund ${refund.id} failed: ${reason}`);
+    return failedRefund;
+  }
+
+  /**
+   * Recalculate the refunded total and status of a payment
+   */
+  private async applyCompletedRefunds(payment: Payment): Promise<Payment> {
+    const completedRefunds = await this.refundRepository.find({
+      where: { paymentId: payment.id, status: RefundStatus.COMPLETED },
+    });
+
+    const refunded = completedRefunds.reduce(
+      (total, refund) => total.add(refund.amount),
+      Money.zero(payment.settlementDecimals),
+    );
+
+    payment.refundedAmount = refunded;
+    payment.status =
+      refunded.compare(this.getSettledAmount(payment)) >= 0
+        ? PaymentStatus.REFUNDED
+        : PaymentStatus.PARTIALLY_REFUNDED;
+
+    return this.paymentRepository.save(payment);
+  }
+
+  /**
+   * Settlement token amount the customer paid, refunds are made in the
+   * settlement token too
+   */
+  private getSettledAmount(payment: Payment): Money {
+    // Payments from before exchange rates were snapshotted settled 1:1
+    return (payment.settlementAmount ?? payment.amount).rescale(
+      payment.settlementDecimals,
+    );
+  }
+
+  /**
+   * Parse a refund amount in the settlement token
+   */
+  private parseAmount(
+    amount: Money | string | number,
+    decimals: number,
+  ): Money {
+    let parsed: Money;
+    try {
+      parsed = Money.of(amount, decimals);
+    } catch {
+      throw new BadRequestException('Invalid amount');
+    }
+
+    if (!parsed.isPositive()) {
+      throw new BadRequestException('amount must be positive');
+    }
+    return parsed;
+  }
+
+  /**
+   * Get a payment, hiding payments that belong to other merchants
+   */
+  private async getMerchantPayment(
+    merchantId: string,
+    paymentId: string,
+  ): Promise<Payment> {
+    const payment = await this.paymentRepository.findOne({
+      where: { id: paymentId, merchantId },
+    });
+
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${paymentId} not found`);
+    }
+
+    return payment;
+  }
+
+  /**
+   * Get a refund of a payment
+   */
+  private async getRefund(
+    paymentId: string,
+    refundId: string,
+  ): Promise<Refund> {
+    const refund = await this.refundRepository.findOne({
+      where: { id: refundId, paymentId },
+    });
+
+    if (!refund) {
+      throw new NotFoundException(`Refund with ID ${refundId} not found`);
+    }
+
+    return refund;
+  }
+
+  /**
+   * Emit a refund event to the merchant, the payment and the merchant webhook
+   */
+  private async notify(
+    payment: Payment,
+    type: PaymentEventType,
+    data: PaymentEvent['data'],
+  ): Promise<void> {
+    const event: PaymentEvent = {
+      type,
+      paymentId: payment.id,
+      merchantId: payment.merchantId,
+      data,
+      timestamp: new Date(),
+    };
+
+    this.paymentGateway.emitToMerchant(payment.merchantId, event);
+    this.paymentGateway.emitToPayment(payment.id, event);
+    await this.webhookService.dispatch(event);
+  }
+}
@@ -0,0 +1,15 @@
+export interface SolanaPayRequest {
+  reference: string;
+  transferRequestUrl: string | null; // solana: URL for a direct transfer, null for split payments
+  transactionRequestUrl: string; // solana: URL wallets fetch a transaction from
+}
+
+export interface TransactionRequestMetadata {
+  label: string;
+  icon: string;
+}
+
+export interface TransactionRequestResponse {
+  transaction: string; // Base64 serialized transaction for the wallet to sign
+  message?: string;
+}
@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Logger,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { SolanaPayService } from './solana-pay.service';
+import {
+  SolanaPayRequest,
+  TransactionRequestMetadata,
+  TransactionRequestResponse,
+} from './models/solana-pay.model';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthMerchantId, Scopes } from '../auth/auth.decorators';
+import { ApiKeyScope } from '../auth/models/api-key.model';
+
+@Controller()
+export class SolanaPayController {
+  private readonly logger = new Logger(SolanaPayController.name);
+
+  constructor(private readonly solanaPayService: SolanaPayService) {}
+
+  @Get('payments/:paymentId/solana-pay')
+  @UseGuards(AuthGuard)
+  @Scopes(ApiKeyScope.PAYMENTS_READ)
+  async getPaymentRequest(
+    @Param('paymentId') paymentId: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<SolanaPayRequest> {
+    return this.solanaPayService.getPaymentRequest(paymentId, merchantId);
+  }
+
+  @Get('solana-pay/:paymentId')
+  async getMetadata(
+    @Param('paymentId') paymentId: string,
+  ): Promise<TransactionRequestMetadata> {
+    return this.solanaPayService.getTransactionRequestMetadata(paymentId);
+  }
+
+  @Post('solana-pay/:paymentId')
+  async createTransaction(
+    @Param('paymentId') paymentId: string,
+    @Body('account') account: string,
+    @Query('token') token?: string,
+  ): Promise<TransactionRequestResponse> {
+    this.logger.log(
+      `Transaction request for payment ${paymentId} from account ${account}`,
+    );
+
+    return this.solanaPayService.createTransaction(paymentId, account, token);
+  }
+}
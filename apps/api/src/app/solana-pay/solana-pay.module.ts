@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { SolanaPayService } from './solana-pay.service';
+import { SolanaPayController } from './solana-pay.controller';
+import { PaymentModule } from '../payment/payment.module';
+import { MerchantModule } from '../merchant/merchant.module';
+import { SolanaModule } from '../solana/solana.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [PaymentModule, MerchantModule, SolanaModule, AuthModule],
+  providers: [SolanaPayService],
+  controllers: [SolanaPayController],
+  exports: [SolanaPayService],
+})
+export class SolanaPayModule {}
@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import { SolanaPayService } from './solana-pay.service';
+import { PaymentService } from '../payment/payment.service';
+import { MerchantService } from '../merchant/merchant.service';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { PaymentLeg } from '../payment/entities/payment-leg.entity';
+import { Money } from '../money/money';
+import {
+  NATIVE_SOL_MINT,
+  SOLANA_CONNECTION,
+  USDC_MINT,
+} from '../solana/solana.constants';
+
+describe('SolanaPayService', () => {
+  let service: SolanaPayService;
+  let payment: Payment;
+
+  const merchantWallet = Keypair.generate().publicKey.toBase58();
+  const customerWallet = Keypair.generate().publicKey.toBase58();
+  const reference = Keypair.generate().publicKey.toBase58();
+
+  const paymentService = {
+    getPaymentById: jest.fn(),
+    ensureExchangeRate: jest.fn(async (p: Payment) => p),
+    buildTransactionRequest: jest.fn(),
+  };
+  const merchantService = { getMerchantById: jest.fn() };
+  const configService = {
+    get: jest.fn((key: string, defaultValue?: string) =>
+      key === 'API_PUBLIC_URL' ? 'https://api.payso.test/' : defaultValue,
+    ),
+  };
+  const connection = { getLatestBlockhash: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    payment = {
+      id: 'payment-1',
+      merchantId: 'merchant-1',
+      amount: Money.of(12.5, 6),
+      currency: 'USD',
+      destinationWallet: merchantWallet,
+      settlementMint: USDC_MINT,
+      settlementDecimals: 6,
+      settlementAmount: Money.of(12.5, 6),
+      reference,
+      status: PaymentStatus.PENDING,
+    } as Payment;
+    paymentService.getPaymentById.mockResolvedValue(payment);
+    merchantService.getMerchantById.mockResolvedValue({
+      id: 'merchant-1',
+      name: 'Coffee & Co',
+    });
+    connection.getLatestBlockhash.mockResolvedValue({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 1000,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SolanaPayService,
+        { provide: PaymentService, useValue: paymentService },
+        { provide: MerchantService, useValue: merchantService },
+        { provide: ConfigService, useValue: configService },
+        { provide: SOLANA_CONNECTION, useValue: connection },
+      ],
+    }).compile();
+
+    service = module.get<SolanaPayService>(SolanaPayService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('builds a USDC transfer request URL to the merchant wallet', async () => {
+    const request = await service.getPaymentRequest('payment-1');
+    const url = new URL(request.transferRequestUrl);
+
+    expect(url.protocol).toBe('solana:');
+    expect(url.pathname).toBe(merchantWallet);
+    expect(url.searchParams.get('amount')).toBe('12.5');
+    expect(url.searchParams.get('spl-token')).toBe(USDC_MINT);
+    expect(url.searchParams.get('reference')).toBe(reference);
+    expect(url.searchParams.get('label')).toBe('Coffee & Co');
+  });
+
+  it('asks for the amount converted into the settlement token', async () => {
+    payment.amount = Money.of(10, 6);
+    payment.currency = 'EUR';
+
+    const request = await service.getPaymentRequest('payment-1');
+    const url = new URL(request.transferRequestUrl);
+
+    expect(paymentService.ensureExchangeRate).toHaveBeenCalledWith(payment);
+    expect(url.searchParams.get('amount')).toBe('12.5');
+  });
+
+  it('has no transfer request URL for split payments', async () => {
+    payment.legs = [{ walletAddress: merchantWallet }] as PaymentLeg[];
+
+    const request = await service.getPaymentRequest('payment-1');
+
+    expect(request.transferRequestUrl).toBeNull();
+    expect(request.transactionRequestUrl).toBeDefined();
+  });
+
+  it('has no transfer request URL when a platform fee is due', async () => {
+    payment.platformFeeAmount = Money.of('0.1', 6);
+
+    const request = await service.getPaymentRequest('payment-1');
+
+    expect(request.transferRequestUrl).toBeNull();
+  });
+
+  it('points the transaction request URL at the API', async () => {
+    const request = await service.getPaymentRequest('payment-1');
+
+    expect(request.transactionRequestUrl).toBe(
+      `solana:${encodeURIComponent(
+        'https://api.payso.test/solana-pay/payment-1',
+      )}`,
+    );
+  });
+
+  it('returns an unsigned USDC transfer tagged with the reference', async () => {
+    paymentService.buildTransactionRequest.mockResolvedValue({
+      payment,
+      transactionData: { isDirectTransfer: true, isDirectUsdcTransfer: true },
+    });
+
+    const { transaction } = await service.createTransaction(
+      'payment-1',
+      customerWallet,
+    );
+    const decoded = Transaction.from(Buffer.from(transaction, 'base64'));
+
+    expect(paymentService.buildTransactionRequest).toHaveBeenCalledWith(
+      'payment-1',
+      customerWallet,
+      undefined,
+    );
+    expect(decoded.feePayer?.toBase58()).toBe(customerWallet);
+    expect(
+      decoded.instructions[0].keys.some(
+        (key) =>
+          key.pubkey.equals(new PublicKey(reference)) &&
+          !key.isSigner &&
+          !key.isWritable,
+      ),
+    ).toBe(true);
+  });
+
+  it('splits the platform fee off the transfer', async () => {
+    const feeAccount = Keypair.generate().publicKey.toBase58();
+    payment.netAmount = Money.of('12.4', 6);
+    paymentService.buildTransactionRequest.mockResolvedValue({
+      payment,
+      transactionData: {
+        isDirectTransfer: true,
+        platformFeeAccount: feeAccount,
+        platformFeeAmount: '100000',
+      },
+    });
+
+    const { transaction } = await service.createTransaction(
+      'payment-1',
+      customerWallet,
+    );
+    const [merchantTransfer, feeTransfer] = Transaction.from(
+      Buffer.from(transaction, 'base64'),
+    ).instructions;
+
+    expect(merchantTransfer.data.readBigUInt64LE(1)).toBe(BigInt(12400000));
+    expect(feeTransfer.keys[2].pubkey.toBase58()).toBe(feeAccount);
+    expect(feeTransfer.data.readBigUInt64LE(1)).toBe(BigInt(100000));
+  });
+
+  describe('native SOL settlement', () => {
+    beforeEach(() => {
+      payment.settlementMint = NATIVE_SOL_MINT;
+      payment.settlementDecimals = 9;
+    });
+
+    it('builds a transfer request URL without an SPL token', async () => {
+      const request = await service.getPaymentRequest('payment-1');
+      const url = new URL(request.transferRequestUrl);
+
+      expect(url.searchParams.get('amount')).toBe('12.5');
+      expect(url.searchParams.has('spl-token')).toBe(false);
+    });
+
+    it('returns a system transfer to the merchant wallet', async () => {
+      paymentService.buildTransactionRequest.mockResolvedValue({
+        payment,
+        transactionData: { isDirectTransfer: true, isNativeSol: true },
+      });
+
+      const { transaction } = await service.createTransaction(
+        'payment-1',
+        customerWallet,
+      );
+      const [instruction] = Transaction.from(
+        Buffer.from(transaction, 'base64'),
+      ).instructions;
+
+      expect(instruction.programId.equals(SystemProgram.programId)).toBe(true);
+      expect(instruction.keys[1].pubkey.toBase58()).toBe(merchantWallet);
+      expect(instruction.data.readBigUInt64LE(4)).toBe(BigInt(12500000000));
+    });
+  });
+});
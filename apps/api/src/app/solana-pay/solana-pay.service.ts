@@ -0,0 +1,254 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  SystemProgram,
+} from '@solana/web3.js';
+import {
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddress,
+} from '@solana/spl-token';
+import { PaymentService } from '../payment/payment.service';
+import { MerchantService } from '../merchant/merchant.service';
+import { Payment } from '../payment/entities/payment.entity';
+import { TransactionData } from '../payment/models/payment.model';
+import { SOLANA_CONNECTION } from '../solana/solana.constants';
+import { isNativeSol } from '../solana/solana.utils';
+import {
+  SolanaPayRequest,
+  TransactionRequestMetadata,
+  TransactionRequestResponse,
+} from './models/solana-pay.model';
+
+@Injectable()
+export class SolanaPayService {
+  private readonly logger = new Logger(SolanaPayService.name);
+  private readonly apiPublicUrl: string;
+  private readonly iconUrl: string;
+
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly merchantService: MerchantService,
+    private readonly configService: ConfigService,
+    @Inject(SOLANA_CONNECTION)
+    private readonly connection: Connection,
+  ) {
+    this.apiPublicUrl = this.configService
+      .get('API_PUBLIC_URL', 'http://localhost:3000')
+      .replace(/\/$/, '');
+    this.iconUrl = this.configService.get(
+      'SOLANA_PAY_ICON_URL',
+      `${this.apiPublicUrl}/favicon.ico`,
+    );
+  }
+
+  /**
+   * Get the Solana Pay URLs for a payment
+   */
+  async getPaymentRequest(
+    paymentId: string,
+    merchantId?: string,
+  ): Promise<SolanaPayRequest> {
+    // The transfer request carries the amount, so it needs an exchange rate
+    const payment = await this.paymentService.ensureExchangeRate(
+      await this.paymentService.getPaymentById(paymentId, merchantId),
+    );
+
+    if (!payment.reference) {
+      throw new BadRequestException('Payment does not support Solana Pay');
+    }
+
+    const merchant = await this.merchantService.getMerchantById(
+      payment.merchantId,
+    );
+
+    const params = new URLSearchParams({
+      amount: this.formatAmount(payment),
+      reference: payment.reference,
+      label: merchant.name,
+      message: `Payment ${payment.id}`,
+    });
+    // Transfer requests without an spl-token are paid in native SOL
+    if (!isNativeSol(payment.settlementMint)) {
+      params.set('spl-token', payment.settlementMint);
+    }
+
+    return {
+      reference: payment.reference,
+      // Transfer requests have a single recipient, so split payments and
+      // platform fees need a transaction
+      transferRequestUrl:
+        payment.legs?.length > 0 || payment.platformFeeAmount?.isPositive()
+          ? null
+          : `solana:${payment.destinationWallet}?${params.toString()}`,
+      transactionRequestUrl: `solana:${encodeURIComponent(
+        `${this.apiPublicUrl}/solana-pay/${payment.id}`,
+      )}`,
+    };
+  }
+
+  /**
+   * Label and icon shown by the wallet before it requests a transaction
+   */
+  async getTransactionRequestMetadata(
+    paymentId: string,
+  ): Promise<TransactionRequestMetadata> {
+    const payment = await this.paymentService.getPaymentById(paymentId);
+    const merchant = await this.merchantService.getMerchantById(
+      payment.merchantId,
+    );
+
+    return {
+      label: merchant.name,
+      icon: this.iconUrl,
+    };
+  }
+
+  /**
+   * Build the transaction a wallet signs to pay, tagged with the payment's
+   * reference key
+   */
+  async createTransaction(
+    paymentId: string,
+    account: string,
+    selectedToken?: string,
+  ): Promise<TransactionRequestResponse> {
+    const { payment, transactionData } =
+      await this.paymentService.buildTransactionRequest(
+        paymentId,
+        account,
+        selectedToken,
+      );
+
+    const transaction = transactionData.isDirectTransfer
+      ? await this.buildTransferTransaction(payment, account, transactionData)
+      : (transactionData.swapTransaction as string);
+
+    this.logger.log(
+      `Transaction request built for payment ${payment.id} and account ${account}`,
+    );
+
+    return {
+      transaction,
+      message: `Pay ${payment.amount} ${payment.currency}`,
+    };
+  }
+
+  /**
+   * Build a transfer of the settlement token to the merchant, and the
+   * platform fee to the platform, with the reference key attached
+   */
+  private async buildTransferTransaction(
+    payment: Payment,
+    account: string,
+    transactionData: TransactionData,
+  ): Promise<string> {
+    const customerWallet = new PublicKey(account);
+    // Split payments pay every leg, others the merchant. Payments from
+    // before platform fees pay the merchant everything.
+    const transferInstructions = transactionData.legs
+      ? await Promise.all(
+          transactionData.legs.map((leg) =>
+            this.buildTransferInstruction(
+              payment,
+              customerWallet,
+              new PublicKey(leg.destinationTokenAccount),
+              BigInt(leg.amount),
+              true,
+            ),
+          ),
+        )
+      : [
+          await this.buildTransferInstruction(
+            payment,
+            customerWallet,
+            new PublicKey(payment.destinationWallet),
+            (payment.netAmount ?? payment.settlementAmount).toBaseUnits(
+              payment.settlementDecimals,
+            ),
+          ),
+        ];
+
+    // Solana Pay finds the transaction through this read-only key
+    transferInstructions[0].keys.push({
+      pubkey: new PublicKey(payment.reference as string),
+      isSigner: false,
+      isWritable: false,
+    });
+
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash();
+
+    const transaction = new Transaction({
+      feePayer: customerWallet,
+      blockhash,
+      lastValidBlockHeight,
+    }).add(...transferInstructions);
+
+    if (transactionData.platformFeeAccount) {
+      transaction.add(
+        await this.buildTransferInstruction(
+          payment,
+          customerWallet,
+          new PublicKey(transactionData.platformFeeAccount),
+          BigInt(transactionData.platformFeeAmount as string),
+          true,
+        ),
+      );
+    }
+
+    return transaction
+      .serialize({ requireAllSignatures: false, verifySignatures: false })
+      .toString('base64');
+  }
+
+  /**
+   * Transfer settlement token from the customer to a wallet, into its
+   * associated token account unless the payment settles in native SOL
+   */
+  private async buildTransferInstruction(
+    payment: Payment,
+    customerWallet: PublicKey,
+    recipient: PublicKey,
+    amount: bigint,
+    isTokenAccount = false,
+  ): Promise<TransactionInstruction> {
+    if (isNativeSol(payment.settlementMint)) {
+      return SystemProgram.transfer({
+        fromPubkey: customerWallet,
+        toPubkey: recipient,
+        lamports: amount,
+      });
+    }
+
+    const mint = new PublicKey(payment.settlementMint);
+    return createTransferCheckedInstruction(
+      await getAssociatedTokenAddress(mint, customerWallet),
+      mint,
+      isTokenAccount
+        ? recipient
+        : await getAssociatedTokenAddress(mint, recipient),
+      customerWallet,
+      amount,
+      payment.settlementDecimals,
+    );
+  }
+
+  /**
+   * Format the settlement amount the way Solana Pay expects, without
+   * trailing zeros
+   */
+  private formatAmount(payment: Payment): string {
+    return payment.settlementAmount
+      .rescale(payment.settlementDecimals)
+      .toString();
+  }
+}
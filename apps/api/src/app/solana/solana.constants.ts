@@ -0,0 +1,17 @@
+// Injection token for the shared Solana RPC connection
+export const SOLANA_CONNECTION = 'SOLANA_CONNECTION';
+
+// Common USDC mint address
+export const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+// USDC uses 6 decimals
+export const USDC_DECIMALS = 6;
+
+// Wrapped SOL mint, settling in it means receiving native SOL
+export const NATIVE_SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// SOL is counted in lamports
+export const NATIVE_SOL_DECIMALS = 9;
+
+// Tether USD mint address
+export const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Commitment, Connection } from '@solana/web3.js';
+import { SOLANA_CONNECTION } from './solana.constants';
+
+@Module({
+  providers: [
+    {
+      provide: SOLANA_CONNECTION,
+      useFactory: (configService: ConfigService) =>
+        new Connection(
+          configService.get(
+            'SOLANA_RPC_URL',
+            'https://api.mainnet-beta.solana.com',
+          ),
+          configService.get<Commitment>('SOLANA_COMMITMENT', 'confirmed'),
+        ),
+      inject: [ConfigService],
+    },
+  ],
+  exports: [SOLANA_CONNECTION],
+})
+export class SolanaModule {}
@@ -0,0 +1,77 @@
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { NATIVE_SOL_MINT } from './solana.constants';
+
+/**
+ * Whether a settlement mint means native SOL, which needs no token account
+ */
+export function isNativeSol(mint: string): boolean {
+  return mint === NATIVE_SOL_MINT;
+}
+
+/**
+ * Tag a transaction with a payment's reference key. Swap instructions can't
+ * take extra accounts, so it is carried on a zero-lamport transfer from the
+ * payer to themselves.
+ */
+export function createReferenceInstruction(
+  payer: PublicKey,
+  reference: string,
+): TransactionInstruction {
+  const instruction = SystemProgram.transfer({
+    fromPubkey: payer,
+    toPubkey: payer,
+    lamports: 0,
+  });
+  instruction.keys.push({
+    pubkey: new PublicKey(reference),
+    isSigner: false,
+    isWritable: false,
+  });
+  return instruction;
+}
+
+/**
+ * Append instructions to a serialized versioned transaction, such as a
+ * Jupiter swap, resolving its address lookup tables
+ */
+export async function appendInstructions(
+  connection: Connection,
+  serializedTransaction: string,
+  instructions: TransactionInstruction[],
+): Promise<string> {
+  const transaction = VersionedTransaction.deserialize(
+    Buffer.from(serializedTransaction, 'base64'),
+  );
+
+  const addressLookupTableAccounts = await Promise.all(
+    transaction.message.addressTableLookups.map(async (lookup) => {
+      const { value } = await connection.getAddressLookupTable(
+        lookup.accountKey,
+      );
+      if (!value) {
+        throw new Error(
+          `Address lookup table ${lookup.accountKey.toString()} not found`,
+        );
+      }
+      return value;
+    }),
+  );
+
+  const message = TransactionMessage.decompile(transaction.message, {
+    addressLookupTableAccounts,
+  });
+  message.instructions.push(...instructions);
+
+  return Buffer.from(
+    new VersionedTransaction(
+      message.compileToV0Message(addressLookupTableAccounts),
+    ).serialize(),
+  ).toString('base64');
+}
@@ -0,0 +1,77 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Keypair } from '@solana/web3.js';
+import { createHmac } from 'crypto';
+
+/**
+ * Holds the keys that pull subscription charges from customer token
+ * accounts. Every merchant gets its own billing authority, derived from the
+ * platform key, which customers approve as the delegate of their token
+ * account. The platform key itself pays the transaction fees.
+ */
+@Injectable()
+export class BillingAuthorityService {
+  private readonly logger = new Logger(BillingAuthorityService.name);
+  private readonly platformKeypair: Keypair | null;
+
+  constructor(private readonly configService: ConfigService) {
+    const secretKey = this.configService.get<string>(
+      'BILLING_AUTHORITY_SECRET_KEY',
+    );
+    this.platformKeypair = secretKey ? this.parseSecretKey(secretKey) : null;
+
+    if (!this.platformKeypair) {
+      this.logger.warn(
+        'BILLING_AUTHORITY_SECRET_KEY is not set, subscriptions cannot be billed',
+      );
+    }
+  }
+
+  /**
+   * Key that pays the fees of charge transactions
+   */
+  getFeePayer(): Keypair {
+    return this.requirePlatformKeypair();
+  }
+
+  /**
+   * Key that signs a merchant's charges as the customers' delegate
+   */
+  getMerchantAuthority(merchantId: string): Keypair {
+    const seed = createHmac(
+      'sha256',
+      this.requirePlatformKeypair().secretKey.slice(0, 32),
+    )
+      .update(`billing-authority:${merchantId}`)
+      .digest();
+
+    return Keypair.fromSeed(seed);
+  }
+
+  /**
+   * Address customers approve as the delegate for a merchant's subscriptions
+   */
+  getMerchantAuthorityAddress(merchantId: string): string {
+    return this.getMerchantAuthority(merchantId).publicKey.toBase58();
+  }
+
+  /**
+   * Read a key in the JSON array format of solana-keygen files
+   */
+  private parseSecretKey(secretKey: string): Keypair {
+    try {
+      return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secretKey)));
+    } catch {
+      throw new Error(
+        'BILLING_AUTHORITY_SECRET_KEY must be a JSON array of 64 bytes',
+      );
+    }
+  }
+
+  private requirePlatformKeypair(): Keypair {
+    if (!this.platformKeypair) {
+      throw new Error('BILLING_AUTHORITY_SECRET_KEY is not configured');
+    }
+    return this.platformKeypair;
+  }
+}
@@ -0,0 +1,10 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { MAX_SUBSCRIPTION_APPROVAL_PERIODS } from '../subscription.constants';
+
+export class ApproveSubscriptionDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SUBSCRIPTION_APPROVAL_PERIODS)
+  approvalPeriods?: number;
+}
@@ -0,0 +1,7 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class CancelSubscriptionDto {
+  @IsOptional()
+  @IsBoolean()
+  atPeriodEnd?: boolean; // Keep billing until the paid period is over
+}
@@ -0,0 +1,41 @@
+import {
+  IsEnum,
+  IsInt,
+  IsISO4217CurrencyCode,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { SubscriptionInterval } from '../entities/subscription-plan.entity';
+import {
+  MAX_SUBSCRIPTION_INTERVAL_COUNT,
+  MAX_SUBSCRIPTION_PLAN_NAME_LENGTH,
+} from '../subscription.constants';
+
+export class CreateSubscriptionPlanDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(MAX_SUBSCRIPTION_PLAN_NAME_LENGTH)
+  name: string;
+
+  @IsNotEmpty()
+  @IsNumber()
+  amount: number;
+
+  @IsNotEmpty()
+  @IsISO4217CurrencyCode()
+  currency: string;
+
+  @IsEnum(SubscriptionInterval)
+  interval: SubscriptionInterval;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SUBSCRIPTION_INTERVAL_COUNT)
+  intervalCount?: number; // Defaults to 1
+}
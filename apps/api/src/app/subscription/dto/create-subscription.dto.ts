@@ -0,0 +1,30 @@
+import {
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { MAX_SUBSCRIPTION_APPROVAL_PERIODS } from '../subscription.constants';
+
+export class CreateSubscriptionDto {
+  @IsNotEmpty()
+  @IsString()
+  planId: string;
+
+  @IsNotEmpty()
+  @IsString()
+  customerWallet: string;
+
+  @IsOptional()
+  @IsEmail()
+  customerEmail?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SUBSCRIPTION_APPROVAL_PERIODS)
+  approvalPeriods?: number; // Billing periods the approved allowance covers
+}
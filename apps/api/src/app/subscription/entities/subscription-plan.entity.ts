@@ -0,0 +1,59 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Money } from '../../money/money';
+import { MoneyTransformer } from '../../money/money.transformer';
+import { FIAT_DECIMALS } from '../../money/money.constants';
+
+export enum SubscriptionInterval {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+  YEAR = 'year',
+}
+
+@Entity('subscription_plans')
+@Index(['merchantId', 'createdAt'])
+export class SubscriptionPlan {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  merchantId: string;
+
+  @Column()
+  name: string;
+
+  // Charged every billing period
+  @Column('decimal', {
+    precision: 18,
+    scale: FIAT_DECIMALS,
+    transformer: new MoneyTransformer(FIAT_DECIMALS),
+  })
+  amount: Money;
+
+  @Column()
+  currency: string; // ISO 4217 code such as USD or EUR
+
+  // A period is intervalCount intervals long, e.g. 3 months
+  @Column({ type: 'enum', enum: SubscriptionInterval })
+  interval: SubscriptionInterval;
+
+  @Column({ default: 1 })
+  intervalCount: number;
+
+  // Inactive plans keep billing their subscriptions but take no new ones
+  @Column({ default: true })
+  active: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,115 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { SubscriptionPlan } from './subscription-plan.entity';
+import { Money } from '../../money/money';
+import { MoneyTransformer } from '../../money/money.transformer';
+import { TOKEN_DECIMALS } from '../../money/money.constants';
+
+export enum SubscriptionStatus {
+  INCOMPLETE = 'incomplete', // Waiting for the approval and first payment
+  ACTIVE = 'active',
+  PAST_DUE = 'past_due', // Last charge failed, retrying
+  CANCELED = 'canceled',
+}
+
+// The scheduler picks up subscriptions by status and due date
+@Entity('subscriptions')
+@Index(['merchantId', 'createdAt'])
+@Index(['status', 'nextBillingAt'])
+export class Subscription {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  merchantId: string;
+
+  @Column()
+  planId: string;
+
+  @ManyToOne(() => SubscriptionPlan, { eager: true })
+  @JoinColumn({ name: 'planId' })
+  plan: SubscriptionPlan;
+
+  @Column()
+  customerWallet: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  customerEmail: string | null;
+
+  // Customer's token account charges are pulled from
+  @Column()
+  tokenAccount: string;
+
+  // Merchant's settlement token when the subscription was created
+  @Column()
+  settlementMint: string;
+
+  @Column()
+  settlementDecimals: number;
+
+  // Delegate the customer approves on their token account
+  @Column()
+  billingAuthority: string;
+
+  // Allowance asked for in the last approval, in the settlement token
+  @Column('decimal', {
+    precision: 38,
+    scale: TOKEN_DECIMALS,
+    transformer: new MoneyTransformer(TOKEN_DECIMALS),
+  })
+  approvedAmount: Money;
+
+  @Column({
+    type: 'enum',
+    enum: SubscriptionStatus,
+    default: SubscriptionStatus.INCOMPLETE,
+  })
+  status: SubscriptionStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  currentPeriodStart: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  currentPeriodEnd: Date | null;
+
+  // When the scheduler charges next, null until activated and once canceled
+  @Column({ type: 'timestamp', nullable: true })
+  nextBillingAt: Date | null;
+
+  // Failed charges since the last successful one
+  @Column({ default: 0 })
+  failedAttempts: number;
+
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  latestPaymentId: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  lastFailureCode: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastFailureReason: string | null;
+
+  @Column({ default: false })
+  cancelAtPeriodEnd: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  canceledAt: Date | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  cancellationReason: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,26 @@
+import { Subscription } from '../entities/subscription.entity';
+
+// Why a charge failed before or instead of landing on-chain
+export enum SubscriptionChargeFailure {
+  TOKEN_ACCOUNT_CLOSED = 'token_account_closed',
+  APPROVAL_REVOKED = 'approval_revoked', // Delegate removed or replaced
+  ALLOWANCE_EXHAUSTED = 'allowance_exhausted',
+  INSUFFICIENT_FUNDS = 'insufficient_funds',
+  SETTLEMENT_TOKEN_CHANGED = 'settlement_token_changed',
+  TRANSACTION_REJECTED = 'transaction_rejected',
+}
+
+export enum SubscriptionCancellationReason {
+  REQUESTED = 'requested', // By the merchant, now or at the period end
+  PAYMENT_FAILED = 'payment_failed', // Every retry failed
+}
+
+export interface SubscriptionChargeCheck {
+  code: SubscriptionChargeFailure;
+  message: string;
+}
+
+export interface SubscriptionApproval {
+  subscription: Subscription;
+  transaction: string; // Unsigned approve transaction for the customer, base64
+}
@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { SubscriptionPlanService } from './subscription-plan.service';
+import { CreateSubscriptionPlanDto } from './dto/create-subscription-plan.dto';
+import { SubscriptionPlan } from './entities/subscription-plan.entity';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthMerchantId, Scopes } from '../auth/auth.decorators';
+import { ApiKeyScope } from '../auth/models/api-key.model';
+
+@Controller('subscription-plans')
+@UseGuards(AuthGuard)
+export class SubscriptionPlanController {
+  private readonly logger = new Logger(SubscriptionPlanController.name);
+
+  constructor(private readonly planService: SubscriptionPlanService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Scopes(ApiKeyScope.SUBSCRIPTIONS_WRITE)
+  async create(
+    @Body() createPlanDto: CreateSubscriptionPlanDto,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<SubscriptionPlan> {
+    this.logger.log(
+      `Create subscription plan request for merchant ${merchantId}: ${JSON.stringify(
+        createPlanDto,
+      )}`,
+    );
+
+    return this.planService.createPlan(merchantId, createPlanDto);
+  }
+
+  @Get()
+  @Scopes(ApiKeyScope.SUBSCRIPTIONS_READ)
+  async findAll(
+    @AuthMerchantId() merchantId: string,
+  ): Promise<SubscriptionPlan[]> {
+    return this.planService.getPlans(merchantId);
+  }
+
+  @Get(':id')
+  @Scopes(ApiKeyScope.SUBSCRIPTIONS_READ)
+  async findOne(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<SubscriptionPlan> {
+    return this.planService.getPlan(merchantId, id);
+  }
+
+  @Post(':id/deactivate')
+  @Scopes(ApiKeyScope.SUBSCRIPTIONS_WRITE)
+  async deactivate(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<SubscriptionPlan> {
+    this.logger.log(`Deactivate subscription plan request: ${id}`);
+    return this.planService.deactivatePlan(merchantId, id);
+  }
+}
@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { SubscriptionPlanService } from './subscription-plan.service';
+import {
+  SubscriptionInterval,
+  SubscriptionPlan,
+} from './entities/subscription-plan.entity';
+import { CreateSubscriptionPlanDto } from './dto/create-subscription-plan.dto';
+import { FxService } from '../fx/fx.service';
+
+describe('SubscriptionPlanService', () => {
+  let service: SubscriptionPlanService;
+
+  const planId = '3f6a9c2e-1b4d-4e7f-8a5c-2d9e6b3f1a7c';
+
+  const planRepository = {
+    create: jest.fn((plan) => Object.assign(new SubscriptionPlan(), plan)),
+    save: jest.fn(async (plan) => ({ id: plan.id ?? planId, ...plan })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+  const fxService = {
+    normalizeCurrency: jest.fn((currency: string) => currency.toUpperCase()),
+  };
+
+  const createDto = (
+    overrides: Partial<CreateSubscriptionPlanDto> = {},
+  ): CreateSubscriptionPlanDto => ({
+    name: 'Pro',
+    amount: 10,
+    currency: 'usd',
+    interval: SubscriptionInterval.MONTH,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubscriptionPlanService,
+        {
+          provide: getRepositoryToken(SubscriptionPlan),
+          useValue: planRepository,
+        },
+        { provide: FxService, useValue: fxService },
+      ],
+    }).compile();
+
+    service = module.get<SubscriptionPlanService>(SubscriptionPlanService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createPlan', () => {
+    it('creates an active plan billed every interval by default', async () => {
+      const plan = await service.createPlan('merchant-1', createDto());
+
+      expect(plan.amount.toString()).toBe('10');
+      expect(plan.currency).toBe('USD');
+      expect(plan.intervalCount).toBe(1);
+      expect(plan.active).toBe(true);
+    });
+
+    it.each([
+      ['a blank name', { name: ' ' }],
+      ['a zero amount', { amount: 0 }],
+      [
+        'an unknown interval',
+        { interval: 'fortnight' as SubscriptionInterval },
+      ],
+      ['a fractional interval count', { intervalCount: 1.5 }],
+      ['too many intervals', { intervalCount: 37 }],
+    ])('rejects %s', async (_, overrides) => {
+      await expect(
+        service.createPlan('merchant-1', createDto(overrides)),
+      ).rejects.toThrow(BadRequestException);
+      expect(planRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPlan', () => {
+    it('hides plans of other merchants', async () => {
+      planRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getPlan('merchant-2', planId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(planRepository.findOne).toHaveBeenCalledWith({
+        where: { id: planId, merchantId: 'merchant-2' },
+      });
+    });
+
+    it('treats malformed ids as missing', async () => {
+      await expect(service.getPlan('merchant-1', 'nope')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(planRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  it('deactivates plans without touching inactive ones', async () => {
+    planRepository.findOne.mockResolvedValueOnce({ id: planId, active: true });
+    expect((await service.deactivatePlan('merchant-1', planId)).active).toBe(
+      false,
+    );
+
+    planRepository.findOne.mockResolvedValueOnce({ id: planId, active: false });
+    await service.deactivatePlan('merchant-1', planId);
+    expect(planRepository.save).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { isUUID } from 'class-validator';
+import {
+  SubscriptionInterval,
+  SubscriptionPlan,
+} from './entities/subscription-plan.entity';
+import { CreateSubscriptionPlanDto } from './dto/create-subscription-plan.dto';
+import {
+  MAX_SUBSCRIPTION_INTERVAL_COUNT,
+  MAX_SUBSCRIPTION_PLAN_NAME_LENGTH,
+} from './subscription.constants';
+import { FxService } from '../fx/fx.service';
+import { Money } from '../money/money';
+import { FIAT_DECIMALS } from '../money/money.constants';
+
+@Injectable()
+export class SubscriptionPlanService {
+  private readonly logger = new Logger(SubscriptionPlanService.name);
+
+  constructor(
+    @InjectRepository(SubscriptionPlan)
+    private planRepository: Repository<SubscriptionPlan>,
+    private readonly fxService: FxService,
+  ) {}
+
+  /**
+   * Create a plan customers can subscribe to
+   */
+  async createPlan(
+    merchantId: string,
+    createPlanDto: CreateSubscriptionPlanDto,
+  ): Promise<SubscriptionPlan> {
+    const name = (createPlanDto.name || '').trim();
+    if (!name || name.length > MAX_SUBSCRIPTION_PLAN_NAME_LENGTH) {
+      throw new BadRequestException(
+        `name must be 1 to ${MAX_SUBSCRIPTION_PLAN_NAME_LENGTH} characters`,
+      );
+    }
+
+    let amount: Money | null = null;
+    if (
+      typeof createPlanDto.amount === 'number' ||
+      typeof createPlanDto.amount === 'string'
+    ) {
+      try {
+        amount = Money.of(createPlanDto.amount, FIAT_DECIMALS);
+      } catch {
+        amount = null;
+      }
+    }
+    if (!amount || !amount.isPositive()) {
+      throw new BadRequestException('amount must be a positive number');
+    }
+
+    if (!Object.values(SubscriptionInterval).includes(createPlanDto.interval)) {
+      throw new BadRequestException(
+        `interval must be one of ${Object.values(SubscriptionInterval).join(', ')}`,
+      );
+    }
+
+    const intervalCount = createPlanDto.intervalCount ?? 1;
+    if (
+      !Number.isInteger(intervalCount) ||
+      intervalCount < 1 ||
+      intervalCount > MAX_SUBSCRIPTION_INTERVAL_COUNT
+    ) {
+      throw new BadRequestException(
+        `intervalCount must be a whole number from 1 to ${MAX_SUBSCRIPTION_INTERVAL_COUNT}`,
+      );
+    }
+
+    const plan = await this.planRepository.save(
+      this.planRepository.create({
+        merchantId,
+        name,
+        amount,
+        currency: this.fxService.normalizeCurrency(createPlanDto.currency),
+        interval: createPlanDto.interval,
+        intervalCount,
+        active: true,
+      }),
+    );
+
+    this.logger.log(
+      `Created subscription plan ${plan.id} for merchant ${merchantId}`,
+    );
+    return plan;
+  }
+
+  /**
+   * The merchant's plans, newest first
+   */
+  async getPlans(merchantId: string): Promise<SubscriptionPlan[]> {
+    return this.planRepository.find({
+      where: { merchantId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Get one of the merchant's plans
+   */
+  async getPlan(merchantId: string, id: string): Promise<SubscriptionPlan> {
+    const plan = isUUID(id)
+      ? await this.planRepository.findOne({ where: { id, merchantId } })
+      : null;
+
+    if (!plan) {
+      throw new NotFoundException(`Subscription plan with ID ${id} not found`);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Stop taking new subscriptions, existing ones keep being billed
+   */
+  async deactivatePlan(
+    merchantId: string,
+    id: string,
+  ): Promise<SubscriptionPlan> {
+    const plan = await this.getPlan(merchantId, id);
+
+    if (!plan.active) {
+      return plan;
+    }
+
+    plan.active = false;
+    const updatedPlan = await this.planRepository.save(plan);
+
+    this.logger.log(`Deactivated subscription plan ${id}`);
+    return updatedPlan;
+  }
+}
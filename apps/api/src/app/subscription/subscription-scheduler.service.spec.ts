@@ -0,0 +1,73 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SubscriptionSchedulerService } from './subscription-scheduler.service';
+import { SubscriptionService } from './subscription.service';
+import { Subscription } from './entities/subscription.entity';
+
+describe('SubscriptionSchedulerService', () => {
+  let service: SubscriptionSchedulerService;
+
+  const subscriptionRepository = { find: jest.fn() };
+  const subscriptionService = { chargeSubscription: jest.fn() };
+  const configService = {
+    get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubscriptionSchedulerService,
+        {
+          provide: getRepositoryToken(Subscription),
+          useValue: subscriptionRepository,
+        },
+        { provide: SubscriptionService, useValue: subscriptionService },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<SubscriptionSchedulerService>(
+      SubscriptionSchedulerService,
+    );
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('charges every due subscription, oldest first', async () => {
+    subscriptionRepository.find.mockResolvedValue([
+      { id: 'subscription-1' },
+      { id: 'subscription-2' },
+    ]);
+
+    await service.run();
+
+    expect(subscriptionRepository.find).toHaveBeenCalledWith(
+      expect.objectContaining({ order: { nextBillingAt: 'ASC' }, take: 50 }),
+    );
+    expect(subscriptionService.chargeSubscription).toHaveBeenCalledWith(
+      'subscription-1',
+    );
+    expect(subscriptionService.chargeSubscription).toHaveBeenCalledWith(
+      'subscription-2',
+    );
+  });
+
+  it('keeps charging when a single subscription fails', async () => {
+    subscriptionRepository.find.mockResolvedValue([
+      { id: 'subscription-1' },
+      { id: 'subscription-2' },
+    ]);
+    subscriptionService.chargeSubscription.mockRejectedValueOnce(
+      new Error('boom'),
+    );
+
+    await service.run();
+
+    expect(subscriptionService.chargeSubscription).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThanOrEqual, Repository } from 'typeorm';
+import { Subscription } from './entities/subscription.entity';
+import { SubscriptionService } from './subscription.service';
+import { BILLABLE_SUBSCRIPTION_STATUSES } from './subscription.constants';
+
+@Injectable()
+export class SubscriptionSchedulerService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(SubscriptionSchedulerService.name);
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(
+    @InjectRepository(Subscription)
+    private subscriptionRepository: Repository<Subscription>,
+    private readonly subscriptionService: SubscriptionService,
+    private readonly configService: ConfigService,
+  ) {
+    this.intervalMs = parseInt(
+      this.configService.get('SUBSCRIPTION_BILLING_INTERVAL_MS', '60000'),
+    );
+    this.batchSize = parseInt(
+      this.configService.get('SUBSCRIPTION_BILLING_BATCH_SIZE', '50'),
+    );
+  }
+
+  onModuleInit() {
+    if (
+      this.configService.get('SUBSCRIPTION_BILLING_ENABLED', 'true') !== 'true'
+    ) {
+      this.logger.log('Subscription billing disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.run(), this.intervalMs);
+    this.logger.log(
+      `Subscription billing started, checking every ${this.intervalMs}ms`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Charge every subscription whose next billing date has come
+   */
+  async run(): Promise<void> {
+    // Skip this tick if the previous one is still running
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const subscriptions = await this.subscriptionRepository.find({
+        where: {
+          status: In(BILLABLE_SUBSCRIPTION_STATUSES),
+          nextBillingAt: LessThanOrEqual(new Date()),
+        },
+        order: { nextBillingAt: 'ASC' },
+        take: this.batchSize,
+      });
+
+      for (const subscription of subscriptions) {
+        try {
+          await this.subscriptionService.chargeSubscription(subscription.id);
+        } catch (error) {
+          this.logger.error(
+            `Failed to charge subscription ${subscription.id}: ${error.message}`,
+            error.stack,
+          );
+        }
+      }
+
+      if (subscriptions.length > 0) {
+        this.logger.log(`Charged ${subscriptions.length} due subscriptions`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to charge due subscriptions: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
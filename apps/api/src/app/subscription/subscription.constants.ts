@@ -0,0 +1,33 @@
+import { SubscriptionStatus } from './entities/subscription.entity';
+
+export const MAX_SUBSCRIPTION_PLAN_NAME_LENGTH = 200;
+
+// Periods an intervalCount can span at most, e.g. 36 months
+export const MAX_SUBSCRIPTION_INTERVAL_COUNT = 36;
+
+// The customer approves an allowance covering this many billing periods
+export const DEFAULT_SUBSCRIPTION_APPROVAL_PERIODS = 12;
+export const MAX_SUBSCRIPTION_APPROVAL_PERIODS = 120;
+
+// Room in the allowance for exchange rate moves between charges
+export const SUBSCRIPTION_ALLOWANCE_BUFFER_BPS = 1000;
+
+// How long a charge holds a subscription before another tick may retry it
+export const SUBSCRIPTION_CHARGE_LEASE_MS = 10 * 60 * 1000;
+
+// Key of the subscription ID in the metadata of the payment for each period
+export const SUBSCRIPTION_METADATA_KEY = 'subscriptionId';
+
+// Subscriptions relying on the delegate of their token account, which only
+// ever has one
+export const DELEGATED_SUBSCRIPTION_STATUSES = [
+  SubscriptionStatus.ACTIVE,
+  SubscriptionStatus.PAST_DUE,
+];
+
+// Subscriptions the scheduler charges once they are due
+export const BILLABLE_SUBSCRIPTION_STATUSES = [
+  SubscriptionStatus.INCOMPLETE,
+  SubscriptionStatus.ACTIVE,
+  SubscriptionStatus.PAST_DUE,
+];
@@ -0,0 +1,105 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { SubscriptionService } from './subscription.service';
+import { CreateSubscriptionDto } from './dto/create-subscription.dto';
+import { ApproveSubscriptionDto } from './dto/approve-subscription.dto';
+import { CancelSubscriptionDto } from './dto/cancel-subscription.dto';
+import { Subscription } from './entities/subscription.entity';
+import { SubscriptionApproval } from './models/subscription.model';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthMerchantId, Scopes } from '../auth/auth.decorators';
+import { ApiKeyScope } from '../auth/models/api-key.model';
+
+@Controller('subscriptions')
+@UseGuards(AuthGuard)
+export class SubscriptionController {
+  private readonly logger = new Logger(SubscriptionController.name);
+
+  constructor(private readonly subscriptionService: SubscriptionService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Scopes(ApiKeyScope.SUBSCRIPTIONS_WRITE)
+  async create(
+    @Body() createSubscriptionDto: CreateSubscriptionDto,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<SubscriptionApproval> {
+    this.logger.log(
+      `Create subscription request for merchant ${merchantId}: ${JSON.stringify(
+        createSubscriptionDto,
+      )}`,
+    );
+
+    return this.subscriptionService.createSubscription(
+      merchantId,
+      createSubscriptionDto,
+    );
+  }
+
+  @Get()
+  @Scopes(ApiKeyScope.SUBSCRIPTIONS_READ)
+  async findAll(
+    @AuthMerchantId() merchantId: string,
+    @Query('status') status?: string,
+  ): Promise<Subscription[]> {
+    return this.subscriptionService.getSubscriptions(merchantId, status);
+  }
+
+  @Get(':id')
+  @Scopes(ApiKeyScope.SUBSCRIPTIONS_READ)
+  async findOne(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Subscription> {
+    return this.subscriptionService.getSubscription(merchantId, id);
+  }
+
+  @Post(':id/approval')
+  @Scopes(ApiKeyScope.SUBSCRIPTIONS_WRITE)
+  async approve(
+    @Param('id') id: string,
+    @Body() approveSubscriptionDto: ApproveSubscriptionDto,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<SubscriptionApproval> {
+    return this.subscriptionService.createApproval(
+      merchantId,
+      id,
+      approveSubscriptionDto,
+    );
+  }
+
+  @Post(':id/activate')
+  @Scopes(ApiKeyScope.SUBSCRIPTIONS_WRITE)
+  async activate(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Subscription> {
+    this.logger.log(`Activate subscription request: ${id}`);
+    return this.subscriptionService.activateSubscription(merchantId, id);
+  }
+
+  @Post(':id/cancel')
+  @Scopes(ApiKeyScope.SUBSCRIPTIONS_WRITE)
+  async cancel(
+    @Param('id') id: string,
+    @Body() cancelSubscriptionDto: CancelSubscriptionDto,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<Subscription> {
+    this.logger.log(`Cancel subscription request: ${id}`);
+    return this.subscriptionService.cancelSubscription(
+      merchantId,
+      id,
+      cancelSubscriptionDto,
+    );
+  }
+}
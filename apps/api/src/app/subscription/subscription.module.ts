@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SubscriptionService } from './subscription.service';
+import { SubscriptionPlanService } from './subscription-plan.service';
+import { SubscriptionSchedulerService } from './subscription-scheduler.service';
+import { BillingAuthorityService } from './billing-authority.service';
+import { SubscriptionController } from './subscription.controller';
+import { SubscriptionPlanController } from './subscription-plan.controller';
+import { Subscription } from './entities/subscription.entity';
+import { SubscriptionPlan } from './entities/subscription-plan.entity';
+import { PaymentModule } from '../payment/payment.module';
+import { MerchantModule } from '../merchant/merchant.module';
+import { AuthModule } from '../auth/auth.module';
+import { FxModule } from '../fx/fx.module';
+import { PlatformFeeModule } from '../platform-fee/platform-fee.module';
+import { WebsocketModule } from '../websocket/websocket.module';
+import { WebhookModule } from '../webhook/webhook.module';
+import { SolanaModule } from '../solana/solana.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Subscription, SubscriptionPlan]),
+    PaymentModule,
+    MerchantModule,
+    AuthModule,
+    FxModule,
+    PlatformFeeModule,
+    WebsocketModule,
+    WebhookModule,
+    SolanaModule,
+  ],
+  providers: [
+    SubscriptionService,
+    SubscriptionPlanService,
+    SubscriptionSchedulerService,
+    BillingAuthorityService,
+  ],
+  controllers: [SubscriptionController, SubscriptionPlanController],
+  exports: [SubscriptionService],
+})
+export class SubscriptionModule {}
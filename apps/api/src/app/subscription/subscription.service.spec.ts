@@ -0,0 +1,734 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { FindOperator } from 'typeorm';
+import { Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  decodeApproveCheckedInstruction,
+  decodeTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import { SubscriptionService } from './subscription.service';
+import { SubscriptionPlanService } from './subscription-plan.service';
+import { BillingAuthorityService } from './billing-authority.service';
+import {
+  Subscription,
+  SubscriptionStatus,
+} from './entities/subscription.entity';
+import {
+  SubscriptionInterval,
+  SubscriptionPlan,
+} from './entities/subscription-plan.entity';
+import {
+  SubscriptionCancellationReason,
+  SubscriptionChargeFailure,
+} from './models/subscription.model';
+import { addBillingInterval } from './subscription.utils';
+import { PaymentService } from '../payment/payment.service';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { MerchantService } from '../merchant/merchant.service';
+import { FxService } from '../fx/fx.service';
+import { PlatformFeeService } from '../platform-fee/platform-fee.service';
+import { PaymentGateway } from '../websocket/payment/payment.gateway';
+import {
+  PaymentEventListener,
+  PaymentEventType,
+} from '../websocket/models/event.model';
+import { WebhookService } from '../webhook/webhook.service';
+import {
+  NATIVE_SOL_DECIMALS,
+  NATIVE_SOL_MINT,
+  SOLANA_CONNECTION,
+  USDC_MINT,
+} from '../solana/solana.constants';
+import { Money } from '../money/money';
+import { FIAT_DECIMALS } from '../money/money.constants';
+
+describe('SubscriptionService', () => {
+  let service: SubscriptionService;
+  let subscriptions: Subscription[];
+  let payments: Map<string, Payment>;
+  let paymentListener: PaymentEventListener;
+  let tokenAccount: {
+    amount: bigint;
+    delegate: PublicKey | null;
+    delegatedAmount: bigint;
+  } | null;
+  let platformFee: Money | null;
+  let sentTransactions: Buffer[];
+
+  const planId = '0c8e3f5a-7b2d-4e1f-9a6c-3d5b7e9f1a2c';
+  const subscriptionId = '9d4c2b1a-6e5f-4a3b-8c7d-1e2f3a4b5c6d';
+  const platformKeypair = Keypair.generate();
+  const merchantWallet = Keypair.generate().publicKey.toBase58();
+  const customerWallet = Keypair.generate().publicKey.toBase58();
+  const feeTokenAccount = Keypair.generate().publicKey.toBase58();
+  const customerTokenAccount = getAssociatedTokenAddressSync(
+    new PublicKey(USDC_MINT),
+    new PublicKey(customerWallet),
+  );
+
+  const plan = {
+    id: planId,
+    merchantId: 'merchant-1',
+    name: 'Pro',
+    amount: Money.of(10, 6),
+    currency: 'USD',
+    interval: SubscriptionInterval.MONTH,
+    intervalCount: 1,
+    active: true,
+  } as SubscriptionPlan;
+  const merchant = {
+    id: 'merchant-1',
+    walletAddress: merchantWallet,
+    settlementMint: USDC_MINT,
+    settlementDecimals: 6,
+  };
+
+  // Dates and IsNull() match the way the database compares them
+  const matches = (subscription: Subscription, where: object) =>
+    Object.entries(where).every(([key, value]) => {
+      const field = subscription[key as keyof Subscription];
+      if (value instanceof FindOperator) {
+        return value.type === 'isNull' && field === null;
+      }
+      if (value instanceof Date) {
+        return field instanceof Date && field.getTime() === value.getTime();
+      }
+      return field === value;
+    });
+
+  const subscriptionRepository = {
+    create: jest.fn((subscription) =>
+      Object.assign(new Subscription(), subscription),
+    ),
+    save: jest.fn(async (subscription) => {
+      subscription.id = subscription.id ?? subscriptionId;
+      subscriptions = [
+        ...subscriptions.filter(({ id }) => id !== subscription.id),
+        subscription,
+      ];
+      return subscription;
+    }),
+    find: jest.fn(async ({ where }) =>
+      subscriptions.filter((subscription) => matches(subscription, where)),
+    ),
+    findOne: jest.fn(
+      async ({ where }) =>
+        subscriptions.find((subscription) => matches(subscription, where)) ??
+        null,
+    ),
+    update: jest.fn(async (where, changes) => {
+      const matching = subscriptions.filter((subscription) =>
+        matches(subscription, where),
+      );
+      matching.forEach((subscription) => Object.assign(subscription, changes));
+      return { affected: matching.length };
+    }),
+  };
+  const planService = {
+    getPlan: jest.fn(async () => plan),
+  };
+  const paymentService = {
+    onPaymentEvent: jest.fn((listener) => (paymentListener = listener)),
+    createPayment: jest.fn(async (dto) => {
+      const payment = {
+        id: `payment-${payments.size + 1}`,
+        merchantId: dto.merchantId,
+        amount: Money.of(dto.amount, 6),
+        currency: dto.currency,
+        metadata: dto.metadata,
+        destinationWallet: merchantWallet,
+        settlementMint: merchant.settlementMint,
+        settlementDecimals: merchant.settlementDecimals,
+        settlementAmount: null,
+        netAmount: null,
+        platformFeeAmount: null,
+        status: PaymentStatus.PENDING,
+      } as Payment;
+      payments.set(payment.id, payment);
+      return payment;
+    }),
+    getPaymentById: jest.fn(async (id: string) => payments.get(id)),
+    // One dollar buys one USDC
+    ensureExchangeRate: jest.fn(async (payment: Payment) => {
+      payment.settlementAmount = payment.amount.rescale(6);
+      payment.platformFeeAmount = platformFee;
+      payment.netAmount = platformFee
+        ? payment.settlementAmount.subtract(platformFee)
+        : payment.settlementAmount;
+      return payment;
+    }),
+    markProcessing: jest.fn(async (id: string, wallet: string) => {
+      const payment = payments.get(id);
+      payment.status = PaymentStatus.PROCESSING;
+      payment.customerWallet = wallet;
+      return payment;
+    }),
+    updatePaymentStatusAfterSubmission: jest.fn(
+      async (id: string, signature: string) => {
+        const payment = payments.get(id);
+        payment.transactionSignature = signature;
+        return payment;
+      },
+    ),
+    failPayment: jest.fn(async (id: string, reason: string, code: string) => {
+      const payment = payments.get(id);
+      payment.status = PaymentStatus.FAILED;
+      await paymentListener({
+        type: PaymentEventType.PAYMENT_FAILED,
+        paymentId: id,
+        merchantId: payment.merchantId,
+        data: { payment, reason, code },
+        timestamp: new Date(),
+      });
+      return payment;
+    }),
+    expirePayment: jest.fn(),
+  };
+  const merchantService = {
+    getMerchantById: jest.fn(async () => merchant),
+  };
+  const fxService = {
+    quoteSettlement: jest.fn(async (amount: Money) => ({
+      settlementAmount: amount.rescale(6),
+    })),
+  };
+  const platformFeeService = {
+    getFeeTokenAccount: jest.fn(async () => feeTokenAccount),
+  };
+  const paymentGateway = { emitToMerchant: jest.fn() };
+  const webhookService = { dispatch: jest.fn() };
+  const configService = {
+    get: jest.fn((key: string, defaultValue?: string) =>
+      key === 'BILLING_AUTHORITY_SECRET_KEY'
+        ? JSON.stringify(Array.from(platformKeypair.secretKey))
+        : defaultValue,
+    ),
+  };
+  const connection = {
+    getLatestBlockhash: jest.fn(async () => ({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 1000,
+    })),
+    // Serves the customer's token account the way an RPC node would
+    getAccountInfo: jest.fn(async () => {
+      if (!tokenAccount) {
+        return null;
+      }
+
+      const data = Buffer.alloc(ACCOUNT_SIZE);
+      AccountLayout.encode(
+        {
+          mint: new PublicKey(USDC_MINT),
+          owner: new PublicKey(customerWallet),
+          amount: tokenAccount.amount,
+          delegateOption: tokenAccount.delegate ? 1 : 0,
+          delegate: tokenAccount.delegate ?? PublicKey.default,
+          state: AccountState.Initialized,
+          isNativeOption: 0,
+          isNative: BigInt(0),
+          delegatedAmount: tokenAccount.delegatedAmount,
+          closeAuthorityOption: 0,
+          closeAuthority: PublicKey.default,
+        },
+        data,
+      );
+      return {
+        owner: TOKEN_PROGRAM_ID,
+        data,
+        lamports: 2039280,
+        executable: false,
+      };
+    }),
+    sendRawTransaction: jest.fn(async (raw: Buffer) => {
+      sentTransactions.push(raw);
+      return 'charge-signature';
+    }),
+  };
+
+  const billingAuthority = () =>
+    new BillingAuthorityService(
+      configService as unknown as ConfigService,
+    ).getMerchantAuthority('merchant-1').publicKey;
+
+  const sentTransaction = () => Transaction.from(sentTransactions[0]);
+
+  const approve = (delegatedAmount = 132_000_000) => {
+    tokenAccount = {
+      amount: BigInt(1_000_000_000),
+      delegate: billingAuthority(),
+      delegatedAmount: BigInt(delegatedAmount),
+    };
+  };
+
+  const createSubscription = async () =>
+    (
+      await service.createSubscription('merchant-1', {
+        planId,
+        customerWallet,
+      })
+    ).subscription;
+
+  const complete = (paymentId: string) =>
+    paymentListener({
+      type: PaymentEventType.PAYMENT_COMPLETED,
+      paymentId,
+      merchantId: 'merchant-1',
+      data: payments.get(paymentId),
+      timestamp: new Date(),
+    });
+
+  const emitted = () =>
+    paymentGateway.emitToMerchant.mock.calls.map(([, event]) => event.type);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    subscriptions = [];
+    payments = new Map();
+    tokenAccount = null;
+    platformFee = null;
+    sentTransactions = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubscriptionService,
+        BillingAuthorityService,
+        {
+          provide: getRepositoryToken(Subscription),
+          useValue: subscriptionRepository,
+        },
+        { provide: SubscriptionPlanService, useValue: planService },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: MerchantService, useValue: merchantService },
+        { provide: FxService, useValue: fxService },
+        { provide: PlatformFeeService, useValue: platformFeeService },
+        { provide: PaymentGateway, useValue: paymentGateway },
+        { provide: WebhookService, useValue: webhookService },
+        { provide: ConfigService, useValue: configService },
+        { provide: SOLANA_CONNECTION, useValue: connection },
+      ],
+    }).compile();
+
+    service = module.get<SubscriptionService>(SubscriptionService);
+    service.onModuleInit();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  // A subscription of another merchant billed from the customer's account
+  const billedElsewhere = (status = SubscriptionStatus.ACTIVE) =>
+    subscriptions.push(
+      Object.assign(new Subscription(), {
+        id: 'other-subscription',
+        merchantId: 'merchant-2',
+        tokenAccount: customerTokenAccount.toBase58(),
+        status,
+      }),
+    );
+
+  describe('createSubscription', () => {
+    it('builds an approval of the billing authority covering the allowance', async () => {
+      const { subscription, transaction } = await service.createSubscription(
+        'merchant-1',
+        { planId, customerWallet, approvalPeriods: 12 },
+      );
+
+      expect(subscription.status).toBe(SubscriptionStatus.INCOMPLETE);
+      expect(subscription.billingAuthority).toBe(billingAuthority().toBase58());
+      expect(subscription.tokenAccount).toBe(customerTokenAccount.toBase58());
+      // Twelve periods of 10 USDC plus a 10% buffer for rate changes
+      expect(subscription.approvedAmount.toString()).toBe('132');
+
+      const decoded = Transaction.from(Buffer.from(transaction, 'base64'));
+      expect(decoded.feePayer.toBase58()).toBe(customerWallet);
+      const approval = decodeApproveCheckedInstruction(decoded.instructions[0]);
+      expect(approval.keys.account.pubkey).toEqual(customerTokenAccount);
+      expect(approval.keys.delegate.pubkey).toEqual(billingAuthority());
+      expect(approval.keys.owner.pubkey.toBase58()).toBe(customerWallet);
+      expect(approval.data.amount).toBe(BigInt(132_000_000));
+      expect(approval.data.decimals).toBe(6);
+
+      expect(emitted()).toEqual([PaymentEventType.SUBSCRIPTION_CREATED]);
+    });
+
+    it('rejects merchants settling in native SOL', async () => {
+      merchantService.getMerchantById.mockResolvedValueOnce({
+        ...merchant,
+        settlementMint: NATIVE_SOL_MINT,
+        settlementDecimals: NATIVE_SOL_DECIMALS,
+      });
+
+      await expect(createSubscription()).rejects.toThrow(BadRequestException);
+      expect(subscriptions).toHaveLength(0);
+    });
+
+    it('rejects inactive plans and invalid wallets', async () => {
+      planService.getPlan.mockResolvedValueOnce({ ...plan, active: false });
+      await expect(createSubscription()).rejects.toThrow(
+        'Subscription plan is no longer active',
+      );
+
+      await expect(
+        service.createSubscription('merchant-1', {
+          planId,
+          customerWallet: 'not-a-wallet',
+        }),
+      ).rejects.toThrow('Invalid customer wallet address');
+    });
+
+    it('rejects a token account another subscription is billed from', async () => {
+      billedElsewhere();
+
+      await expect(createSubscription()).rejects.toThrow(
+        'can only have one delegate',
+      );
+      expect(subscriptions).toHaveLength(1);
+    });
+
+    it('ignores subscriptions that no longer use the token account', async () => {
+      billedElsewhere(SubscriptionStatus.CANCELED);
+
+      const subscription = await createSubscription();
+
+      expect(subscription.status).toBe(SubscriptionStatus.INCOMPLETE);
+    });
+  });
+
+  describe('activateSubscription', () => {
+    it('refuses to bill without an approval on the token account', async () => {
+      await createSubscription();
+      tokenAccount = {
+        amount: BigInt(1_000_000_000),
+        delegate: null,
+        delegatedAmount: BigInt(0),
+      };
+
+      await expect(
+        service.activateSubscription('merchant-1', subscriptionId),
+      ).rejects.toThrow(BadRequestException);
+      expect(paymentService.createPayment).not.toHaveBeenCalled();
+    });
+
+    it('refuses to bill a token account another subscription took over', async () => {
+      await createSubscription();
+      billedElsewhere();
+      approve();
+
+      await expect(
+        service.activateSubscription('merchant-1', subscriptionId),
+      ).rejects.toThrow('can only have one delegate');
+      expect(paymentService.createPayment).not.toHaveBeenCalled();
+    });
+
+    it('pulls the first charge through the delegate and activates once paid', async () => {
+      await createSubscription();
+      approve();
+
+      await service.activateSubscription('merchant-1', subscriptionId);
+
+      expect(paymentService.createPayment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          merchantId: 'merchant-1',
+          amount: Money.of(10, FIAT_DECIMALS),
+          currency: 'USD',
+          metadata: { subscriptionId },
+        }),
+      );
+      expect(paymentService.markProcessing).toHaveBeenCalledWith(
+        'payment-1',
+        customerWallet,
+      );
+      expect(
+        paymentService.updatePaymentStatusAfterSubmission,
+      ).toHaveBeenCalledWith('payment-1', 'charge-signature');
+
+      const transaction = sentTransaction();
+      expect(transaction.feePayer).toEqual(platformKeypair.publicKey);
+      expect(transaction.verifySignatures()).toBe(true);
+      const transfer = decodeTransferCheckedInstruction(
+        transaction.instructions[0],
+      );
+      expect(transfer.keys.source.pubkey).toEqual(customerTokenAccount);
+      expect(transfer.keys.destination.pubkey).toEqual(
+        getAssociatedTokenAddressSync(
+          new PublicKey(USDC_MINT),
+          new PublicKey(merchantWallet),
+        ),
+      );
+      expect(transfer.keys.owner.pubkey).toEqual(billingAuthority());
+      expect(transfer.data.amount).toBe(BigInt(10_000_000));
+
+      await complete('payment-1');
+
+      const subscription = subscriptions[0];
+      expect(subscription.status).toBe(SubscriptionStatus.ACTIVE);
+      expect(subscription.currentPeriodEnd).toEqual(
+        addBillingInterval(
+          subscription.currentPeriodStart,
+          SubscriptionInterval.MONTH,
+        ),
+      );
+      expect(subscription.nextBillingAt).toEqual(subscription.currentPeriodEnd);
+      expect(emitted()).toContain(PaymentEventType.SUBSCRIPTION_ACTIVATED);
+    });
+
+    it('sends the platform fee to the fee account in the same transaction', async () => {
+      await createSubscription();
+      approve();
+      platformFee = Money.of('0.25', 6);
+
+      await service.activateSubscription('merchant-1', subscriptionId);
+
+      const [merchantTransfer, feeTransfer] =
+        sentTransaction().instructions.map((instruction) =>
+          decodeTransferCheckedInstruction(instruction),
+        );
+      expect(merchantTransfer.data.amount).toBe(BigInt(9_750_000));
+      expect(feeTransfer.keys.destination.pubkey.toBase58()).toBe(
+        feeTokenAccount,
+      );
+      expect(feeTransfer.data.amount).toBe(BigInt(250_000));
+    });
+  });
+
+  describe('chargeSubscription', () => {
+    const activeSubscription = async (periodEnd: Date) => {
+      await createSubscription();
+      Object.assign(subscriptions[0], {
+        status: SubscriptionStatus.ACTIVE,
+        currentPeriodStart: new Date(periodEnd.getTime() - 86_400_000),
+        currentPeriodEnd: periodEnd,
+        nextBillingAt: periodEnd,
+        latestPaymentId: null,
+      });
+      approve();
+      jest.clearAllMocks();
+    };
+
+    it('renews from the end of the paid period', async () => {
+      const periodEnd = new Date(Date.now() - 60_000);
+      await activeSubscription(periodEnd);
+
+      await service.chargeSubscription(subscriptionId);
+      await complete('payment-1');
+
+      const subscription = subscriptions[0];
+      expect(subscription.currentPeriodStart).toEqual(periodEnd);
+      expect(subscription.currentPeriodEnd).toEqual(
+        addBillingInterval(periodEnd, SubscriptionInterval.MONTH),
+      );
+      expect(emitted()).toEqual([PaymentEventType.SUBSCRIPTION_RENEWED]);
+    });
+
+    it('applies a completed payment only once', async () => {
+      await activeSubscription(new Date(Date.now() - 60_000));
+
+      await service.chargeSubscription(subscriptionId);
+      await complete('payment-1');
+      await complete('payment-1');
+
+      expect(emitted()).toEqual([PaymentEventType.SUBSCRIPTION_RENEWED]);
+    });
+
+    it('leaves subscriptions alone before they are due', async () => {
+      await activeSubscription(new Date(Date.now() + 60_000));
+
+      await service.chargeSubscription(subscriptionId);
+
+      expect(paymentService.createPayment).not.toHaveBeenCalled();
+    });
+
+    it('never bills a period twice while its charge is in flight', async () => {
+      await activeSubscription(new Date(Date.now() - 60_000));
+
+      await service.chargeSubscription(subscriptionId);
+      subscriptions[0].nextBillingAt = new Date(Date.now() - 1000);
+      await service.chargeSubscription(subscriptionId);
+
+      expect(paymentService.createPayment).toHaveBeenCalledTimes(1);
+      expect(connection.sendRawTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries failed charges and cancels once every retry failed', async () => {
+      await activeSubscription(new Date(Date.now() - 60_000));
+      tokenAccount.amount = BigInt(1_000_000);
+
+      await service.chargeSubscription(subscriptionId);
+
+      expect(paymentService.failPayment).toHaveBeenCalledWith(
+        'payment-1',
+        expect.any(String),
+        SubscriptionChargeFailure.INSUFFICIENT_FUNDS,
+      );
+      expect(connection.sendRawTransaction).not.toHaveBeenCalled();
+      const subscription = subscriptions[0];
+      expect(subscription.status).toBe(SubscriptionStatus.PAST_DUE);
+      expect(subscription.failedAttempts).toBe(1);
+      expect(subscription.lastFailureCode).toBe(
+        SubscriptionChargeFailure.INSUFFICIENT_FUNDS,
+      );
+      // The first retry follows a day later
+      expect(subscription.nextBillingAt.getTime()).toBeGreaterThan(
+        Date.now() + 23 * 3_600_000,
+      );
+
+      for (let attempt = 2; attempt <= 4; attempt++) {
+        subscription.nextBillingAt = new Date(Date.now() - 1000);
+        await service.chargeSubscription(subscriptionId);
+      }
+
+      expect(paymentService.createPayment).toHaveBeenCalledTimes(4);
+      expect(subscription.status).toBe(SubscriptionStatus.CANCELED);
+      expect(subscription.cancellationReason).toBe(
+        SubscriptionCancellationReason.PAYMENT_FAILED,
+      );
+      expect(subscription.nextBillingAt).toBeNull();
+      expect(emitted()).toEqual([
+        PaymentEventType.SUBSCRIPTION_PAYMENT_FAILED,
+        PaymentEventType.SUBSCRIPTION_PAYMENT_FAILED,
+        PaymentEventType.SUBSCRIPTION_PAYMENT_FAILED,
+        PaymentEventType.SUBSCRIPTION_PAYMENT_FAILED,
+        PaymentEventType.SUBSCRIPTION_CANCELED,
+      ]);
+    });
+
+    it('fails the charge when the customer revoked the approval', async () => {
+      await activeSubscription(new Date(Date.now() - 60_000));
+      tokenAccount.delegate = Keypair.generate().publicKey;
+
+      await service.chargeSubscription(subscriptionId);
+
+      expect(paymentService.failPayment).toHaveBeenCalledWith(
+        'payment-1',
+        expect.any(String),
+        SubscriptionChargeFailure.APPROVAL_REVOKED,
+      );
+    });
+
+    it('fails the charge when the allowance is used up', async () => {
+      await activeSubscription(new Date(Date.now() - 60_000));
+      tokenAccount.delegatedAmount = BigInt(5_000_000);
+
+      await service.chargeSubscription(subscriptionId);
+
+      expect(paymentService.failPayment).toHaveBeenCalledWith(
+        'payment-1',
+        expect.any(String),
+        SubscriptionChargeFailure.ALLOWANCE_EXHAUSTED,
+      );
+    });
+
+    it('fails the charge when the token account was closed', async () => {
+      await activeSubscription(new Date(Date.now() - 60_000));
+      tokenAccount = null;
+
+      await service.chargeSubscription(subscriptionId);
+
+      expect(paymentService.failPayment).toHaveBeenCalledWith(
+        'payment-1',
+        expect.any(String),
+        SubscriptionChargeFailure.TOKEN_ACCOUNT_CLOSED,
+      );
+    });
+
+    it('fails the charge when the transaction is rejected', async () => {
+      await activeSubscription(new Date(Date.now() - 60_000));
+      connection.sendRawTransaction.mockRejectedValueOnce(
+        new Error('Simulation failed'),
+      );
+
+      await service.chargeSubscription(subscriptionId);
+
+      expect(paymentService.failPayment).toHaveBeenCalledWith(
+        'payment-1',
+        expect.stringContaining('Simulation failed'),
+        SubscriptionChargeFailure.TRANSACTION_REJECTED,
+      );
+      expect(
+        paymentService.updatePaymentStatusAfterSubmission,
+      ).not.toHaveBeenCalled();
+      expect(subscriptions[0].status).toBe(SubscriptionStatus.PAST_DUE);
+    });
+  });
+
+  describe('cancelSubscription', () => {
+    it('cancels right away and expires the unpaid charge', async () => {
+      await createSubscription();
+      subscriptions[0].latestPaymentId = 'payment-1';
+
+      const subscription = await service.cancelSubscription(
+        'merchant-1',
+        subscriptionId,
+      );
+
+      expect(subscription.status).toBe(SubscriptionStatus.CANCELED);
+      expect(subscription.cancellationReason).toBe(
+        SubscriptionCancellationReason.REQUESTED,
+      );
+      expect(paymentService.expirePayment).toHaveBeenCalledWith('payment-1');
+      expect(emitted()).toContain(PaymentEventType.SUBSCRIPTION_CANCELED);
+    });
+
+    it('runs out the paid period before canceling', async () => {
+      await createSubscription();
+      const periodEnd = new Date(Date.now() + 60_000);
+      Object.assign(subscriptions[0], {
+        status: SubscriptionStatus.ACTIVE,
+        currentPeriodEnd: periodEnd,
+        nextBillingAt: periodEnd,
+      });
+
+      const subscription = await service.cancelSubscription(
+        'merchant-1',
+        subscriptionId,
+        { atPeriodEnd: true },
+      );
+      expect(subscription.status).toBe(SubscriptionStatus.ACTIVE);
+      expect(subscription.cancelAtPeriodEnd).toBe(true);
+
+      subscription.nextBillingAt = new Date(Date.now() - 1000);
+      await service.chargeSubscription(subscriptionId);
+
+      expect(paymentService.createPayment).not.toHaveBeenCalled();
+      expect(subscriptions[0].status).toBe(SubscriptionStatus.CANCELED);
+    });
+  });
+
+  describe('addBillingInterval', () => {
+    it('clamps monthly periods to the end of shorter months', () => {
+      const start = new Date('2024-01-31T12:00:00Z');
+
+      expect(addBillingInterval(start, SubscriptionInterval.MONTH)).toEqual(
+        new Date('2024-02-29T12:00:00Z'),
+      );
+      expect(addBillingInterval(start, SubscriptionInterval.MONTH, 3)).toEqual(
+        new Date('2024-04-30T12:00:00Z'),
+      );
+      expect(
+        addBillingInterval(
+          new Date('2024-02-29T00:00:00Z'),
+          SubscriptionInterval.YEAR,
+        ),
+      ).toEqual(new Date('2025-02-28T00:00:00Z'));
+    });
+
+    it('adds days and weeks', () => {
+      const start = new Date('2024-03-01T00:00:00Z');
+
+      expect(addBillingInterval(start, SubscriptionInterval.DAY, 2)).toEqual(
+        new Date('2024-03-03T00:00:00Z'),
+      );
+      expect(addBillingInterval(start, SubscriptionInterval.WEEK)).toEqual(
+        new Date('2024-03-08T00:00:00Z'),
+      );
+    });
+  });
+});
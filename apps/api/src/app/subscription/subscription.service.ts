@@ -0,0 +1,918 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { isEmail, isUUID } from 'class-validator';
+import { Connection, PublicKey, Transaction } from '@solana/web3.js';
+import {
+  Account,
+  createApproveCheckedInstruction,
+  createTransferCheckedInstruction,
+  getAccount,
+  getAssociatedTokenAddress,
+  TokenAccountNotFoundError,
+  TokenInvalidAccountOwnerError,
+} from '@solana/spl-token';
+import {
+  Subscription,
+  SubscriptionStatus,
+} from './entities/subscription.entity';
+import { SubscriptionPlan } from './entities/subscription-plan.entity';
+import { CreateSubscriptionDto } from './dto/create-subscription.dto';
+import { ApproveSubscriptionDto } from './dto/approve-subscription.dto';
+import { CancelSubscriptionDto } from './dto/cancel-subscription.dto';
+import {
+  SubscriptionApproval,
+  SubscriptionCancellationReason,
+  SubscriptionChargeCheck,
+  SubscriptionChargeFailure,
+} from './models/subscription.model';
+import {
+  BILLABLE_SUBSCRIPTION_STATUSES,
+  DEFAULT_SUBSCRIPTION_APPROVAL_PERIODS,
+  DELEGATED_SUBSCRIPTION_STATUSES,
+  MAX_SUBSCRIPTION_APPROVAL_PERIODS,
+  SUBSCRIPTION_ALLOWANCE_BUFFER_BPS,
+  SUBSCRIPTION_CHARGE_LEASE_MS,
+  SUBSCRIPTION_METADATA_KEY,
+} from './subscription.constants';
+import { addBillingInterval } from './subscription.utils';
+import { SubscriptionPlanService } from './subscription-plan.service';
+import { BillingAuthorityService } from './billing-authority.service';
+import { PaymentService } from '../payment/payment.service';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { MerchantService } from '../merchant/merchant.service';
+import { FxService } from '../fx/fx.service';
+import { PlatformFeeService } from '../platform-fee/platform-fee.service';
+import { PaymentGateway } from '../websocket/payment/payment.gateway';
+import {
+  PaymentEvent,
+  PaymentEventType,
+} from '../websocket/models/event.model';
+import { WebhookService } from '../webhook/webhook.service';
+import { SOLANA_CONNECTION } from '../solana/solana.constants';
+import { isNativeSol } from '../solana/solana.utils';
+import { Money } from '../money/money';
+import { FIAT_DECIMALS } from '../money/money.constants';
+
+@Injectable()
+export class SubscriptionService implements OnModuleInit {
+  private readonly logger = new Logger(SubscriptionService.name);
+  private readonly retryDelaysHours: number[];
+
+  constructor(
+    @InjectRepository(Subscription)
+    private subscriptionRepository: Repository<Subscription>,
+    private readonly planService: SubscriptionPlanService,
+    private readonly billingAuthorityService: BillingAuthorityService,
+    private readonly paymentService: PaymentService,
+    private readonly merchantService: MerchantService,
+    private readonly fxService: FxService,
+    private readonly platformFeeService: PlatformFeeService,
+    private readonly paymentGateway: PaymentGateway,
+    private readonly webhookService: WebhookService,
+    private readonly configService: ConfigService,
+    @Inject(SOLANA_CONNECTION)
+    private readonly connection: Connection,
+  ) {
+    // Hours to wait before each retry of a failed charge, the subscription
+    // is canceled once all of them failed
+    this.retryDelaysHours = this.configService
+      .get('SUBSCRIPTION_RETRY_DELAYS_HOURS', '24,72,120')
+      .split(',')
+      .map((hours: string) => Number(hours.trim()))
+      .filter((hours: number) => Number.isFinite(hours) && hours > 0);
+  }
+
+  onModuleInit() {
+    this.paymentService.onPaymentEvent((event) =>
+      this.handlePaymentEvent(event),
+    );
+  }
+
+  /**
+   * Subscribe a customer to a plan and build the approval the customer
+   * signs, which lets the merchant's billing authority pull each charge
+   */
+  async createSubscription(
+    merchantId: string,
+    createSubscriptionDto: CreateSubscriptionDto,
+  ): Promise<SubscriptionApproval> {
+    const plan = await this.planService.getPlan(
+      merchantId,
+      createSubscriptionDto.planId,
+    );
+    if (!plan.active) {
+      throw new BadRequestException('Subscription plan is no longer active');
+    }
+
+    let customerWallet: PublicKey;
+    try {
+      customerWallet = new PublicKey(createSubscriptionDto.customerWallet);
+    } catch {
+      throw new BadRequestException('Invalid customer wallet address');
+    }
+
+    const customerEmail = createSubscriptionDto.customerEmail?.trim() || null;
+    if (customerEmail && !isEmail(customerEmail)) {
+      throw new BadRequestException(
+        'customerEmail must be a valid email address',
+      );
+    }
+
+    const approvalPeriods = this.parseApprovalPeriods(
+      createSubscriptionDto.approvalPeriods,
+    );
+
+    const subscription = this.subscriptionRepository.create({
+      merchantId,
+      planId: plan.id,
+      plan,
+      customerWallet: customerWallet.toBase58(),
+      customerEmail,
+      billingAuthority:
+        this.billingAuthorityService.getMerchantAuthorityAddress(merchantId),
+      status: SubscriptionStatus.INCOMPLETE,
+      currentPeriodStart: null,
+      currentPeriodEnd: null,
+      nextBillingAt: null,
+      failedAttempts: 0,
+      latestPaymentId: null,
+      lastFailureCode: null,
+      lastFailureReason: null,
+      cancelAtPeriodEnd: false,
+      canceledAt: null,
+      cancellationReason: null,
+    });
+    await this.applySettlementToken(subscription, approvalPeriods);
+    await this.assertTokenAccountAvailable(subscription);
+
+    const savedSubscription =
+      await this.subscriptionRepository.save(subscription);
+    const transaction = await this.buildApprovalTransaction(savedSubscription);
+
+    await this.notifyMerchant(
+      PaymentEventType.SUBSCRIPTION_CREATED,
+      savedSubscription,
+    );
+
+    this.logger.log(
+      `Created subscription ${savedSubscription.id} to plan ${plan.id} for ${savedSubscription.customerWallet}`,
+    );
+    return { subscription: savedSubscription, transaction };
+  }
+
+  /**
+   * The merchant's subscriptions, newest first
+   */
+  async getSubscriptions(
+    merchantId: string,
+    status?: string,
+  ): Promise<Subscription[]> {
+    if (
+      status &&
+      !Object.values(SubscriptionStatus).includes(status as SubscriptionStatus)
+    ) {
+      throw new BadRequestException(
+        `Invalid status ${status}, expected one of ${Object.values(
+          SubscriptionStatus,
+        ).join(', ')}`,
+      );
+    }
+
+    return this.subscriptionRepository.find({
+      where: {
+        merchantId,
+        ...(status ? { status: status as SubscriptionStatus } : {}),
+      },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Get one of the merchant's subscriptions
+   */
+  async getSubscription(merchantId: string, id: string): Promise<Subscription> {
+    const subscription = isUUID(id)
+      ? await this.subscriptionRepository.findOne({ where: { id, merchantId } })
+      : null;
+
+    if (!subscription) {
+      throw new NotFoundException(`Subscription with ID ${id} not found`);
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Build a new approval for the customer to sign, e.g. once the allowance
+   * is used up, the approval was revoked or the merchant changed its
+   * settlement token
+   */
+  async createApproval(
+    merchantId: string,
+    id: string,
+    approveSubscriptionDto: ApproveSubscriptionDto = {},
+  ): Promise<SubscriptionApproval> {
+    const subscription = await this.getSubscription(merchantId, id);
+
+    if (subscription.status === SubscriptionStatus.CANCELED) {
+      throw new BadRequestException('Canceled subscriptions cannot be renewed');
+    }
+
+    await this.applySettlementToken(
+      subscription,
+      this.parseApprovalPeriods(approveSubscriptionDto.approvalPeriods),
+    );
+    await this.assertTokenAccountAvailable(subscription);
+    const savedSubscription =
+      await this.subscriptionRepository.save(subscription);
+
+    return {
+      subscription: savedSubscription,
+      transaction: await this.buildApprovalTransaction(savedSubscription),
+    };
+  }
+
+  /**
+   * Start billing once the customer's approval landed on-chain, charging the
+   * first period, or the overdue one of a past due subscription, right away
+   */
+  async activateSubscription(
+    merchantId: string,
+    id: string,
+  ): Promise<Subscription> {
+    const subscription = await this.getSubscription(merchantId, id);
+
+    if (
+      subscription.status !== SubscriptionStatus.INCOMPLETE &&
+      subscription.status !== SubscriptionStatus.PAST_DUE
+    ) {
+      throw new BadRequestException(
+        `Subscription in ${subscription.status} state cannot be activated`,
+      );
+    }
+
+    await this.assertTokenAccountAvailable(subscription);
+
+    const account = await this.getTokenAccount(subscription);
+    if (
+      !account ||
+      account.delegate?.toBase58() !== subscription.billingAuthority ||
+      account.delegatedAmount === BigInt(0)
+    ) {
+      throw new BadRequestException(
+        'The customer has not approved the billing authority on their token account',
+      );
+    }
+
+    subscription.nextBillingAt = new Date();
+    await this.subscriptionRepository.save(subscription);
+
+    return this.chargeSubscription(subscription.id);
+  }
+
+  /**
+   * Cancel a subscription now, or once its paid period is over
+   */
+  async cancelSubscription(
+    merchantId: string,
+    id: string,
+    cancelSubscriptionDto: CancelSubscriptionDto = {},
+  ): Promise<Subscription> {
+    const subscription = await this.getSubscription(merchantId, id);
+
+    if (subscription.status === SubscriptionStatus.CANCELED) {
+      return subscription;
+    }
+
+    // Only a paid period can be run out, anything else ends now
+    if (
+      cancelSubscriptionDto.atPeriodEnd &&
+      subscription.status === SubscriptionStatus.ACTIVE
+    ) {
+      subscription.cancelAtPeriodEnd = true;
+      const updatedSubscription =
+        await this.subscriptionRepository.save(subscription);
+
+      this.logger.log(
+        `Subscription ${id} cancels at ${subscription.currentPeriodEnd?.toISOString()}`,
+      );
+      return updatedSubscription;
+    }
+
+    return this.cancel(subscription, SubscriptionCancellationReason.REQUESTED);
+  }
+
+  /**
+   * Charge a due subscription for its next period: create its payment and
+   * pull the settlement token from the customer through the delegate. The
+   * outcome is applied once the payment completes or fails.
+   */
+  async chargeSubscription(id: string): Promise<Subscription> {
+    const subscription = await this.subscriptionRepository.findOne({
+      where: { id },
+    });
+
+    if (
+      !subscription ||
+      !BILLABLE_SUBSCRIPTION_STATUSES.includes(subscription.status) ||
+      !subscription.nextBillingAt ||
+      subscription.nextBillingAt.getTime() > Date.now()
+    ) {
+      return subscription;
+    }
+
+    if (subscription.cancelAtPeriodEnd) {
+      return this.cancel(
+        subscription,
+        SubscriptionCancellationReason.REQUESTED,
+      );
+    }
+
+    // A charge still in flight is settled by the confirmation worker
+    if (subscription.latestPaymentId) {
+      const latestPayment = await this.paymentService.getPaymentById(
+        subscription.latestPaymentId,
+      );
+      if (latestPayment.status === PaymentStatus.PROCESSING) {
+        return subscription;
+      }
+    }
+
+    // Claim the charge, so overlapping runs never bill a period twice
+    const { affected } = await this.subscriptionRepository.update(
+      { id, nextBillingAt: subscription.nextBillingAt },
+      { nextBillingAt: new Date(Date.now() + SUBSCRIPTION_CHARGE_LEASE_MS) },
+    );
+    if (!affected) {
+      return subscription;
+    }
+
+    const payment = await this.paymentService.createPayment({
+      merchantId: subscription.merchantId,
+      amount: subscription.plan.amount,
+      currency: subscription.plan.currency,
+      customerEmail: subscription.customerEmail ?? undefined,
+      metadata: { [SUBSCRIPTION_METADATA_KEY]: subscription.id },
+    });
+    await this.subscriptionRepository.update(
+      { id },
+      { latestPaymentId: payment.id },
+    );
+
+    await this.submitCharge(subscription, payment);
+
+    return this.subscriptionRepository.findOne({ where: { id } });
+  }
+
+  /**
+   * Check the customer's token account and send the delegated transfer,
+   * failing the payment when it cannot be pulled
+   */
+  private async submitCharge(
+    subscription: Subscription,
+    payment: Payment,
+  ): Promise<void> {
+    // Snapshots the exchange rate, so the amount to pull is known
+    const pricedPayment = await this.paymentService.ensureExchangeRate(payment);
+
+    const failure = await this.checkCharge(subscription, pricedPayment);
+    if (failure) {
+      await this.paymentService.failPayment(
+        payment.id,
+        failure.message,
+        failure.code,
+      );
+      return;
+    }
+
+    const processingPayment = await this.paymentService.markProcessing(
+      payment.id,
+      subscription.customerWallet,
+    );
+
+    let signature: string;
+    try {
+      const transaction = await this.buildChargeTransaction(
+        subscription,
+        processingPayment,
+      );
+      signature = await this.connection.sendRawTransaction(
+        transaction.serialize(),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Charge for subscription ${subscription.id} was rejected: ${error.message}`,
+      );
+      await this.paymentService.failPayment(
+        payment.id,
+        `Charge transaction was rejected: ${error.message}`,
+        SubscriptionChargeFailure.TRANSACTION_REJECTED,
+      );
+      return;
+    }
+
+    await this.paymentService.updatePaymentStatusAfterSubmission(
+      payment.id,
+      signature,
+    );
+    this.logger.log(
+      `Sent charge ${signature} for subscription ${subscription.id}, payment ${payment.id}`,
+    );
+  }
+
+  /**
+   * Find why a charge cannot be pulled before paying fees for a transaction
+   * that is bound to fail, null when it can
+   */
+  private async checkCharge(
+    subscription: Subscription,
+    payment: Payment,
+  ): Promise<SubscriptionChargeCheck | null> {
+    if (payment.settlementMint !== subscription.settlementMint) {
+      return {
+        code: SubscriptionChargeFailure.SETTLEMENT_TOKEN_CHANGED,
+        message:
+          'The merchant changed its settlement token since the customer approved the subscription',
+      };
+    }
+
+    const amount = payment.settlementAmount.toBaseUnits(
+      subscription.settlementDecimals,
+    );
+    const account = await this.getTokenAccount(subscription);
+
+    if (!account) {
+      return {
+        code: SubscriptionChargeFailure.TOKEN_ACCOUNT_CLOSED,
+        message: `Token account ${subscription.tokenAccount} no longer exists`,
+      };
+    }
+    if (account.delegate?.toBase58() !== subscription.billingAuthority) {
+      return {
+        code: SubscriptionChargeFailure.APPROVAL_REVOKED,
+        message: 'The customer revoked the approval of the billing authority',
+      };
+    }
+    if (account.delegatedAmount < amount) {
+      return {
+        code: SubscriptionChargeFailure.ALLOWANCE_EXHAUSTED,
+        message: `The approved allowance of ${account.delegatedAmount.toString()} base units does not cover ${amount.toString()}`,
+      };
+    }
+    if (account.amount < amount) {
+      return {
+        code: SubscriptionChargeFailure.INSUFFICIENT_FUNDS,
+        message: `The customer holds ${account.amount.toString()} base units but owes ${amount.toString()}`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Build and sign the transfer from the customer's token account, signed by
+   * the merchant's billing authority as delegate
+   */
+  private async buildChargeTransaction(
+    subscription: Subscription,
+    payment: Payment,
+  ): Promise<Transaction> {
+    const feePayer = this.billingAuthorityService.getFeePayer();
+    const authority = this.billingAuthorityService.getMerchantAuthority(
+      subscription.merchantId,
+    );
+    const decimals = subscription.settlementDecimals;
+    const mint = new PublicKey(subscription.settlementMint);
+    const source = new PublicKey(subscription.tokenAccount);
+
+    const merchantTokenAccount = await getAssociatedTokenAddress(
+      mint,
+      new PublicKey(payment.destinationWallet),
+    );
+    // Payments from before platform fees pay the merchant everything
+    const merchantAmount = (
+      payment.netAmount ?? payment.settlementAmount
+    ).toBaseUnits(decimals);
+    const platformFeeAmount =
+      payment.platformFeeAmount?.toBaseUnits(decimals) ?? BigInt(0);
+
+    const merchantTransfer = createTransferCheckedInstruction(
+      source,
+      mint,
+      merchantTokenAccount,
+      authority.publicKey,
+      merchantAmount,
+      decimals,
+    );
+    // Verification only accepts transactions tagged with the reference key
+    if (payment.reference) {
+      merchantTransfer.keys.push({
+        pubkey: new PublicKey(payment.reference),
+        isSigner: false,
+        isWritable: false,
+      });
+    }
+
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash();
+
+    const transaction = new Transaction({
+      feePayer: feePayer.publicKey,
+      blockhash,
+      lastValidBlockHeight,
+    }).add(merchantTransfer);
+
+    if (platformFeeAmount > BigInt(0)) {
+      transaction.add(
+        createTransferCheckedInstruction(
+          source,
+          mint,
+          new PublicKey(
+            await this.platformFeeService.getFeeTokenAccount(
+              subscription.settlementMint,
+            ),
+          ),
+          authority.publicKey,
+          platformFeeAmount,
+          decimals,
+        ),
+      );
+    }
+
+    transaction.sign(feePayer, authority);
+    return transaction;
+  }
+
+  /**
+   * Build the unsigned approval of the billing authority as delegate of the
+   * customer's token account
+   */
+  private async buildApprovalTransaction(
+    subscription: Subscription,
+  ): Promise<string> {
+    const customerWallet = new PublicKey(subscription.customerWallet);
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash();
+
+    const transaction = new Transaction({
+      feePayer: customerWallet,
+      blockhash,
+      lastValidBlockHeight,
+    }).add(
+      createApproveCheckedInstruction(
+        new PublicKey(subscription.tokenAccount),
+        new PublicKey(subscription.settlementMint),
+        new PublicKey(subscription.billingAuthority),
+        customerWallet,
+        subscription.approvedAmount.toBaseUnits(
+          subscription.settlementDecimals,
+        ),
+        subscription.settlementDecimals,
+      ),
+    );
+
+    return transaction
+      .serialize({ requireAllSignatures: false, verifySignatures: false })
+      .toString('base64');
+  }
+
+  /**
+   * Point the subscription at the merchant's current settlement token and
+   * work out the allowance to approve
+   */
+  private async applySettlementToken(
+    subscription: Subscription,
+    approvalPeriods: number,
+  ): Promise<void> {
+    const merchant = await this.merchantService.getMerchantById(
+      subscription.merchantId,
+    );
+
+    // Native SOL lives in the wallet itself, which cannot have a delegate
+    if (isNativeSol(merchant.settlementMint)) {
+      throw new BadRequestException(
+        'Subscriptions need a settlement token other than native SOL',
+      );
+    }
+
+    subscription.settlementMint = merchant.settlementMint;
+    subscription.settlementDecimals = merchant.settlementDecimals;
+    subscription.tokenAccount = (
+      await getAssociatedTokenAddress(
+        new PublicKey(merchant.settlementMint),
+        new PublicKey(subscription.customerWallet),
+      )
+    ).toBase58();
+    subscription.approvedAmount = await this.getAllowance(
+      subscription.plan,
+      subscription.settlementMint,
+      subscription.settlementDecimals,
+      approvalPeriods,
+    );
+  }
+
+  /**
+   * Reject billing a token account another subscription is billed from, as
+   * approving this one would replace the delegate or allowance it relies on
+   */
+  private async assertTokenAccountAvailable(
+    subscription: Subscription,
+  ): Promise<void> {
+    const sharing = await this.subscriptionRepository.find({
+      where: { tokenAccount: subscription.tokenAccount },
+    });
+    const billed = sharing.find(
+      (other) =>
+        other.id !== subscription.id &&
+        DELEGATED_SUBSCRIPTION_STATUSES.includes(other.status),
+    );
+
+    if (billed) {
+      throw new BadRequestException(
+        'The customer already has a subscription billed from this token account, which can only have one delegate',
+      );
+    }
+  }
+
+  /**
+   * Settlement token covering the given number of periods at current rates
+   */
+  private async getAllowance(
+    plan: SubscriptionPlan,
+    settlementMint: string,
+    settlementDecimals: number,
+    periods: number,
+  ): Promise<Money> {
+    const { settlementAmount } = await this.fxService.quoteSettlement(
+      plan.amount.multiply(periods, FIAT_DECIMALS),
+      plan.currency,
+      settlementMint,
+      settlementDecimals,
+    );
+
+    return settlementAmount.multiply(
+      (10000 + SUBSCRIPTION_ALLOWANCE_BUFFER_BPS) / 10000,
+      settlementDecimals,
+    );
+  }
+
+  /**
+   * The customer's token account, null when it does not exist
+   */
+  private async getTokenAccount(
+    subscription: Subscription,
+  ): Promise<Account | null> {
+    try {
+      return await getAccount(
+        this.connection,
+        new PublicKey(subscription.tokenAccount),
+      );
+    } catch (error) {
+      if (
+        error instanceof TokenAccountNotFoundError ||
+        error instanceof TokenInvalidAccountOwnerError
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async handlePaymentEvent(event: PaymentEvent): Promise<void> {
+    if (
+      event.type !== PaymentEventType.PAYMENT_COMPLETED &&
+      event.type !== PaymentEventType.PAYMENT_FAILED
+    ) {
+      return;
+    }
+
+    const subscription = await this.subscriptionRepository.findOne({
+      where: { latestPaymentId: event.paymentId },
+    });
+    if (!subscription) {
+      return;
+    }
+
+    if (subscription.status === SubscriptionStatus.CANCELED) {
+      this.logger.warn(
+        `Payment ${event.paymentId} ${event.type} for canceled subscription ${subscription.id}`,
+      );
+      return;
+    }
+
+    if (event.type === PaymentEventType.PAYMENT_COMPLETED) {
+      await this.applyPaidPeriod(subscription);
+    } else {
+      await this.applyFailedCharge(
+        subscription,
+        event.data?.reason ?? 'Payment failed',
+        event.data?.code ?? null,
+      );
+    }
+  }
+
+  /**
+   * Start the next period once its payment completed
+   */
+  private async applyPaidPeriod(subscription: Subscription): Promise<void> {
+    const { plan } = subscription;
+    const now = new Date();
+
+    // Charges start once the paid period is over, so a period that is still
+    // running was already paid by this payment
+    if (subscription.currentPeriodEnd && subscription.currentPeriodEnd > now) {
+      return;
+    }
+    const activated = subscription.status === SubscriptionStatus.INCOMPLETE;
+
+    // Periods keep their anchor, but periods missed while past due are not
+    // billed after the fact
+    let periodStart = subscription.currentPeriodEnd ?? now;
+    if (
+      addBillingInterval(periodStart, plan.interval, plan.intervalCount) <= now
+    ) {
+      periodStart = now;
+    }
+    const periodEnd = addBillingInterval(
+      periodStart,
+      plan.interval,
+      plan.intervalCount,
+    );
+
+    // Both completion paths can report the same payment at once
+    const { affected } = await this.subscriptionRepository.update(
+      {
+        id: subscription.id,
+        latestPaymentId: subscription.latestPaymentId,
+        currentPeriodEnd: subscription.currentPeriodEnd ?? IsNull(),
+      },
+      {
+        status: SubscriptionStatus.ACTIVE,
+        currentPeriodStart: periodStart,
+        currentPeriodEnd: periodEnd,
+        nextBillingAt: periodEnd,
+        failedAttempts: 0,
+        lastFailureCode: null,
+        lastFailureReason: null,
+      },
+    );
+    if (!affected) {
+      return;
+    }
+
+    const updatedSubscription = await this.subscriptionRepository.findOne({
+      where: { id: subscription.id },
+    });
+    await this.notifyMerchant(
+      activated
+        ? PaymentEventType.SUBSCRIPTION_ACTIVATED
+        : PaymentEventType.SUBSCRIPTION_RENEWED,
+      updatedSubscription,
+    );
+
+    this.logger.log(
+      `Subscription ${subscription.id} paid until ${periodEnd.toISOString()}`,
+    );
+  }
+
+  /**
+   * Schedule the next retry of a failed charge, or cancel the subscription
+   * once every retry failed
+   */
+  private async applyFailedCharge(
+    subscription: Subscription,
+    reason: string,
+    code: string | null,
+  ): Promise<void> {
+    const failedAttempts = subscription.failedAttempts + 1;
+    const retryDelayHours = this.retryDelaysHours[failedAttempts - 1];
+    const now = new Date();
+
+    const { affected } = await this.subscriptionRepository.update(
+      {
+        id: subscription.id,
+        latestPaymentId: subscription.latestPaymentId,
+        failedAttempts: subscription.failedAttempts,
+      },
+      retryDelayHours === undefined
+        ? {
+            status: SubscriptionStatus.CANCELED,
+            nextBillingAt: null,
+            canceledAt: now,
+            cancellationReason: SubscriptionCancellationReason.PAYMENT_FAILED,
+            failedAttempts,
+            lastFailureCode: code,
+            lastFailureReason: reason,
+          }
+        : {
+            // The first period is only active once it was paid
+            status:
+              subscription.status === SubscriptionStatus.INCOMPLETE
+                ? SubscriptionStatus.INCOMPLETE
+                : SubscriptionStatus.PAST_DUE,
+            nextBillingAt: new Date(
+              now.getTime() + retryDelayHours * 60 * 60 * 1000,
+            ),
+            failedAttempts,
+            lastFailureCode: code,
+            lastFailureReason: reason,
+          },
+    );
+    if (!affected) {
+      return;
+    }
+
+    const updatedSubscription = await this.subscriptionRepository.findOne({
+      where: { id: subscription.id },
+    });
+    await this.notifyMerchant(
+      PaymentEventType.SUBSCRIPTION_PAYMENT_FAILED,
+      updatedSubscription,
+    );
+
+    if (updatedSubscription.status === SubscriptionStatus.CANCELED) {
+      await this.notifyMerchant(
+        PaymentEventType.SUBSCRIPTION_CANCELED,
+        updatedSubscription,
+      );
+      this.logger.warn(
+        `Subscription ${subscription.id} canceled after ${failedAttempts} failed charges`,
+      );
+      return;
+    }
+
+    this.logger.warn(
+      `Charge ${failedAttempts} of subscription ${subscription.id} failed, retrying at ${updatedSubscription.nextBillingAt?.toISOString()}: ${reason}`,
+    );
+  }
+
+  /**
+   * Stop billing a subscription
+   */
+  private async cancel(
+    subscription: Subscription,
+    reason: SubscriptionCancellationReason,
+  ): Promise<Subscription> {
+    subscription.status = SubscriptionStatus.CANCELED;
+    subscription.nextBillingAt = null;
+    subscription.canceledAt = new Date();
+    subscription.cancellationReason = reason;
+    const canceledSubscription =
+      await this.subscriptionRepository.save(subscription);
+
+    // A charge that was never sent can no longer be paid
+    if (subscription.latestPaymentId) {
+      await this.paymentService.expirePayment(subscription.latestPaymentId);
+    }
+
+    await this.notifyMerchant(
+      PaymentEventType.SUBSCRIPTION_CANCELED,
+      canceledSubscription,
+    );
+
+    this.logger.log(`Subscription ${subscription.id} canceled (${reason})`);
+    return canceledSubscription;
+  }
+
+  private parseApprovalPeriods(approvalPeriods: number | undefined): number {
+    const periods = approvalPeriods ?? DEFAULT_SUBSCRIPTION_APPROVAL_PERIODS;
+    if (
+      !Number.isInteger(periods) ||
+      periods < 1 ||
+      periods > MAX_SUBSCRIPTION_APPROVAL_PERIODS
+    ) {
+      throw new BadRequestException(
+        `approvalPeriods must be a whole number from 1 to ${MAX_SUBSCRIPTION_APPROVAL_PERIODS}`,
+      );
+    }
+    return periods;
+  }
+
+  /**
+   * Emit a subscription event to the merchant and its webhook
+   */
+  private async notifyMerchant(
+    type: PaymentEventType,
+    subscription: Subscription,
+  ): Promise<void> {
+    const event: PaymentEvent = {
+      type,
+      paymentId: subscription.latestPaymentId,
+      merchantId: subscription.merchantId,
+      data: subscription,
+      timestamp: new Date(),
+    };
+
+    this.paymentGateway.emitToMerchant(subscription.merchantId, event);
+    await this.webhookService.dispatch(event);
+  }
+}
@@ -0,0 +1,41 @@
+import { SubscriptionInterval } from './entities/subscription-plan.entity';
+
+/**
+ * Move a date forward by whole billing intervals, keeping the time of day
+ * Months that are too short end the period on their last day, so a period
+ * starting January 31 renews on February 28 or 29
+ */
+export function addBillingInterval(
+  date: Date,
+  interval: SubscriptionInterval,
+  intervalCount = 1,
+): Date {
+  const result = new Date(date.getTime());
+
+  switch (interval) {
+    case SubscriptionInterval.DAY:
+      result.setUTCDate(result.getUTCDate() + intervalCount);
+      return result;
+    case SubscriptionInterval.WEEK:
+      result.setUTCDate(result.getUTCDate() + intervalCount * 7);
+      return result;
+    case SubscriptionInterval.MONTH:
+      return addMonths(date, intervalCount);
+    case SubscriptionInterval.YEAR:
+      return addMonths(date, intervalCount * 12);
+  }
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  const day = result.getUTCDate();
+
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
@@ -0,0 +1,31 @@
+export enum VerificationFailureReason {
+  TRANSACTION_NOT_FOUND = 'transaction_not_found',
+  TRANSACTION_FAILED = 'transaction_failed',
+  TRANSACTION_EXPIRED = 'transaction_expired',
+  SIGNATURE_ALREADY_USED = 'signature_already_used',
+  REFERENCE_MISMATCH = 'reference_mismatch',
+  RECIPIENT_NOT_CREDITED = 'recipient_not_credited',
+  INSUFFICIENT_AMOUNT = 'insufficient_amount',
+}
+
+export interface VerificationResult {
+  verified: boolean;
+  reason?: VerificationFailureReason;
+  message?: string;
+  expectedAmount?: string; // Base units of the settlement token
+  receivedAmount?: string; // Base units of the settlement token
+  slot?: number;
+  feePayer?: string; // Wallet that signed and paid for the transaction
+}
+
+// Ties a transaction to the payment it was made for
+export interface PaymentMatch {
+  reference?: string; // Reference key the transaction has to include
+  notBefore?: Date; // Earliest block time, for payments without a reference
+}
+
+export interface ExpectedTransfer {
+  recipientWallet: string;
+  expectedAmount: bigint; // Base units of the settlement token, or of mint
+  mint?: string; // Paid into the token account of another mint instead
+}
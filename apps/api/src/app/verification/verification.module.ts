@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { VerificationService } from './verification.service';
+import { Payment } from '../payment/entities/payment.entity';
+import { SolanaModule } from '../solana/solana.module';
+import { PlatformFeeModule } from '../platform-fee/platform-fee.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Payment]),
+    SolanaModule,
+    PlatformFeeModule,
+  ],
+  providers: [VerificationService],
+  exports: [VerificationService],
+})
+export class VerificationModule {}
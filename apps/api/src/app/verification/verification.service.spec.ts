@@ -0,0 +1,420 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddress } from '@solana/spl-token';
+import { VerificationService } from './verification.service';
+import { VerificationFailureReason } from './models/verification-result.model';
+import { Payment, PaymentStatus } from '../payment/entities/payment.entity';
+import { PaymentLeg } from '../payment/entities/payment-leg.entity';
+import { PlatformFeeService } from '../platform-fee/platform-fee.service';
+import { Money } from '../money/money';
+import {
+  NATIVE_SOL_MINT,
+  SOLANA_CONNECTION,
+  USDC_MINT,
+} from '../solana/solana.constants';
+
+describe('VerificationService', () => {
+  let service: VerificationService;
+  let merchantWallet: PublicKey;
+  let merchantUsdcAccount: PublicKey;
+  let payment: Payment;
+
+  const reference = Keypair.generate().publicKey;
+  const paymentRepository = { findOne: jest.fn() };
+  const connection = { getParsedTransaction: jest.fn() };
+  const feeWallet = Keypair.generate().publicKey;
+  const platformFeeService = { getFeeWallet: jest.fn() };
+
+  const buildTransaction = (
+    preAmount: string,
+    postAmount: string,
+    err: unknown = null,
+  ) => ({
+    slot: 1234,
+    meta: {
+      err,
+      preTokenBalances: [
+        {
+          accountIndex: 1,
+          mint: USDC_MINT,
+          uiTokenAmount: { amount: preAmount },
+        },
+      ],
+      postTokenBalances: [
+        {
+          accountIndex: 1,
+          mint: USDC_MINT,
+          uiTokenAmount: { amount: postAmount },
+        },
+      ],
+    },
+    transaction: {
+      message: {
+        accountKeys: [
+          { pubkey: Keypair.generate().publicKey },
+          { pubkey: merchantUsdcAccount },
+          { pubkey: reference },
+        ],
+      },
+    },
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    merchantWallet = Keypair.generate().publicKey;
+    merchantUsdcAccount = await getAssociatedTokenAddress(
+      new PublicKey(USDC_MINT),
+      merchantWallet,
+    );
+    payment = {
+      id: 'payment-1',
+      merchantId: 'merchant-1',
+      amount: Money.of(12.5, 6),
+      destinationWallet: merchantWallet.toString(),
+      settlementMint: USDC_MINT,
+      settlementDecimals: 6,
+      status: PaymentStatus.PROCESSING,
+      reference: reference.toBase58(),
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+    } as Payment;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VerificationService,
+        { provide: getRepositoryToken(Payment), useValue: paymentRepository },
+        { provide: PlatformFeeService, useValue: platformFeeService },
+        { provide: SOLANA_CONNECTION, useValue: connection },
+      ],
+    }).compile();
+
+    service = module.get<VerificationService>(VerificationService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('verifies a transaction that credits the merchant in full', async () => {
+    connection.getParsedTransaction.mockResolvedValue(
+      buildTransaction('1000000', '13500000'),
+    );
+
+    const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+    expect(result.verified).toBe(true);
+    expect(result.expectedAmount).toBe('12500000');
+    expect(result.receivedAmount).toBe('12500000');
+  });
+
+  it('reports the wallet that paid for the transaction', async () => {
+    const transaction = buildTransaction('1000000', '13500000');
+    connection.getParsedTransaction.mockResolvedValue(transaction);
+
+    const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+    expect(result.feePayer).toBe(
+      transaction.transaction.message.accountKeys[0].pubkey.toBase58(),
+    );
+  });
+
+  it('rejects a signature already used by another payment', async () => {
+    paymentRepository.findOne.mockResolvedValue({ id: 'payment-2' });
+
+    const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+    expect(result.verified).toBe(false);
+    expect(result.reason).toBe(
+      VerificationFailureReason.SIGNATURE_ALREADY_USED,
+    );
+    expect(connection.getParsedTransaction).not.toHaveBeenCalled();
+  });
+
+  it('reports transactions that have not landed', async () => {
+    connection.getParsedTransaction.mockResolvedValue(null);
+
+    const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+    expect(result.reason).toBe(VerificationFailureReason.TRANSACTION_NOT_FOUND);
+  });
+
+  it('rejects transactions that failed on-chain', async () => {
+    connection.getParsedTransaction.mockResolvedValue(
+      buildTransaction('0', '0', { InstructionError: [0, 'Custom'] }),
+    );
+
+    const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+    expect(result.reason).toBe(VerificationFailureReason.TRANSACTION_FAILED);
+  });
+
+  it('rejects transactions that underpay the merchant', async () => {
+    connection.getParsedTransaction.mockResolvedValue(
+      buildTransaction('0', '12499999'),
+    );
+
+    const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+    expect(result.reason).toBe(VerificationFailureReason.INSUFFICIENT_AMOUNT);
+    expect(result.receivedAmount).toBe('12499999');
+  });
+
+  it('rejects transactions that do not touch the merchant account', async () => {
+    const transaction = buildTransaction('0', '12500000');
+    transaction.transaction.message.accountKeys[1] = {
+      pubkey: Keypair.generate().publicKey,
+    };
+    connection.getParsedTransaction.mockResolvedValue(transaction);
+
+    const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+    expect(result.reason).toBe(
+      VerificationFailureReason.RECIPIENT_NOT_CREDITED,
+    );
+  });
+
+  it('rejects transactions without the payment reference', async () => {
+    const transaction = buildTransaction('0', '12500000');
+    transaction.transaction.message.accountKeys.pop();
+    connection.getParsedTransaction.mockResolvedValue(transaction);
+
+    const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+    expect(result.verified).toBe(false);
+    expect(result.reason).toBe(VerificationFailureReason.REFERENCE_MISMATCH);
+  });
+
+  describe('payments without a reference', () => {
+    beforeEach(() => {
+      payment.reference = null;
+    });
+
+    it('verifies transactions made after the payment was created', async () => {
+      connection.getParsedTransaction.mockResolvedValue({
+        ...buildTransaction('0', '12500000'),
+        blockTime: Date.parse('2024-01-01T00:05:00Z') / 1000,
+      });
+
+      const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+      expect(result.verified).toBe(true);
+    });
+
+    it('rejects transactions made before the payment was created', async () => {
+      connection.getParsedTransaction.mockResolvedValue({
+        ...buildTransaction('0', '12500000'),
+        blockTime: Date.parse('2023-12-31T23:55:00Z') / 1000,
+      });
+
+      const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+      expect(result.reason).toBe(
+        VerificationFailureReason.REFERENCE_MISMATCH,
+      );
+    });
+  });
+
+  describe('platform fees', () => {
+    let feeUsdcAccount: PublicKey;
+
+    // Credits the merchant 12.4 and the platform its fee of 0.1 USDC
+    const buildFeeTransaction = (feeAmount: string) => {
+      const transaction = buildTransaction('0', '12400000');
+      transaction.transaction.message.accountKeys.push({
+        pubkey: feeUsdcAccount,
+      });
+      transaction.meta.postTokenBalances.push({
+        accountIndex: 3,
+        mint: USDC_MINT,
+        uiTokenAmount: { amount: feeAmount },
+      });
+      return transaction;
+    };
+
+    beforeEach(async () => {
+      platformFeeService.getFeeWallet.mockReturnValue(feeWallet.toBase58());
+      feeUsdcAccount = await getAssociatedTokenAddress(
+        new PublicKey(USDC_MINT),
+        feeWallet,
+      );
+      payment.settlementAmount = Money.of('12.5', 6);
+      payment.platformFeeAmount = Money.of('0.1', 6);
+      payment.netAmount = Money.of('12.4', 6);
+    });
+
+    it('verifies that the platform received its fee', async () => {
+      connection.getParsedTransaction.mockResolvedValue(
+        buildFeeTransaction('100000'),
+      );
+
+      const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+      expect(result.verified).toBe(true);
+      expect(result.expectedAmount).toBe('12500000');
+    });
+
+    it('rejects transactions that leave out the platform fee', async () => {
+      connection.getParsedTransaction.mockResolvedValue(
+        buildTransaction('0', '12400000'),
+      );
+
+      const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+      expect(result.verified).toBe(false);
+      expect(result.reason).toBe(
+        VerificationFailureReason.RECIPIENT_NOT_CREDITED,
+      );
+      expect(result.message).toContain(feeWallet.toBase58());
+    });
+
+    it('rejects transactions that underpay the platform fee', async () => {
+      connection.getParsedTransaction.mockResolvedValue(
+        buildFeeTransaction('99999'),
+      );
+
+      const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+      expect(result.reason).toBe(VerificationFailureReason.INSUFFICIENT_AMOUNT);
+    });
+
+    it('checks swaps collected the fee in the token paid with', async () => {
+      const bonkMint = Keypair.generate().publicKey;
+      payment.selectedToken = bonkMint.toBase58();
+      const feeBonkAccount = await getAssociatedTokenAddress(
+        bonkMint,
+        feeWallet,
+      );
+      const transaction = buildTransaction('0', '12400000');
+      transaction.transaction.message.accountKeys.push({
+        pubkey: feeBonkAccount,
+      });
+      transaction.meta.postTokenBalances.push({
+        accountIndex: 3,
+        mint: bonkMint.toBase58(),
+        uiTokenAmount: { amount: '4200' },
+      });
+      connection.getParsedTransaction.mockResolvedValue(transaction);
+
+      const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+      expect(result.verified).toBe(true);
+      expect(result.expectedAmount).toBe('12400000');
+
+      transaction.transaction.message.accountKeys.pop();
+      const withoutFee = await service.verifyPaymentTransaction(payment, 'sig');
+
+      expect(withoutFee.reason).toBe(
+        VerificationFailureReason.RECIPIENT_NOT_CREDITED,
+      );
+    });
+  });
+
+  it('verifies native SOL settlement from the wallet balance', async () => {
+    payment.settlementMint = NATIVE_SOL_MINT;
+    payment.settlementDecimals = 9;
+    connection.getParsedTransaction.mockResolvedValue({
+      slot: 1234,
+      meta: {
+        err: null,
+        preBalances: [20000000000, 1000000000],
+        postBalances: [7499995000, 13500000000],
+        preTokenBalances: [],
+        postTokenBalances: [],
+      },
+      transaction: {
+        message: {
+          accountKeys: [
+            { pubkey: Keypair.generate().publicKey },
+            { pubkey: merchantWallet },
+            { pubkey: reference },
+          ],
+        },
+      },
+    });
+
+    const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+    expect(result.verified).toBe(true);
+    expect(result.expectedAmount).toBe('12500000000');
+  });
+
+  describe('split payments', () => {
+    const seller = Keypair.generate().publicKey;
+    let sellerUsdcAccount: PublicKey;
+
+    const buildSplitTransaction = (
+      merchantAmount: string,
+      sellerAmount: string,
+    ) => ({
+      slot: 1234,
+      meta: {
+        err: null,
+        preTokenBalances: [],
+        postTokenBalances: [
+          {
+            accountIndex: 1,
+            mint: USDC_MINT,
+            uiTokenAmount: { amount: merchantAmount },
+          },
+          {
+            accountIndex: 2,
+            mint: USDC_MINT,
+            uiTokenAmount: { amount: sellerAmount },
+          },
+        ],
+      },
+      transaction: {
+        message: {
+          accountKeys: [
+            { pubkey: Keypair.generate().publicKey },
+            { pubkey: merchantUsdcAccount },
+            { pubkey: sellerUsdcAccount },
+            { pubkey: reference },
+          ],
+        },
+      },
+    });
+
+    beforeEach(async () => {
+      sellerUsdcAccount = await getAssociatedTokenAddress(
+        new PublicKey(USDC_MINT),
+        seller,
+      );
+      payment.legs = [
+        {
+          position: 1,
+          walletAddress: seller.toString(),
+          settlementAmount: Money.of('2.5', 6),
+        },
+        {
+          position: 0,
+          walletAddress: merchantWallet.toString(),
+          settlementAmount: Money.of(10, 6),
+        },
+      ] as PaymentLeg[];
+    });
+
+    it('verifies that every recipient received its leg', async () => {
+      connection.getParsedTransaction.mockResolvedValue(
+        buildSplitTransaction('10000000', '2500000'),
+      );
+
+      const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+      expect(result.verified).toBe(true);
+      expect(result.expectedAmount).toBe('12500000');
+    });
+
+    it('rejects transactions that underpay one recipient', async () => {
+      connection.getParsedTransaction.mockResolvedValue(
+        buildSplitTransaction('12000000', '500000'),
+      );
+
+      const result = await service.verifyPaymentTransaction(payment, 'sig');
+
+      expect(result.reason).toBe(VerificationFailureReason.INSUFFICIENT_AMOUNT);
+      expect(result.message).toContain(seller.toString());
+    });
+  });
+});
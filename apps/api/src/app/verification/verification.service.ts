@@ -0,0 +1,351 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Not, Repository } from 'typeorm';
+import {
+  Connection,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  TokenBalance,
+} from '@solana/web3.js';
+import { getAssociatedTokenAddress } from '@solana/spl-token';
+import { Payment } from '../payment/entities/payment.entity';
+import { SOLANA_CONNECTION, USDC_MINT } from '../solana/solana.constants';
+import { isNativeSol } from '../solana/solana.utils';
+import { getPaymentLegs } from '../payment/payment.utils';
+import { PlatformFeeService } from '../platform-fee/platform-fee.service';
+import {
+  ExpectedTransfer,
+  PaymentMatch,
+  VerificationFailureReason,
+  VerificationResult,
+} from './models/verification-result.model';
+
+@Injectable()
+export class VerificationService {
+  private readonly logger = new Logger(VerificationService.name);
+
+  constructor(
+    @InjectRepository(Payment)
+    private paymentRepository: Repository<Payment>,
+    private readonly platformFeeService: PlatformFeeService,
+    @Inject(SOLANA_CONNECTION)
+    private readonly connection: Connection,
+  ) {}
+
+  /**
+   * Verify that a transaction signature settles the given payment on-chain
+   */
+  async verifyPaymentTransaction(
+    payment: Payment,
+    transactionSignature: string,
+  ): Promise<VerificationResult> {
+    // A signature can only ever settle a single payment
+    const existingPayment = await this.paymentRepository.findOne({
+      where: { transactionSignature, id: Not(payment.id) },
+    });
+
+    if (existingPayment) {
+      return {
+        verified: false,
+        reason: VerificationFailureReason.SIGNATURE_ALREADY_USED,
+        message: `Transaction ${transactionSignature} is already linked to payment ${existingPayment.id}`,
+      };
+    }
+
+    // Split payments owe every recipient its leg, otherwise the merchant is
+    // owed the settlement amount less the platform fee. Payments from before
+    // exchange rates were snapshotted settle 1:1.
+    const legs = getPaymentLegs(payment);
+    const transfers: ExpectedTransfer[] =
+      legs.length > 0
+        ? legs.map((leg) => ({
+            recipientWallet: leg.walletAddress,
+            expectedAmount: leg.settlementAmount.toBaseUnits(
+              payment.settlementDecimals,
+            ),
+          }))
+        : [
+            {
+              recipientWallet: payment.destinationWallet,
+              expectedAmount: (
+                payment.netAmount ??
+                payment.settlementAmount ??
+                payment.amount
+              ).toBaseUnits(payment.settlementDecimals),
+            },
+          ];
+
+    const platformFeeAmount =
+      payment.platformFeeAmount?.toBaseUnits(payment.settlementDecimals) ??
+      BigInt(0);
+    if (platformFeeAmount > BigInt(0)) {
+      transfers.push(this.getPlatformFeeTransfer(payment, platformFeeAmount));
+    }
+
+    const result = await this.verifyTokenTransfers(
+      transactionSignature,
+      transfers,
+      payment.settlementMint,
+      // Payments from before reference keys can only be matched by time
+      payment.reference
+        ? { reference: payment.reference }
+        : { notBefore: payment.createdAt },
+    );
+
+    if (result.verified) {
+      this.logger.log(
+        `Transaction ${transactionSignature} verified for payment ${payment.id}`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Verify that a transaction succeeded and credited a wallet's token account,
+   * or the wallet itself for native SOL, with at least the expected amount
+   */
+  async verifyTokenTransfer(
+    transactionSignature: string,
+    recipientWallet: string,
+    expectedAmount: bigint,
+    mint = USDC_MINT,
+  ): Promise<VerificationResult> {
+    return this.verifyTokenTransfers(
+      transactionSignature,
+      [{ recipientWallet, expectedAmount }],
+      mint,
+    );
+  }
+
+  /**
+   * Verify that a transaction succeeded and credited every recipient with
+   * at least its expected amount. Amounts for the same wallet add up.
+   * With a match, the transaction also has to be the one made for it.
+   */
+  async verifyTokenTransfers(
+    transactionSignature: string,
+    transfers: ExpectedTransfer[],
+    mint = USDC_MINT,
+    match: PaymentMatch = {},
+  ): Promise<VerificationResult> {
+    const transaction = await this.fetchTransaction(transactionSignature);
+
+    if (!transaction || !transaction.meta) {
+      return {
+        verified: false,
+        reason: VerificationFailureReason.TRANSACTION_NOT_FOUND,
+        message: `Transaction ${transactionSignature} was not found on-chain`,
+      };
+    }
+
+    if (transaction.meta.err) {
+      return {
+        verified: false,
+        reason: VerificationFailureReason.TRANSACTION_FAILED,
+        message: `Transaction failed on-chain: ${JSON.stringify(
+          transaction.meta.err,
+        )}`,
+        slot: transaction.slot,
+      };
+    }
+
+    const mismatch = this.getPaymentMismatch(transaction, match);
+    if (mismatch) {
+      return {
+        verified: false,
+        reason: VerificationFailureReason.REFERENCE_MISMATCH,
+        message: `Transaction ${transactionSignature} ${mismatch}`,
+        slot: transaction.slot,
+      };
+    }
+
+    const expectedByAccount = new Map<string, ExpectedTransfer>();
+    for (const transfer of transfers) {
+      const key = `${transfer.recipientWallet}:${transfer.mint ?? mint}`;
+      const expected = expectedByAccount.get(key);
+      expectedByAccount.set(key, {
+        ...transfer,
+        expectedAmount:
+          (expected?.expectedAmount ?? BigInt(0)) + transfer.expectedAmount,
+      });
+    }
+
+    let totalExpected = BigInt(0);
+    let totalReceived = BigInt(0);
+    for (const transfer of expectedByAccount.values()) {
+      const { recipientWallet, expectedAmount } = transfer;
+      const receivedAmount = transfer.mint
+        ? await this.getReceivedAmount(
+            transaction,
+            recipientWallet,
+            transfer.mint,
+            false,
+          )
+        : await this.getReceivedAmount(transaction, recipientWallet, mint);
+
+      if (receivedAmount === null) {
+        return {
+          verified: false,
+          reason: VerificationFailureReason.RECIPIENT_NOT_CREDITED,
+          message: `Recipient ${recipientWallet} is not part of the transaction`,
+          expectedAmount: expectedAmount.toString(),
+          slot: transaction.slot,
+        };
+      }
+
+      if (receivedAmount < expectedAmount) {
+        return {
+          verified: false,
+          reason: VerificationFailureReason.INSUFFICIENT_AMOUNT,
+          message: `Recipient ${recipientWallet} received ${receivedAmount.toString()} but expected ${expectedAmount.toString()} base units`,
+          expectedAmount: expectedAmount.toString(),
+          receivedAmount: receivedAmount.toString(),
+          slot: transaction.slot,
+        };
+      }
+
+      // Totals are reported in the settlement token only
+      if (!transfer.mint) {
+        totalExpected += expectedAmount;
+        totalReceived += receivedAmount;
+      }
+    }
+
+    return {
+      verified: true,
+      expectedAmount: totalExpected.toString(),
+      receivedAmount: totalReceived.toString(),
+      slot: transaction.slot,
+      // The fee payer is always the first account of a transaction
+      feePayer:
+        transaction.transaction.message.accountKeys[0]?.pubkey.toBase58(),
+    };
+  }
+
+  /**
+   * The platform fee a payment's transaction has to pay. Swaps pay it through
+   * Jupiter in the token the customer pays with, worked out on-chain from
+   * the swap, so only check that it was collected.
+   */
+  private getPlatformFeeTransfer(
+    payment: Payment,
+    platformFeeAmount: bigint,
+  ): ExpectedTransfer {
+    const recipientWallet = this.platformFeeService.getFeeWallet();
+
+    if (
+      payment.selectedToken &&
+      payment.selectedToken !== payment.settlementMint
+    ) {
+      return {
+        recipientWallet,
+        expectedAmount: BigInt(1),
+        mint: payment.selectedToken,
+      };
+    }
+
+    return { recipientWallet, expectedAmount: platformFeeAmount };
+  }
+
+  /**
+   * Why a transaction was not made for the payment it should settle, null
+   * when it was
+   */
+  private getPaymentMismatch(
+    transaction: ParsedTransactionWithMeta,
+    match: PaymentMatch,
+  ): string | null {
+    if (
+      match.reference &&
+      !transaction.transaction.message.accountKeys.some(
+        (account) => account.pubkey.toBase58() === match.reference,
+      )
+    ) {
+      return `does not include the payment reference ${match.reference}`;
+    }
+
+    if (
+      match.notBefore &&
+      (!transaction.blockTime ||
+        transaction.blockTime * 1000 < new Date(match.notBefore).getTime())
+    ) {
+      return 'was made before the payment was created';
+    }
+
+    return null;
+  }
+
+  /**
+   * How much a wallet's token account, or the wallet itself for native SOL,
+   * was credited in a transaction, null when the transaction doesn't touch it
+   */
+  private async getReceivedAmount(
+    transaction: ParsedTransactionWithMeta,
+    recipientWallet: string,
+    mint: string,
+    nativeSol = isNativeSol(mint),
+  ): Promise<bigint | null> {
+    const recipientAccount = nativeSol
+      ? new PublicKey(recipientWallet)
+      : await getAssociatedTokenAddress(
+          new PublicKey(mint),
+          new PublicKey(recipientWallet),
+        );
+
+    const accountIndex = transaction.transaction.message.accountKeys.findIndex(
+      (account) => account.pubkey.equals(recipientAccount),
+    );
+
+    if (accountIndex === -1) {
+      return null;
+    }
+
+    return nativeSol
+      ? BigInt(transaction.meta.postBalances[accountIndex]) -
+          BigInt(transaction.meta.preBalances[accountIndex])
+      : this.getTokenBalance(
+          transaction.meta.postTokenBalances,
+          accountIndex,
+          mint,
+        ) -
+          this.getTokenBalance(
+            transaction.meta.preTokenBalances,
+            accountIndex,
+            mint,
+          );
+  }
+
+  /**
+   * Fetch the parsed transaction from the configured RPC node
+   */
+  private async fetchTransaction(
+    transactionSignature: string,
+  ): Promise<ParsedTransactionWithMeta | null> {
+    try {
+      return await this.connection.getParsedTransaction(transactionSignature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch transaction ${transactionSignature}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Get the balance of a token account from a transaction's token balances
+   */
+  private getTokenBalance(
+    balances: TokenBalance[] | null | undefined,
+    accountIndex: number,
+    mint: string,
+  ): bigint {
+    const balance = (balances ?? []).find(
+      (b) => b.accountIndex === accountIndex && b.mint === mint,
+    );
+    return BigInt(balance ? balance.uiTokenAmount.amount : '0');
+  }
+}
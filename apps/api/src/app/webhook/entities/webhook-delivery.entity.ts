@@ -0,0 +1,76 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Merchant } from '../../merchant/entities/merchant.entity';
+import { PaymentEventType } from '../../websocket/models/event.model';
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+@Entity('webhook_deliveries')
+@Index(['status', 'nextAttemptAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  merchantId: string;
+
+  @ManyToOne(() => Merchant)
+  @JoinColumn({ name: 'merchantId' })
+  merchant: Merchant;
+
+  @Column({ type: 'varchar', nullable: true })
+  paymentId: string | null;
+
+  @Column({ type: 'varchar' })
+  eventType: PaymentEventType;
+
+  @Column()
+  url: string;
+
+  @Column('jsonb')
+  payload: Record<string, unknown>;
+
+  @Column({
+    type: 'enum',
+    enum: WebhookDeliveryStatus,
+    default: WebhookDeliveryStatus.PENDING,
+  })
+  status: WebhookDeliveryStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  nextAttemptAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastAttemptAt: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  responseStatus: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  responseBody: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,52 @@
+import {
+  Controller,
+  Get,
+  Logger,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { WebhookService } from './webhook.service';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from './entities/webhook-delivery.entity';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthMerchantId, Scopes } from '../auth/auth.decorators';
+import { ApiKeyScope } from '../auth/models/api-key.model';
+
+@Controller('webhooks')
+@UseGuards(AuthGuard)
+@Scopes(ApiKeyScope.WEBHOOKS)
+export class WebhookController {
+  private readonly logger = new Logger(WebhookController.name);
+
+  constructor(private readonly webhookService: WebhookService) {}
+
+  @Get('deliveries')
+  async findDeliveries(
+    @AuthMerchantId() merchantId: string,
+    @Query('paymentId') paymentId?: string,
+    @Query('status') status?: WebhookDeliveryStatus,
+    @Query('limit') limit?: string,
+  ): Promise<WebhookDelivery[]> {
+    return this.webhookService.getDeliveries(merchantId, {
+      paymentId,
+      status,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+  }
+
+  @Post('deliveries/:id/redeliver')
+  async redeliver(
+    @Param('id') id: string,
+    @AuthMerchantId() merchantId: string,
+  ): Promise<WebhookDelivery> {
+    this.logger.log(`Redeliver webhook request: ${id}`);
+    const delivery = await this.webhookService.redeliver(merchantId, id);
+    this.logger.log(`Webhook ${id} redelivered, status: ${delivery.status}`);
+
+    return delivery;
+  }
+}
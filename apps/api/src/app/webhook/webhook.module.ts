@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WebhookService } from './webhook.service';
+import { WebhookController } from './webhook.controller';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { MerchantModule } from '../merchant/merchant.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WebhookDelivery]),
+    MerchantModule,
+    AuthModule,
+  ],
+  providers: [WebhookService],
+  controllers: [WebhookController],
+  exports: [WebhookService],
+})
+export class WebhookModule {}
@@ -0,0 +1,185 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import { WebhookService } from './webhook.service';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from './entities/webhook-delivery.entity';
+import { MerchantService } from '../merchant/merchant.service';
+import { PaymentEventType } from '../websocket/models/event.model';
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+  let server: Server;
+  let receiverUrl: string;
+  let receiverStatus: number;
+  let received: { headers: IncomingHttpHeaders; body: string }[];
+
+  const secret = 'whsec_test';
+  const webhookDeliveryRepository = {
+    create: jest.fn((delivery) => ({ id: 'delivery-1', ...delivery })),
+    save: jest.fn(async (delivery) => delivery),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+  const merchantService = { getMerchantById: jest.fn() };
+  const configService = {
+    get: jest.fn((key: string, defaultValue?: string) =>
+      key === 'WEBHOOK_MAX_ATTEMPTS' ? '3' : defaultValue,
+    ),
+  };
+
+  const event = {
+    type: PaymentEventType.PAYMENT_COMPLETED,
+    paymentId: 'payment-1',
+    merchantId: 'merchant-1',
+    data: { id: 'payment-1', status: 'completed' },
+    timestamp: new Date(),
+  };
+
+  // Local stand-in for a merchant's webhook endpoint
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = receiverStatus;
+        res.end('ok');
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    received = [];
+    receiverStatus = 200;
+    merchantService.getMerchantById.mockResolvedValue({
+      id: 'merchant-1',
+      webhookUrl: receiverUrl,
+      webhookSecret: secret,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookService,
+        {
+          provide: getRepositoryToken(WebhookDelivery),
+          useValue: webhookDeliveryRepository,
+        },
+        { provide: MerchantService, useValue: merchantService },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<WebhookService>(WebhookService);
+  });
+
+  const createDelivery = (attempts = 0): WebhookDelivery => {
+    const delivery: Partial<WebhookDelivery> = {
+      id: 'delivery-1',
+      merchantId: 'merchant-1',
+      paymentId: 'payment-1',
+      eventType: PaymentEventType.PAYMENT_COMPLETED,
+      url: receiverUrl,
+      payload: { type: PaymentEventType.PAYMENT_COMPLETED },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts,
+    };
+    return delivery as WebhookDelivery;
+  };
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('sends a signed payload the merchant can verify', async () => {
+    const delivery = await service.attemptDelivery(createDelivery());
+
+    expect(delivery.status).toBe(WebhookDeliveryStatus.SUCCEEDED);
+    expect(delivery.responseStatus).toBe(200);
+    expect(received).toHaveLength(1);
+
+    const { headers, body } = received[0];
+    const [timestamp, signature] = (headers['x-payso-signature'] as string)
+      .split(',')
+      .map((part) => part.split('=')[1]);
+    const expected = createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    expect(signature).toBe(expected);
+    expect(headers['x-payso-event']).toBe(PaymentEventType.PAYMENT_COMPLETED);
+    expect(JSON.parse(body)).toMatchObject({
+      id: 'delivery-1',
+      type: PaymentEventType.PAYMENT_COMPLETED,
+    });
+  });
+
+  it('schedules a retry with exponential backoff on failure', async () => {
+    receiverStatus = 500;
+
+    const first = await service.attemptDelivery(createDelivery());
+    const firstDelay =
+      new Date(first.nextAttemptAt as Date).getTime() - Date.now();
+
+    const second = await service.attemptDelivery(createDelivery(1));
+    const secondDelay =
+      new Date(second.nextAttemptAt as Date).getTime() - Date.now();
+
+    expect(first.status).toBe(WebhookDeliveryStatus.PENDING);
+    expect(first.responseStatus).toBe(500);
+    expect(Math.round(firstDelay / 1000)).toBe(30);
+    expect(Math.round(secondDelay / 1000)).toBe(60);
+  });
+
+  it('gives up once the maximum attempts are used', async () => {
+    receiverStatus = 503;
+
+    const delivery = await service.attemptDelivery(createDelivery(2));
+
+    expect(delivery.attempts).toBe(3);
+    expect(delivery.status).toBe(WebhookDeliveryStatus.FAILED);
+    expect(delivery.nextAttemptAt).toBeNull();
+  });
+
+  it('skips merchants without a webhook endpoint', async () => {
+    merchantService.getMerchantById.mockResolvedValue({
+      id: 'merchant-1',
+      webhookUrl: null,
+      webhookSecret: null,
+    });
+
+    const delivery = await service.dispatch(event);
+
+    expect(delivery).toBeNull();
+    expect(webhookDeliveryRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('redelivers a delivery from the log', async () => {
+    webhookDeliveryRepository.findOne.mockResolvedValue({
+      ...createDelivery(3),
+      status: WebhookDeliveryStatus.FAILED,
+    });
+
+    const delivery = await service.redeliver('merchant-1', 'delivery-1');
+
+    expect(webhookDeliveryRepository.findOne).toHaveBeenCalledWith({
+      where: { id: 'delivery-1', merchantId: 'merchant-1' },
+    });
+    expect(delivery.status).toBe(WebhookDeliveryStatus.SUCCEEDED);
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,323 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, LessThanOrEqual, Repository } from 'typeorm';
+import { createHmac } from 'crypto';
+import axios from 'axios';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from './entities/webhook-delivery.entity';
+import { MerchantService } from '../merchant/merchant.service';
+import { PaymentEvent } from '../websocket/models/event.model';
+
+// Response bodies are only kept for debugging, so cap what we store
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+@Injectable()
+export class WebhookService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookService.name);
+  private readonly retryIntervalMs: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
+  private readonly maxAttempts: number;
+  private readonly requestTimeoutMs: number;
+  private readonly batchSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private isRetrying = false;
+
+  constructor(
+    @InjectRepository(WebhookDelivery)
+    private webhookDeliveryRepository: Repository<WebhookDelivery>,
+    private readonly merchantService: MerchantService,
+    private readonly configService: ConfigService,
+  ) {
+    this.retryIntervalMs = parseInt(
+      this.configService.get('WEBHOOK_RETRY_INTERVAL_MS', '10000'),
+    );
+    this.retryBaseDelayMs = parseInt(
+      this.configService.get('WEBHOOK_RETRY_BASE_DELAY_MS', '30000'),
+    );
+    this.retryMaxDelayMs = parseInt(
+      this.configService.get('WEBHOOK_RETRY_MAX_DELAY_MS', '3600000'),
+    );
+    this.maxAttempts = parseInt(
+      this.configService.get('WEBHOOK_MAX_ATTEMPTS', '8'),
+    );
+    this.requestTimeoutMs = parseInt(
+      this.configService.get('WEBHOOK_TIMEOUT_MS', '10000'),
+    );
+    this.batchSize = parseInt(
+      this.configService.get('WEBHOOK_BATCH_SIZE', '50'),
+    );
+  }
+
+  onModuleInit() {
+    if (
+      this.configService.get('WEBHOOK_RETRY_WORKER_ENABLED', 'true') !== 'true'
+    ) {
+      this.logger.log('Webhook retry worker disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => this.retryDue(), this.retryIntervalMs);
+    this.logger.log(
+      `Webhook retry worker started, checking every ${this.retryIntervalMs}ms`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a webhook delivery for a payment event and send it right away
+   */
+  async dispatch(event: PaymentEvent): Promise<WebhookDelivery | null> {
+    try {
+      const merchant = await this.merchantService.getMerchantById(
+        event.merchantId,
+      );
+
+      if (!merchant.webhookUrl || !merchant.webhookSecret) {
+        return null;
+      }
+
+      const delivery = this.webhookDeliveryRepository.create({
+        merchantId: merchant.id,
+        paymentId: event.paymentId ?? null,
+        eventType: event.type,
+        url: merchant.webhookUrl,
+        payload: {
+          type: event.type,
+          paymentId: event.paymentId,
+          merchantId: event.merchantId,
+          data: event.data,
+          timestamp: event.timestamp,
+        },
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        // Keep the retry worker away while the first attempt is in flight
+        nextAttemptAt: new Date(Date.now() + this.requestTimeoutMs),
+      });
+      const savedDelivery = await this.webhookDeliveryRepository.save(delivery);
+
+      // Don't hold up the caller on the merchant's endpoint
+      this.attemptDelivery(savedDelivery).catch((error) =>
+        this.logger.error(
+          `Failed to deliver webhook ${savedDelivery.id}: ${error.message}`,
+          error.stack,
+        ),
+      );
+
+      return savedDelivery;
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue webhook for ${event.type} on payment ${event.paymentId}: ${error.message}`,
+        error.stack,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Send a delivery once and record the outcome
+   */
+  async attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const merchant = await this.merchantService.getMerchantById(
+      delivery.merchantId,
+    );
+
+    delivery.attempts += 1;
+    delivery.lastAttemptAt = new Date();
+
+    let succeeded = false;
+
+    if (!merchant.webhookUrl || !merchant.webhookSecret) {
+      delivery.responseStatus = null;
+      delivery.responseBody = null;
+      delivery.error = 'Merchant has no webhook endpoint configured';
+    } else {
+      delivery.url = merchant.webhookUrl;
+
+      const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      try {
+        const response = await axios.post(delivery.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'x-payso-event': delivery.eventType,
+            'x-payso-delivery': delivery.id,
+            'x-payso-signature': `t=${timestamp},v1=${this.sign(
+              merchant.webhookSecret,
+              timestamp,
+              body,
+            )}`,
+          },
+          timeout: this.requestTimeoutMs,
+          transformResponse: (data) => data,
+          validateStatus: () => true,
+        });
+
+        delivery.responseStatus = response.status;
+        delivery.responseBody = this.truncate(response.data);
+        succeeded = response.status >= 200 && response.status < 300;
+        delivery.error = succeeded
+          ? null
+          : `Endpoint responded with status ${response.status}`;
+      } catch (error) {
+        delivery.responseStatus = null;
+        delivery.responseBody = null;
+        delivery.error = error.message;
+      }
+    }
+
+    if (succeeded) {
+      delivery.status = WebhookDeliveryStatus.SUCCEEDED;
+      delivery.nextAttemptAt = null;
+    } else if (delivery.attempts >= this.maxAttempts) {
+      delivery.status = WebhookDeliveryStatus.FAILED;
+      delivery.nextAttemptAt = null;
+      this.logger.warn(
+        `Webhook ${delivery.id} failed after ${delivery.attempts} attempts: ${delivery.error}`,
+      );
+    } else {
+      delivery.status = WebhookDeliveryStatus.PENDING;
+      delivery.nextAttemptAt = new Date(
+        Date.now() + this.getRetryDelay(delivery.attempts),
+      );
+    }
+
+    return this.webhookDeliveryRepository.save(delivery);
+  }
+
+  /**
+   * Retry every pending delivery whose backoff has elapsed
+   */
+  async retryDue(): Promise<void> {
+    // Skip this tick if the previous one is still running
+    if (this.isRetrying) {
+      return;
+    }
+
+    this.isRetrying = true;
+
+    try {
+      const deliveries = await this.webhookDeliveryRepository.find({
+        where: {
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: LessThanOrEqual(new Date()),
+        },
+        order: { nextAttemptAt: 'ASC' },
+        take: this.batchSize,
+      });
+
+      for (const delivery of deliveries) {
+        try {
+          await this.attemptDelivery(delivery);
+        } catch (error) {
+          this.logger.error(
+            `Failed to retry webhook ${delivery.id}: ${error.message}`,
+            error.stack,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to retry webhook deliveries: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.isRetrying = false;
+    }
+  }
+
+  /**
+   * Get the delivery log for a merchant, newest first
+   */
+  async getDeliveries(
+    merchantId: string,
+    filters: {
+      paymentId?: string;
+      status?: WebhookDeliveryStatus;
+      limit?: number;
+    } = {},
+  ): Promise<WebhookDelivery[]> {
+    const where: FindOptionsWhere<WebhookDelivery> = { merchantId };
+
+    if (filters.paymentId) {
+      where.paymentId = filters.paymentId;
+    }
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    return this.webhookDeliveryRepository.find({
+      where,
+      order: { createdAt: 'DESC' },
+      take: Math.min(Math.max(filters.limit ?? 50, 1), 100),
+    });
+  }
+
+  /**
+   * Send a delivery again on request, regardless of its current status
+   */
+  async redeliver(
+    merchantId: string,
+    deliveryId: string,
+  ): Promise<WebhookDelivery> {
+    const delivery = await this.webhookDeliveryRepository.findOne({
+      where: { id: deliveryId, merchantId },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException(
+        `Webhook delivery with ID ${deliveryId} not found`,
+      );
+    }
+
+    return this.attemptDelivery(delivery);
+  }
+
+  /**
+   * Compute the signature merchants use to verify a webhook came from us
+   */
+  sign(secret: string, timestamp: number, body: string): string {
+    return createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+  }
+
+  /**
+   * Exponential backoff delay before the next attempt
+   */
+  private getRetryDelay(attempts: number): number {
+    return Math.min(
+      this.retryBaseDelayMs * Math.pow(2, attempts - 1),
+      this.retryMaxDelayMs,
+    );
+  }
+
+  /**
+   * Trim a response body down to what is worth keeping in the log
+   */
+  private truncate(data: unknown): string | null {
+    if (data === undefined || data === null || data === '') {
+      return null;
+    }
+
+    const text = typeof data === 'string' ? data : JSON.stringify(data);
+    return text.slice(0, MAX_RESPONSE_BODY_LENGTH);
+  }
+}
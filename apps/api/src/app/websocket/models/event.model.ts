@@ -3,8 +3,20 @@ export enum PaymentEventType {
   PAYMENT_UPDATED = 'payment_updated',
   PAYMENT_COMPLETED = 'payment_completed',
   PAYMENT_FAILED = 'payment_failed',
+  PAYMENT_EXPIRED = 'payment_expired',
   TRANSACTION_SUBMITTED = 'transaction_submitted',
   TRANSACTION_CONFIRMED = 'transaction_confirmed',
+  REFUND_CREATED = 'refund_created',
+  REFUND_COMPLETED = 'refund_completed',
+  REFUND_FAILED = 'refund_failed',
+  INVOICE_FINALIZED = 'invoice_finalized',
+  INVOICE_PAID = 'invoice_paid',
+  INVOICE_VOIDED = 'invoice_voided',
+  SUBSCRIPTION_CREATED = 'subscription_created',
+  SUBSCRIPTION_ACTIVATED = 'subscription_activated',
+  SUBSCRIPTION_RENEWED = 'subscription_renewed',
+  SUBSCRIPTION_PAYMENT_FAILED = 'subscription_payment_failed',
+  SUBSCRIPTION_CANCELED = 'subscription_canceled',
 }
 
 export interface PaymentEvent {
@@ -14,3 +26,8 @@ export interface PaymentEvent {
   data: any;
   timestamp: Date;
 }
+
+// Called with every event sent to merchants, e.g. to react to completed payments
+export type PaymentEventListener = (
+  event: PaymentEvent,
+) => Promise<void> | void;
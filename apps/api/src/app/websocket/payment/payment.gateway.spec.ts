@@ -1,5 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { Socket } from 'socket.io';
 import { PaymentGateway } from './payment.gateway';
+import { PaymentEventType } from '../models/event.model';
+import { Money } from '../../money/money';
 
 describe('PaymentGateway', () => {
   let gateway: PaymentGateway;
@@ -15,4 +18,55 @@ describe('PaymentGateway', () => {
   it('should be defined', () => {
     expect(gateway).toBeDefined();
   });
+
+  describe('events', () => {
+    const client = { id: 'client-1', emit: jest.fn() };
+    const payment = {
+      id: 'payment-1',
+      amount: Money.of(10, 6),
+      customerEmail: 'customer@example.com',
+      metadata: { orderId: '42' },
+    };
+
+    beforeEach(() => {
+      client.emit.mockClear();
+      gateway.handleConnection(client as unknown as Socket);
+    });
+
+    it('leaves customer details out of merchant events', () => {
+      gateway.handleSubscribeMerchant(
+        client as unknown as Socket,
+        'merchant-1',
+      );
+
+      gateway.emitToMerchant('merchant-1', {
+        type: PaymentEventType.PAYMENT_CREATED,
+        paymentId: payment.id,
+        merchantId: 'merchant-1',
+        data: payment,
+        timestamp: new Date(),
+      });
+
+      const [, event] = client.emit.mock.calls[0];
+      expect(event.data).toEqual({ id: 'payment-1', amount: payment.amount });
+    });
+
+    it('leaves customer details out of nested payments', () => {
+      gateway.handleSubscribePayment(client as unknown as Socket, payment.id);
+
+      gateway.emitToPayment(payment.id, {
+        type: PaymentEventType.TRANSACTION_SUBMITTED,
+        paymentId: payment.id,
+        merchantId: 'merchant-1',
+        data: { payment, transactionSignature: 'sig' },
+        timestamp: new Date(),
+      });
+
+      const [, event] = client.emit.mock.calls[0];
+      expect(event.data.payment).not.toHaveProperty('customerEmail');
+      expect(event.data.payment).not.toHaveProperty('metadata');
+      expect(event.data.transactionSignature).toBe('sig');
+      expect(payment.customerEmail).toBe('customer@example.com');
+    });
+  });
 });
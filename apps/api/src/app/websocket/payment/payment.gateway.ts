@@ -9,6 +9,9 @@ import { Logger } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
 import { PaymentEvent } from '../models/event.model';
 
+// Anyone can subscribe, so customer details only go out in signed webhooks
+const PRIVATE_FIELDS = ['customerEmail', 'metadata'];
+
 @WebSocketGateway({
   cors: {
     origin: '*',
@@ -128,10 +131,11 @@ export class PaymentGateway
     this.logger.log(`Emitting event to merchant ${merchantId}: ${event.type}`);
 
     if (this.merchantClients.has(merchantId)) {
+      const publicEvent = this.toPublicEvent(event);
       for (const clientId of this.merchantClients.get(merchantId) ?? []) {
         const clientSocket = this.clients.get(clientId);
         if (clientSocket) {
-          clientSocket.emit('payment_event', event);
+          clientSocket.emit('payment_event', publicEvent);
         }
       }
     }
@@ -144,12 +148,42 @@ export class PaymentGateway
     this.logger.log(`Emitting event to payment ${paymentId}: ${event.type}`);
 
     if (this.paymentClients.has(paymentId)) {
+      const publicEvent = this.toPublicEvent(event);
       for (const clientId of this.paymentClients.get(paymentId) ?? []) {
         const clientSocket = this.clients.get(clientId);
         if (clientSocket) {
-          clientSocket.emit('payment_event', event);
+          clientSocket.emit('payment_event', publicEvent);
         }
       }
     }
   }
+
+  /**
+   * Copy of an event without the private fields of the payments, invoices
+   * and subscriptions it carries
+   */
+  private toPublicEvent(event: PaymentEvent): PaymentEvent {
+    return { ...event, data: this.withoutPrivateFields(event.data) };
+  }
+
+  private withoutPrivateFields(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.withoutPrivateFields(item));
+    }
+
+    // Values like Money and Date serialize themselves
+    if (
+      !value ||
+      typeof value !== 'object' ||
+      typeof (value as { toJSON?: unknown }).toJSON === 'function'
+    ) {
+      return value;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !PRIVATE_FIELDS.includes(key))
+        .map(([key, field]) => [key, this.withoutPrivateFields(field)]),
+    );
+  }
 }
@@ -0,0 +1,9 @@
+import { ApiKeys } from '../../../components/dashboard/api-keys';
+
+export const metadata = {
+  title: 'API keys',
+};
+
+export default function ApiKeysPage() {
+  return <ApiKeys />;
+}
@@ -0,0 +1,21 @@
+import { DashboardProvider } from '../../components/dashboard/dashboard-provider';
+import { WalletProviders } from '../../components/wallet-providers';
+
+export const metadata = {
+  title: 'Dashboard',
+};
+
+/**
+ * Every dashboard page needs the merchant to sign in with their wallet
+ */
+export default function DashboardLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <WalletProviders>
+      <DashboardProvider>{children}</DashboardProvider>
+    </WalletProviders>
+  );
+}
@@ -0,0 +1,5 @@
+import { PaymentsTable } from '../../components/dashboard/payments-table';
+
+export default function DashboardPage() {
+  return <PaymentsTable />;
+}
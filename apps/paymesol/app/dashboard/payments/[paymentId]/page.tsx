@@ -0,0 +1,13 @@
+import { PaymentDetail } from '../../../../components/dashboard/payment-detail';
+
+export const metadata = {
+  title: 'Payment',
+};
+
+export default function PaymentPage({
+  params,
+}: {
+  params: { paymentId: string };
+}) {
+  return <PaymentDetail paymentId={params.paymentId} />;
+}
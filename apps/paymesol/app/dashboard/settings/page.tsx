@@ -0,0 +1,9 @@
+import { MerchantSettings } from '../../../components/dashboard/merchant-settings';
+
+export const metadata = {
+  title: 'Settings',
+};
+
+export default function SettingsPage() {
+  return <MerchantSettings />;
+}
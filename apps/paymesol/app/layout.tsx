@@ -1,8 +1,8 @@
 import './global.css';
 
 export const metadata = {
-  title: 'Welcome to paymesol',
-  description: 'Generated by create-nx-workspace',
+  title: 'Payso',
+  description: 'Pay with any Solana token',
 };
 
 export default function RootLayout({
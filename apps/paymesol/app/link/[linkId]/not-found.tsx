@@ -0,0 +1,14 @@
+export default function PaymentLinkNotFound() {
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-gray-50 p-4">
+      <div className="w-full max-w-md rounded-xl bg-white p-8 text-center shadow">
+        <h1 className="text-2xl font-semibold text-gray-900">
+          Payment link not found
+        </h1>
+        <p className="mt-4 text-gray-500">
+          This payment link is invalid. Ask the merchant for a new one.
+        </p>
+      </div>
+    </main>
+  );
+}
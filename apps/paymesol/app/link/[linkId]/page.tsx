@@ -0,0 +1,38 @@
+import { notFound } from 'next/navigation';
+import { PaymentLinkCheckout } from '../../../components/payment-link-checkout';
+import { fetchPaymentLink } from '../../../lib/payso';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata = {
+  title: 'Checkout',
+};
+
+interface LinkPageProps {
+  params: { linkId: string };
+  searchParams: { key?: string }; // Publishable key of the merchant
+}
+
+/**
+ * Reusable payment link, every visitor who pays starts a payment of their own
+ */
+export default async function LinkPage({
+  params,
+  searchParams,
+}: LinkPageProps) {
+  const apiKey = searchParams.key;
+  if (!apiKey) {
+    notFound();
+  }
+
+  const paymentLink = await fetchPaymentLink(params.linkId);
+  if (!paymentLink) {
+    notFound();
+  }
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-gray-50 p-4">
+      <PaymentLinkCheckout paymentLink={paymentLink} apiKey={apiKey} />
+    </main>
+  );
+}
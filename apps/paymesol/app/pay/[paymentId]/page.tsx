@@ -0,0 +1,54 @@
+import { notFound, redirect } from 'next/navigation';
+import { Checkout } from '../../../components/checkout';
+import { CheckoutStatus } from '../../../components/checkout-status';
+import { WalletProviders } from '../../../components/wallet-providers';
+import {
+  fetchPayment,
+  getCheckoutState,
+  getRedirectUrl,
+} from '../../../lib/payso';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata = {
+  title: 'Checkout',
+};
+
+interface PayPageProps {
+  params: { paymentId: string };
+  searchParams: { key?: string }; // Publishable key of the merchant
+}
+
+/**
+ * Hosted checkout merchants redirect customers to instead of embedding the SDK
+ */
+export default async function PayPage({ params, searchParams }: PayPageProps) {
+  const apiKey = searchParams.key;
+  if (!apiKey) {
+    notFound();
+  }
+
+  const payment = await fetchPayment(params.paymentId, apiKey);
+  if (!payment) {
+    notFound();
+  }
+
+  const state = getCheckoutState(payment);
+
+  // Customers coming back to a paid checkout go straight to the merchant
+  if (state === 'completed' && payment.successUrl) {
+    redirect(getRedirectUrl(payment.successUrl, payment.id));
+  }
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-gray-50 p-4">
+      {state === 'open' ? (
+        <WalletProviders>
+          <Checkout payment={payment} apiKey={apiKey} />
+        </WalletProviders>
+      ) : (
+        <CheckoutStatus payment={payment} state={state} />
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,64 @@
+import type { Payment } from 'sdk';
+import { CheckoutState, getExplorerUrl, getRedirectUrl } from '../lib/payso';
+
+const MESSAGES: Record<
+  Exclude<CheckoutState, 'open'>,
+  { title: string; description: string }
+> = {
+  completed: {
+    title: 'Payment complete',
+    description: 'Your payment was received. You can close this page.',
+  },
+  expired: {
+    title: 'Payment expired',
+    description:
+      'This payment was not completed in time. Ask the merchant for a new payment link.',
+  },
+  failed: {
+    title: 'Payment failed',
+    description:
+      'The payment could not be completed and you were not charged for it.',
+  },
+};
+
+interface CheckoutStatusProps {
+  payment: Payment;
+  state: Exclude<CheckoutState, 'open'>;
+}
+
+/**
+ * Final screen of the checkout once the payment can no longer be paid
+ */
+export function CheckoutStatus({ payment, state }: CheckoutStatusProps) {
+  const { title, description } = MESSAGES[state];
+  const returnUrl =
+    state === 'completed' ? payment.successUrl : payment.cancelUrl;
+
+  return (
+    <div className="w-full max-w-md rounded-xl bg-white p-8 text-center shadow">
+      <h1 className="text-2xl font-semibold text-gray-900">{title}</h1>
+      <p className="mt-2 text-lg text-gray-700">
+        {payment.amount} {payment.currency}
+      </p>
+      <p className="mt-4 text-gray-500">{description}</p>
+      {payment.transactionSignature && state === 'completed' && (
+        <a
+          className="mt-4 block text-sm text-indigo-600 underline"
+          href={getExplorerUrl(payment.transactionSignature)}
+          target="_blank"
+          rel="noreferrer"
+        >
+          View transaction
+        </a>
+      )}
+      {returnUrl && (
+        <a
+          className="mt-6 inline-block rounded-lg bg-indigo-600 px-6 py-3 font-medium text-white"
+          href={getRedirectUrl(returnUrl, payment.id)}
+        >
+          Return to merchant
+        </a>
+      )}
+    </div>
+  );
+}
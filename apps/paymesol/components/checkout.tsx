@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { useWalletModal } from '@solana/wallet-adapter-react-ui';
+import { Payment, PaymentWidget, WalletAdapter } from 'sdk';
+import { CheckoutStatus } from './checkout-status';
+import { CheckoutState, getRedirectUrl, PAYSO_API_URL } from '../lib/payso';
+
+interface CheckoutProps {
+  payment: Payment;
+  apiKey: string; // Publishable key of the merchant
+}
+
+/**
+ * Pay an open payment with the PaymentWidget and a wallet adapter wallet
+ */
+export function Checkout({ payment, apiKey }: CheckoutProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const widgetRef = useRef<PaymentWidget | null>(null);
+  const { connection } = useConnection();
+  const wallet = useWallet();
+  const { setVisible } = useWalletModal();
+  const [result, setResult] = useState<{
+    payment: Payment;
+    state: Exclude<CheckoutState, 'open'>;
+  } | null>(null);
+
+  // The widget keeps the adapter it was mounted with, so it reads the
+  // current wallet through a ref
+  const walletRef = useRef(wallet);
+  walletRef.current = wallet;
+
+  const adapter = useMemo<WalletAdapter>(
+    () => ({
+      get publicKey() {
+        return walletRef.current.publicKey;
+      },
+      get connected() {
+        return walletRef.current.connected;
+      },
+      connect: async () => {
+        // Let the customer pick a wallet first, it connects once selected
+        if (!walletRef.current.wallet) {
+          setVisible(true);
+          return;
+        }
+
+        await walletRef.current.connect();
+      },
+      disconnect: () => walletRef.current.disconnect(),
+      signTransaction: async (transaction) => {
+        const { signTransaction } = walletRef.current;
+        if (!signTransaction) {
+          throw new Error('Wallet does not support signing transactions');
+        }
+        return signTransaction(transaction);
+      },
+      signAllTransactions: async (transactions) => {
+        const { signAllTransactions } = walletRef.current;
+        if (!signAllTransactions) {
+          throw new Error('Wallet does not support signing transactions');
+        }
+        return signAllTransactions(transactions);
+      },
+      sendTransaction: (transaction, connection, options) =>
+        walletRef.current.sendTransaction(transaction, connection, options),
+    }),
+    [setVisible]
+  );
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+
+    const widget = new PaymentWidget({
+      apiKey,
+      apiUrl: PAYSO_API_URL,
+      socketUrl: PAYSO_API_URL,
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      onPaymentCompleted: (completed) => {
+        if (completed.successUrl) {
+          window.location.assign(
+            getRedirectUrl(completed.successUrl, completed.id)
+          );
+          return;
+        }
+        setResult({ payment: completed, state: 'completed' });
+      },
+      onPaymentFailed: (failed) =>
+        setResult({ payment: failed, state: 'failed' }),
+      onPaymentExpired: (expired) =>
+        setResult({ payment: expired, state: 'expired' }),
+    });
+    widget.setPayment(payment);
+    widgetRef.current = widget;
+
+    widget.mount(container, adapter, connection).catch((error) => {
+      console.error('Failed to load checkout:', error);
+    });
+
+    return () => {
+      widget.unmount();
+      widgetRef.current = null;
+    };
+  }, [payment, apiKey, adapter, connection]);
+
+  // Show the wallet the customer picked in the wallet modal
+  useEffect(() => {
+    widgetRef.current?.refresh();
+  }, [wallet.connected, wallet.publicKey]);
+
+  return (
+    <div className="w-full max-w-md">
+      {result && (
+        <CheckoutStatus payment={result.payment} state={result.state} />
+      )}
+      <div ref={containerRef} hidden={!!result} />
+      {!result && payment.cancelUrl && (
+        <a
+          className="mt-4 block text-center text-sm text-gray-500 underline"
+          href={getRedirectUrl(payment.cancelUrl, payment.id)}
+        >
+          Cancel and return to merchant
+        </a>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { ApiKey, ApiKeyType, IssuedApiKey } from 'sdk';
+import { useDashboard } from './dashboard-provider';
+
+/**
+ * Create, rotate and revoke the merchant's API keys
+ */
+export function ApiKeys() {
+  const { client } = useDashboard();
+  const [apiKeys, setApiKeys] = useState<ApiKey[] | null>(null);
+  const [type, setType] = useState<ApiKeyType>(ApiKeyType.SECRET);
+  const [label, setLabel] = useState('');
+  const [issued, setIssued] = useState<IssuedApiKey | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    () =>
+      client
+        .listApiKeys()
+        .then(setApiKeys)
+        .catch((loadError) => setError(loadError.message)),
+    [client]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Every action reloads the list, rotated keys change their expiry
+  const run = async (action: () => Promise<IssuedApiKey | ApiKey>) => {
+    setError(null);
+    try {
+      const result = await action();
+      if ('key' in result) {
+        setIssued(result);
+      }
+      await load();
+    } catch (actionError) {
+      setError((actionError as Error).message);
+    }
+  };
+
+  const create = (event: FormEvent) => {
+    event.preventDefault();
+    run(() => client.createApiKey({ type, label: label || undefined }));
+    setLabel('');
+  };
+
+  const revoke = (apiKey: ApiKey) => {
+    if (
+      confirm(`Revoke ${apiKey.label || apiKey.keyPrefix}? This is immediate.`)
+    ) {
+      run(() => client.revokeApiKey(apiKey.id));
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      <h1 className="text-2xl font-semibold text-gray-900">API keys</h1>
+
+      {issued && (
+        <div className="rounded-xl border border-amber-300 bg-amber-50 p-4 text-sm">
+          <p className="text-amber-800">
+            Copy your new {issued.apiKey.type} key now, it is not shown again.
+          </p>
+          <input
+            className="mt-2 w-full rounded-lg border border-amber-300 bg-white px-3 py-2 font-mono text-xs"
+            value={issued.key}
+            readOnly
+            onFocus={(event) => event.target.select()}
+          />
+          <button
+            className="mt-2 text-amber-800 underline"
+            onClick={() => setIssued(null)}
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      <form
+        className="flex flex-wrap items-end gap-4 rounded-xl bg-white p-6 shadow"
+        onSubmit={create}
+      >
+        <label className="text-sm text-gray-700">
+          Type
+          <select
+            className="ml-2 rounded-lg border border-gray-300 px-2 py-1"
+            value={type}
+            onChange={(event) => setType(event.target.value as ApiKeyType)}
+          >
+            <option value={ApiKeyType.SECRET}>Secret</option>
+            <option value={ApiKeyType.PUBLISHABLE}>Publishable</option>
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Label
+          <input
+            className="ml-2 rounded-lg border border-gray-300 px-2 py-1"
+            value={label}
+            onChange={(event) => setLabel(event.target.value)}
+            placeholder="Optional"
+          />
+        </label>
+        <button
+          className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white"
+          type="submit"
+        >
+          Create key
+        </button>
+      </form>
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      <div className="overflow-x-auto rounded-xl bg-white shadow">
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-gray-200 text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Key</th>
+              <th className="px-4 py-3 font-medium">Label</th>
+              <th className="px-4 py-3 font-medium">Type</th>
+              <th className="px-4 py-3 font-medium">Last used</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {(apiKeys || []).map((apiKey) => (
+              <tr
+                key={apiKey.id}
+                className="border-b border-gray-100 last:border-0"
+              >
+                <td className="px-4 py-3 font-mono text-xs">
+                  {apiKey.keyPrefix}...{apiKey.lastFour}
+                </td>
+                <td className="px-4 py-3">{apiKey.label || '-'}</td>
+                <td className="px-4 py-3">{apiKey.type}</td>
+                <td className="px-4 py-3">
+                  {apiKey.lastUsedAt
+                    ? new Date(apiKey.lastUsedAt).toLocaleString()
+                    : 'Never'}
+                </td>
+                <td className="px-4 py-3">{getKeyStatus(apiKey)}</td>
+                <td className="space-x-4 px-4 py-3 text-right">
+                  {!apiKey.revokedAt && !apiKey.expiresAt && (
+                    <button
+                      className="text-indigo-600 underline"
+                      onClick={() => run(() => client.rotateApiKey(apiKey.id))}
+                    >
+                      Rotate
+                    </button>
+                  )}
+                  {!apiKey.revokedAt && (
+                    <button
+                      className="text-red-600 underline"
+                      onClick={() => revoke(apiKey)}
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+function getKeyStatus(apiKey: ApiKey): string {
+  if (apiKey.revokedAt) {
+    return 'Revoked';
+  }
+  if (apiKey.expiresAt) {
+    return new Date(apiKey.expiresAt).getTime() > Date.now()
+      ? `Expires ${new Date(apiKey.expiresAt).toLocaleString()}`
+      : 'Expired';
+  }
+  return 'Active';
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import type { Merchant } from 'sdk';
+
+const LINKS = [
+  { href: '/dashboard', label: 'Payments' },
+  { href: '/dashboard/api-keys', label: 'API keys' },
+  { href: '/dashboard/settings', label: 'Settings' },
+];
+
+interface DashboardNavProps {
+  merchant: Merchant;
+  onSignOut: () => void;
+}
+
+export function DashboardNav({ merchant, onSignOut }: DashboardNavProps) {
+  const pathname = usePathname();
+
+  return (
+    <nav className="border-b border-gray-200 bg-white">
+      <div className="mx-auto flex max-w-6xl items-center gap-6 px-6 py-4">
+        <span className="font-semibold text-gray-900">{merchant.name}</span>
+        {LINKS.map(({ href, label }) => {
+          // Payment detail pages belong to Payments
+          const isActive =
+            href === '/dashboard'
+              ? pathname === href || pathname.startsWith('/dashboard/payments')
+              : pathname.startsWith(href);
+
+          return (
+            <Link
+              key={href}
+              href={href}
+              className={
+                isActive ? 'font-medium text-indigo-600' : 'text-gray-500'
+              }
+            >
+              {label}
+            </Link>
+          );
+        })}
+        <button
+          className="ml-auto text-sm text-gray-500 underline"
+          onClick={onSignOut}
+        >
+          Sign out
+        </button>
+      </div>
+    </nav>
+  );
+}
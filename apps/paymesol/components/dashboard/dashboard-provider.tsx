@@ -0,0 +1,129 @@
+'use client';
+
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { Merchant, PaysoClient } from 'sdk';
+import { DashboardNav } from './dashboard-nav';
+import { SignIn } from './sign-in';
+import { PAYSO_API_URL } from '../../lib/payso';
+import {
+  clearSession,
+  loadSession,
+  saveSession,
+  StoredSession,
+} from '../../lib/session';
+
+interface DashboardContextValue {
+  client: PaysoClient;
+  merchant: Merchant;
+  setMerchant: (merchant: Merchant) => void;
+  signOut: () => void;
+}
+
+const DashboardContext = createContext<DashboardContextValue | null>(null);
+
+/**
+ * The signed in merchant and a client acting for it
+ */
+export function useDashboard(): DashboardContextValue {
+  const context = useContext(DashboardContext);
+  if (!context) {
+    throw new Error('useDashboard must be used inside DashboardProvider');
+  }
+  return context;
+}
+
+/**
+ * Keeps the merchant's wallet session and only shows the dashboard once
+ * signed in
+ */
+export function DashboardProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<StoredSession | null>(null);
+  const [merchant, setMerchant] = useState<Merchant | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // localStorage only exists in the browser
+  useEffect(() => {
+    setSession(loadSession());
+    setIsRestoring(false);
+  }, []);
+
+  const client = useMemo(
+    () =>
+      session
+        ? PaysoClient.withSession(session, PAYSO_API_URL, PAYSO_API_URL)
+        : null,
+    [session]
+  );
+
+  const signIn = useCallback((newSession: StoredSession) => {
+    saveSession(newSession);
+    setSession(newSession);
+  }, []);
+
+  const signOut = useCallback(() => {
+    clearSession();
+    setSession(null);
+    setMerchant(null);
+  }, []);
+
+  useEffect(() => {
+    if (!client) {
+      return;
+    }
+
+    client
+      .getMerchants()
+      .then(([signedIn]) => setMerchant(signedIn))
+      .catch(() => {
+        setError('Your session could not be restored, sign in again.');
+        signOut();
+      });
+
+    return () => client.disconnect();
+  }, [client, signOut]);
+
+  // Sessions are short-lived, sign out when this one runs out
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
+
+    const timeout = setTimeout(
+      signOut,
+      new Date(session.expiresAt).getTime() - Date.now()
+    );
+    return () => clearTimeout(timeout);
+  }, [session, signOut]);
+
+  if (isRestoring) {
+    return null;
+  }
+
+  if (!client) {
+    return <SignIn onSignIn={signIn} notice={error} />;
+  }
+
+  if (!merchant) {
+    return <p className="p-8 text-gray-500">Loading...</p>;
+  }
+
+  return (
+    <DashboardContext.Provider
+      value={{ client, merchant, setMerchant, signOut }}
+    >
+      <div className="min-h-screen bg-gray-50">
+        <DashboardNav merchant={merchant} onSignOut={signOut} />
+        <main className="mx-auto max-w-6xl p-6">{children}</main>
+      </div>
+    </DashboardContext.Provider>
+  );
+}
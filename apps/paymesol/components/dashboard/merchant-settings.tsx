@@ -0,0 +1,74 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useDashboard } from './dashboard-provider';
+
+/**
+ * The merchant's details and the wallet it is paid to
+ */
+export function MerchantSettings() {
+  const { client, merchant, setMerchant } = useDashboard();
+  const [walletAddress, setWalletAddress] = useState(merchant.walletAddress);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      setMerchant(await client.updateWallet(walletAddress));
+      setMessage('Wallet updated');
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      <h1 className="text-2xl font-semibold text-gray-900">Settings</h1>
+
+      <div className="rounded-xl bg-white p-6 shadow">
+        <dl className="grid grid-cols-[12rem_1fr] gap-x-4 gap-y-2 text-sm">
+          <dt className="text-gray-500">Merchant ID</dt>
+          <dd className="font-mono text-xs">{merchant.id}</dd>
+          <dt className="text-gray-500">Name</dt>
+          <dd>{merchant.name}</dd>
+          <dt className="text-gray-500">Settlement token</dt>
+          <dd className="font-mono text-xs">{merchant.settlementMint}</dd>
+          <dt className="text-gray-500">Payment expiry</dt>
+          <dd>{merchant.paymentExpiryMinutes} minutes</dd>
+        </dl>
+      </div>
+
+      <form className="rounded-xl bg-white p-6 shadow" onSubmit={save}>
+        <label className="block text-sm text-gray-700">
+          Payout wallet
+          <input
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 font-mono text-xs"
+            value={walletAddress}
+            onChange={(event) => setWalletAddress(event.target.value)}
+            required
+          />
+        </label>
+        <p className="mt-2 text-xs text-gray-500">
+          New payments are paid to this wallet, and you sign in to the dashboard
+          with it from now on.
+        </p>
+        <button
+          className="mt-4 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+          disabled={isSaving || walletAddress === merchant.walletAddress}
+          type="submit"
+        >
+          Save wallet
+        </button>
+        {message && <p className="mt-2 text-sm text-green-600">{message}</p>}
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import Link from 'next/link';
+import { ReactNode, useEffect, useState } from 'react';
+import { Payment, Quote } from 'sdk';
+import { useDashboard } from './dashboard-provider';
+import { StatusBadge } from './payments-table';
+import { getEventPayment } from '../../lib/payments';
+import { getExplorerUrl } from '../../lib/payso';
+
+/**
+ * A single payment with its transaction and the swap quote it was paid with
+ */
+export function PaymentDetail({ paymentId }: { paymentId: string }) {
+  const { client } = useDashboard();
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    client
+      .getPayment(paymentId)
+      .then(setPayment)
+      .catch((loadError) => setError(loadError.message));
+
+    client.subscribeToPaymentEvents(paymentId, (event) => {
+      const updated = getEventPayment(event);
+      if (updated) {
+        setPayment(updated);
+      }
+    });
+
+    return () => client.disconnect();
+  }, [client, paymentId]);
+
+  // The quote is only locked once the customer picks a token to swap
+  const quoteId = payment?.quoteId;
+  useEffect(() => {
+    if (!quoteId) {
+      return;
+    }
+
+    client
+      .getPaymentQuote(paymentId)
+      .then(setQuote)
+      .catch(() => setQuote(null));
+  }, [client, paymentId, quoteId]);
+
+  if (error) {
+    return <p className="text-red-600">{error}</p>;
+  }
+
+  if (!payment) {
+    return <p className="text-gray-500">Loading payment...</p>;
+  }
+
+  return (
+    <section className="space-y-6">
+      <Link className="text-sm text-gray-500 underline" href="/dashboard">
+        All payments
+      </Link>
+      <div className="flex items-center gap-4">
+        <h1 className="text-2xl font-semibold text-gray-900">
+          {payment.amount} {payment.currency}
+        </h1>
+        <StatusBadge status={payment.status} />
+      </div>
+
+      <Card title="Payment">
+        <Field label="ID" value={payment.id} mono />
+        <Field
+          label="Created"
+          value={new Date(payment.createdAt).toLocaleString()}
+        />
+        <Field
+          label="Expires"
+          value={
+            payment.expiresAt && new Date(payment.expiresAt).toLocaleString()
+          }
+        />
+        <Field label="Customer" value={payment.customerWallet} mono />
+        <Field label="Customer email" value={payment.customerEmail} />
+        <Field label="Paid with" value={payment.selectedToken} mono />
+        <Field label="Token amount" value={payment.tokenAmount} />
+        <Field label="Failure" value={payment.failureReason} />
+        <Field
+          label="Refunded"
+          value={payment.refundedAmount !== '0' && payment.refundedAmount}
+        />
+      </Card>
+
+      {Object.keys(payment.metadata ?? {}).length > 0 && (
+        <Card title="Metadata">
+          {Object.entries(payment.metadata).map(([key, value]) => (
+            <Field key={key} label={key} value={value} />
+          ))}
+        </Card>
+      )}
+
+      <Card title="Transaction">
+        <Field
+          label="Signature"
+          mono
+          value={
+            payment.transactionSignature && (
+              <a
+                className="text-indigo-600 underline"
+                href={getExplorerUrl(payment.transactionSignature)}
+                target="_blank"
+                rel="noreferrer"
+              >
+                {payment.transactionSignature}
+              </a>
+            )
+          }
+        />
+        <Field label="Confirmation" value={payment.confirmationStatus} />
+        <Field
+          label="Submitted"
+          value={
+            payment.submittedAt &&
+            new Date(payment.submittedAt).toLocaleString()
+          }
+        />
+      </Card>
+
+      <Card title="Settlement">
+        <Field label="Token" value={payment.settlementMint} mono />
+        <Field label="Amount" value={payment.settlementAmount} />
+        <Field
+          label="Platform fee"
+          value={`${payment.platformFeeAmount} (${
+            payment.platformFeeBps / 100
+          }%)`}
+        />
+        <Field label="You receive" value={payment.netAmount} />
+        <Field
+          label="Exchange rate"
+          value={
+            payment.exchangeRate &&
+            `${payment.exchangeRate} (${payment.exchangeRateSource})`
+          }
+        />
+        {payment.legs.map((leg) => (
+          <Field
+            key={leg.id}
+            label={`Recipient ${leg.position + 1}`}
+            mono
+            value={`${leg.walletAddress}: ${leg.amount} ${payment.currency}${
+              leg.settlementAmount ? ` (${leg.settlementAmount})` : ''
+            }`}
+          />
+        ))}
+      </Card>
+
+      {quote && (
+        <Card title="Swap quote">
+          <Field label="Quote" value={quote.id} mono />
+          <Field label="Customer pays" value={quote.inAmount} />
+          <Field label="Merchant receives" value={quote.outAmount} />
+          <Field label="Slippage" value={`${quote.slippageBps / 100}%`} />
+          <Field label="Price impact" value={`${quote.priceImpactPct}%`} />
+          <Field
+            label="Locked until"
+            value={new Date(quote.expiresAt).toLocaleString()}
+          />
+        </Card>
+      )}
+    </section>
+  );
+}
+
+function Card({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="rounded-xl bg-white p-6 shadow">
+      <h2 className="mb-4 font-medium text-gray-900">{title}</h2>
+      <dl className="grid grid-cols-[12rem_1fr] gap-x-4 gap-y-2 text-sm">
+        {children}
+      </dl>
+    </div>
+  );
+}
+
+function Field({
+  label,
+  value,
+  mono,
+}: {
+  label: string;
+  value: ReactNode;
+  mono?: boolean;
+}) {
+  if (value === undefined || value === null || value === false) {
+    return null;
+  }
+
+  return (
+    <>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className={`break-all ${mono ? 'font-mono text-xs' : ''}`}>
+        {value}
+      </dd>
+    </>
+  );
+}
@@ -0,0 +1,282 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { PaymentEventType, PaymentPage, PaymentStatus, Token } from 'sdk';
+import { useDashboard } from './dashboard-provider';
+import {
+  EMPTY_FILTERS,
+  getEventPayment,
+  matchesFilters,
+  PAGE_SIZE,
+  PaymentFilters,
+  shortenAddress,
+  toListPaymentsRequest,
+  upsertPayment,
+} from '../../lib/payments';
+
+/**
+ * The merchant's payments, newest first, kept up to date while open
+ */
+export function PaymentsTable() {
+  const { client } = useDashboard();
+  const [payments, setPayments] = useState<PaymentPage | null>(null);
+  const [tokens, setTokens] = useState<Token[]>([]);
+  const [filters, setFilters] = useState<PaymentFilters>(EMPTY_FILTERS);
+  // Cursor of every page up to the current one, the first page has none
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const [error, setError] = useState<string | null>(null);
+  const pageIndex = cursors.length - 1;
+  const cursor = cursors[pageIndex];
+
+  useEffect(() => {
+    setError(null);
+    client
+      .getPaymentsPage({ ...toListPaymentsRequest(filters), cursor })
+      .then(setPayments)
+      .catch((loadError) => setError(loadError.message));
+  }, [client, filters, cursor]);
+
+  // Only used to label and filter mints, the table works without it
+  useEffect(() => {
+    client
+      .getPopularTokens()
+      .then(setTokens)
+      .catch(() => setTokens([]));
+  }, [client]);
+
+  // Events are applied to whatever page is shown when they arrive
+  const view = useRef({ filters, pageIndex });
+  view.current = { filters, pageIndex };
+
+  useEffect(() => {
+    client.subscribeToMerchantEvents((event) => {
+      const payment = getEventPayment(event);
+      if (!payment) {
+        return;
+      }
+
+      setPayments((current) => {
+        if (!current) {
+          return current;
+        }
+
+        if (current.data.some(({ id }) => id === payment.id)) {
+          return { ...current, data: upsertPayment(current.data, payment) };
+        }
+
+        const isNew =
+          event.type === PaymentEventType.PAYMENT_CREATED &&
+          matchesFilters(payment, view.current.filters);
+        if (!isNew) {
+          return current;
+        }
+
+        // New payments are the newest, so they only show on the first page
+        return {
+          ...current,
+          data:
+            view.current.pageIndex === 0
+              ? upsertPayment(current.data, payment).slice(0, PAGE_SIZE)
+              : current.data,
+          total: current.total + 1,
+        };
+      });
+    });
+
+    return () => client.disconnect();
+  }, [client]);
+
+  const tokenSymbols = useMemo(
+    () => new Map(tokens.map(({ address, symbol }) => [address, symbol])),
+    [tokens]
+  );
+  const total = payments?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const rows = payments?.data ?? [];
+
+  const setFilter = (changes: Partial<PaymentFilters>) => {
+    setFilters((current) => ({ ...current, ...changes }));
+    setCursors([undefined]);
+  };
+
+  const tokenLabel = (mint: string) =>
+    tokenSymbols.get(mint) || shortenAddress(mint);
+
+  if (error) {
+    return <p className="text-red-600">{error}</p>;
+  }
+
+  if (!payments) {
+    return <p className="text-gray-500">Loading payments...</p>;
+  }
+
+  return (
+    <section>
+      <div className="mb-4 flex flex-wrap items-end gap-4">
+        <h1 className="mr-auto text-2xl font-semibold text-gray-900">
+          Payments
+        </h1>
+        <label className="text-sm text-gray-700">
+          Status
+          <select
+            className="ml-2 rounded-lg border border-gray-300 px-2 py-1"
+            value={filters.status}
+            onChange={(event) =>
+              setFilter({ status: event.target.value as PaymentStatus | '' })
+            }
+          >
+            <option value="">All</option>
+            {Object.values(PaymentStatus).map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          From
+          <input
+            className="ml-2 rounded-lg border border-gray-300 px-2 py-1"
+            type="date"
+            value={filters.from}
+            onChange={(event) => setFilter({ from: event.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          To
+          <input
+            className="ml-2 rounded-lg border border-gray-300 px-2 py-1"
+            type="date"
+            value={filters.to}
+            onChange={(event) => setFilter({ to: event.target.value })}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Paid with
+          <select
+            className="ml-2 rounded-lg border border-gray-300 px-2 py-1"
+            value={filters.token}
+            onChange={(event) => setFilter({ token: event.target.value })}
+          >
+            <option value="">Any token</option>
+            {tokens.map(({ address, symbol }) => (
+              <option key={address} value={address}>
+                {symbol}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Metadata
+          <input
+            className="ml-2 rounded-lg border border-gray-300 px-2 py-1"
+            placeholder="orderId=123"
+            value={filters.metadata}
+            onChange={(event) => setFilter({ metadata: event.target.value })}
+          />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl bg-white shadow">
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-gray-200 text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Created</th>
+              <th className="px-4 py-3 font-medium">Amount</th>
+              <th className="px-4 py-3 font-medium">Paid with</th>
+              <th className="px-4 py-3 font-medium">Customer</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((payment) => (
+              <tr
+                key={payment.id}
+                className="border-b border-gray-100 last:border-0 hover:bg-gray-50"
+              >
+                <td className="px-4 py-3">
+                  <Link
+                    className="text-indigo-600 underline"
+                    href={`/dashboard/payments/${payment.id}`}
+                  >
+                    {new Date(payment.createdAt).toLocaleString()}
+                  </Link>
+                </td>
+                <td className="px-4 py-3">
+                  {payment.amount} {payment.currency}
+                </td>
+                <td className="px-4 py-3">
+                  {payment.tokenAmount} {tokenLabel(payment.selectedToken)}
+                </td>
+                <td className="px-4 py-3 font-mono text-xs">
+                  {payment.customerWallet
+                    ? shortenAddress(payment.customerWallet)
+                    : '-'}
+                </td>
+                <td className="px-4 py-3">
+                  <StatusBadge status={payment.status} />
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td className="px-4 py-8 text-center text-gray-500" colSpan={5}>
+                  No payments found
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
+        <span>
+          {total} payment{total === 1 ? '' : 's'}
+        </span>
+        <div className="flex items-center gap-4">
+          <button
+            className="underline disabled:no-underline disabled:opacity-50"
+            disabled={pageIndex === 0}
+            onClick={() => setCursors(cursors.slice(0, -1))}
+          >
+            Previous
+          </button>
+          <span>
+            Page {pageIndex + 1} of {pageCount}
+          </span>
+          <button
+            className="underline disabled:no-underline disabled:opacity-50"
+            disabled={!payments?.nextCursor}
+            onClick={() =>
+              payments?.nextCursor &&
+              setCursors([...cursors, payments.nextCursor])
+            }
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+const STATUS_COLORS: Record<PaymentStatus, string> = {
+  [PaymentStatus.PENDING]: 'bg-gray-100 text-gray-700',
+  [PaymentStatus.PROCESSING]: 'bg-amber-100 text-amber-700',
+  [PaymentStatus.COMPLETED]: 'bg-green-100 text-green-700',
+  [PaymentStatus.FAILED]: 'bg-red-100 text-red-700',
+  [PaymentStatus.EXPIRED]: 'bg-gray-100 text-gray-500',
+  [PaymentStatus.REFUNDED]: 'bg-indigo-100 text-indigo-700',
+  [PaymentStatus.PARTIALLY_REFUNDED]: 'bg-indigo-100 text-indigo-700',
+};
+
+export function StatusBadge({ status }: { status: PaymentStatus }) {
+  return (
+    <span
+      className={`rounded-full px-2 py-1 text-xs font-medium ${STATUS_COLORS[status]}`}
+    >
+      {status.replace('_', ' ')}
+    </span>
+  );
+}
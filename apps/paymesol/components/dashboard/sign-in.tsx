@@ -0,0 +1,177 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import { Merchant, PaysoClient } from 'sdk';
+import { PAYSO_API_URL } from '../../lib/payso';
+import { StoredSession } from '../../lib/session';
+
+interface SignInProps {
+  onSignIn: (session: StoredSession) => void;
+  notice?: string | null;
+}
+
+/**
+ * Sign in with the merchant's wallet, or register a new merchant first
+ */
+export function SignIn({ onSignIn, notice }: SignInProps) {
+  const { publicKey, signMessage } = useWallet();
+  const [isOnboarding, setIsOnboarding] = useState(false);
+  const [name, setName] = useState('');
+  const [walletAddress, setWalletAddress] = useState('');
+  const [createdMerchant, setCreatedMerchant] = useState<Merchant | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // New merchants are paid to the wallet they sign in with by default
+  useEffect(() => {
+    if (publicKey && !walletAddress) {
+      setWalletAddress(publicKey.toBase58());
+    }
+  }, [publicKey, walletAddress]);
+
+  const signIn = async () => {
+    if (!publicKey || !signMessage) {
+      setError('Connect a wallet that can sign messages');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      onSignIn(
+        await PaysoClient.signInWithWallet(
+          publicKey.toBase58(),
+          signMessage,
+          PAYSO_API_URL
+        )
+      );
+    } catch (signInError) {
+      setError((signInError as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const createMerchant = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      setCreatedMerchant(
+        await PaysoClient.createMerchant({ name, walletAddress }, PAYSO_API_URL)
+      );
+    } catch (createError) {
+      setError((createError as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-gray-50 p-4">
+      <div className="w-full max-w-md rounded-xl bg-white p-8 shadow">
+        <h1 className="text-2xl font-semibold text-gray-900">
+          {isOnboarding ? 'Create your merchant' : 'Merchant dashboard'}
+        </h1>
+        {notice && <p className="mt-4 text-sm text-amber-600">{notice}</p>}
+
+        <div className="mt-6">
+          <WalletMultiButton />
+        </div>
+
+        {createdMerchant ? (
+          <div className="mt-6 space-y-4">
+            <p className="text-gray-700">
+              {createdMerchant.name} was created. Store these keys now, they are
+              not shown again.
+            </p>
+            <KeyField label="Secret key" value={createdMerchant.apiKey} />
+            <KeyField
+              label="Publishable key"
+              value={createdMerchant.publishableKey}
+            />
+            <button
+              className="w-full rounded-lg bg-indigo-600 px-4 py-3 font-medium text-white disabled:opacity-50"
+              disabled={isBusy || !publicKey}
+              onClick={signIn}
+            >
+              Sign in
+            </button>
+          </div>
+        ) : isOnboarding ? (
+          <form className="mt-6 space-y-4" onSubmit={createMerchant}>
+            <label className="block text-sm text-gray-700">
+              Business name
+              <input
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                required
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              Wallet
+              <input
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 font-mono text-xs"
+                value={walletAddress}
+                onChange={(event) => setWalletAddress(event.target.value)}
+                required
+              />
+              <span className="mt-1 block text-xs text-gray-500">
+                Receives your payments, and you sign in with it
+              </span>
+            </label>
+            <button
+              className="w-full rounded-lg bg-indigo-600 px-4 py-3 font-medium text-white disabled:opacity-50"
+              disabled={isBusy}
+              type="submit"
+            >
+              Create merchant
+            </button>
+            <button
+              className="w-full text-sm text-gray-500 underline"
+              type="button"
+              onClick={() => setIsOnboarding(false)}
+            >
+              I already have a merchant
+            </button>
+          </form>
+        ) : (
+          <div className="mt-6 space-y-4">
+            <button
+              className="w-full rounded-lg bg-indigo-600 px-4 py-3 font-medium text-white disabled:opacity-50"
+              disabled={isBusy || !publicKey}
+              onClick={signIn}
+            >
+              Sign in with wallet
+            </button>
+            <button
+              className="w-full text-sm text-gray-500 underline"
+              onClick={() => setIsOnboarding(true)}
+            >
+              New to Payso? Create a merchant
+            </button>
+          </div>
+        )}
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      </div>
+    </main>
+  );
+}
+
+function KeyField({ label, value }: { label: string; value?: string }) {
+  return (
+    <label className="block text-sm text-gray-700">
+      {label}
+      <input
+        className="mt-1 w-full rounded-lg border border-gray-300 bg-gray-50 px-3 py-2 font-mono text-xs"
+        value={value || ''}
+        readOnly
+        onFocus={(event) => event.target.select()}
+      />
+    </label>
+  );
+}
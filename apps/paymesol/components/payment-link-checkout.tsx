@@ -0,0 +1,103 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { PaysoClient, PublicPaymentLink } from 'sdk';
+import { PAYSO_API_URL } from '../lib/payso';
+
+interface PaymentLinkCheckoutProps {
+  paymentLink: PublicPaymentLink;
+  apiKey: string; // Publishable key, passed on to the checkout
+}
+
+/**
+ * Ask for the amount when the customer chooses it, then send them to the
+ * checkout of a payment created just for them
+ */
+export function PaymentLinkCheckout({
+  paymentLink,
+  apiKey,
+}: PaymentLinkCheckoutProps) {
+  const router = useRouter();
+  const [amount, setAmount] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  if (!paymentLink.available) {
+    return (
+      <div className="w-full max-w-md rounded-xl bg-white p-8 text-center shadow">
+        <h1 className="text-2xl font-semibold text-gray-900">
+          Payment link unavailable
+        </h1>
+        <p className="mt-4 text-gray-500">
+          This payment link can no longer be paid. Ask the merchant for a new
+          one.
+        </p>
+      </div>
+    );
+  }
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      const payment = await PaysoClient.resolvePaymentLink(
+        paymentLink.id,
+        paymentLink.amount ? {} : { amount: Number(amount) },
+        PAYSO_API_URL
+      );
+      router.push(
+        `/pay/${encodeURIComponent(payment.id)}?key=${encodeURIComponent(
+          apiKey
+        )}`
+      );
+    } catch (resolveError) {
+      setError(
+        resolveError instanceof Error
+          ? resolveError.message
+          : 'Could not start the payment'
+      );
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      className="w-full max-w-md rounded-xl bg-white p-8 shadow"
+      onSubmit={handleSubmit}
+    >
+      <h1 className="text-2xl font-semibold text-gray-900">
+        {paymentLink.description}
+      </h1>
+      {paymentLink.amount ? (
+        <p className="mt-2 text-lg text-gray-700">
+          {paymentLink.amount} {paymentLink.currency}
+        </p>
+      ) : (
+        <label className="mt-4 block text-sm text-gray-700">
+          Amount ({paymentLink.currency})
+          <input
+            className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2"
+            type="number"
+            step="any"
+            min={paymentLink.minAmount ?? 0}
+            max={paymentLink.maxAmount ?? undefined}
+            value={amount}
+            onChange={(event) => setAmount(event.target.value)}
+            required
+          />
+        </label>
+      )}
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      <button
+        className="mt-6 w-full rounded-lg bg-indigo-600 px-6 py-3 font-medium text-white disabled:opacity-50"
+        type="submit"
+        disabled={submitting}
+      >
+        {submitting ? 'Starting payment...' : 'Pay'}
+      </button>
+    </form>
+  );
+}
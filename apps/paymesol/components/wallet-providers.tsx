@@ -0,0 +1,27 @@
+'use client';
+
+import { ReactNode, useMemo } from 'react';
+import {
+  ConnectionProvider,
+  WalletProvider,
+} from '@solana/wallet-adapter-react';
+import { WalletModalProvider } from '@solana/wallet-adapter-react-ui';
+import { SOLANA_RPC_URL } from '../lib/payso';
+
+import '@solana/wallet-adapter-react-ui/styles.css';
+
+/**
+ * Solana connection and wallet adapter context for the checkout and dashboard
+ */
+export function WalletProviders({ children }: { children: ReactNode }) {
+  // Wallet Standard wallets like Phantom and Solflare register themselves
+  const wallets = useMemo(() => [], []);
+
+  return (
+    <ConnectionProvider endpoint={SOLANA_RPC_URL}>
+      <WalletProvider wallets={wallets} autoConnect>
+        <WalletModalProvider>{children}</WalletModalProvider>
+      </WalletProvider>
+    </ConnectionProvider>
+  );
+}
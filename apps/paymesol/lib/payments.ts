@@ -0,0 +1,117 @@
+import type {
+  ListPaymentsRequest,
+  Payment,
+  PaymentEvent,
+  PaymentStatus,
+} from 'sdk';
+
+export const PAGE_SIZE = 20;
+
+export interface PaymentFilters {
+  status: PaymentStatus | '';
+  from: string; // yyyy-mm-dd, inclusive
+  to: string; // yyyy-mm-dd, inclusive
+  token: string; // Mint the customer paid with
+  metadata: string; // key=value, e.g. orderId=123
+}
+
+export const EMPTY_FILTERS: PaymentFilters = {
+  status: '',
+  from: '',
+  to: '',
+  token: '',
+  metadata: '',
+};
+
+/**
+ * Listing parameters for the filters, dates are whole days in local time
+ */
+export function toListPaymentsRequest(
+  filters: PaymentFilters
+): ListPaymentsRequest {
+  const request: ListPaymentsRequest = { limit: PAGE_SIZE };
+  if (filters.status) {
+    request.status = filters.status;
+  }
+  if (filters.from) {
+    request.from = new Date(`${filters.from}T00:00:00`);
+  }
+  if (filters.to) {
+    const to = new Date(`${filters.to}T00:00:00`);
+    to.setDate(to.getDate() + 1);
+    request.to = to;
+  }
+  if (filters.token) {
+    request.selectedToken = filters.token;
+  }
+  const metadata = parseMetadataFilter(filters.metadata);
+  if (metadata) {
+    request.metadata = metadata;
+  }
+  return request;
+}
+
+/**
+ * Metadata search typed as key=value, null until there is a key
+ */
+export function parseMetadataFilter(
+  filter: string
+): Record<string, string> | null {
+  const separator = filter.indexOf('=');
+  const key = (separator === -1 ? filter : filter.slice(0, separator)).trim();
+  if (!key || separator === -1) {
+    return null;
+  }
+
+  return { [key]: filter.slice(separator + 1).trim() };
+}
+
+/**
+ * Whether a payment belongs in the list for these filters
+ */
+export function matchesFilters(
+  payment: Payment,
+  filters: PaymentFilters
+): boolean {
+  const { from, to, metadata } = toListPaymentsRequest(filters);
+  const createdAt = new Date(payment.createdAt).getTime();
+  return (
+    (!filters.status || payment.status === filters.status) &&
+    (!filters.token || payment.selectedToken === filters.token) &&
+    Object.entries(metadata ?? {}).every(
+      ([key, value]) => payment.metadata?.[key] === value
+    ) &&
+    (!from || createdAt >= new Date(from).getTime()) &&
+    (!to || createdAt < new Date(to).getTime())
+  );
+}
+
+/**
+ * The payment an event is about, events with extra data wrap it
+ */
+export function getEventPayment(event: PaymentEvent): Payment | null {
+  const payment = event.data?.payment ?? event.data;
+  return payment?.id === event.paymentId ? payment : null;
+}
+
+/**
+ * Replace a payment in a newest-first list, or add it at the top
+ */
+export function upsertPayment(payments: Payment[], payment: Payment) {
+  if (!payments.some(({ id }) => id === payment.id)) {
+    return [payment, ...payments];
+  }
+
+  return payments.map((existing) =>
+    existing.id === payment.id ? payment : existing
+  );
+}
+
+/**
+ * First and last characters of a wallet, mint or signature
+ */
+export function shortenAddress(address: string): string {
+  return address.length > 12
+    ? `${address.slice(0, 4)}...${address.slice(-4)}`
+    : address;
+}
@@ -0,0 +1,100 @@
+import { Payment, PaymentStatus, PublicPaymentLink } from 'sdk';
+
+export const PAYSO_API_URL =
+  process.env.NEXT_PUBLIC_PAYSO_API_URL || 'http://localhost:3000';
+
+export const SOLANA_RPC_URL =
+  process.env.NEXT_PUBLIC_SOLANA_RPC_URL ||
+  'https://api.mainnet-beta.solana.com';
+
+export type CheckoutState = 'open' | 'completed' | 'expired' | 'failed';
+
+/**
+ * Load a payment with the merchant's publishable key, null when the key
+ * cannot see it
+ */
+export async function fetchPayment(
+  paymentId: string,
+  apiKey: string
+): Promise<Payment | null> {
+  const response = await fetch(
+    `${PAYSO_API_URL}/payments/${encodeURIComponent(paymentId)}`,
+    { headers: { 'x-api-key': apiKey }, cache: 'no-store' }
+  );
+
+  if ([401, 403, 404].includes(response.status)) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load payment ${paymentId}: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Load what a payment link shows its visitors, null when it does not exist
+ */
+export async function fetchPaymentLink(
+  linkId: string
+): Promise<PublicPaymentLink | null> {
+  const response = await fetch(
+    `${PAYSO_API_URL}/payment-links/${encodeURIComponent(linkId)}/public`,
+    { cache: 'no-store' }
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Failed to load payment link ${linkId}: ${response.status}`
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * What the checkout page shows for a payment
+ */
+export function getCheckoutState(payment: Payment): CheckoutState {
+  switch (payment.status) {
+    case PaymentStatus.COMPLETED:
+    case PaymentStatus.REFUNDED:
+    case PaymentStatus.PARTIALLY_REFUNDED:
+      return 'completed';
+    case PaymentStatus.FAILED:
+      return 'failed';
+    case PaymentStatus.EXPIRED:
+      return 'expired';
+  }
+
+  // The expiry sweeper may not have caught up yet
+  if (
+    payment.status === PaymentStatus.PENDING &&
+    payment.expiresAt &&
+    new Date(payment.expiresAt).getTime() <= Date.now()
+  ) {
+    return 'expired';
+  }
+
+  return 'open';
+}
+
+/**
+ * Add the payment ID to a merchant redirect URL, so the merchant knows which
+ * payment the customer comes back from
+ */
+export function getRedirectUrl(url: string, paymentId: string): string {
+  const redirectUrl = new URL(url);
+  redirectUrl.searchParams.set('paymentId', paymentId);
+  return redirectUrl.toString();
+}
+
+/**
+ * Block explorer page of a transaction
+ */
+export function getExplorerUrl(signature: string): string {
+  return `https://solscan.io/tx/${signature}`;
+}
@@ -0,0 +1,37 @@
+import type { WalletSession } from 'sdk';
+
+const SESSION_KEY = 'payso.session';
+
+export type StoredSession = Pick<
+  WalletSession,
+  'token' | 'merchantId' | 'expiresAt'
+>;
+
+/**
+ * The dashboard session kept from an earlier visit, if it has not expired
+ */
+export function loadSession(): StoredSession | null {
+  try {
+    const session = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    if (session && new Date(session.expiresAt).getTime() > Date.now()) {
+      return session;
+    }
+  } catch {
+    // Ignore sessions stored by an older version
+  }
+
+  clearSession();
+  return null;
+}
+
+export function saveSession(session: StoredSession): void {
+  const { token, merchantId, expiresAt } = session;
+  localStorage.setItem(
+    SESSION_KEY,
+    JSON.stringify({ token, merchantId, expiresAt })
+  );
+}
+
+export function clearSession(): void {
+  localStorage.removeItem(SESSION_KEY);
+}
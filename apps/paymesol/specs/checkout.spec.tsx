@@ -0,0 +1,59 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { Payment, PaymentStatus } from 'sdk';
+
+import { CheckoutStatus } from '../components/checkout-status';
+import { getCheckoutState, getRedirectUrl } from '../lib/payso';
+
+describe('Checkout', () => {
+  const createPayment = (overrides: Partial<Payment> = {}) =>
+    ({
+      id: 'payment-1',
+      amount: '10.99',
+      currency: 'USD',
+      status: PaymentStatus.PENDING,
+      expiresAt: new Date(Date.now() + 60000),
+      ...overrides,
+    }) as Payment;
+
+  describe('getCheckoutState', () => {
+    it('keeps pending and processing payments open', () => {
+      expect(getCheckoutState(createPayment())).toBe('open');
+      expect(
+        getCheckoutState(createPayment({ status: PaymentStatus.PROCESSING }))
+      ).toBe('open');
+    });
+
+    it('treats pending payments past their expiry as expired', () => {
+      const payment = createPayment({ expiresAt: new Date(Date.now() - 1) });
+
+      expect(getCheckoutState(payment)).toBe('expired');
+    });
+
+    it('treats refunded payments as paid', () => {
+      expect(
+        getCheckoutState(createPayment({ status: PaymentStatus.REFUNDED }))
+      ).toBe('completed');
+    });
+  });
+
+  it('adds the payment ID to redirect URLs', () => {
+    expect(
+      getRedirectUrl('https://shop.example/done?order=42', 'payment-1')
+    ).toBe('https://shop.example/done?order=42&paymentId=payment-1');
+  });
+
+  it('links expired payments back to the cancel URL', () => {
+    const { getByText } = render(
+      <CheckoutStatus
+        payment={createPayment({ cancelUrl: 'https://shop.example/cart' })}
+        state="expired"
+      />
+    );
+
+    expect(getByText('Payment expired')).toBeTruthy();
+    expect(getByText('Return to merchant').getAttribute('href')).toBe(
+      'https://shop.example/cart?paymentId=payment-1'
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import type { Payment, PaymentEvent, PaymentStatus } from 'sdk';
+
+import {
+  EMPTY_FILTERS,
+  getEventPayment,
+  matchesFilters,
+  parseMetadataFilter,
+  shortenAddress,
+  toListPaymentsRequest,
+  upsertPayment,
+} from '../lib/payments';
+
+describe('Dashboard payments', () => {
+  const createPayment = (overrides: Partial<Payment> = {}) =>
+    ({
+      id: 'payment-1',
+      status: 'completed' as PaymentStatus,
+      selectedToken: 'So11111111111111111111111111111111111111112',
+      createdAt: new Date('2026-03-10T12:00:00'),
+      ...overrides,
+    }) as Payment;
+
+  describe('toListPaymentsRequest', () => {
+    it('only sends the filters that are set', () => {
+      expect(toListPaymentsRequest(EMPTY_FILTERS)).toEqual({ limit: 20 });
+      expect(
+        toListPaymentsRequest({
+          ...EMPTY_FILTERS,
+          status: 'pending' as PaymentStatus,
+          token: 'So11111111111111111111111111111111111111112',
+        })
+      ).toEqual({
+        limit: 20,
+        status: 'pending',
+        selectedToken: 'So11111111111111111111111111111111111111112',
+      });
+    });
+
+    it('covers whole days at both ends of the date range', () => {
+      expect(
+        toListPaymentsRequest({
+          ...EMPTY_FILTERS,
+          from: '2026-03-10',
+          to: '2026-03-10',
+        })
+      ).toEqual({
+        limit: 20,
+        from: new Date('2026-03-10T00:00:00'),
+        to: new Date('2026-03-11T00:00:00'),
+      });
+    });
+  });
+
+  describe('parseMetadataFilter', () => {
+    it('reads a key=value search', () => {
+      expect(parseMetadataFilter(' orderId = order-42 ')).toEqual({
+        orderId: 'order-42',
+      });
+      expect(parseMetadataFilter('orderId')).toBeNull();
+      expect(parseMetadataFilter('=order-42')).toBeNull();
+    });
+  });
+
+  describe('matchesFilters', () => {
+    it('checks status, token and date range', () => {
+      const payment = createPayment();
+
+      expect(matchesFilters(payment, EMPTY_FILTERS)).toBe(true);
+      expect(
+        matchesFilters(payment, {
+          ...EMPTY_FILTERS,
+          status: 'pending' as PaymentStatus,
+        })
+      ).toBe(false);
+      expect(
+        matchesFilters(payment, {
+          ...EMPTY_FILTERS,
+          token: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        })
+      ).toBe(false);
+      expect(
+        matchesFilters(payment, {
+          ...EMPTY_FILTERS,
+          from: '2026-03-10',
+          to: '2026-03-10',
+        })
+      ).toBe(true);
+      expect(
+        matchesFilters(payment, { ...EMPTY_FILTERS, from: '2026-03-11' })
+      ).toBe(false);
+      expect(
+        matchesFilters(
+          { ...payment, metadata: { orderId: 'order-42' } },
+          { ...EMPTY_FILTERS, metadata: 'orderId=order-42' }
+        )
+      ).toBe(true);
+      expect(
+        matchesFilters(payment, { ...EMPTY_FILTERS, metadata: 'orderId=1' })
+      ).toBe(false);
+    });
+  });
+
+  describe('getEventPayment', () => {
+    const createEvent = (data: unknown) =>
+      ({
+        paymentId: 'payment-1',
+        merchantId: 'merchant-1',
+        data,
+      }) as PaymentEvent;
+
+    it('reads the payment from the event data', () => {
+      const payment = createPayment();
+
+      expect(getEventPayment(createEvent(payment))).toBe(payment);
+      expect(getEventPayment(createEvent({ payment, quote: null }))).toBe(
+        payment
+      );
+    });
+
+    it('ignores events that do not carry the payment', () => {
+      expect(getEventPayment(createEvent({ signature: 'abc' }))).toBeNull();
+      expect(getEventPayment(createEvent(null))).toBeNull();
+    });
+  });
+
+  describe('upsertPayment', () => {
+    it('replaces known payments and adds new ones at the top', () => {
+      const existing = [createPayment(), createPayment({ id: 'payment-2' })];
+      const updated = createPayment({ status: 'failed' as PaymentStatus });
+      const created = createPayment({ id: 'payment-3' });
+
+      expect(upsertPayment(existing, updated)).toEqual([updated, existing[1]]);
+      expect(upsertPayment(existing, created).map(({ id }) => id)).toEqual([
+        'payment-3',
+        'payment-1',
+        'payment-2',
+      ]);
+    });
+  });
+
+  it('shortens long addresses only', () => {
+    expect(shortenAddress('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v')).toBe(
+      'EPjF...Dt1v'
+    );
+    expect(shortenAddress('short')).toBe('short');
+  });
+});
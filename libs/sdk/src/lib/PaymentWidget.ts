@@ -1,6 +1,7 @@
 import {
   Connection,
   PublicKey,
+  SystemProgram,
   Transaction,
   VersionedTransaction,
 } from "@solana/web3.js";
@@ -8,23 +9,40 @@ import {
   getAssociatedTokenAddress,
   createTransferInstruction,
 } from "@solana/spl-token";
-import { Payment, Token, PaymentEventType } from "./models";
+import {
+  Payment,
+  Token,
+  PaymentEventType,
+  PaymentStatus,
+  SolanaPayRequest,
+  Quote,
+  PaymentMetadataInput,
+} from "./models";
 import { PaysoClient } from "./PaysoClient";
+import { QuoteChangedError } from "./errors";
+import { createQrCode, renderQrCodeSvg } from "./qrcode";
 
 export interface PaymentWidgetOptions {
-  apiKey: string;
+  apiKey: string; // Publishable key, never embed a secret key in browser code
   apiUrl?: string;
   socketUrl?: string;
   amount: number;
   currency: string;
   customerEmail?: string;
-  metadata?: string;
+  metadata?: PaymentMetadataInput;
+  expiresInMinutes?: number;
+  qrCodePollInterval?: number; // How often QR mode checks the payment status, in ms
   onPaymentCreated?: (payment: Payment) => void;
-  onPaymentPrepared?: (payment: Payment, quote: any) => void;
+  onPaymentPrepared?: (payment: Payment, quote: Quote | null) => void;
   onPaymentExecuted?: (payment: Payment, transactionData: any) => void;
   onPaymentCompleted?: (payment: Payment) => void;
   onPaymentFailed?: (payment: Payment, reason: string) => void;
+  onPaymentExpired?: (payment: Payment) => void;
   onTransactionSubmitted?: (payment: Payment, signature: string) => void;
+  onTransactionConfirmed?: (
+    payment: Payment,
+    confirmationStatus: "processed" | "confirmed" | "finalized"
+  ) => void;
   onClose?: () => void;
   theme?: {
     primaryColor?: string;
@@ -71,6 +89,13 @@ export class PaymentWidget {
   private isProcessing: boolean = false;
   private transactionData: any = null;
   private activeStep: number = 1; // Track the active step in the payment flow
+  private countdownTimer: ReturnType<typeof setInterval> | null = null;
+  private isQrMode = false; // Paying by scanning with a mobile wallet
+  private solanaPayRequest: SolanaPayRequest | null = null;
+  private qrPollTimer: ReturnType<typeof setInterval> | null = null;
+  private quote: Quote | null = null; // Swap quote the customer is paying with
+  private isQuoteChanged = false; // The price moved and needs accepting again
+  private quoteTimer: ReturnType<typeof setInterval> | null = null;
 
   // Default theme
   private theme = {
@@ -177,6 +202,44 @@ export class PaymentWidget {
         color: #EB3B5A;
       }
 
+      .payso-status.refunded,
+      .payso-status.partially_refunded {
+        background-color: rgba(9, 132, 227, 0.1);
+        color: #0984E3;
+      }
+
+      .payso-status.expired {
+        background-color: rgba(0, 0, 0, 0.05);
+        color: #666;
+      }
+
+      .payso-countdown {
+        font-size: 13px;
+        color: #666;
+      }
+
+      .payso-countdown.urgent {
+        color: #EB3B5A;
+        font-weight: 600;
+      }
+
+      .payso-quote {
+        text-align: left;
+      }
+
+      .payso-quote-ttl {
+        margin-top: 6px;
+        font-size: 13px;
+        color: #666;
+      }
+
+      .payso-quote-changed {
+        margin-top: 6px;
+        font-size: 13px;
+        color: #E67E22;
+        font-weight: 600;
+      }
+
       .payso-steps {
         display: flex;
         justify-content: space-between;
@@ -503,6 +566,37 @@ export class PaymentWidget {
       .payso-tx-link:hover {
         background-color: #E0E0E0;
       }
+
+      .payso-qr-toggle {
+        margin-top: 12px;
+      }
+
+      .payso-qr-code {
+        display: flex;
+        justify-content: center;
+        margin: 8px 0 16px;
+      }
+
+      .payso-qr-code svg {
+        border-radius: 8px;
+        border: 1px solid #E0E0E0;
+      }
+
+      .payso-qr-hint {
+        font-size: 14px;
+        color: #666;
+        text-align: center;
+        margin-bottom: 16px;
+      }
+
+      .payso-qr-link {
+        display: block;
+        font-size: 12px;
+        color: ${this.theme.primaryColor};
+        text-align: center;
+        word-break: break-all;
+        margin-bottom: 20px;
+      }
     `;
 
     document.head.appendChild(style);
@@ -555,6 +649,7 @@ export class PaymentWidget {
           currency: this.options.currency,
           customerEmail: this.options.customerEmail,
           metadata: this.options.metadata,
+          expiresInMinutes: this.options.expiresInMinutes,
         });
 
         if (this.options.onPaymentCreated) {
@@ -562,6 +657,9 @@ export class PaymentWidget {
         }
       }
 
+      // Pay in the merchant's settlement token by default
+      this.selectedToken = this.getSettlementMint();
+
       // Subscribe to payment events
       this.client.subscribeToPaymentEvents(
         this.payment.id,
@@ -618,22 +716,23 @@ export class PaymentWidget {
         return; // Don't filter if no token accounts found
       }
 
-      // Create a map of token mint addresses to balances
-      const userTokens = new Map<string, number>();
+      // Create a map of token mint addresses to balances in base units
+      const userTokens = new Map<string, bigint>();
 
       tokenAccounts.value.forEach((account) => {
         const parsedAccountInfo = account.account.data.parsed.info;
         const mintAddress = parsedAccountInfo.mint;
-        const balance = parseInt(parsedAccountInfo.tokenAmount.amount);
+        const balance = BigInt(parsedAccountInfo.tokenAmount.amount);
 
-        if (balance > 0) {
+        if (balance > BigInt(0)) {
           userTokens.set(mintAddress, balance);
         }
       });
 
-      // Always include USDC even if user doesn't have it
-      if (!userTokens.has(USDC_MINT)) {
-        userTokens.set(USDC_MINT, 0);
+      // Always include the settlement token even if user doesn't have it
+      const settlementMint = this.getSettlementMint();
+      if (!userTokens.has(settlementMint)) {
+        userTokens.set(settlementMint, BigInt(0));
       }
 
       // Filter tokens to only include ones the user has
@@ -644,7 +743,7 @@ export class PaymentWidget {
 
         // Update selected token if it's not in the filtered list
         if (!userTokens.has(this.selectedToken)) {
-          this.selectedToken = USDC_MINT; // Default to USDC
+          this.selectedToken = settlementMint;
         }
       }
 
@@ -796,6 +895,19 @@ export class PaymentWidget {
         }
         this.render();
         break;
+      case PaymentEventType.PAYMENT_EXPIRED:
+        this.payment = event.data;
+        this.isProcessing = false;
+        this.stopCountdown();
+        if (this.options.onPaymentExpired && this.payment) {
+          this.options.onPaymentExpired(this.payment);
+        }
+        this.render();
+        break;
+      case PaymentEventType.REFUND_COMPLETED:
+        this.payment = event.data.payment;
+        this.render();
+        break;
       case PaymentEventType.TRANSACTION_SUBMITTED:
         this.payment = event.data.payment;
         if (this.options.onTransactionSubmitted && this.payment) {
@@ -806,6 +918,16 @@ export class PaymentWidget {
         }
         this.render();
         break;
+      case PaymentEventType.TRANSACTION_CONFIRMED:
+        // Keep the submitted view, the completed event will re-render
+        this.payment = event.data.payment;
+        if (this.options.onTransactionConfirmed && this.payment) {
+          this.options.onTransactionConfirmed(
+            this.payment,
+            event.data.confirmationStatus
+          );
+        }
+        break;
       default:
         break;
     }
@@ -829,6 +951,8 @@ export class PaymentWidget {
       });
 
       this.payment = result.payment;
+      this.quote = result.quote;
+      this.isQuoteChanged = false;
       this.isPrepared = true;
       this.isProcessing = false;
       this.activeStep = 2; // Update step indicator
@@ -868,6 +992,7 @@ export class PaymentWidget {
         paymentId: this.payment.id,
         selectedToken: this.selectedToken,
         customerWallet: this.wallet.publicKey.toString(),
+        quoteId: this.quote?.id,
       });
 
       this.payment = result.payment;
@@ -884,6 +1009,15 @@ export class PaymentWidget {
     } catch (error) {
       console.error("Failed to execute payment:", error);
       this.isProcessing = false;
+
+      // Show the new price and let the customer accept it by paying again
+      if (error instanceof QuoteChangedError) {
+        this.quote = error.quote;
+        this.isQuoteChanged = true;
+        this.isPrepared = false;
+        this.activeStep = 1;
+      }
+
       this.render(); // Update UI to show error
       throw error;
     }
@@ -915,30 +1049,100 @@ export class PaymentWidget {
       let transactionSignature: string;
 
       if (this.transactionData.isDirectTransfer) {
-        // Direct USDC transfer
-        console.log("Direct USDC transfer transaction", this.transactionData);
-        const { destinationTokenAccount, amount } = this.transactionData;
+        // Direct transfer of the settlement token
+        console.log("Direct transfer transaction", this.transactionData);
+        const {
+          destinationTokenAccount,
+          merchantAddress,
+          tokenMint,
+          isNativeSol,
+          amount,
+          legs,
+          platformFeeAccount,
+          platformFeeAmount,
+          reference,
+        } = this.transactionData;
 
-        // Get user's USDC token account
         const userPublicKey = this.wallet.publicKey!;
-        const usdcMintPublicKey = new PublicKey(USDC_MINT);
-        const userUsdcAccount = await getAssociatedTokenAddress(
-          usdcMintPublicKey,
-          userPublicKey
-        );
 
         // Create transaction
         const transaction = new Transaction();
 
-        // Add transfer instruction
-        const transferInstruction = createTransferInstruction(
-          userUsdcAccount,
-          new PublicKey(destinationTokenAccount),
-          userPublicKey,
-          parseInt(amount)
-        );
+        // Split payments pay every recipient, others just the merchant
+        const transfers: { destination: string; amount: string }[] =
+          legs?.length
+            ? legs.map(
+                (leg: { destinationTokenAccount: string; amount: string }) => ({
+                  destination: leg.destinationTokenAccount,
+                  amount: leg.amount,
+                })
+              )
+            : [
+                {
+                  destination: isNativeSol
+                    ? merchantAddress
+                    : destinationTokenAccount,
+                  amount,
+                },
+              ];
+
+        for (const transfer of transfers) {
+          if (isNativeSol) {
+            // Native SOL goes straight to the recipient wallet
+            transaction.add(
+              SystemProgram.transfer({
+                fromPubkey: userPublicKey,
+                toPubkey: new PublicKey(transfer.destination),
+                lamports: BigInt(transfer.amount),
+              })
+            );
+          } else {
+            // Get user's token account for the settlement mint
+            const userTokenAccount = await getAssociatedTokenAddress(
+              new PublicKey(tokenMint),
+              userPublicKey
+            );
+
+            transaction.add(
+              createTransferInstruction(
+                userTokenAccount,
+                new PublicKey(transfer.destination),
+                userPublicKey,
+                BigInt(transfer.amount)
+              )
+            );
+          }
+        }
 
-        transaction.add(transferInstruction);
+        // The API only accepts transactions tagged with the reference key
+        if (reference) {
+          transaction.instructions[0].keys.push({
+            pubkey: new PublicKey(reference),
+            isSigner: false,
+            isWritable: false,
+          });
+        }
+
+        // The platform fee is split off with a second transfer
+        if (platformFeeAccount) {
+          transaction.add(
+            isNativeSol
+              ? SystemProgram.transfer({
+                  fromPubkey: userPublicKey,
+                  toPubkey: new PublicKey(platformFeeAccount),
+                  lamports: BigInt(platformFeeAmount),
+                })
+              : createTransferInstruction(
+                  await getAssociatedTokenAddress(
+                    new PublicKey(tokenMint),
+                    userPublicKey
+                  ),
+                  new PublicKey(platformFeeAccount),
+                  userPublicKey,
+                  BigInt(platformFeeAmount)
+                )
+          );
+        }
 
         // Set recent blockhash and fee payer
         transaction.feePayer = userPublicKey;
@@ -969,6 +1173,16 @@ export class PaymentWidget {
       // Display transaction signature in UI
       this.renderTransactionSubmitted(transactionSignature);
 
+      // Let the backend track the transaction even if this page is closed
+      try {
+        await this.client.submitTransaction({
+          paymentId: this.payment.id,
+          transactionSignature,
+        });
+      } catch (submitError) {
+        console.warn("Failed to report submitted transaction:", submitError);
+      }
+
       // Optional: Wait for confirmation
       try {
         await this.connection.confirmTransaction(
@@ -1048,6 +1262,8 @@ export class PaymentWidget {
   private handleTokenChange(event: Event): void {
     const select = event.target as HTMLSelectElement;
     this.selectedToken = select.value;
+    this.quote = null;
+    this.isQuoteChanged = false;
     this.isPrepared = false;
     this.isExecuted = false;
     this.render();
@@ -1083,6 +1299,9 @@ export class PaymentWidget {
       this.containerElement.removeChild(loadingElement);
     }
 
+    // The token step restarts the quote countdown if it shows a quote
+    this.stopQuoteCountdown();
+
     // Clear container
     if (this.widgetElement) {
       this.containerElement.removeChild(this.widgetElement);
@@ -1114,7 +1333,7 @@ export class PaymentWidget {
     amount.className = "payso-amount";
 
     // Format the fiat amount properly
-    const fiatAmount = this.payment.amount.toLocaleString(undefined, {
+    const fiatAmount = Number(this.payment.amount).toLocaleString(undefined, {
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     });
@@ -1124,6 +1343,17 @@ export class PaymentWidget {
     header.appendChild(closeButton);
     header.appendChild(title);
     header.appendChild(amount);
+
+    // Show how long the customer has left to pay
+    if (this.payment.status === "pending" && this.payment.expiresAt) {
+      const countdown = document.createElement("div");
+      countdown.className = "payso-countdown";
+      header.appendChild(countdown);
+      this.startCountdown(countdown);
+    } else {
+      this.stopCountdown();
+    }
+
     this.widgetElement.appendChild(header);
 
     // Body content
@@ -1147,15 +1377,37 @@ export class PaymentWidget {
       case "failed":
         status.textContent = "Payment Failed";
         break;
+      case "expired":
+        status.textContent = "Payment Expired";
+        break;
+      case "refunded":
+        status.textContent = "Payment Refunded";
+        break;
+      case "partially_refunded":
+        status.textContent = "Partially Refunded";
+        break;
     }
 
     body.appendChild(status);
 
     // If payment is completed or failed, show different UI
-    if (this.payment.status === "completed") {
+    if (
+      this.payment.status !== "pending" &&
+      this.payment.status !== "processing"
+    ) {
+      this.stopQrPolling();
+    }
+
+    if (
+      this.payment.status === "completed" ||
+      this.payment.status === "refunded" ||
+      this.payment.status === "partially_refunded"
+    ) {
       this.renderCompletedState(body);
     } else if (this.payment.status === "failed") {
       this.renderFailedState(body);
+    } else if (this.payment.status === "expired") {
+      this.renderExpiredState(body);
     } else {
       // Payment progress steps
       const stepsContainer = document.createElement("div");
@@ -1203,8 +1455,12 @@ export class PaymentWidget {
       const actionContent = document.createElement("div");
       actionContent.className = "payso-actions";
 
+      // Pay by scanning the QR code with a mobile wallet
+      if (this.isQrMode) {
+        this.renderQrCodeStep(actionContent);
+      }
       // Step 1: Select token and connect wallet
-      if (!this.isPrepared) {
+      else if (!this.isPrepared) {
         this.renderTokenSelectionStep(actionContent);
       }
       // Step 2: Prepare transaction
@@ -1324,6 +1580,11 @@ export class PaymentWidget {
     walletSection.appendChild(walletButton);
     container.appendChild(walletSection);
 
+    // Show the locked price and how long it is valid for
+    if (this.quote && this.quote.inputMint === this.selectedToken) {
+      this.renderQuote(container);
+    }
+
     // Prepare button
     const payButton = document.createElement("button");
     payButton.className = "payso-button primary";
@@ -1335,7 +1596,7 @@ export class PaymentWidget {
         Processing...
       `;
     } else {
-      payButton.innerHTML = `Pay`;
+      payButton.innerHTML = this.isQuoteChanged ? `Accept new price` : `Pay`;
     }
 
     if (!this.wallet?.connected || this.isProcessing) {
@@ -1352,8 +1613,10 @@ export class PaymentWidget {
           Processing...
         `;
 
-        // Prepare the payment
-        await this.preparePayment();
+        // Prepare the payment, unless paying with a quote that is still locked
+        if (!this.isQuoteValid()) {
+          await this.preparePayment();
+        }
 
         // Execute the payment immediately after preparation
         await this.executePayment();
@@ -1361,6 +1624,11 @@ export class PaymentWidget {
         // Process the transaction immediately after execution
         await this.processTransaction();
       } catch (error: any) {
+        // The widget already shows the new price to accept
+        if (error instanceof QuoteChangedError) {
+          return;
+        }
+
         // Handle error
         payButton.disabled = false;
         payButton.innerHTML = `Pay`; // Re-enable the button
@@ -1373,6 +1641,199 @@ export class PaymentWidget {
     };
 
     container.appendChild(payButton);
+
+    // Offer paying from a phone instead of the connected wallet
+    const qrButton = document.createElement("button");
+    qrButton.className = "payso-button secondary payso-qr-toggle";
+    qrButton.disabled = this.isProcessing;
+    qrButton.innerHTML = `
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+        <rect x="3" y="3" width="7" height="7"></rect>
+        <rect x="14" y="3" width="7" height="7"></rect>
+        <rect x="3" y="14" width="7" height="7"></rect>
+        <line x1="14" y1="14" x2="21" y2="21"></line>
+      </svg>
+      Scan with mobile wallet
+    `;
+    qrButton.onclick = this.showQrCode.bind(this);
+    container.appendChild(qrButton);
+  }
+
+  /**
+   * Switch to paying with a mobile wallet by scanning a Solana Pay QR code
+   */
+  private async showQrCode(): Promise<void> {
+    if (!this.payment) return;
+
+    this.isQrMode = true;
+    this.render();
+
+    try {
+      if (!this.solanaPayRequest) {
+        this.solanaPayRequest = await this.client.getSolanaPayRequest(
+          this.payment.id
+        );
+      }
+      this.startQrPolling();
+    } catch (error) {
+      console.error("Error loading Solana Pay request:", error);
+      this.isQrMode = false;
+    }
+
+    this.render();
+  }
+
+  /**
+   * Go back from QR mode to the token selection step
+   */
+  private hideQrCode(): void {
+    this.isQrMode = false;
+    this.stopQrPolling();
+    this.render();
+  }
+
+  /**
+   * Get the mint the merchant is paid out in, USDC unless configured otherwise
+   */
+  private getSettlementMint(): string {
+    return this.payment?.settlementMint || USDC_MINT;
+  }
+
+  /**
+   * Get the Solana Pay URL to encode for the selected token
+   */
+  private getQrCodeUrl(request: SolanaPayRequest): string {
+    // Transfer requests can only move the settlement token to one wallet,
+    // other tokens, split payments and platform fees need a transaction
+    // request
+    if (
+      this.selectedToken === this.getSettlementMint() &&
+      request.transferRequestUrl
+    ) {
+      return request.transferRequestUrl;
+    }
+
+    const link = decodeURIComponent(
+      request.transactionRequestUrl.slice("solana:".length)
+    );
+    return `solana:${encodeURIComponent(
+      `${link}?token=${this.selectedToken}`
+    )}`;
+  }
+
+  /**
+   * Render the QR code for paying with a mobile wallet
+   */
+  private renderQrCodeStep(container: HTMLElement): void {
+    if (!this.payment) return;
+
+    if (this.payment.status === "processing") {
+      const detected = document.createElement("div");
+      detected.className = "payso-qr-hint";
+      detected.innerHTML = `
+        <span class="payso-spinner"></span>
+        Payment detected, waiting for confirmation...
+      `;
+      container.appendChild(detected);
+      return;
+    }
+
+    if (!this.solanaPayRequest) {
+      const loading = document.createElement("div");
+      loading.className = "payso-qr-hint";
+      loading.innerHTML = `
+        <span class="payso-spinner"></span>
+        Generating QR code...
+      `;
+      container.appendChild(loading);
+      return;
+    }
+
+    const url = this.getQrCodeUrl(this.solanaPayRequest);
+    const token = this.tokens.find((t) => t.address === this.selectedToken);
+
+    const hint = document.createElement("div");
+    hint.className = "payso-qr-hint";
+    hint.textContent = `Scan with a Solana Pay wallet to pay with ${
+      token?.symbol || "USDC"
+    }`;
+    container.appendChild(hint);
+
+    const qrCode = document.createElement("div");
+    qrCode.className = "payso-qr-code";
+    qrCode.innerHTML = renderQrCodeSvg(createQrCode(url), { size: 240 });
+    container.appendChild(qrCode);
+
+    // Lets customers on mobile open the wallet directly
+    const link = document.createElement("a");
+    link.className = "payso-qr-link";
+    link.href = url;
+    link.textContent = "Open in wallet app";
+    container.appendChild(link);
+
+    const backButton = document.createElement("button");
+    backButton.className = "payso-button primary";
+    backButton.textContent = "Pay with connected wallet";
+    backButton.onclick = this.hideQrCode.bind(this);
+    container.appendChild(backButton);
+  }
+
+  /**
+   * Poll the payment while the QR code is shown, in case the socket misses an event
+   */
+  private startQrPolling(): void {
+    this.stopQrPolling();
+
+    this.qrPollTimer = setInterval(async () => {
+      if (!this.payment) return;
+
+      try {
+        const payment = await this.client.getPayment(this.payment.id);
+        if (!this.payment || payment.status === this.payment.status) {
+          return;
+        }
+
+        switch (payment.status) {
+          case PaymentStatus.COMPLETED:
+            this.handlePaymentEvent({
+              type: PaymentEventType.PAYMENT_COMPLETED,
+              paymentId: payment.id,
+              data: payment,
+            });
+            break;
+          case PaymentStatus.FAILED:
+            this.handlePaymentEvent({
+              type: PaymentEventType.PAYMENT_FAILED,
+              paymentId: payment.id,
+              data: { payment, reason: payment.failureReason },
+            });
+            break;
+          case PaymentStatus.EXPIRED:
+            this.handlePaymentEvent({
+              type: PaymentEventType.PAYMENT_EXPIRED,
+              paymentId: payment.id,
+              data: payment,
+            });
+            break;
+          default:
+            this.payment = payment;
+            this.render();
+            break;
+        }
+      } catch (error) {
+        console.error("Error polling payment status:", error);
+      }
+    }, this.options.qrCodePollInterval || 3000);
+  }
+
+  /**
+   * Stop polling the payment status
+   */
+  private stopQrPolling(): void {
+    if (this.qrPollTimer) {
+      clearInterval(this.qrPollTimer);
+      this.qrPollTimer = null;
+    }
   }
 
   /**
@@ -1546,6 +2007,203 @@ export class PaymentWidget {
     container.appendChild(closeButton);
   }
 
+  /**
+   * Render the expired payment state
+   */
+  private renderExpiredState(container: HTMLElement): void {
+    // Clock icon
+    const iconContainer = document.createElement("div");
+    iconContainer.style.textAlign = "center";
+    iconContainer.style.margin = "20px 0";
+
+    iconContainer.innerHTML = `
+      <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="#999" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+        <circle cx="12" cy="12" r="10"></circle>
+        <polyline points="12 6 12 12 16 14"></polyline>
+      </svg>
+    `;
+
+    container.appendChild(iconContainer);
+
+    // Expired message
+    const expiredMessage = document.createElement("div");
+    expiredMessage.style.textAlign = "center";
+    expiredMessage.style.margin = "20px 0";
+
+    const messageTitle = document.createElement("div");
+    messageTitle.style.fontSize = "22px";
+    messageTitle.style.fontWeight = "600";
+    messageTitle.style.marginBottom = "8px";
+    messageTitle.style.color = "#666";
+    messageTitle.textContent = "Payment Expired";
+
+    const messageDetails = document.createElement("div");
+    messageDetails.style.fontSize = "14px";
+    messageDetails.style.color = "#666";
+    messageDetails.textContent =
+      "This payment request has expired. Please start a new payment.";
+
+    expiredMessage.appendChild(messageTitle);
+    expiredMessage.appendChild(messageDetails);
+    container.appendChild(expiredMessage);
+
+    // Close button
+    const closeButton = document.createElement("button");
+    closeButton.className = "payso-button primary";
+    closeButton.textContent = "Close";
+    closeButton.onclick = () => {
+      if (this.options.onClose) {
+        this.options.onClose();
+      }
+    };
+
+    container.appendChild(closeButton);
+  }
+
+  /**
+   * Start ticking the expiry countdown shown in the header
+   */
+  private startCountdown(element: HTMLElement): void {
+    this.stopCountdown();
+
+    const tick = () => {
+      if (!this.payment || !this.payment.expiresAt) {
+        this.stopCountdown();
+        return;
+      }
+
+      const remainingMs =
+        new Date(this.payment.expiresAt).getTime() - Date.now();
+
+      if (remainingMs <= 0) {
+        this.stopCountdown();
+        element.textContent = "Expired";
+
+        // The server expires it too, but don't let the customer keep paying
+        if (this.payment.status === "pending" && !this.isProcessing) {
+          this.payment = { ...this.payment, status: PaymentStatus.EXPIRED };
+          if (this.options.onPaymentExpired) {
+            this.options.onPaymentExpired(this.payment);
+          }
+          this.render();
+        }
+        return;
+      }
+
+      const totalSeconds = Math.floor(remainingMs / 1000);
+      const hours = Math.floor(totalSeconds / 3600);
+      const minutes = Math.floor((totalSeconds % 3600) / 60);
+      const seconds = totalSeconds % 60;
+      const pad = (value: number) => value.toString().padStart(2, "0");
+
+      element.textContent = `Expires in ${
+        hours > 0 ? `${hours}:${pad(minutes)}` : minutes
+      }:${pad(seconds)}`;
+      element.className = `payso-countdown ${
+        totalSeconds < 60 ? "urgent" : ""
+      }`;
+    };
+
+    tick();
+    if (this.payment?.status === "pending") {
+      this.countdownTimer = setInterval(tick, 1000);
+    }
+  }
+
+  /**
+   * Render the locked quote with the time left to pay at its price
+   */
+  private renderQuote(container: HTMLElement): void {
+    if (!this.quote) return;
+
+    const quoteBox = document.createElement("div");
+    quoteBox.className = "payso-info-box payso-quote";
+
+    const token = this.tokens.find((t) => t.address === this.quote?.inputMint);
+    const amount = document.createElement("div");
+    amount.textContent = `You pay ${Number(this.quote.inAmount).toLocaleString(
+      undefined,
+      { maximumFractionDigits: 6 }
+    )} ${token?.symbol || ""}`;
+    quoteBox.appendChild(amount);
+
+    if (this.isQuoteChanged) {
+      const changed = document.createElement("div");
+      changed.className = "payso-quote-changed";
+      changed.textContent = "The price changed since you last saw it";
+      quoteBox.appendChild(changed);
+    }
+
+    const ttl = document.createElement("div");
+    ttl.className = "payso-quote-ttl";
+    quoteBox.appendChild(ttl);
+    this.startQuoteCountdown(ttl);
+
+    container.appendChild(quoteBox);
+  }
+
+  /**
+   * Whether the customer can still pay with the quote they were shown
+   */
+  private isQuoteValid(): boolean {
+    return (
+      !!this.quote &&
+      this.quote.inputMint === this.selectedToken &&
+      new Date(this.quote.expiresAt).getTime() > Date.now()
+    );
+  }
+
+  /**
+   * Tick the time left on the locked quote
+   */
+  private startQuoteCountdown(element: HTMLElement): void {
+    this.stopQuoteCountdown();
+
+    const tick = () => {
+      if (!this.quote) {
+        this.stopQuoteCountdown();
+        return;
+      }
+
+      const remainingSeconds = Math.ceil(
+        (new Date(this.quote.expiresAt).getTime() - Date.now()) / 1000
+      );
+
+      if (remainingSeconds <= 0) {
+        // Paying now gets a fresh quote
+        this.stopQuoteCountdown();
+        element.textContent =
+          "Price expired, a new quote is fetched when you pay";
+        return;
+      }
+
+      element.textContent = `Price locked for ${remainingSeconds}s`;
+    };
+
+    tick();
+    this.quoteTimer = setInterval(tick, 1000);
+  }
+
+  /**
+   * Stop the quote countdown
+   */
+  private stopQuoteCountdown(): void {
+    if (this.quoteTimer) {
+      clearInterval(this.quoteTimer);
+      this.quoteTimer = null;
+    }
+  }
+
+  /**
+   * Stop the expiry countdown
+   */
+  private stopCountdown(): void {
+    if (this.countdownTimer) {
+      clearInterval(this.countdownTimer);
+      this.countdownTimer = null;
+    }
+  }
+
   /**
    * Mount the widget to a DOM element
    */
@@ -1566,9 +2224,23 @@ export class PaymentWidget {
       this.widgetElement = null;
     }
 
+    this.stopCountdown();
+    this.stopQuoteCountdown();
+    this.stopQrPolling();
     this.client.disconnect();
   }
 
+  /**
+   * Re-render after the wallet connected or disconnected outside the widget
+   */
+  public async refresh(): Promise<void> {
+    if (this.wallet?.connected && this.wallet.publicKey) {
+      await this.filterTokensByWalletBalance();
+    }
+
+    this.render();
+  }
+
   /**
    * Set an existing payment instead of creating a new one
    */
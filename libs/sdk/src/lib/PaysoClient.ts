@@ -1,4 +1,4 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { io, Socket } from 'socket.io-client';
 import {
   CreatePaymentRequest,
@@ -7,13 +7,49 @@ import {
   PreparePaymentResponse,
   ExecutePaymentRequest,
   ExecutePaymentResponse,
+  SubmitTransactionRequest,
   ConfirmPaymentRequest,
   ConfirmPaymentResponse,
   Payment,
   PaymentEvent,
+  PaymentPage,
+  ListPaymentsRequest,
   Token,
   Merchant,
+  WebhookDelivery,
+  GetWebhookDeliveriesRequest,
+  Refund,
+  CreateRefundRequest,
+  CreateRefundResponse,
+  ConfirmRefundRequest,
+  Invoice,
+  InvoiceStatus,
+  CreateInvoiceRequest,
+  UpdateInvoiceRequest,
+  PaymentLink,
+  CreatePaymentLinkRequest,
+  PaymentLinkStats,
+  PublicPaymentLink,
+  ResolvePaymentLinkRequest,
+  SubscriptionPlan,
+  CreateSubscriptionPlanRequest,
+  Subscription,
+  SubscriptionStatus,
+  CreateSubscriptionRequest,
+  SubscriptionApproval,
+  CancelSubscriptionRequest,
+  SolanaPayRequest,
+  ApiKey,
+  ApiKeyScope,
+  ApiKeyType,
+  CreateApiKeyRequest,
+  IssuedApiKey,
+  PaymentSettings,
+  CreateMerchantRequest,
+  WalletSession,
+  Quote,
 } from './models';
+import { QuoteChangedError } from './errors';
 
 export class PaysoClient {
   private apiClient: AxiosInstance;
@@ -22,8 +58,11 @@ export class PaysoClient {
   private apiUrl: string;
   private socketUrl: string;
   private merchantId: string | null = null;
+  private apiKeyType: ApiKeyType | null = null;
+  private apiKeyScopes: ApiKeyScope[] = [];
   private isValidatingApiKey: boolean = false;
   private apiKeyValidated: boolean = false;
+  private maxRetries = 3; // Retries for requests sent with an Idempotency-Key
 
   constructor(
     apiKey: string,
@@ -45,6 +84,132 @@ export class PaysoClient {
     // We'll validate the API key on demand instead of in constructor
   }
 
+  /**
+   * Create a client that acts for a merchant through a wallet session
+   * instead of an API key, with the access of a secret key
+   */
+  public static withSession(
+    session: Pick<WalletSession, 'token' | 'merchantId'>,
+    apiUrl = 'http://localhost:3000',
+    socketUrl = 'http://localhost:3000'
+  ): PaysoClient {
+    const client = new PaysoClient('', apiUrl, socketUrl);
+    delete client.apiClient.defaults.headers['x-api-key'];
+    client.apiClient.defaults.headers['Authorization'] =
+      `Bearer ${session.token}`;
+    client.merchantId = session.merchantId;
+    client.apiKeyType = ApiKeyType.SECRET;
+    client.apiKeyScopes = Object.values(ApiKeyScope);
+    client.apiKeyValidated = true;
+    return client;
+  }
+
+  /**
+   * Sign in to a merchant by signing a one-time challenge with its wallet
+   * Defaults to the wallet's oldest merchant
+   */
+  public static async signInWithWallet(
+    walletAddress: string,
+    signMessage: (message: Uint8Array) => Promise<Uint8Array>,
+    apiUrl = 'http://localhost:3000',
+    merchantId?: string
+  ): Promise<WalletSession> {
+    try {
+      const challenge = await axios.post(`${apiUrl}/auth/challenge`, {
+        walletAddress,
+      });
+      const signature = await signMessage(
+        new TextEncoder().encode(challenge.data.message)
+      );
+
+      const response = await axios.post(`${apiUrl}/auth/verify`, {
+        walletAddress,
+        nonce: challenge.data.nonce,
+        signature: btoa(String.fromCharCode(...Array.from(signature))),
+        merchantId,
+      });
+      console.log(
+        `[PaysoClient] Signed in to merchant ${response.data.merchantId}`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to sign in:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to sign in: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Register a new merchant
+   * The secret and publishable keys are only returned here, store them safely
+   */
+  public static async createMerchant(
+    request: CreateMerchantRequest,
+    apiUrl = 'http://localhost:3000'
+  ): Promise<Merchant> {
+    try {
+      console.log(`[PaysoClient] Creating merchant ${request.name}`);
+      const response = await axios.post(`${apiUrl}/merchants`, request);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to create merchant:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to create merchant: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Get what a payment link shows its visitors
+   * Needs no API key, for hosted link pages
+   */
+  public static async getPublicPaymentLink(
+    linkId: string,
+    apiUrl = 'http://localhost:3000'
+  ): Promise<PublicPaymentLink> {
+    try {
+      const response = await axios.get(
+        `${apiUrl}/payment-links/${linkId}/public`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get payment link:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to get payment link: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Start a payment from a payment link, each call creates a new payment
+   * Needs no API key, for hosted link pages
+   */
+  public static async resolvePaymentLink(
+    linkId: string,
+    request: ResolvePaymentLinkRequest = {},
+    apiUrl = 'http://localhost:3000'
+  ): Promise<Payment> {
+    try {
+      console.log(`[PaysoClient] Resolving payment link ${linkId}`);
+      const response = await axios.post(
+        `${apiUrl}/payment-links/${linkId}/resolve`,
+        request
+      );
+      console.log(`[PaysoClient] Payment created:`, response.data);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to resolve payment link:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to resolve payment link: ${errorMessage}`);
+    }
+  }
+
   /**
    * Validate API key and get merchant ID
    */
@@ -76,6 +241,8 @@ export class PaysoClient {
 
       if (response.data.valid) {
         this.merchantId = response.data.merchantId;
+        this.apiKeyType = response.data.type;
+        this.apiKeyScopes = response.data.scopes || [];
         this.apiKeyValidated = true;
         return true;
       } else {
@@ -189,7 +356,8 @@ export class PaysoClient {
    * Create a new payment
    */
   public async createPayment(
-    request: CreatePaymentRequest
+    request: CreatePaymentRequest,
+    idempotencyKey: string = this.generateIdempotencyKey()
   ): Promise<CreatePaymentResponse> {
     try {
       // Make sure API key is validated first
@@ -198,9 +366,13 @@ export class PaysoClient {
       }
 
       console.log('[PaysoClient] Creating payment:', request);
-      const response = await this.apiClient.post('/payments', request);
-      console.log('[PaysoClient] Payment created:', response.data);
-      return response.data;
+      const payment = await this.postIdempotent<CreatePaymentResponse>(
+        '/payments',
+        request,
+        idempotencyKey
+      );
+      console.log('[PaysoClient] Payment created:', payment);
+      return payment;
     } catch (error) {
       console.error('[PaysoClient] Failed to create payment:', error);
       throw new Error('Failed to create payment');
@@ -226,10 +398,43 @@ export class PaysoClient {
     }
   }
 
+  /**
+   * Get the swap quote a payment was last prepared with
+   * Null when the payment is paid in the settlement token
+   */
+  public async getPaymentQuote(paymentId: string): Promise<Quote | null> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      const response = await this.apiClient.get(`/payments/${paymentId}/quote`);
+      return response.data || null;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get payment quote:', error);
+      throw new Error('Failed to get payment quote');
+    }
+  }
+
   /**
    * Get all payments for merchant
+   * Loads every page, use listPayments to stop early or filter
    */
   public async getPayments(): Promise<Payment[]> {
+    const payments: Payment[] = [];
+    for await (const payment of this.listPayments({ limit: 100 })) {
+      payments.push(payment);
+    }
+    return payments;
+  }
+
+  /**
+   * Get one page of the merchant's payments
+   * Pass the nextCursor of a page as cursor to get the page after it
+   */
+  public async getPaymentsPage(
+    request: ListPaymentsRequest = {}
+  ): Promise<PaymentPage> {
     try {
       if (!this.apiKeyValidated) {
         await this.validateApiKey();
@@ -244,17 +449,45 @@ export class PaysoClient {
       console.log(
         `[PaysoClient] Getting payments for merchant: ${this.merchantId}`
       );
+      const { status, from, to, ...params } = request;
       const response = await this.apiClient.get(
-        `/payments/merchant/${this.merchantId}`
+        `/payments/merchant/${this.merchantId}`,
+        {
+          params: {
+            ...params,
+            status: Array.isArray(status) ? status.join(',') : status,
+            from: from instanceof Date ? from.toISOString() : from,
+            to: to instanceof Date ? to.toISOString() : to,
+          },
+        }
+      );
+      console.log(
+        `[PaysoClient] Retrieved ${response.data.data.length} of ${response.data.total} payments`
       );
-      console.log(`[PaysoClient] Retrieved ${response.data.length} payments`);
       return response.data;
     } catch (error) {
       console.error('[PaysoClient] Failed to get payments:', error);
-      throw new Error('Failed to get payments');
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to get payments: ${errorMessage}`);
     }
   }
 
+  /**
+   * Iterate over the merchant's payments, loading pages as they are needed
+   */
+  public async *listPayments(
+    request: ListPaymentsRequest = {}
+  ): AsyncGenerator<Payment> {
+    let cursor = request.cursor;
+    do {
+      const page = await this.getPaymentsPage({ ...request, cursor });
+      yield* page.data;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
   /**
    * Prepare payment with selected token
    */
@@ -287,7 +520,8 @@ export class PaysoClient {
    * Execute payment to get transaction data
    */
   public async executePayment(
-    request: ExecutePaymentRequest
+    request: ExecutePaymentRequest,
+    idempotencyKey: string = this.generateIdempotencyKey()
   ): Promise<ExecutePaymentResponse> {
     try {
       console.log(`[PaysoClient] Executing payment ${request.paymentId}`);
@@ -314,72 +548,69 @@ export class PaysoClient {
         `[PaysoClient] Requesting transaction data for ${request.paymentId}`
       );
 
-      // Create a custom axios instance with a longer timeout for this specific request
-      const executeApiClient = axios.create({
-        baseURL: this.apiUrl,
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': this.apiKey,
-        },
-        timeout: 20000, // 20 second timeout
-      });
-
-      const response = await executeApiClient.post(
+      // Building a swap can be slow, so allow a longer timeout for this request
+      const result = await this.postIdempotent<ExecutePaymentResponse>(
         `/payments/${request.paymentId}/execute`,
-        request
+        request,
+        idempotencyKey,
+        { timeout: 20000 }
       );
 
-      console.log(`[PaysoClient] Transaction data received:`, response.data);
-      return response.data;
-    } catch (error: any) {
+      console.log(`[PaysoClient] Transaction data received:`, result);
+      return result;
+    } catch (error) {
       console.error(`[PaysoClient] Failed to execute payment:`, error);
 
-      // Check if it's a timeout error
+      // The price moved, so the customer has to accept the new quote
       if (
-        error.code === 'ECONNABORTED' ||
-        (error.message && error.message.includes('timeout'))
+        axios.isAxiosError(error) &&
+        error.response?.data?.code === 'QUOTE_CHANGED'
       ) {
-        console.log(`[PaysoClient] Request timed out, checking payment status`);
-
-        try {
-          // If it's a timeout, check if the payment was actually processed
-          const updatedPayment = await this.getPayment(request.paymentId);
-
-          if (updatedPayment.status === 'processing') {
-            console.log(
-              `[PaysoClient] Payment is now in processing state despite timeout`
-            );
-
-            // Create a fallback response
-            return {
-              payment: updatedPayment,
-              transactionData: {
-                isDirectTransfer: true,
-                destinationTokenAccount: updatedPayment.destinationWallet,
-                amount: updatedPayment.tokenAmount,
-                fallback: true,
-              },
-            };
-          }
-        } catch (statusCheckError) {
-          console.error(
-            `[PaysoClient] Failed to check payment status after timeout:`,
-            statusCheckError
-          );
-        }
-
-        throw new Error('Request timed out. Please try again.');
+        throw new QuoteChangedError(
+          error.response.data.message,
+          error.response.data.quote
+        );
       }
 
       // Extract and log the error details
-      const errorMessage =
-        error?.response?.data?.message || error.message || 'Unknown error';
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : (error as Error).message || 'Unknown error';
       console.error(`[PaysoClient] Error details: ${errorMessage}`);
 
       throw new Error(`Failed to execute payment: ${errorMessage}`);
     }
   }
 
+  /**
+   * Report a sent transaction so the backend can track it until it is final,
+   * even if the customer closes the page before confirming
+   */
+  public async submitTransaction(
+    request: SubmitTransactionRequest
+  ): Promise<Payment> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(
+        `[PaysoClient] Submitting transaction ${request.transactionSignature} for payment ${request.paymentId}`
+      );
+      const response = await this.apiClient.post(
+        `/payments/${request.paymentId}/submit`,
+        {
+          transactionSignature: request.transactionSignature,
+        }
+      );
+      console.log(`[PaysoClient] Transaction submitted:`, response.data);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to submit transaction:', error);
+      throw new Error('Failed to submit transaction');
+    }
+  }
+
   /**
    * Confirm payment with transaction signature
    * This is called after the frontend has successfully sent the transaction
@@ -471,23 +702,958 @@ export class PaysoClient {
     }
   }
   /**
-   * Get all merchants
-   * Returns a list of all merchants from the /merchants endpoint
+   * POST with an Idempotency-Key, retrying timeouts, network errors and
+   * gateway errors with the same key so the request is only applied once
    */
-  public async getMerchants(): Promise<Merchant[]> {
+  private async postIdempotent<T>(
+    url: string,
+    data: unknown,
+    idempotencyKey: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.apiClient.post(url, data, {
+          ...config,
+          headers: { ...config.headers, 'Idempotency-Key': idempotencyKey },
+        });
+        return response.data;
+      } catch (error) {
+        if (
+          attempt >= this.maxRetries ||
+          !axios.isAxiosError(error) ||
+          !this.isRetryable(error.response?.status, error.response?.data)
+        ) {
+          throw error;
+        }
+
+        const delay = 500 * 2 ** attempt;
+        console.log(
+          `[PaysoClient] Request to ${url} failed, retrying in ${delay}ms`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Whether a failed request can be retried with the same idempotency key
+   */
+  private isRetryable(status?: number, data?: { message?: string }): boolean {
+    // No response means a timeout or network error
+    if (!status) {
+      return true;
+    }
+
+    // The first attempt is still running on the server
+    if (status === 409) {
+      return !!data?.message?.includes('still being processed');
+    }
+
+    // Only the gateway failing is transient, other errors would repeat
+    return status === 502 || status === 503 || status === 504;
+  }
+
+  /**
+   * Generate a random key identifying one logical request across retries
+   */
+  private generateIdempotencyKey(): string {
+    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+      return crypto.randomUUID();
+    }
+
+    return `${Date.now().toString(36)}-${Math.random()
+      .toString(36)
+      .slice(2)}${Math.random().toString(36).slice(2)}`;
+  }
+
+  /**
+   * Get the Solana Pay URLs for a payment, for mobile wallets to scan
+   */
+  public async getSolanaPayRequest(
+    paymentId: string
+  ): Promise<SolanaPayRequest> {
     try {
-      // Make sure API key is validated first
       if (!this.apiKeyValidated) {
         await this.validateApiKey();
       }
 
-      console.log('[PaysoClient] Getting merchants');
-      const response = await this.apiClient.get('/merchants');
-      console.log(`[PaysoClient] Retrieved ${response.data.length} merchants`);
+      console.log(
+        `[PaysoClient] Getting Solana Pay request for payment ${paymentId}`
+      );
+      const response = await this.apiClient.get(
+        `/payments/${paymentId}/solana-pay`
+      );
       return response.data;
     } catch (error) {
-      console.error('[PaysoClient] Failed to get merchants:', error);
-      throw new Error('Failed to get merchants');
+      console.error('[PaysoClient] Failed to get Solana Pay request:', error);
+      throw new Error('Failed to get Solana Pay request');
+    }
+  }
+
+  /**
+   * Refund a completed payment in full or in part
+   * Returns the refund and an unsigned transaction for the merchant wallet to sign and send
+   */
+  public async createRefund(
+    request: CreateRefundRequest
+  ): Promise<CreateRefundResponse> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(
+        `[PaysoClient] Creating refund for payment ${request.paymentId}`
+      );
+      const response = await this.apiClient.post(
+        `/payments/${request.paymentId}/refunds`,
+        {
+          amount: request.amount,
+          reason: request.reason,
+        }
+      );
+      console.log(`[PaysoClient] Refund created:`, response.data.refund);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to create refund:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to create refund: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Get all refunds for a payment
+   */
+  public async listRefunds(paymentId: string): Promise<Refund[]> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Getting refunds for payment ${paymentId}`);
+      const response = await this.apiClient.get(
+        `/payments/${paymentId}/refunds`
+      );
+      console.log(`[PaysoClient] Retrieved ${response.data.length} refunds`);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get refunds:', error);
+      throw new Error('Failed to get refunds');
+    }
+  }
+
+  /**
+   * Confirm a refund with the signature of the sent refund transaction
+   */
+  public async confirmRefund(request: ConfirmRefundRequest): Promise<Refund> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(
+        `[PaysoClient] Confirming refund ${request.refundId} with signature ${request.transactionSignature}`
+      );
+      const response = await this.apiClient.post(
+        `/payments/${request.paymentId}/refunds/${request.refundId}/confirm`,
+        {
+          transactionSignature: request.transactionSignature,
+        }
+      );
+      console.log(`[PaysoClient] Refund confirmed:`, response.data);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to confirm refund:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to confirm refund: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Create a draft invoice
+   * Drafts can be changed until they are finalized
+   */
+  public async createInvoice(request: CreateInvoiceRequest): Promise<Invoice> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Creating invoice');
+      const response = await this.apiClient.post('/invoices', request);
+      console.log(`[PaysoClient] Invoice created:`, response.data);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to create invoice:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to create invoice: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Get the merchant's invoices, newest first
+   */
+  public async listInvoices(status?: InvoiceStatus): Promise<Invoice[]> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Getting invoices');
+      const response = await this.apiClient.get('/invoices', {
+        params: { status },
+      });
+      console.log(`[PaysoClient] Retrieved ${response.data.length} invoices`);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get invoices:', error);
+      throw new Error('Failed to get invoices');
+    }
+  }
+
+  /**
+   * Get an invoice by ID
+   */
+  public async getInvoice(invoiceId: string): Promise<Invoice> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Getting invoice ${invoiceId}`);
+      const response = await this.apiClient.get(`/invoices/${invoiceId}`);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get invoice:', error);
+      throw new Error('Failed to get invoice');
+    }
+  }
+
+  /**
+   * Change a draft invoice, its totals are recalculated
+   */
+  public async updateInvoice(
+    invoiceId: string,
+    request: UpdateInvoiceRequest
+  ): Promise<Invoice> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Updating invoice ${invoiceId}`);
+      const response = await this.apiClient.patch(
+        `/invoices/${invoiceId}`,
+        request
+      );
+      console.log(`[PaysoClient] Invoice updated:`, response.data);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to update invoice:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to update invoice: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Delete a draft invoice, finalized invoices can only be voided
+   */
+  public async deleteInvoice(invoiceId: string): Promise<void> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Deleting invoice ${invoiceId}`);
+      await this.apiClient.delete(`/invoices/${invoiceId}`);
+    } catch (error) {
+      console.error('[PaysoClient] Failed to delete invoice:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to delete invoice: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Number a draft invoice and open the payment the customer pays it with
+   * The invoice is marked paid once that payment completes
+   */
+  public async finalizeInvoice(invoiceId: string): Promise<Invoice> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Finalizing invoice ${invoiceId}`);
+      const response = await this.apiClient.post(
+        `/invoices/${invoiceId}/finalize`
+      );
+      console.log(
+        `[PaysoClient] Invoice ${response.data.number} finalized with payment ${response.data.paymentId}`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to finalize invoice:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to finalize invoice: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Cancel an open invoice, expiring its payment
+   */
+  public async voidInvoice(invoiceId: string): Promise<Invoice> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Voiding invoice ${invoiceId}`);
+      const response = await this.apiClient.post(`/invoices/${invoiceId}/void`);
+      console.log(`[PaysoClient] Invoice voided:`, response.data);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to void invoice:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to void invoice: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Get the payment to send the customer for an invoice
+   * A new payment replaces one that expired or failed
+   */
+  public async getInvoicePayment(invoiceId: string): Promise<Payment> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Getting payment for invoice ${invoiceId}`);
+      const response = await this.apiClient.post(
+        `/invoices/${invoiceId}/payment`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get invoice payment:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to get invoice payment: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Create a reusable payment link
+   * Share it as /link/<id>?key=<publishable key> on the hosted checkout
+   */
+  public async createPaymentLink(
+    request: CreatePaymentLinkRequest
+  ): Promise<PaymentLink> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Creating payment link');
+      const response = await this.apiClient.post('/payment-links', request);
+      console.log(`[PaysoClient] Payment link created:`, response.data);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to create payment link:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to create payment link: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Get the merchant's payment links, newest first
+   */
+  public async listPaymentLinks(): Promise<PaymentLink[]> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Getting payment links');
+      const response = await this.apiClient.get('/payment-links');
+      console.log(
+        `[PaysoClient] Retrieved ${response.data.length} payment links`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get payment links:', error);
+      throw new Error('Failed to get payment links');
+    }
+  }
+
+  /**
+   * Get a payment link by ID
+   */
+  public async getPaymentLink(linkId: string): Promise<PaymentLink> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Getting payment link ${linkId}`);
+      const response = await this.apiClient.get(`/payment-links/${linkId}`);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get payment link:', error);
+      throw new Error('Failed to get payment link');
+    }
+  }
+
+  /**
+   * Stop a payment link from creating new payments
+   */
+  public async deactivatePaymentLink(linkId: string): Promise<PaymentLink> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Deactivating payment link ${linkId}`);
+      const response = await this.apiClient.post(
+        `/payment-links/${linkId}/deactivate`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to deactivate payment link:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to deactivate payment link: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Get how many payments a link created, how many were paid and the total
+   */
+  public async getPaymentLinkStats(linkId: string): Promise<PaymentLinkStats> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      const response = await this.apiClient.get(
+        `/payment-links/${linkId}/stats`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get payment link stats:', error);
+      throw new Error('Failed to get payment link stats');
+    }
+  }
+
+  /**
+   * Create a plan customers can subscribe to
+   */
+  public async createSubscriptionPlan(
+    request: CreateSubscriptionPlanRequest
+  ): Promise<SubscriptionPlan> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Creating subscription plan');
+      const response = await this.apiClient.post(
+        '/subscription-plans',
+        request
+      );
+      console.log(`[PaysoClient] Subscription plan created:`, response.data);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to create subscription plan:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to create subscription plan: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Get the merchant's subscription plans, newest first
+   */
+  public async listSubscriptionPlans(): Promise<SubscriptionPlan[]> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Getting subscription plans');
+      const response = await this.apiClient.get('/subscription-plans');
+      console.log(
+        `[PaysoClient] Retrieved ${response.data.length} subscription plans`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get subscription plans:', error);
+      throw new Error('Failed to get subscription plans');
+    }
+  }
+
+  /**
+   * Get a subscription plan by ID
+   */
+  public async getSubscriptionPlan(planId: string): Promise<SubscriptionPlan> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Getting subscription plan ${planId}`);
+      const response = await this.apiClient.get(
+        `/subscription-plans/${planId}`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get subscription plan:', error);
+      throw new Error('Failed to get subscription plan');
+    }
+  }
+
+  /**
+   * Stop a plan from taking new subscriptions, existing ones keep renewing
+   */
+  public async deactivateSubscriptionPlan(
+    planId: string
+  ): Promise<SubscriptionPlan> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Deactivating subscription plan ${planId}`);
+      const response = await this.apiClient.post(
+        `/subscription-plans/${planId}/deactivate`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(
+        '[PaysoClient] Failed to deactivate subscription plan:',
+        error
+      );
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(
+        `Failed to deactivate subscription plan: ${errorMessage}`
+      );
+    }
+  }
+
+  /**
+   * Subscribe a customer to a plan
+   * The customer signs and sends the returned approval transaction, then call
+   * activateSubscription to take the first charge. A token account has one
+   * delegate, so this fails while it pays another active subscription.
+   */
+  public async createSubscription(
+    request: CreateSubscriptionRequest
+  ): Promise<SubscriptionApproval> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Creating subscription');
+      const response = await this.apiClient.post('/subscriptions', request);
+      console.log(
+        `[PaysoClient] Subscription created:`,
+        response.data.subscription
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to create subscription:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to create subscription: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Get the merchant's subscriptions, newest first
+   */
+  public async listSubscriptions(
+    status?: SubscriptionStatus
+  ): Promise<Subscription[]> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Getting subscriptions');
+      const response = await this.apiClient.get('/subscriptions', {
+        params: { status },
+      });
+      console.log(
+        `[PaysoClient] Retrieved ${response.data.length} subscriptions`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get subscriptions:', error);
+      throw new Error('Failed to get subscriptions');
+    }
+  }
+
+  /**
+   * Get a subscription by ID
+   */
+  public async getSubscription(subscriptionId: string): Promise<Subscription> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Getting subscription ${subscriptionId}`);
+      const response = await this.apiClient.get(
+        `/subscriptions/${subscriptionId}`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get subscription:', error);
+      throw new Error('Failed to get subscription');
+    }
+  }
+
+  /**
+   * Build a new approval for the customer, e.g. once the allowance is used up
+   * or the merchant changed its settlement token
+   */
+  public async createSubscriptionApproval(
+    subscriptionId: string,
+    approvalPeriods?: number
+  ): Promise<SubscriptionApproval> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(
+        `[PaysoClient] Creating approval for subscription ${subscriptionId}`
+      );
+      const response = await this.apiClient.post(
+        `/subscriptions/${subscriptionId}/approval`,
+        { approvalPeriods }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(
+        '[PaysoClient] Failed to create subscription approval:',
+        error
+      );
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(
+        `Failed to create subscription approval: ${errorMessage}`
+      );
+    }
+  }
+
+  /**
+   * Start billing once the customer's approval landed on-chain
+   * The first charge is sent right away, subscription_activated follows
+   * once it is confirmed
+   */
+  public async activateSubscription(
+    subscriptionId: string
+  ): Promise<Subscription> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Activating subscription ${subscriptionId}`);
+      const response = await this.apiClient.post(
+        `/subscriptions/${subscriptionId}/activate`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to activate subscription:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to activate subscription: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Cancel a subscription now, or at the end of its paid period
+   */
+  public async cancelSubscription(
+    subscriptionId: string,
+    request: CancelSubscriptionRequest = {}
+  ): Promise<Subscription> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Canceling subscription ${subscriptionId}`);
+      const response = await this.apiClient.post(
+        `/subscriptions/${subscriptionId}/cancel`,
+        request
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to cancel subscription:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to cancel subscription: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Get the webhook delivery log for the merchant, newest first
+   */
+  public async getWebhookDeliveries(
+    request: GetWebhookDeliveriesRequest = {}
+  ): Promise<WebhookDelivery[]> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Getting webhook deliveries');
+      const response = await this.apiClient.get('/webhooks/deliveries', {
+        params: request,
+      });
+      console.log(
+        `[PaysoClient] Retrieved ${response.data.length} webhook deliveries`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get webhook deliveries:', error);
+      throw new Error('Failed to get webhook deliveries');
+    }
+  }
+
+  /**
+   * Send a webhook delivery to the merchant endpoint again
+   */
+  public async redeliverWebhook(deliveryId: string): Promise<WebhookDelivery> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Redelivering webhook ${deliveryId}`);
+      const response = await this.apiClient.post(
+        `/webhooks/deliveries/${deliveryId}/redeliver`
+      );
+      console.log(`[PaysoClient] Webhook redelivered:`, response.data);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to redeliver webhook:', error);
+      throw new Error('Failed to redeliver webhook');
+    }
+  }
+
+  /**
+   * Get the type and scopes of the configured API key
+   */
+  public async getApiKeyInfo(): Promise<{
+    type: ApiKeyType | null;
+    scopes: ApiKeyScope[];
+  }> {
+    if (!this.apiKeyValidated) {
+      await this.validateApiKey();
+    }
+
+    return { type: this.apiKeyType, scopes: this.apiKeyScopes };
+  }
+
+  /**
+   * List the merchant's API keys
+   * Requires a secret key
+   */
+  public async listApiKeys(): Promise<ApiKey[]> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Getting API keys');
+      const response = await this.apiClient.get(
+        `/merchants/${this.merchantId}/api-keys`
+      );
+      console.log(`[PaysoClient] Retrieved ${response.data.length} API keys`);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get API keys:', error);
+      throw new Error('Failed to get API keys');
+    }
+  }
+
+  /**
+   * Create a new API key
+   * The plaintext key is only returned here, store it safely
+   */
+  public async createApiKey(
+    request: CreateApiKeyRequest
+  ): Promise<IssuedApiKey> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Creating ${request.type} API key`);
+      const response = await this.apiClient.post(
+        `/merchants/${this.merchantId}/api-keys`,
+        request
+      );
+      console.log(`[PaysoClient] API key created:`, response.data.apiKey);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to create API key:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to create API key: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Replace an API key with a new one
+   * The old key keeps working for the grace period, the server default is 24 hours
+   */
+  public async rotateApiKey(
+    apiKeyId: string,
+    gracePeriodMinutes?: number
+  ): Promise<IssuedApiKey> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Rotating API key ${apiKeyId}`);
+      const response = await this.apiClient.post(
+        `/merchants/${this.merchantId}/api-keys/${apiKeyId}/rotate`,
+        { gracePeriodMinutes }
+      );
+      console.log(`[PaysoClient] API key rotated:`, response.data.apiKey);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to rotate API key:', error);
+      throw new Error('Failed to rotate API key');
+    }
+  }
+
+  /**
+   * Revoke an API key immediately
+   */
+  public async revokeApiKey(apiKeyId: string): Promise<ApiKey> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log(`[PaysoClient] Revoking API key ${apiKeyId}`);
+      const response = await this.apiClient.delete(
+        `/merchants/${this.merchantId}/api-keys/${apiKeyId}`
+      );
+      console.log(`[PaysoClient] API key revoked:`, response.data);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to revoke API key:', error);
+      throw new Error('Failed to revoke API key');
+    }
+  }
+
+  /**
+   * Get the merchant the API key belongs to
+   * Returns a single-item list from the /merchants endpoint, which needs a
+   * secret key with the merchant:read scope
+   */
+  public async getMerchants(): Promise<Merchant[]> {
+    try {
+      // Make sure API key is validated first
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Getting merchants');
+      const response = await this.apiClient.get('/merchants');
+      console.log(`[PaysoClient] Retrieved ${response.data.length} merchants`);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to get merchants:', error);
+      throw new Error('Failed to get merchants');
+    }
+  }
+
+  /**
+   * Change the wallet payments are sent to
+   * The merchant signs in to the dashboard with this wallet from then on
+   */
+  public async updateWallet(walletAddress: string): Promise<Merchant> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Updating merchant wallet');
+      const response = await this.apiClient.put(
+        `/merchants/${this.merchantId}/wallet`,
+        { walletAddress }
+      );
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to update wallet:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to update wallet: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Change how swaps into the settlement token are quoted and built
+   * Settings left out keep their current value
+   */
+  public async updatePaymentSettings(
+    settings: Partial<PaymentSettings>
+  ): Promise<Merchant> {
+    try {
+      if (!this.apiKeyValidated) {
+        await this.validateApiKey();
+      }
+
+      console.log('[PaysoClient] Updating payment settings');
+      const response = await this.apiClient.put(
+        `/merchants/${this.merchantId}/payment-settings`,
+        settings
+      );
+      console.log(`[PaysoClient] Payment settings updated`);
+      return response.data;
+    } catch (error) {
+      console.error('[PaysoClient] Failed to update payment settings:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : 'Unknown error';
+      throw new Error(`Failed to update payment settings: ${errorMessage}`);
     }
   }
   /**
@@ -0,0 +1,15 @@
+import { Quote } from './models';
+
+/**
+ * Thrown by executePayment when the swap price moved since the customer
+ * accepted the quote. Execute again with the new quote's ID to accept it.
+ */
+export class QuoteChangedError extends Error {
+  constructor(
+    message: string,
+    public readonly quote: Quote
+  ) {
+    super(message);
+    this.name = 'QuoteChangedError';
+  }
+}
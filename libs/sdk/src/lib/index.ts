@@ -1,3 +1,5 @@
 export * from "./PaysoClient";
 export * from "./PaymentWidget";
 export * from "./models";
+export * from "./errors";
+export * from "./money";
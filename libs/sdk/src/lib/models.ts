@@ -3,30 +3,94 @@ export enum PaymentStatus {
   PROCESSING = 'processing',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  EXPIRED = 'expired',
+  REFUNDED = 'refunded',
+  PARTIALLY_REFUNDED = 'partially_refunded',
 }
 
 export interface Payment {
   id: string;
   merchantId: string;
-  amount: number;
-  currency: string;
-  tokenAmount: number;
+  amount: string; // Exact decimal, e.g. "12.5"
+  currency: string; // ISO 4217 code
+  tokenAmount: string; // Amount of the selected token, exact decimal
   selectedToken: string;
   destinationWallet: string;
+  legs: PaymentLeg[]; // Recipients of a split payment, empty otherwise
+  settlementMint: string; // Token the merchant receives
+  settlementDecimals: number;
+  settlementAmount?: string; // Amount in the settlement token, set once prepared
+  exchangeRate?: number; // Settlement token units per unit of currency
+  exchangeRateSource?: string;
+  exchangeRateAt?: Date;
+  quoteId?: string; // Swap quote locked when the payment was prepared
+  platformFeeBps: number; // Platform fee rate on the settlement amount
+  platformFeeAmount: string; // Platform fee in the settlement token
+  netAmount?: string; // Settlement token you receive after the platform fee
   customerWallet?: string;
+  customerEmail?: string | null;
+  metadata: PaymentMetadata; // Your own values, e.g. an order ID
   status: PaymentStatus;
   transactionSignature?: string;
+  reference?: string; // Solana Pay reference key
+  confirmationStatus?: 'processed' | 'confirmed' | 'finalized';
+  submittedAt?: Date;
+  expiresAt?: Date;
+  successUrl?: string | null; // Hosted checkout redirects here once paid
+  cancelUrl?: string | null; // Hosted checkout links back here
+  failureCode?: string;
+  failureReason?: string;
+  refundedAmount: string; // Total refunded in the settlement token
   createdAt: Date;
   updatedAt: Date;
 }
+
+// Values are always returned as strings
+export type PaymentMetadata = Record<string, string>;
+
+// Up to 50 keys of at most 40 characters, values up to 500 characters
+export type PaymentMetadataInput = Record<string, string | number | boolean>;
+
+export interface PaymentLeg {
+  id: string;
+  position: number;
+  walletAddress: string;
+  shareBps?: number | null; // Share of the payment, null for a fixed amount
+  amount: string; // Part of the payment amount, in its currency
+  settlementAmount?: string; // Settlement token this wallet receives, set once prepared
+}
 export interface Merchant {
   id: string;
   name: string;
   walletAddress: string;
-  apiKey: string;
+  apiKey?: string; // Secret key, only returned when the merchant is created
+  publishableKey?: string; // Only returned when the merchant is created
+  paymentExpiryMinutes: number;
+  settlementMint: string; // Mint of the token payments settle in, wrapped SOL means native SOL
+  settlementDecimals: number;
+  paymentSettings: PaymentSettings;
+  platformFeeBps?: number | null; // Your platform fee rate, null for the default
+  platformFeeMinUsd?: string | null; // Your minimum platform fee, null for the default
+  webhookUrl?: string | null;
   createdAt: string;
   updatedAt: string;
 }
+
+export enum PriorityFeeMode {
+  DYNAMIC = 'dynamic', // Jupiter estimates the fee, up to maxPriorityFeeLamports
+  FIXED = 'fixed', // Always priorityFeeMicroLamports per compute unit
+}
+
+// How swaps into the settlement token are quoted and built
+export interface PaymentSettings {
+  maxSlippageBps: number;
+  priorityFeeMode: PriorityFeeMode;
+  priorityFeeMicroLamports: number;
+  maxPriorityFeeLamports: number;
+  excludedDexes: string[]; // Jupiter DEX labels, e.g. "Raydium CLMM"
+  maxPriceImpactPct: number | null; // In percent, quotes above it are rejected
+  onlyDirectRoutes: boolean;
+}
 export interface Token {
   symbol: string;
   name: string;
@@ -40,8 +104,20 @@ export enum PaymentEventType {
   PAYMENT_UPDATED = 'payment_updated',
   PAYMENT_COMPLETED = 'payment_completed',
   PAYMENT_FAILED = 'payment_failed',
+  PAYMENT_EXPIRED = 'payment_expired',
   TRANSACTION_SUBMITTED = 'transaction_submitted',
   TRANSACTION_CONFIRMED = 'transaction_confirmed',
+  REFUND_CREATED = 'refund_created',
+  REFUND_COMPLETED = 'refund_completed',
+  REFUND_FAILED = 'refund_failed',
+  INVOICE_FINALIZED = 'invoice_finalized', // data is the Invoice
+  INVOICE_PAID = 'invoice_paid',
+  INVOICE_VOIDED = 'invoice_voided',
+  SUBSCRIPTION_CREATED = 'subscription_created', // data is the Subscription
+  SUBSCRIPTION_ACTIVATED = 'subscription_activated',
+  SUBSCRIPTION_RENEWED = 'subscription_renewed',
+  SUBSCRIPTION_PAYMENT_FAILED = 'subscription_payment_failed',
+  SUBSCRIPTION_CANCELED = 'subscription_canceled',
 }
 
 export interface PaymentEvent {
@@ -52,11 +128,74 @@ export interface PaymentEvent {
   timestamp: Date;
 }
 
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+export interface WebhookDelivery {
+  id: string;
+  merchantId: string;
+  paymentId: string | null;
+  eventType: PaymentEventType;
+  url: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GetWebhookDeliveriesRequest {
+  paymentId?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+export interface ListPaymentsRequest {
+  cursor?: string; // nextCursor of the previous page
+  limit?: number; // Up to 100, defaults to 20
+  sort?: 'createdAt' | 'amount';
+  order?: 'asc' | 'desc'; // Defaults to desc, newest first
+  status?: PaymentStatus | PaymentStatus[];
+  from?: Date | string; // Created at or after
+  to?: Date | string; // Created before
+  selectedToken?: string; // Mint the customer paid with
+  customerWallet?: string;
+  customerEmail?: string;
+  metadata?: PaymentMetadata; // Payments need every key to match
+  currency?: string;
+  minAmount?: string | number; // In the payment currency, inclusive
+  maxAmount?: string | number;
+}
+
+export interface PaymentPage {
+  data: Payment[];
+  nextCursor: string | null; // Null on the last page
+  total: number; // Payments matching the filters across every page
+}
+
 export interface CreatePaymentRequest {
   amount: number;
-  currency: string;
+  currency: string; // ISO 4217 code such as USD, EUR or GBP
   customerEmail?: string;
-  metadata?: string;
+  metadata?: PaymentMetadataInput;
+  expiresInMinutes?: number;
+  successUrl?: string; // Hosted checkout redirects here once paid
+  cancelUrl?: string; // Hosted checkout links back here
+  recipients?: PaymentRecipient[]; // Split the payment between several wallets
+}
+
+export interface PaymentRecipient {
+  walletAddress: string;
+  shareBps?: number; // Share of the payment in basis points
+  amount?: string | number; // Or a fixed amount in the payment currency, decimal strings keep every digit
 }
 
 export interface CreatePaymentResponse extends Payment {}
@@ -66,15 +205,31 @@ export interface PreparePaymentRequest {
   selectedToken: string;
 }
 
+export interface Quote {
+  id: string;
+  paymentId: string;
+  inputMint: string; // Token the customer pays with
+  inputDecimals: number;
+  outputMint: string; // Settlement token
+  outputDecimals: number;
+  inAmount: string; // Amount of the input token the customer pays
+  outAmount: string; // Amount the merchant receives
+  slippageBps: number;
+  priceImpactPct: number;
+  expiresAt: Date; // The price is locked until then
+  createdAt: Date;
+}
+
 export interface PreparePaymentResponse {
   payment: Payment;
-  quote: any;
+  quote: Quote | null; // Null when paying in the settlement token directly
 }
 
 export interface ExecutePaymentRequest {
   paymentId: string;
   selectedToken: string;
   customerWallet: string;
+  quoteId?: string; // Quote the customer accepted
 }
 
 export interface ExecutePaymentResponse {
@@ -82,9 +237,323 @@ export interface ExecutePaymentResponse {
   transactionData: any;
 }
 
+export interface SubmitTransactionRequest {
+  paymentId: string;
+  transactionSignature: string;
+}
+
 export interface ConfirmPaymentRequest {
   paymentId: string;
   transactionSignature: string;
 }
 
 export interface ConfirmPaymentResponse extends Payment {}
+
+export interface SolanaPayRequest {
+  reference: string;
+  transferRequestUrl: string | null; // solana: URL for a direct transfer, null for split payments and platform fees
+  transactionRequestUrl: string; // solana: URL the wallet fetches a transaction from
+}
+
+export enum RefundStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export interface Refund {
+  id: string;
+  paymentId: string;
+  merchantId: string;
+  amount: string; // In the payment's settlement token
+  reason: string | null;
+  destinationWallet: string; // Customer wallet receiving the refund
+  status: RefundStatus;
+  transactionSignature: string | null;
+  failureReason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateRefundRequest {
+  paymentId: string;
+  amount?: string | number; // In the settlement token, defaults to the remaining refundable amount. Decimal strings keep every digit.
+  reason?: string;
+}
+
+export interface CreateRefundResponse {
+  refund: Refund;
+  transaction: string; // Base64 unsigned transaction for the merchant wallet to sign
+}
+
+export interface ConfirmRefundRequest {
+  paymentId: string;
+  refundId: string;
+  transactionSignature: string;
+}
+
+export enum InvoiceStatus {
+  DRAFT = 'draft', // Still editable, has no number or payment yet
+  OPEN = 'open', // Finalized and waiting to be paid
+  PAID = 'paid',
+  VOID = 'void',
+}
+
+export interface Invoice {
+  id: string;
+  merchantId: string;
+  number: string | null; // e.g. INV-0042, assigned on finalize
+  sequence: number | null;
+  status: InvoiceStatus;
+  currency: string; // ISO 4217 code such as USD or EUR
+  customerName: string | null;
+  customerEmail: string | null;
+  memo: string | null;
+  dueDate: Date | null;
+  lineItems: InvoiceLineItem[];
+  discountBps: number | null; // Percentage discount, unless a fixed amount
+  subtotal: string; // Exact decimals in the invoice currency
+  discountAmount: string;
+  taxAmount: string;
+  total: string; // subtotal - discountAmount + taxAmount
+  paymentId: string | null; // Payment the customer pays the invoice with
+  finalizedAt: Date | null;
+  paidAt: Date | null;
+  voidedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InvoiceLineItem {
+  id: string;
+  position: number;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  taxRateBps: number;
+  amount: string; // quantity * unitPrice
+  discountAmount: string; // Share of the invoice discount
+  taxAmount: string;
+}
+
+export interface InvoiceLineItemInput {
+  description: string;
+  quantity: number;
+  unitPrice: number; // In the invoice currency
+  taxRateBps?: number; // 825 for 8.25%, applied after the discount
+}
+
+export interface CreateInvoiceRequest {
+  currency: string;
+  lineItems: InvoiceLineItemInput[];
+  customerName?: string;
+  customerEmail?: string;
+  memo?: string;
+  dueDate?: Date | string;
+  discountBps?: number; // One of discountBps or discountAmount
+  discountAmount?: number;
+}
+
+// Fields left out keep their value, null clears them
+export interface UpdateInvoiceRequest {
+  currency?: string;
+  lineItems?: InvoiceLineItemInput[]; // Replaces every line
+  customerName?: string | null;
+  customerEmail?: string | null;
+  memo?: string | null;
+  dueDate?: Date | string | null;
+  discountBps?: number | null;
+  discountAmount?: number | null;
+}
+
+export interface PaymentLink {
+  id: string;
+  merchantId: string;
+  description: string;
+  currency: string; // ISO 4217 code such as USD or EUR
+  amount: string | null; // Fixed price, null when the customer chooses
+  minAmount: string | null; // Bounds for customer-chosen amounts
+  maxAmount: string | null;
+  maxUses: number | null; // Unlimited when null
+  expiresAt: Date | null;
+  active: boolean;
+  deactivatedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePaymentLinkRequest {
+  description: string;
+  currency: string;
+  amount?: number; // Leave out to let the customer choose
+  minAmount?: number;
+  maxAmount?: number;
+  maxUses?: number;
+  expiresAt?: Date | string;
+}
+
+export interface PaymentLinkStats {
+  payments: number; // Payments minted for visitors
+  paidPayments: number; // Completed, including ones refunded since
+  collectedAmount: string; // In the link currency
+  remainingUses: number | null;
+  lastPaymentAt: Date | null;
+}
+
+// What customers see on the link page
+export interface PublicPaymentLink {
+  id: string;
+  description: string;
+  currency: string;
+  amount: string | null;
+  minAmount: string | null;
+  maxAmount: string | null;
+  available: boolean; // False once inactive, expired or used up
+}
+
+export interface ResolvePaymentLinkRequest {
+  amount?: number; // Required when the link has no fixed amount
+  customerEmail?: string;
+}
+
+export enum SubscriptionInterval {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+  YEAR = 'year',
+}
+
+export interface SubscriptionPlan {
+  id: string;
+  merchantId: string;
+  name: string;
+  amount: string; // Charged every period, in the plan currency
+  currency: string; // ISO 4217 code such as USD or EUR
+  interval: SubscriptionInterval;
+  intervalCount: number; // e.g. 3 with month bills quarterly
+  active: boolean; // Inactive plans take no new subscriptions
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSubscriptionPlanRequest {
+  name: string;
+  amount: number;
+  currency: string;
+  interval: SubscriptionInterval;
+  intervalCount?: number; // Defaults to 1
+}
+
+export enum SubscriptionStatus {
+  INCOMPLETE = 'incomplete', // Waiting for the first charge
+  ACTIVE = 'active',
+  PAST_DUE = 'past_due', // A renewal failed and is being retried
+  CANCELED = 'canceled',
+}
+
+export interface Subscription {
+  id: string;
+  merchantId: string;
+  planId: string;
+  plan: SubscriptionPlan;
+  customerWallet: string;
+  customerEmail: string | null;
+  tokenAccount: string; // Customer token account charges are pulled from
+  settlementMint: string;
+  settlementDecimals: number;
+  billingAuthority: string; // Delegate the customer approves
+  approvedAmount: string; // Allowance to approve, in the settlement token
+  status: SubscriptionStatus;
+  currentPeriodStart: Date | null;
+  currentPeriodEnd: Date | null;
+  nextBillingAt: Date | null;
+  failedAttempts: number;
+  latestPaymentId: string | null;
+  lastFailureCode: string | null;
+  lastFailureReason: string | null;
+  cancelAtPeriodEnd: boolean;
+  canceledAt: Date | null;
+  cancellationReason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSubscriptionRequest {
+  planId: string;
+  customerWallet: string;
+  customerEmail?: string;
+  approvalPeriods?: number; // Periods the allowance covers, defaults to 12
+}
+
+export interface SubscriptionApproval {
+  subscription: Subscription;
+  transaction: string; // Base64 approval for the customer to sign and send
+}
+
+export interface CancelSubscriptionRequest {
+  atPeriodEnd?: boolean; // Keep the paid period running
+}
+
+export enum ApiKeyType {
+  PUBLISHABLE = 'publishable', // Safe to embed in browser code
+  SECRET = 'secret', // Server-side only
+}
+
+export enum ApiKeyScope {
+  PAYMENTS_CREATE = 'payments:create',
+  PAYMENTS_READ = 'payments:read',
+  PAYMENTS_LIST = 'payments:list',
+  PAYMENTS_SPLIT = 'payments:split', // Pay other wallets than the merchant's
+  REFUNDS_WRITE = 'refunds:write',
+  REFUNDS_READ = 'refunds:read',
+  INVOICES_WRITE = 'invoices:write',
+  INVOICES_READ = 'invoices:read',
+  PAYMENT_LINKS_WRITE = 'payment_links:write',
+  PAYMENT_LINKS_READ = 'payment_links:read',
+  SUBSCRIPTIONS_WRITE = 'subscriptions:write',
+  SUBSCRIPTIONS_READ = 'subscriptions:read',
+  WEBHOOKS = 'webhooks',
+  MERCHANT_READ = 'merchant:read',
+  MERCHANT_WRITE = 'merchant:write',
+  API_KEYS = 'api_keys',
+}
+
+export interface ApiKey {
+  id: string;
+  merchantId: string;
+  type: ApiKeyType;
+  label: string | null;
+  keyPrefix: string; // Start of the key, e.g. cpay_sk_1a2b
+  lastFour: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt: Date | null;
+  expiresAt: Date | null; // Set once the key was rotated
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateApiKeyRequest {
+  type: ApiKeyType;
+  label?: string;
+  scopes?: ApiKeyScope[]; // Defaults to every scope the key type allows
+}
+
+export interface IssuedApiKey {
+  apiKey: ApiKey;
+  key: string; // Plaintext key, only ever returned once
+}
+
+export interface CreateMerchantRequest {
+  name: string;
+  walletAddress: string; // Receives payments and signs in to the dashboard
+  paymentExpiryMinutes?: number;
+  settlementMint?: string; // Defaults to USDC
+}
+
+export interface WalletSession {
+  token: string; // Sent as "Authorization: Bearer <token>"
+  expiresAt: Date;
+  merchantId: string;
+  merchants: Merchant[]; // Every merchant the wallet owns
+}
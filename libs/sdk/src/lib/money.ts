@@ -0,0 +1,42 @@
+/**
+ * Convert a decimal amount, such as the strings the API returns, to base
+ * units without going through floating point. Extra decimals are truncated.
+ */
+export function parseUnits(amount: string | number, decimals: number): bigint {
+  const match = /^(-)?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(
+    String(amount).trim()
+  );
+  if (!match || !(match[2] || match[3])) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  const [, sign = '', whole = '', fraction = '', exponent = '0'] = match;
+  // Move the decimal point so the digits after it are exactly `decimals` long
+  const digits = `${whole}${fraction}`;
+  const point = whole.length + parseInt(exponent, 10) + decimals;
+  const units =
+    point <= 0
+      ? '0'
+      : digits.slice(0, point).padEnd(point, '0').replace(/^0+/, '');
+
+  return BigInt(`${sign}${units || '0'}`);
+}
+
+/**
+ * Format base units, e.g. a transfer amount, as a decimal string without
+ * trailing zeros
+ */
+export function formatUnits(
+  baseUnits: bigint | string,
+  decimals: number
+): string {
+  const units = BigInt(baseUnits);
+  const negative = units < BigInt(0);
+  const digits = (negative ? -units : units)
+    .toString()
+    .padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
@@ -0,0 +1,619 @@
+/**
+ * Minimal QR code encoder (ISO/IEC 18004) so the widget can draw Solana Pay
+ * QR codes without calling an external service. Only byte mode is supported,
+ * which covers any URL.
+ */
+
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrSvgOptions {
+  size?: number; // Rendered width and height in pixels
+  margin?: number; // Quiet zone in modules
+  color?: string;
+  background?: string;
+}
+
+// Format bits for each error correction level
+const FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+// Error correction codewords per block, indexed by version (1-40)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30,
+    28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  M: [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+    26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28,
+  ],
+  Q: [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28,
+    26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  H: [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28,
+    26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+};
+
+// Number of error correction blocks, indexed by version (1-40)
+const NUM_ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10,
+    12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  M: [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17,
+    17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  Q: [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23,
+    23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  H: [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77,
+    81,
+  ],
+};
+
+/**
+ * Encode text as a QR code and return its modules, true meaning dark
+ */
+export function createQrCode(
+  text: string,
+  errorCorrectionLevel: QrErrorCorrectionLevel = 'M',
+): boolean[][] {
+  const data = Array.from(new TextEncoder().encode(text));
+
+  // Pick the smallest version the data fits in
+  let version = 1;
+  for (; ; version++) {
+    if (version > 40) {
+      throw new Error('Text is too long to fit in a QR code');
+    }
+
+    const capacityBits = getNumDataCodewords(version, errorCorrectionLevel) * 8;
+    const usedBits = 4 + getCharCountBits(version) + data.length * 8;
+    if (usedBits <= capacityBits) {
+      break;
+    }
+  }
+
+  const codewords = addEccAndInterleave(
+    encodeData(data, version, errorCorrectionLevel),
+    version,
+    errorCorrectionLevel,
+  );
+
+  const size = version * 4 + 17;
+  const modules = createGrid(size);
+  const isFunction = createGrid(size);
+
+  drawFunctionPatterns(modules, isFunction, version);
+  drawCodewords(modules, isFunction, codewords);
+
+  // Keep the mask with the lowest penalty score
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(modules, isFunction, mask);
+    drawFormatBits(modules, isFunction, errorCorrectionLevel, mask);
+    const penalty = getPenaltyScore(modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    // Masking twice undoes it
+    applyMask(modules, isFunction, mask);
+  }
+
+  applyMask(modules, isFunction, bestMask);
+  drawFormatBits(modules, isFunction, errorCorrectionLevel, bestMask);
+
+  return modules;
+}
+
+/**
+ * Render QR code modules as an SVG string
+ */
+export function renderQrCodeSvg(
+  modules: boolean[][],
+  options: QrSvgOptions = {},
+): string {
+  const margin = options.margin ?? 4;
+  const pixelSize = options.size ?? 200;
+  const color = options.color ?? '#000000';
+  const background = options.background ?? '#FFFFFF';
+  const dimension = modules.length + margin * 2;
+
+  let path = '';
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) {
+        path += `M${x + margin},${y + margin}h1v1h-1z`;
+      }
+    }),
+  );
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${pixelSize}" height="${pixelSize}" ` +
+    `viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${background}"/>` +
+    `<path d="${path}" fill="${color}"/>` +
+    `</svg>`
+  );
+}
+
+function createGrid(size: number): boolean[][] {
+  return Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false),
+  );
+}
+
+function getCharCountBits(version: number): number {
+  return version < 10 ? 8 : 16;
+}
+
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function getNumDataCodewords(
+  version: number,
+  level: QrErrorCorrectionLevel,
+): number {
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] *
+      NUM_ERROR_CORRECTION_BLOCKS[level][version]
+  );
+}
+
+/**
+ * Build the data codewords: mode, length, payload, terminator and padding
+ */
+function encodeData(
+  data: number[],
+  version: number,
+  level: QrErrorCorrectionLevel,
+): number[] {
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  appendBits(0x4, 4); // Byte mode
+  appendBits(data.length, getCharCountBits(version));
+  data.forEach((byte) => appendBits(byte, 8));
+
+  const capacityBits = getNumDataCodewords(version, level) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(
+      bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0),
+    );
+  }
+  return codewords;
+}
+
+/**
+ * Split data into blocks, append Reed-Solomon codewords and interleave them
+ */
+function addEccAndInterleave(
+  data: number[],
+  version: number,
+  level: QrErrorCorrectionLevel,
+): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[level][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = computeReedSolomonDivisor(blockEccLength);
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const dataLength =
+      shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1);
+    const blockData = data.slice(offset, offset + dataLength);
+    offset += dataLength;
+
+    const block = blockData.concat(
+      computeReedSolomonRemainder(blockData, divisor),
+    );
+    // Short blocks get a placeholder so every block has the same length
+    if (i < numShortBlocks) {
+      block.splice(dataLength, 0, -1);
+    }
+    blocks.push(block);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block) => {
+      if (block[i] !== -1) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function computeReedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = multiplyGf(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = multiplyGf(root, 0x02);
+  }
+  return result;
+}
+
+function computeReedSolomonRemainder(
+  data: number[],
+  divisor: number[],
+): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  data.forEach((byte) => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiplyGf(coefficient, factor);
+    });
+  });
+  return result;
+}
+
+// Multiply in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function multiplyGf(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function drawFunctionPatterns(
+  modules: boolean[][],
+  isFunction: boolean[][],
+  version: number,
+): void {
+  const size = modules.length;
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  });
+
+  // Alignment patterns
+  const positions = getAlignmentPatternPositions(version);
+  positions.forEach((cy, i) =>
+    positions.forEach((cx, j) => {
+      const overlapsFinder =
+        (i === 0 && j === 0) ||
+        (i === 0 && j === positions.length - 1) ||
+        (i === positions.length - 1 && j === 0);
+      if (overlapsFinder) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(
+            cx + dx,
+            cy + dy,
+            Math.max(Math.abs(dx), Math.abs(dy)) !== 1,
+          );
+        }
+      }
+    }),
+  );
+
+  // Reserve the format areas, drawn once the mask is known
+  for (let i = 0; i < 9; i++) {
+    isFunction[8][i] = true;
+    isFunction[i][8] = true;
+  }
+  for (let i = 0; i < 8; i++) {
+    isFunction[8][size - 1 - i] = true;
+    isFunction[size - 1 - i][8] = true;
+  }
+
+  // Version information
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, dark);
+      setFunction(b, a, dark);
+    }
+  }
+}
+
+function getAlignmentPatternPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+
+  const numAlign = Math.floor(version / 7) + 2;
+  const step =
+    version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (
+    let position = version * 4 + 10;
+    result.length < numAlign;
+    position -= step
+  ) {
+    result.splice(1, 0, position);
+  }
+  return result;
+}
+
+function drawFormatBits(
+  modules: boolean[][],
+  isFunction: boolean[][],
+  level: QrErrorCorrectionLevel,
+  mask: number,
+): void {
+  const size = modules.length;
+  const data = (FORMAT_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+  // First copy, around the top left finder
+  for (let i = 0; i <= 5; i++) {
+    modules[i][8] = bit(i);
+  }
+  modules[7][8] = bit(6);
+  modules[8][8] = bit(7);
+  modules[8][7] = bit(8);
+  for (let i = 9; i < 15; i++) {
+    modules[8][14 - i] = bit(i);
+  }
+
+  // Second copy, split between the other two finders
+  for (let i = 0; i < 8; i++) {
+    modules[8][size - 1 - i] = bit(i);
+  }
+  for (let i = 8; i < 15; i++) {
+    modules[size - 15 + i][8] = bit(i);
+  }
+
+  // Always dark module
+  modules[size - 8][8] = true;
+  isFunction[size - 8][8] = true;
+}
+
+/**
+ * Place codewords in the zigzag pattern, two columns at a time from the right
+ */
+function drawCodewords(
+  modules: boolean[][],
+  isFunction: boolean[][],
+  codewords: number[],
+): void {
+  const size = modules.length;
+  let bitIndex = 0;
+
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // Skip the vertical timing pattern
+    if (right === 6) {
+      right = 5;
+    }
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] =
+            ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) !== 0;
+          bitIndex++;
+        }
+      }
+    }
+  }
+}
+
+function applyMask(
+  modules: boolean[][],
+  isFunction: boolean[][],
+  mask: number,
+): void {
+  const size = modules.length;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (isFunction[y][x]) {
+        continue;
+      }
+
+      let invert: boolean;
+      switch (mask) {
+        case 0:
+          invert = (x + y) % 2 === 0;
+          break;
+        case 1:
+          invert = y % 2 === 0;
+          break;
+        case 2:
+          invert = x % 3 === 0;
+          break;
+        case 3:
+          invert = (x + y) % 3 === 0;
+          break;
+        case 4:
+          invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+          break;
+        case 5:
+          invert = ((x * y) % 2) + ((x * y) % 3) === 0;
+          break;
+        case 6:
+          invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+          break;
+        default:
+          invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+          break;
+      }
+
+      if (invert) {
+        modules[y][x] = !modules[y][x];
+      }
+    }
+  }
+}
+
+/**
+ * Score a masked symbol using the penalty rules from the specification
+ */
+function getPenaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+
+  const scoreLine = (line: boolean[]) => {
+    // Runs of five or more modules of the same color
+    let runLength = 1;
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        runLength++;
+      } else {
+        if (runLength >= 5) {
+          penalty += runLength - 2;
+        }
+        runLength = 1;
+      }
+    }
+
+    // Finder-like 1:1:3:1:1 patterns with four light modules on either side
+    const padded = [
+      false,
+      false,
+      false,
+      false,
+      ...line,
+      false,
+      false,
+      false,
+      false,
+    ];
+    for (let i = 0; i + 11 <= padded.length; i++) {
+      const core =
+        padded[i + 4] &&
+        !padded[i + 5] &&
+        padded[i + 6] &&
+        padded[i + 7] &&
+        padded[i + 8] &&
+        !padded[i + 9] &&
+        padded[i + 10];
+      if (!core) {
+        continue;
+      }
+      const lightBefore = [0, 1, 2, 3].every((k) => !padded[i + k]);
+      const lightAfter =
+        i + 15 <= padded.length &&
+        [11, 12, 13, 14].every((k) => !padded[i + k]);
+      if (lightBefore || lightAfter) {
+        penalty += 40;
+      }
+    }
+  };
+
+  for (let y = 0; y < size; y++) {
+    scoreLine(modules[y]);
+  }
+  for (let x = 0; x < size; x++) {
+    scoreLine(modules.map((row) => row[x]));
+  }
+
+  // 2x2 blocks of the same color
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (
+        color === modules[y][x + 1] &&
+        color === modules[y + 1][x] &&
+        color === modules[y + 1][x + 1]
+      ) {
+        penalty += 3;
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const dark = modules.reduce(
+    (total, row) => total + row.filter((module) => module).length,
+    0,
+  );
+  const total = size * size;
+  const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  penalty += k * 10;
+
+  return penalty;
+}